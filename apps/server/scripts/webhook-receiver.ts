@@ -0,0 +1,38 @@
+/**
+ * Local webhook receiver for testing alert delivery
+ *
+ * Logs every alert POSTed to it. Create a webhook watch pointing at
+ * http://localhost:4000, then send it a test alert, or run the server with
+ * `wrangler dev --test-scheduled` and request /__scheduled with the monitoring
+ * cron from wrangler.jsonc to evaluate every watch.
+ *
+ * Usage: bun webhook:receive [port]
+ * Replies with WEBHOOK_STATUS (default 200) to exercise delivery retries.
+ */
+
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] ?? 4000);
+const status = Number(process.env.WEBHOOK_STATUS ?? 200);
+
+createServer((request, response) => {
+	let body = "";
+	request.on("data", (chunk) => {
+		body += chunk;
+	});
+	request.on("end", () => {
+		let payload: unknown = body;
+		try {
+			payload = JSON.parse(body);
+		} catch {
+			// Not JSON, log the raw body
+		}
+		console.log(
+			`[${new Date().toISOString()}] ${request.method} ${request.url}`,
+			payload,
+		);
+		response.writeHead(status).end();
+	});
+}).listen(port, () => {
+	console.log(`Webhook receiver listening on http://localhost:${port}`);
+});
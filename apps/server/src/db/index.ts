@@ -1,4 +1,10 @@
 import { env } from "cloudflare:workers";
 import { drizzle } from "drizzle-orm/d1";
+import * as indexer from "./schema/indexer";
+import * as monitoring from "./schema/monitoring";
+import * as positions from "./schema/positions";
+import * as rebalancing from "./schema/rebalancing";
 
-export const db = drizzle(env.DB);
+export const db = drizzle(env.DB, {
+	schema: { ...indexer, ...monitoring, ...positions, ...rebalancing },
+});
@@ -0,0 +1,78 @@
+CREATE TABLE `indexed_blocks` (
+	`chain_id` integer NOT NULL,
+	`block_number` integer NOT NULL,
+	`block_hash` text NOT NULL,
+	PRIMARY KEY(`chain_id`, `block_number`)
+);
+--> statement-breakpoint
+CREATE TABLE `indexer_cursors` (
+	`chain_id` integer PRIMARY KEY NOT NULL,
+	`block_number` integer NOT NULL,
+	`block_hash` text NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `pools` (
+	`chain_id` integer NOT NULL,
+	`pool_id` text NOT NULL,
+	`currency0` text NOT NULL,
+	`currency1` text NOT NULL,
+	`fee` integer NOT NULL,
+	`tick_spacing` integer NOT NULL,
+	`hooks` text NOT NULL,
+	`sqrt_price_x96` text NOT NULL,
+	`tick` integer NOT NULL,
+	`liquidity` text NOT NULL,
+	`created_block` integer NOT NULL,
+	`updated_block` integer NOT NULL,
+	PRIMARY KEY(`chain_id`, `pool_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `position_events` (
+	`chain_id` integer NOT NULL,
+	`block_number` integer NOT NULL,
+	`log_index` integer NOT NULL,
+	`transaction_hash` text NOT NULL,
+	`token_id` text NOT NULL,
+	`type` text NOT NULL,
+	`liquidity_delta` text,
+	`amount0` text,
+	`amount1` text,
+	`from` text,
+	`to` text,
+	PRIMARY KEY(`chain_id`, `block_number`, `log_index`)
+);
+--> statement-breakpoint
+CREATE INDEX `position_events_token_idx` ON `position_events` (`chain_id`,`token_id`);--> statement-breakpoint
+CREATE TABLE `positions` (
+	`chain_id` integer NOT NULL,
+	`token_id` text NOT NULL,
+	`owner` text NOT NULL,
+	`pool_id` text,
+	`tick_lower` integer,
+	`tick_upper` integer,
+	`liquidity` text NOT NULL,
+	`burned` integer NOT NULL,
+	`created_block` integer NOT NULL,
+	`updated_block` integer NOT NULL,
+	PRIMARY KEY(`chain_id`, `token_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `positions_owner_idx` ON `positions` (`owner`);--> statement-breakpoint
+CREATE TABLE `swaps` (
+	`chain_id` integer NOT NULL,
+	`block_number` integer NOT NULL,
+	`log_index` integer NOT NULL,
+	`transaction_hash` text NOT NULL,
+	`pool_id` text NOT NULL,
+	`sender` text NOT NULL,
+	`amount0` text NOT NULL,
+	`amount1` text NOT NULL,
+	`sqrt_price_x96` text NOT NULL,
+	`liquidity` text NOT NULL,
+	`tick` integer NOT NULL,
+	`fee` integer NOT NULL,
+	PRIMARY KEY(`chain_id`, `block_number`, `log_index`)
+);
+--> statement-breakpoint
+CREATE INDEX `swaps_pool_idx` ON `swaps` (`chain_id`,`pool_id`);
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE `alerts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`watch_id` integer NOT NULL,
+	`owner` text NOT NULL,
+	`chain_id` integer NOT NULL,
+	`token_id` text NOT NULL,
+	`protocol_version` text NOT NULL,
+	`kind` text NOT NULL,
+	`message` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`read_at` integer,
+	FOREIGN KEY (`watch_id`) REFERENCES `watches`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `alerts_owner_idx` ON `alerts` (`owner`,`created_at`);--> statement-breakpoint
+CREATE TABLE `watches` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`owner` text NOT NULL,
+	`chain_id` integer NOT NULL,
+	`token_id` text NOT NULL,
+	`protocol_version` text NOT NULL,
+	`channel` text NOT NULL,
+	`target` text,
+	`alert_out_of_range` integer DEFAULT true NOT NULL,
+	`edge_threshold_percent` real,
+	`fees_threshold_usd` real,
+	`active_kinds` text DEFAULT '[]' NOT NULL,
+	`last_checked_at` integer,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `watches_owner_idx` ON `watches` (`owner`);
\ No newline at end of file
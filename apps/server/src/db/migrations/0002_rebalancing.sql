@@ -0,0 +1,28 @@
+CREATE TABLE `rebalance_strategies` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`owner` text NOT NULL,
+	`chain_id` integer NOT NULL,
+	`token_id` text NOT NULL,
+	`range` text NOT NULL,
+	`width` real NOT NULL,
+	`trigger_minutes` integer,
+	`out_of_range_since` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `rebalance_strategies_position_idx` ON `rebalance_strategies` (`chain_id`,`token_id`);--> statement-breakpoint
+CREATE TABLE `rebalances` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`owner` text NOT NULL,
+	`chain_id` integer NOT NULL,
+	`from_token_id` text NOT NULL,
+	`to_token_id` text NOT NULL,
+	`strategy_id` integer,
+	`transaction_hashes` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`strategy_id`) REFERENCES `rebalance_strategies`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `rebalances_from_idx` ON `rebalances` (`chain_id`,`from_token_id`);--> statement-breakpoint
+CREATE INDEX `rebalances_to_idx` ON `rebalances` (`chain_id`,`to_token_id`);
\ No newline at end of file
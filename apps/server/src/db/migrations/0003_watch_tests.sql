@@ -0,0 +1 @@
+ALTER TABLE `watches` ADD `last_tested_at` integer;
\ No newline at end of file
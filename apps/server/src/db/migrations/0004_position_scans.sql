@@ -0,0 +1,8 @@
+CREATE TABLE `position_scans` (
+	`chain_id` integer NOT NULL,
+	`owner` text NOT NULL,
+	`block_number` integer NOT NULL,
+	`token_ids` text NOT NULL,
+	`updated_at` integer NOT NULL,
+	PRIMARY KEY(`chain_id`, `owner`)
+);
@@ -0,0 +1,3 @@
+DELETE FROM `rebalances` WHERE `id` NOT IN (SELECT min(`id`) FROM `rebalances` GROUP BY `chain_id`, `from_token_id`);--> statement-breakpoint
+DROP INDEX `rebalances_from_idx`;--> statement-breakpoint
+CREATE UNIQUE INDEX `rebalances_from_idx` ON `rebalances` (`chain_id`,`from_token_id`);
\ No newline at end of file
@@ -0,0 +1,136 @@
+/**
+ * Indexer tables
+ *
+ * Uniswap V4 state rebuilt from PoolManager and PositionManager logs. Token
+ * amounts, liquidity and prices are stored as base-unit decimal strings since
+ * they overflow SQLite integers.
+ */
+
+import {
+	index,
+	integer,
+	primaryKey,
+	sqliteTable,
+	text,
+} from "drizzle-orm/sqlite-core";
+
+// Last block indexed on each chain; its hash is checked against the chain to detect reorgs
+export const indexerCursors = sqliteTable("indexer_cursors", {
+	chainId: integer("chain_id").primaryKey(),
+	blockNumber: integer("block_number").notNull(),
+	blockHash: text("block_hash").notNull(),
+	updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+});
+
+// Hashes of indexed blocks, the candidates for a common ancestor after a reorg
+export const indexedBlocks = sqliteTable(
+	"indexed_blocks",
+	{
+		chainId: integer("chain_id").notNull(),
+		blockNumber: integer("block_number").notNull(),
+		blockHash: text("block_hash").notNull(),
+	},
+	(table) => [primaryKey({ columns: [table.chainId, table.blockNumber] })],
+);
+
+export const pools = sqliteTable(
+	"pools",
+	{
+		chainId: integer("chain_id").notNull(),
+		poolId: text("pool_id").notNull(),
+		currency0: text("currency0").notNull(),
+		currency1: text("currency1").notNull(),
+		fee: integer("fee").notNull(),
+		tickSpacing: integer("tick_spacing").notNull(),
+		hooks: text("hooks").notNull(),
+		sqrtPriceX96: text("sqrt_price_x96").notNull(),
+		tick: integer("tick").notNull(),
+		// Active liquidity at the current tick
+		liquidity: text("liquidity").notNull(),
+		createdBlock: integer("created_block").notNull(),
+		updatedBlock: integer("updated_block").notNull(),
+	},
+	(table) => [primaryKey({ columns: [table.chainId, table.poolId] })],
+);
+
+export const positions = sqliteTable(
+	"positions",
+	{
+		chainId: integer("chain_id").notNull(),
+		tokenId: text("token_id").notNull(),
+		owner: text("owner").notNull(),
+		// Set by the first liquidity change, which follows the mint in the same transaction
+		poolId: text("pool_id"),
+		tickLower: integer("tick_lower"),
+		tickUpper: integer("tick_upper"),
+		liquidity: text("liquidity").notNull(),
+		burned: integer("burned", { mode: "boolean" }).notNull(),
+		createdBlock: integer("created_block").notNull(),
+		updatedBlock: integer("updated_block").notNull(),
+	},
+	(table) => [
+		primaryKey({ columns: [table.chainId, table.tokenId] }),
+		index("positions_owner_idx").on(table.owner),
+	],
+);
+
+export const positionEvents = sqliteTable(
+	"position_events",
+	{
+		chainId: integer("chain_id").notNull(),
+		blockNumber: integer("block_number").notNull(),
+		logIndex: integer("log_index").notNull(),
+		transactionHash: text("transaction_hash").notNull(),
+		tokenId: text("token_id").notNull(),
+		type: text("type", {
+			enum: ["mint", "increase", "decrease", "collect", "transfer"],
+		}).notNull(),
+		liquidityDelta: text("liquidity_delta"),
+		// Principal moved at the pool price of the event, null for transfers,
+		// collections and pools initialized before the indexer started
+		amount0: text("amount0"),
+		amount1: text("amount1"),
+		// Transfers only
+		from: text("from"),
+		to: text("to"),
+	},
+	(table) => [
+		primaryKey({
+			columns: [table.chainId, table.blockNumber, table.logIndex],
+		}),
+		index("position_events_token_idx").on(table.chainId, table.tokenId),
+	],
+);
+
+// Every PoolManager swap on every indexed chain, so any pool can be replayed.
+// This is the largest table: about 450 bytes a row with its indexes, so a
+// chain doing 100k V4 swaps a day adds roughly 45 MB a day to D1.
+export const swaps = sqliteTable(
+	"swaps",
+	{
+		chainId: integer("chain_id").notNull(),
+		blockNumber: integer("block_number").notNull(),
+		logIndex: integer("log_index").notNull(),
+		transactionHash: text("transaction_hash").notNull(),
+		poolId: text("pool_id").notNull(),
+		sender: text("sender").notNull(),
+		// Signed balance changes of the swapper, as in the Swap event: negative
+		// for the token paid into the pool, positive for the token received
+		amount0: text("amount0").notNull(),
+		amount1: text("amount1").notNull(),
+		sqrtPriceX96: text("sqrt_price_x96").notNull(),
+		liquidity: text("liquidity").notNull(),
+		tick: integer("tick").notNull(),
+		fee: integer("fee").notNull(),
+	},
+	(table) => [
+		primaryKey({
+			columns: [table.chainId, table.blockNumber, table.logIndex],
+		}),
+		index("swaps_pool_idx").on(table.chainId, table.poolId),
+	],
+);
+
+export type Pool = typeof pools.$inferSelect;
+export type Position = typeof positions.$inferSelect;
+export type PositionEventType = (typeof positionEvents.$inferSelect)["type"];
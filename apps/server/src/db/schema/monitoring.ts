@@ -0,0 +1,84 @@
+/**
+ * Monitoring tables
+ *
+ * Positions users watch, the conditions that raise an alert for each, and the
+ * in-app inbox alerts are delivered to.
+ */
+
+import { sql } from "drizzle-orm";
+import {
+	index,
+	integer,
+	real,
+	sqliteTable,
+	text,
+} from "drizzle-orm/sqlite-core";
+
+export const ALERT_KINDS = [
+	"out_of_range",
+	"near_edge",
+	"fees",
+	"test",
+] as const;
+export const ALERT_CHANNELS = ["inbox", "webhook", "email"] as const;
+
+export type AlertKind = (typeof ALERT_KINDS)[number];
+export type AlertChannel = (typeof ALERT_CHANNELS)[number];
+
+export const watches = sqliteTable(
+	"watches",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		// Address the watch belongs to, whose inbox receives in-app alerts
+		owner: text("owner").notNull(),
+		chainId: integer("chain_id").notNull(),
+		tokenId: text("token_id").notNull(),
+		protocolVersion: text("protocol_version", {
+			enum: ["PROTOCOL_VERSION_V3", "PROTOCOL_VERSION_V4"],
+		}).notNull(),
+		channel: text("channel", { enum: ALERT_CHANNELS }).notNull(),
+		// Webhook URL or email address, null for the inbox
+		target: text("target"),
+		alertOutOfRange: integer("alert_out_of_range", { mode: "boolean" })
+			.notNull()
+			.default(true),
+		// Alert when the price comes within this percentage of either range bound
+		edgeThresholdPercent: real("edge_threshold_percent"),
+		// Alert when uncollected fees are worth more than this many dollars
+		feesThresholdUsd: real("fees_threshold_usd"),
+		// Conditions currently met; an alert fires only when one starts being met
+		activeKinds: text("active_kinds", { mode: "json" })
+			.$type<AlertKind[]>()
+			.notNull()
+			.default(sql`'[]'`),
+		lastCheckedAt: integer("last_checked_at", { mode: "timestamp" }),
+		// Last test alert sent through the watch, test sends are rate-limited
+		lastTestedAt: integer("last_tested_at", { mode: "timestamp" }),
+		createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+	},
+	(table) => [index("watches_owner_idx").on(table.owner)],
+);
+
+export const alerts = sqliteTable(
+	"alerts",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		watchId: integer("watch_id")
+			.notNull()
+			.references(() => watches.id, { onDelete: "cascade" }),
+		owner: text("owner").notNull(),
+		chainId: integer("chain_id").notNull(),
+		tokenId: text("token_id").notNull(),
+		protocolVersion: text("protocol_version", {
+			enum: ["PROTOCOL_VERSION_V3", "PROTOCOL_VERSION_V4"],
+		}).notNull(),
+		kind: text("kind", { enum: ALERT_KINDS }).notNull(),
+		message: text("message").notNull(),
+		createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+		readAt: integer("read_at", { mode: "timestamp" }),
+	},
+	(table) => [index("alerts_owner_idx").on(table.owner, table.createdAt)],
+);
+
+export type Watch = typeof watches.$inferSelect;
+export type InboxAlert = typeof alerts.$inferSelect;
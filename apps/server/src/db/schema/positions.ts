@@ -0,0 +1,29 @@
+/**
+ * Position scan tables
+ *
+ * Progress of the on-chain search for an owner's V4 position NFTs. Each page
+ * load scans a bounded number of log ranges past the stored block, so owners
+ * on fast chains are caught up over several loads.
+ */
+
+import {
+	integer,
+	primaryKey,
+	sqliteTable,
+	text,
+} from "drizzle-orm/sqlite-core";
+
+export const positionScans = sqliteTable(
+	"position_scans",
+	{
+		chainId: integer("chain_id").notNull(),
+		// Checksummed owner address
+		owner: text("owner").notNull(),
+		// Last block whose Transfer logs to the owner were scanned
+		blockNumber: integer("block_number").notNull(),
+		// Token IDs transferred to the owner and not known to have left
+		tokenIds: text("token_ids", { mode: "json" }).$type<string[]>().notNull(),
+		updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+	},
+	(table) => [primaryKey({ columns: [table.chainId, table.owner] })],
+);
@@ -0,0 +1,72 @@
+/**
+ * Rebalancing tables
+ *
+ * Strategies that re-center a V4 position's range, and the lineage linking each
+ * rebalanced position to the one minted in its place.
+ */
+
+import {
+	index,
+	integer,
+	real,
+	sqliteTable,
+	text,
+	uniqueIndex,
+} from "drizzle-orm/sqlite-core";
+
+export const RANGE_STRATEGIES = ["fixed_width", "percent_band"] as const;
+
+export type RangeStrategy = (typeof RANGE_STRATEGIES)[number];
+
+export const rebalanceStrategies = sqliteTable(
+	"rebalance_strategies",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		owner: text("owner").notNull(),
+		chainId: integer("chain_id").notNull(),
+		// Moves to the new token ID after each rebalance
+		tokenId: text("token_id").notNull(),
+		range: text("range", { enum: RANGE_STRATEGIES }).notNull(),
+		// Tick spacings on each side of the current tick for fixed_width, percent
+		// of the current price on each side for percent_band
+		width: real("width").notNull(),
+		// Rebalance is due once the position has been out of range this long,
+		// null to only rebalance on demand
+		triggerMinutes: integer("trigger_minutes"),
+		// Set by the monitoring schedule while the position is out of range
+		outOfRangeSince: integer("out_of_range_since", { mode: "timestamp" }),
+		createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+		updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+	},
+	(table) => [
+		index("rebalance_strategies_position_idx").on(table.chainId, table.tokenId),
+	],
+);
+
+export const rebalances = sqliteTable(
+	"rebalances",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		owner: text("owner").notNull(),
+		chainId: integer("chain_id").notNull(),
+		fromTokenId: text("from_token_id").notNull(),
+		toTokenId: text("to_token_id").notNull(),
+		strategyId: integer("strategy_id").references(
+			() => rebalanceStrategies.id,
+			{ onDelete: "set null" },
+		),
+		// Every transaction of the batch, more than one when sent sequentially
+		transactionHashes: text("transaction_hashes", { mode: "json" })
+			.$type<string[]>()
+			.notNull(),
+		createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+	},
+	(table) => [
+		// A position is rebalanced once: its liquidity leaves with the first batch
+		uniqueIndex("rebalances_from_idx").on(table.chainId, table.fromTokenId),
+		index("rebalances_to_idx").on(table.chainId, table.toTokenId),
+	],
+);
+
+export type RebalanceStrategy = typeof rebalanceStrategies.$inferSelect;
+export type Rebalance = typeof rebalances.$inferSelect;
@@ -4,6 +4,9 @@ import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { createContext } from "./lib/context";
+import { runIndexer } from "./lib/indexer/sync";
+import { runMonitor } from "./lib/monitoring/monitor";
+import { trackRebalanceTriggers } from "./lib/rebalancing/strategy";
 import { appRouter } from "./routers/index";
 
 const app = new Hono();
@@ -31,4 +34,19 @@ app.get("/", (c) => {
 	return c.text("OK");
 });
 
-export default app;
+// Must match the monitoring cron trigger in wrangler.jsonc
+const MONITOR_CRON = "*/5 * * * *";
+
+export default {
+	fetch: app.fetch,
+	// Cron triggers in wrangler.jsonc advance the event indexer, evaluate
+	// position alerts and track rebalancing triggers
+	scheduled(controller, _env, ctx) {
+		if (controller.cron === MONITOR_CRON) {
+			ctx.waitUntil(runMonitor());
+			ctx.waitUntil(trackRebalanceTriggers());
+		} else {
+			ctx.waitUntil(runIndexer());
+		}
+	},
+} satisfies ExportedHandler<CloudflareBindings>;
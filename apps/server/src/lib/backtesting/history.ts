@@ -0,0 +1,313 @@
+/**
+ * Swap history for backtests
+ *
+ * Swaps come from the indexer's D1 tables or from an imported CSV. Indexed
+ * swaps carry block numbers only: the window's bounds are resolved to blocks
+ * and swap times are interpolated between them. A window the indexer only
+ * partly covers is shortened to the covered part.
+ */
+
+import { and, asc, desc, eq, gte, lt, lte } from "drizzle-orm";
+import type { PublicClient } from "viem";
+import { db } from "../../db";
+import { indexerCursors, swaps } from "../../db/schema/indexer";
+import { CONTRACTS, getPublicClient } from "../uniswap/contracts";
+import { getTickAtSqrtPrice } from "../uniswap/math";
+import type { HistoricalSwap, PoolSnapshot } from "./simulate";
+
+// Swaps replayed in one backtest, beyond which the window must be narrowed
+export const MAX_BACKTEST_SWAPS = 20_000;
+
+export interface SwapHistory {
+	// Window the history covers, in unix seconds
+	from: number;
+	to: number;
+	// Pool state when the window opens
+	start: PoolSnapshot;
+	swaps: HistoricalSwap[];
+}
+
+interface BlockPoint {
+	number: bigint;
+	timestamp: number;
+}
+
+async function getBlockPoint(
+	client: PublicClient,
+	blockNumber?: bigint,
+): Promise<BlockPoint> {
+	const block = await client.getBlock(
+		blockNumber === undefined ? {} : { blockNumber },
+	);
+	return { number: block.number, timestamp: Number(block.timestamp) };
+}
+
+/**
+ * Last block at or before a timestamp. Interpolates on the chain's block time,
+ * alternating with bisection so irregular block times still converge.
+ */
+async function findBlockAtTimestamp(
+	client: PublicClient,
+	timestamp: number,
+	latest: BlockPoint,
+): Promise<bigint> {
+	if (timestamp >= latest.timestamp) return latest.number;
+
+	let low = await getBlockPoint(client, 0n);
+	if (timestamp < low.timestamp) return 0n;
+	let high = latest;
+
+	for (let step = 0; high.number - low.number > 1n; step++) {
+		const span = high.number - low.number;
+		const offset =
+			step % 2 === 0
+				? BigInt(
+						Math.floor(
+							(Number(span) * (timestamp - low.timestamp)) /
+								(high.timestamp - low.timestamp),
+						),
+					)
+				: span / 2n;
+		const guess =
+			low.number + (offset < 1n ? 1n : offset >= span ? span - 1n : offset);
+		const point = await getBlockPoint(client, guess);
+		if (point.timestamp <= timestamp) low = point;
+		else high = point;
+	}
+	return low.number;
+}
+
+/**
+ * Indexed swaps of a V4 pool in [from, to], with the state of the last swap
+ * before the window as the starting point. The window is cut to the blocks
+ * the indexer has covered: from the PositionManager's deployment, where it
+ * starts, to its cursor.
+ */
+export async function loadIndexedSwaps(
+	chainId: number,
+	poolId: string,
+	from: number,
+	to: number,
+): Promise<SwapHistory> {
+	const contracts = CONTRACTS[chainId];
+	if (!contracts) throw new Error(`Unsupported chain ID: ${chainId}`);
+	const [cursor] = await db
+		.select({ blockNumber: indexerCursors.blockNumber })
+		.from(indexerCursors)
+		.where(eq(indexerCursors.chainId, chainId));
+	if (!cursor) {
+		throw new Error(`Swaps on chain ${chainId} are not indexed yet`);
+	}
+	const indexedFrom = contracts.POSITION_MANAGER_DEPLOY_BLOCK;
+	const indexedTo = BigInt(cursor.blockNumber);
+
+	const client = getPublicClient(chainId);
+	const latest = await getBlockPoint(client);
+	const [fromBlock, toBlock] = await Promise.all([
+		findBlockAtTimestamp(client, from, latest),
+		findBlockAtTimestamp(client, to, latest),
+	]);
+	if (toBlock < indexedFrom || fromBlock > indexedTo) {
+		throw new Error(
+			`The indexer covers blocks ${indexedFrom} to ${indexedTo} on chain ${chainId}, none of the window`,
+		);
+	}
+	const startBlock = fromBlock < indexedFrom ? indexedFrom : fromBlock;
+	const endBlock = toBlock > indexedTo ? indexedTo : toBlock;
+
+	const bounds = await Promise.all([
+		getBlockPoint(client, startBlock),
+		getBlockPoint(client, endBlock),
+	]);
+	const windowFrom = startBlock === fromBlock ? from : bounds[0].timestamp;
+	const windowTo = endBlock === toBlock ? to : bounds[1].timestamp;
+	if (windowTo <= windowFrom) {
+		throw new Error(
+			`The indexer covers blocks ${indexedFrom} to ${indexedTo} on chain ${chainId}, none of the window`,
+		);
+	}
+	const timeAt = (blockNumber: number) => {
+		const [start, end] = bounds;
+		if (end.number === start.number) return start.timestamp;
+		return Math.round(
+			start.timestamp +
+				((end.timestamp - start.timestamp) *
+					(blockNumber - Number(start.number))) /
+					Number(end.number - start.number),
+		);
+	};
+
+	const pool = and(eq(swaps.chainId, chainId), eq(swaps.poolId, poolId));
+	const [[before], rows] = await Promise.all([
+		db
+			.select()
+			.from(swaps)
+			.where(and(pool, lt(swaps.blockNumber, Number(startBlock))))
+			.orderBy(desc(swaps.blockNumber), desc(swaps.logIndex))
+			.limit(1),
+		db
+			.select()
+			.from(swaps)
+			.where(
+				and(
+					pool,
+					gte(swaps.blockNumber, Number(startBlock)),
+					lte(swaps.blockNumber, Number(endBlock)),
+				),
+			)
+			.orderBy(asc(swaps.blockNumber), asc(swaps.logIndex))
+			.limit(MAX_BACKTEST_SWAPS + 1),
+	]);
+	if (rows.length > MAX_BACKTEST_SWAPS) {
+		throw new Error(
+			`The window holds more than ${MAX_BACKTEST_SWAPS} swaps, narrow it`,
+		);
+	}
+
+	const history = rows.map(
+		(row): HistoricalSwap => ({
+			timestamp: Math.min(
+				Math.max(timeAt(row.blockNumber), windowFrom),
+				windowTo,
+			),
+			amount0: BigInt(row.amount0),
+			amount1: BigInt(row.amount1),
+			sqrtPriceX96: BigInt(row.sqrtPriceX96),
+			tick: row.tick,
+			liquidity: BigInt(row.liquidity),
+			fee: row.fee,
+		}),
+	);
+
+	// Pools first swapped inside the window start from their first swap
+	const first = before ?? rows[0];
+	if (!first) {
+		throw new Error(
+			"No indexed swaps for this pool up to the end of the window",
+		);
+	}
+	return {
+		from: windowFrom,
+		to: windowTo,
+		start: {
+			sqrtPriceX96: BigInt(first.sqrtPriceX96),
+			tick: first.tick,
+			liquidity: BigInt(first.liquidity),
+		},
+		swaps: history,
+	};
+}
+
+// Header names are matched without case, underscores or spaces
+function normalizeHeader(header: string): string {
+	return header.trim().toLowerCase().replace(/[_\s]/g, "");
+}
+
+// Unix seconds, unix milliseconds or an ISO date
+function parseTimestamp(value: string): number {
+	if (/^\d+$/.test(value)) {
+		const number = Number(value);
+		return number > 1e12 ? Math.floor(number / 1000) : number;
+	}
+	const parsed = Date.parse(value);
+	if (Number.isNaN(parsed)) {
+		throw new Error(`Invalid timestamp: ${value}`);
+	}
+	return Math.floor(parsed / 1000);
+}
+
+/**
+ * Swaps from a CSV with a header row. Columns: timestamp, amount0, amount1,
+ * sqrtPriceX96 and liquidity, plus optional tick and fee (defaults to
+ * defaultFee). Amounts are base units with the PoolManager's signs, negative
+ * for the token paid in. Without a window, the CSV's first to last swap is
+ * replayed.
+ */
+export function parseSwapsCsv(
+	csv: string,
+	window: { from?: number; to?: number },
+	defaultFee: number,
+): SwapHistory {
+	const [headerLine, ...lines] = csv
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter(Boolean);
+	if (!headerLine) {
+		throw new Error("The CSV is empty");
+	}
+
+	const headers = headerLine.split(",").map(normalizeHeader);
+	const column = (name: string, required = true) => {
+		const index = headers.indexOf(name.toLowerCase());
+		if (index === -1 && required) {
+			throw new Error(`The CSV has no ${name} column`);
+		}
+		return index;
+	};
+	const columns = {
+		timestamp: column("timestamp"),
+		amount0: column("amount0"),
+		amount1: column("amount1"),
+		sqrtPriceX96: column("sqrtPriceX96"),
+		liquidity: column("liquidity"),
+		tick: column("tick", false),
+		fee: column("fee", false),
+	};
+
+	const all = lines.map((line, i): HistoricalSwap => {
+		const cells = line.split(",").map((cell) => cell.trim());
+		try {
+			const sqrtPriceX96 = BigInt(cells[columns.sqrtPriceX96]);
+			return {
+				timestamp: parseTimestamp(cells[columns.timestamp]),
+				amount0: BigInt(cells[columns.amount0]),
+				amount1: BigInt(cells[columns.amount1]),
+				sqrtPriceX96,
+				tick:
+					columns.tick === -1
+						? getTickAtSqrtPrice(sqrtPriceX96)
+						: Number.parseInt(cells[columns.tick], 10),
+				liquidity: BigInt(cells[columns.liquidity]),
+				fee:
+					columns.fee === -1
+						? defaultFee
+						: Number.parseInt(cells[columns.fee], 10),
+			};
+		} catch (error) {
+			throw new Error(
+				`Invalid CSV row ${i + 2}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	});
+	all.sort((a, b) => a.timestamp - b.timestamp);
+	if (all.length === 0) {
+		throw new Error("The CSV has no swaps");
+	}
+
+	const from = window.from ?? all[0].timestamp;
+	const to = Math.max(window.to ?? all[all.length - 1].timestamp, from + 1);
+	const before = all.filter((swap) => swap.timestamp < from);
+	const inWindow = all.filter(
+		(swap) => swap.timestamp >= from && swap.timestamp <= to,
+	);
+	if (inWindow.length > MAX_BACKTEST_SWAPS) {
+		throw new Error(
+			`The window holds more than ${MAX_BACKTEST_SWAPS} swaps, narrow it`,
+		);
+	}
+
+	const first = before[before.length - 1] ?? inWindow[0];
+	if (!first) {
+		throw new Error("The CSV has no swaps up to the end of the window");
+	}
+	return {
+		from,
+		to,
+		start: {
+			sqrtPriceX96: first.sqrtPriceX96,
+			tick: first.tick,
+			liquidity: first.liquidity,
+		},
+		swaps: inWindow,
+	};
+}
@@ -0,0 +1,311 @@
+/**
+ * Range backtests
+ *
+ * Replays a pool's swaps against hypothetical positions. Each range is funded
+ * with the same value at the starting price and earns the LP fee of every swap
+ * in proportion to its share of the active liquidity, for the part of the
+ * swap's tick path that falls inside the range. Swaps are not re-priced for
+ * the added liquidity, so the result is an estimate.
+ */
+
+import { getAmountsForLiquidity } from "../uniswap/math";
+
+// Swap fees are in hundredths of a basis point
+const FEE_DENOMINATOR = 1_000_000n;
+const Q192 = 2n ** 192n;
+// Liquidity used to read a range's token ratio, large enough to keep rounding out of it
+const REFERENCE_LIQUIDITY = 10n ** 24n;
+// Points returned for each chart series
+const SERIES_POINTS = 60;
+
+/**
+ * A swap as emitted by the PoolManager: amounts are the swapper's balance
+ * changes, negative for the token paid in. Price, tick and liquidity are the
+ * pool's state after the swap.
+ */
+export interface HistoricalSwap {
+	timestamp: number; // unix seconds
+	amount0: bigint;
+	amount1: bigint;
+	sqrtPriceX96: bigint;
+	tick: number;
+	liquidity: bigint;
+	fee: number;
+}
+
+// Pool state at a point in time
+export interface PoolSnapshot {
+	sqrtPriceX96: bigint;
+	tick: number;
+	liquidity: bigint;
+}
+
+export interface BacktestRange {
+	tickLower: number;
+	tickUpper: number;
+}
+
+export interface SeriesPoint {
+	timestamp: number;
+	// Position value including fees, in token1 base units
+	value: string;
+}
+
+export interface RangeBacktestResult extends BacktestRange {
+	liquidity: string;
+	// Tokens the range holds at the starting price
+	amount0: string;
+	amount1: string;
+	fees0: string;
+	fees1: string;
+	// Share of the window the price spent inside the range
+	timeInRange: number;
+	// Values at the ending price, in token1 base units
+	holdValue: string;
+	principalValue: string;
+	feesValue: string;
+	finalValue: string;
+	// Principal against holding the starting amounts, negative for a loss
+	impermanentLoss: number;
+	series: SeriesPoint[];
+}
+
+export interface BacktestResult {
+	from: number;
+	to: number;
+	swapCount: number;
+	// Value of the deposit at the starting price, in token1 base units
+	depositValue: string;
+	startTick: number;
+	endTick: number;
+	prices: { timestamp: number; tick: number }[];
+	ranges: RangeBacktestResult[];
+}
+
+interface BacktestParams {
+	start: PoolSnapshot;
+	swaps: HistoricalSwap[];
+	from: number;
+	to: number;
+	deposit0: bigint;
+	deposit1: bigint;
+	ranges: BacktestRange[];
+}
+
+/**
+ * Value of token amounts in token1 at a pool price
+ */
+function valueInToken1(
+	amount0: bigint,
+	amount1: bigint,
+	sqrtPriceX96: bigint,
+): bigint {
+	return (amount0 * sqrtPriceX96 * sqrtPriceX96) / Q192 + amount1;
+}
+
+/**
+ * Share of a move from one tick to another spent inside [tickLower, tickUpper)
+ */
+function shareInRange(
+	fromTick: number,
+	toTick: number,
+	{ tickLower, tickUpper }: BacktestRange,
+): number {
+	if (fromTick === toTick) {
+		return fromTick >= tickLower && fromTick < tickUpper ? 1 : 0;
+	}
+	const low = Math.min(fromTick, toTick);
+	const high = Math.max(fromTick, toTick);
+	const overlap = Math.min(high, tickUpper) - Math.max(low, tickLower);
+	return overlap > 0 ? overlap / (high - low) : 0;
+}
+
+/**
+ * LP fee a swap pays, in the token paid in
+ */
+function getSwapFee(swap: HistoricalSwap): { fee0: bigint; fee1: bigint } {
+	const fee = BigInt(swap.fee);
+	return swap.amount0 < 0n
+		? { fee0: (-swap.amount0 * fee) / FEE_DENOMINATOR, fee1: 0n }
+		: { fee0: 0n, fee1: (-swap.amount1 * fee) / FEE_DENOMINATOR };
+}
+
+/**
+ * Liquidity a range gets for a value in token1 at a price
+ */
+function getLiquidityForValue(
+	value: bigint,
+	sqrtPriceX96: bigint,
+	{ tickLower, tickUpper }: BacktestRange,
+): bigint {
+	const reference = getAmountsForLiquidity(
+		sqrtPriceX96,
+		tickLower,
+		tickUpper,
+		REFERENCE_LIQUIDITY,
+	);
+	const referenceValue = valueInToken1(
+		reference.amount0,
+		reference.amount1,
+		sqrtPriceX96,
+	);
+	return referenceValue > 0n
+		? (value * REFERENCE_LIQUIDITY) / referenceValue
+		: 0n;
+}
+
+/**
+ * Replay swaps in [from, to] against each range, funded with the deposit's value
+ */
+export function runBacktest({
+	start,
+	swaps,
+	from,
+	to,
+	deposit0,
+	deposit1,
+	ranges,
+}: BacktestParams): BacktestResult {
+	const depositValue = valueInToken1(deposit0, deposit1, start.sqrtPriceX96);
+	const duration = Math.max(to - from, 1);
+	const sampleTimes = Array.from(
+		{ length: SERIES_POINTS },
+		(_, i) => from + ((to - from) * (i + 1)) / SERIES_POINTS,
+	);
+
+	const states = ranges.map((range) => {
+		const liquidity = getLiquidityForValue(
+			depositValue,
+			start.sqrtPriceX96,
+			range,
+		);
+		const amounts = getAmountsForLiquidity(
+			start.sqrtPriceX96,
+			range.tickLower,
+			range.tickUpper,
+			liquidity,
+		);
+		return {
+			range,
+			liquidity,
+			amounts,
+			fees0: 0n,
+			fees1: 0n,
+			secondsInRange: 0,
+			series: [] as SeriesPoint[],
+		};
+	});
+	const prices: BacktestResult["prices"] = [];
+
+	let pool = start;
+	let time = from;
+	let sample = 0;
+
+	// Record every sample point the replay has moved past, at the state before it
+	const takeSamples = (until: number) => {
+		while (sample < sampleTimes.length && sampleTimes[sample] <= until) {
+			const timestamp = Math.round(sampleTimes[sample]);
+			prices.push({ timestamp, tick: pool.tick });
+			for (const state of states) {
+				const { amount0, amount1 } = getAmountsForLiquidity(
+					pool.sqrtPriceX96,
+					state.range.tickLower,
+					state.range.tickUpper,
+					state.liquidity,
+				);
+				state.series.push({
+					timestamp,
+					value: valueInToken1(
+						amount0 + state.fees0,
+						amount1 + state.fees1,
+						pool.sqrtPriceX96,
+					).toString(),
+				});
+			}
+			sample++;
+		}
+	};
+
+	// The price holds between swaps, so time is credited to the tick it sat at
+	const advance = (until: number) => {
+		takeSamples(until);
+		for (const state of states) {
+			if (shareInRange(pool.tick, pool.tick, state.range) === 1) {
+				state.secondsInRange += until - time;
+			}
+		}
+		time = until;
+	};
+
+	for (const swap of swaps) {
+		advance(swap.timestamp);
+
+		const { fee0, fee1 } = getSwapFee(swap);
+		for (const state of states) {
+			const share = shareInRange(pool.tick, swap.tick, state.range);
+			if (share === 0 || state.liquidity === 0n) continue;
+			// Liquidity the swap met, with the hypothetical position added
+			const activeLiquidity = pool.liquidity + state.liquidity;
+			const weight = BigInt(Math.round(share * 1_000_000));
+			state.fees0 +=
+				(fee0 * state.liquidity * weight) / activeLiquidity / 1_000_000n;
+			state.fees1 +=
+				(fee1 * state.liquidity * weight) / activeLiquidity / 1_000_000n;
+		}
+
+		pool = {
+			sqrtPriceX96: swap.sqrtPriceX96,
+			tick: swap.tick,
+			liquidity: swap.liquidity,
+		};
+	}
+	advance(to);
+
+	const results = states.map((state): RangeBacktestResult => {
+		const { range, liquidity, amounts, fees0, fees1 } = state;
+		const principal = getAmountsForLiquidity(
+			pool.sqrtPriceX96,
+			range.tickLower,
+			range.tickUpper,
+			liquidity,
+		);
+		const holdValue = valueInToken1(
+			amounts.amount0,
+			amounts.amount1,
+			pool.sqrtPriceX96,
+		);
+		const principalValue = valueInToken1(
+			principal.amount0,
+			principal.amount1,
+			pool.sqrtPriceX96,
+		);
+		const feesValue = valueInToken1(fees0, fees1, pool.sqrtPriceX96);
+		return {
+			...range,
+			liquidity: liquidity.toString(),
+			amount0: amounts.amount0.toString(),
+			amount1: amounts.amount1.toString(),
+			fees0: fees0.toString(),
+			fees1: fees1.toString(),
+			timeInRange: state.secondsInRange / duration,
+			holdValue: holdValue.toString(),
+			principalValue: principalValue.toString(),
+			feesValue: feesValue.toString(),
+			finalValue: (principalValue + feesValue).toString(),
+			impermanentLoss:
+				holdValue > 0n ? Number(principalValue) / Number(holdValue) - 1 : 0,
+			series: state.series,
+		};
+	});
+
+	return {
+		from,
+		to,
+		swapCount: swaps.length,
+		depositValue: depositValue.toString(),
+		startTick: start.tick,
+		endTick: pool.tick,
+		prices,
+		ranges: results,
+	};
+}
@@ -0,0 +1,217 @@
+/**
+ * Reorg recovery for the indexer
+ *
+ * Finds the newest indexed block that is still canonical, drops everything
+ * indexed above it and restores the pools and positions touched since then
+ * from the chain's state at that block.
+ */
+
+import { and, desc, eq, gt, lt, lte } from "drizzle-orm";
+import type { Hash, PublicClient } from "viem";
+import { db } from "../../db";
+import {
+	indexedBlocks,
+	indexerCursors,
+	pools,
+	positionEvents,
+	positions,
+	swaps,
+} from "../../db/schema/indexer";
+import { STATE_VIEW_ABI, V4_POSITION_MANAGER_ABI } from "../uniswap/abis";
+import { CONTRACTS, ZERO_ADDRESS } from "../uniswap/contracts";
+import type { Cursor } from "./sync";
+
+/**
+ * Newest indexed block below fromBlock whose hash still matches the chain
+ */
+async function findCommonAncestor(
+	client: PublicClient,
+	chainId: number,
+	fromBlock: number,
+): Promise<Cursor> {
+	const candidates = await db
+		.select()
+		.from(indexedBlocks)
+		.where(
+			and(
+				eq(indexedBlocks.chainId, chainId),
+				lt(indexedBlocks.blockNumber, fromBlock),
+			),
+		)
+		.orderBy(desc(indexedBlocks.blockNumber));
+
+	for (const candidate of candidates) {
+		const { hash } = await client.getBlock({
+			blockNumber: BigInt(candidate.blockNumber),
+		});
+		if (hash === candidate.blockHash) {
+			return { blockNumber: candidate.blockNumber, blockHash: hash };
+		}
+	}
+
+	throw new Error(
+		`Reorg on chain ${chainId} goes deeper than the indexed block window below ${fromBlock}`,
+	);
+}
+
+/**
+ * Roll the chain's indexed state back to the common ancestor of the cursor's
+ * orphaned block and return the new cursor
+ */
+export async function rollbackToAncestor(
+	client: PublicClient,
+	chainId: number,
+	fromBlock: number,
+): Promise<Cursor> {
+	const contracts = CONTRACTS[chainId];
+	const ancestor = await findCommonAncestor(client, chainId, fromBlock);
+	const blockNumber = BigInt(ancestor.blockNumber);
+	console.warn(
+		`Reorg on chain ${chainId}: rolling back from block ${fromBlock} to ${ancestor.blockNumber}`,
+	);
+
+	// Rows created after the ancestor go away, rows updated after it are re-read
+	const [stalePools, stalePositions] = await Promise.all([
+		db
+			.select()
+			.from(pools)
+			.where(
+				and(
+					eq(pools.chainId, chainId),
+					gt(pools.updatedBlock, ancestor.blockNumber),
+					lte(pools.createdBlock, ancestor.blockNumber),
+				),
+			),
+		db
+			.select()
+			.from(positions)
+			.where(
+				and(
+					eq(positions.chainId, chainId),
+					gt(positions.updatedBlock, ancestor.blockNumber),
+					lte(positions.createdBlock, ancestor.blockNumber),
+				),
+			),
+	]);
+
+	const [poolData, positionData] = await Promise.all([
+		client.multicall({
+			contracts: stalePools.flatMap((pool) => [
+				{
+					address: contracts.STATE_VIEW,
+					abi: STATE_VIEW_ABI,
+					functionName: "getSlot0",
+					args: [pool.poolId as Hash],
+				} as const,
+				{
+					address: contracts.STATE_VIEW,
+					abi: STATE_VIEW_ABI,
+					functionName: "getLiquidity",
+					args: [pool.poolId as Hash],
+				} as const,
+			]),
+			allowFailure: false,
+			blockNumber,
+		}),
+		client.multicall({
+			contracts: stalePositions.flatMap((position) => [
+				{
+					address: contracts.POSITION_MANAGER,
+					abi: V4_POSITION_MANAGER_ABI,
+					functionName: "ownerOf",
+					args: [BigInt(position.tokenId)],
+				} as const,
+				{
+					address: contracts.POSITION_MANAGER,
+					abi: V4_POSITION_MANAGER_ABI,
+					functionName: "getPositionLiquidity",
+					args: [BigInt(position.tokenId)],
+				} as const,
+			]),
+			allowFailure: true,
+			blockNumber,
+		}),
+	]);
+
+	const above = <T extends typeof positionEvents | typeof swaps>(table: T) =>
+		and(
+			eq(table.chainId, chainId),
+			gt(table.blockNumber, ancestor.blockNumber),
+		);
+
+	await db.batch([
+		db
+			.update(indexerCursors)
+			.set({ ...ancestor, updatedAt: new Date() })
+			.where(eq(indexerCursors.chainId, chainId)),
+		db.delete(positionEvents).where(above(positionEvents)),
+		db.delete(swaps).where(above(swaps)),
+		db
+			.delete(indexedBlocks)
+			.where(
+				and(
+					eq(indexedBlocks.chainId, chainId),
+					gt(indexedBlocks.blockNumber, ancestor.blockNumber),
+				),
+			),
+		db
+			.delete(pools)
+			.where(
+				and(
+					eq(pools.chainId, chainId),
+					gt(pools.createdBlock, ancestor.blockNumber),
+				),
+			),
+		db
+			.delete(positions)
+			.where(
+				and(
+					eq(positions.chainId, chainId),
+					gt(positions.createdBlock, ancestor.blockNumber),
+				),
+			),
+		...stalePools.map((pool, i) => {
+			const [sqrtPriceX96, tick] = poolData[i * 2] as readonly [
+				bigint,
+				number,
+				number,
+				number,
+			];
+			return db
+				.update(pools)
+				.set({
+					sqrtPriceX96: sqrtPriceX96.toString(),
+					tick,
+					liquidity: (poolData[i * 2 + 1] as bigint).toString(),
+					updatedBlock: ancestor.blockNumber,
+				})
+				.where(and(eq(pools.chainId, chainId), eq(pools.poolId, pool.poolId)));
+		}),
+		...stalePositions.map((position, i) => {
+			const [owner, liquidity] = [positionData[i * 2], positionData[i * 2 + 1]];
+			// ownerOf reverts once the NFT is burned
+			return db
+				.update(positions)
+				.set({
+					owner:
+						owner.status === "success"
+							? (owner.result as string)
+							: ZERO_ADDRESS,
+					burned: owner.status !== "success",
+					liquidity:
+						liquidity.status === "success"
+							? (liquidity.result as bigint).toString()
+							: "0",
+					updatedBlock: ancestor.blockNumber,
+				})
+				.where(
+					and(
+						eq(positions.chainId, chainId),
+						eq(positions.tokenId, position.tokenId),
+					),
+				);
+		}),
+	]);
+
+	return ancestor;
+}
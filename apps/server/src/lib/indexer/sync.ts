@@ -0,0 +1,465 @@
+/**
+ * Uniswap V4 event indexer
+ *
+ * Every scheduled run pulls PoolManager and PositionManager logs in block
+ * ranges and folds them into the pools, positions, position_events and swaps
+ * tables. Each chain keeps a cursor at its last indexed block. Runs stay
+ * CONFIRMATIONS blocks behind the head, and roll back to the common ancestor
+ * when the cursor's block is no longer canonical.
+ *
+ * Only V4 is indexed: all of its pools, positions and swaps live behind two
+ * contracts per chain, where V3 would need a log filter per pool. Swaps of
+ * every pool are kept, which is what lets any pool be backtested but makes
+ * the swaps table grow with the chain's V4 volume (see its schema).
+ */
+
+import { and, eq, inArray, lt, sql } from "drizzle-orm";
+import type { SQLiteTable } from "drizzle-orm/sqlite-core";
+import {
+	getAbiItem,
+	type Hash,
+	hexToBigInt,
+	isAddressEqual,
+	type PublicClient,
+} from "viem";
+import { db } from "../../db";
+import {
+	indexedBlocks,
+	indexerCursors,
+	type Pool,
+	type Position,
+	type PositionEventType,
+	pools,
+	positionEvents,
+	positions,
+	swaps,
+} from "../../db/schema/indexer";
+import { POOL_MANAGER_ABI, V4_POSITION_MANAGER_ABI } from "../uniswap/abis";
+import { CONTRACTS, getPublicClient, ZERO_ADDRESS } from "../uniswap/contracts";
+import { getAmountsForLiquidity } from "../uniswap/math";
+import { rollbackToAncestor } from "./reorg";
+
+// Blocks left behind the head; reorgs rarely reach past them
+const CONFIRMATIONS = 5n;
+// Block span of one eth_getLogs request, halved down to the minimum when an RPC rejects it
+const BLOCK_SPAN = 2_000n;
+const MIN_BLOCK_SPAN = 10n;
+// Bounds the RPC calls and writes of one scheduled run on a chain
+const MAX_RANGES_PER_RUN = 10;
+// Indexed block hashes kept behind the cursor for finding a reorg's common ancestor
+export const REORG_WINDOW = 256;
+// D1 caps the bound parameters of a single statement
+const MAX_BOUND_PARAMS = 100;
+
+const INDEXED_EVENTS = [
+	getAbiItem({ abi: POOL_MANAGER_ABI, name: "Initialize" }),
+	getAbiItem({ abi: POOL_MANAGER_ABI, name: "ModifyLiquidity" }),
+	getAbiItem({ abi: POOL_MANAGER_ABI, name: "Swap" }),
+	getAbiItem({ abi: V4_POSITION_MANAGER_ABI, name: "Transfer" }),
+];
+
+export interface Cursor {
+	blockNumber: number;
+	blockHash: Hash;
+}
+
+/**
+ * Split rows into multi-row inserts that stay under D1's bound parameter limit
+ */
+export function chunkRows<T extends object>(rows: T[]): T[][] {
+	if (rows.length === 0) return [];
+	const size = Math.max(
+		1,
+		Math.floor(MAX_BOUND_PARAMS / Object.keys(rows[0]).length),
+	);
+	return Array.from({ length: Math.ceil(rows.length / size) }, (_, i) =>
+		rows.slice(i * size, (i + 1) * size),
+	);
+}
+
+// Upsert that overwrites the given columns with the inserted row's values
+function excluded<T extends SQLiteTable>(table: T, columns: (keyof T)[]) {
+	return Object.fromEntries(
+		columns.map((key) => {
+			const column = table[key] as { name: string };
+			return [key, sql.raw(`excluded."${column.name}"`)];
+		}),
+	);
+}
+
+async function fetchLogs(
+	client: PublicClient,
+	chainId: number,
+	fromBlock: bigint,
+	toBlock: bigint,
+) {
+	const contracts = CONTRACTS[chainId];
+	return client.getLogs({
+		address: [contracts.POOL_MANAGER, contracts.POSITION_MANAGER],
+		events: INDEXED_EVENTS,
+		fromBlock,
+		toBlock,
+		strict: true,
+	});
+}
+
+type IndexedLog = Awaited<ReturnType<typeof fetchLogs>>[number];
+
+/**
+ * Fold a block range's logs into the indexed state and move the cursor to its
+ * last block, in a single D1 batch so a failed run leaves nothing half written
+ */
+async function applyLogs(
+	chainId: number,
+	logs: IndexedLog[],
+	cursor: Cursor,
+): Promise<void> {
+	const positionManager = CONTRACTS[chainId].POSITION_MANAGER;
+
+	const poolIds = new Set<string>();
+	const tokenIds = new Set<string>();
+	for (const log of logs) {
+		if (log.eventName === "Transfer") {
+			tokenIds.add(log.args.id.toString());
+		} else {
+			poolIds.add(log.args.id);
+			if (log.eventName === "ModifyLiquidity") {
+				tokenIds.add(hexToBigInt(log.args.salt).toString());
+			}
+		}
+	}
+
+	const [knownPools, knownPositions] = await Promise.all([
+		poolIds.size > 0
+			? db
+					.select()
+					.from(pools)
+					.where(
+						and(
+							eq(pools.chainId, chainId),
+							inArray(pools.poolId, [...poolIds]),
+						),
+					)
+			: [],
+		tokenIds.size > 0
+			? db
+					.select()
+					.from(positions)
+					.where(
+						and(
+							eq(positions.chainId, chainId),
+							inArray(positions.tokenId, [...tokenIds]),
+						),
+					)
+			: [],
+	]);
+	const poolState = new Map(knownPools.map((pool) => [pool.poolId, pool]));
+	const positionState = new Map(
+		knownPositions.map((position) => [position.tokenId, position]),
+	);
+	const changedPools = new Set<string>();
+	const changedPositions = new Set<string>();
+
+	const eventRows: (typeof positionEvents.$inferInsert)[] = [];
+	const swapRows: (typeof swaps.$inferInsert)[] = [];
+	const blockRows = new Map<number, Hash>([
+		[cursor.blockNumber, cursor.blockHash],
+	]);
+
+	for (const log of logs) {
+		const blockNumber = Number(log.blockNumber);
+		const base = {
+			chainId,
+			blockNumber,
+			logIndex: log.logIndex,
+			transactionHash: log.transactionHash,
+		};
+		blockRows.set(blockNumber, log.blockHash);
+
+		switch (log.eventName) {
+			case "Initialize": {
+				const { args } = log;
+				poolState.set(args.id, {
+					chainId,
+					poolId: args.id,
+					currency0: args.currency0,
+					currency1: args.currency1,
+					fee: args.fee,
+					tickSpacing: args.tickSpacing,
+					hooks: args.hooks,
+					sqrtPriceX96: args.sqrtPriceX96.toString(),
+					tick: args.tick,
+					liquidity: "0",
+					createdBlock: blockNumber,
+					updatedBlock: blockNumber,
+				});
+				changedPools.add(args.id);
+				break;
+			}
+
+			case "Swap": {
+				const { args } = log;
+				swapRows.push({
+					...base,
+					poolId: args.id,
+					sender: args.sender,
+					amount0: args.amount0.toString(),
+					amount1: args.amount1.toString(),
+					sqrtPriceX96: args.sqrtPriceX96.toString(),
+					liquidity: args.liquidity.toString(),
+					tick: args.tick,
+					fee: args.fee,
+				});
+				const pool = poolState.get(args.id);
+				if (pool) {
+					pool.sqrtPriceX96 = args.sqrtPriceX96.toString();
+					pool.tick = args.tick;
+					pool.liquidity = args.liquidity.toString();
+					pool.updatedBlock = blockNumber;
+					changedPools.add(args.id);
+				}
+				break;
+			}
+
+			case "ModifyLiquidity": {
+				const { args } = log;
+				const pool = poolState.get(args.id);
+				if (pool && pool.tick >= args.tickLower && pool.tick < args.tickUpper) {
+					pool.liquidity = (
+						BigInt(pool.liquidity) + args.liquidityDelta
+					).toString();
+					pool.updatedBlock = blockNumber;
+					changedPools.add(args.id);
+				}
+
+				// Other routers keep their own books; PositionManager salts by token ID
+				if (!isAddressEqual(args.sender, positionManager)) break;
+				const tokenId = hexToBigInt(args.salt).toString();
+				const position = positionState.get(tokenId);
+				if (!position) break;
+
+				const delta = args.liquidityDelta;
+				const type: PositionEventType =
+					delta > 0n
+						? position.poolId === null
+							? "mint"
+							: "increase"
+						: delta < 0n
+							? "decrease"
+							: "collect";
+				const amounts =
+					pool && delta !== 0n
+						? getAmountsForLiquidity(
+								BigInt(pool.sqrtPriceX96),
+								args.tickLower,
+								args.tickUpper,
+								delta < 0n ? -delta : delta,
+							)
+						: null;
+
+				eventRows.push({
+					...base,
+					tokenId,
+					type,
+					liquidityDelta: delta.toString(),
+					amount0: amounts?.amount0.toString() ?? null,
+					amount1: amounts?.amount1.toString() ?? null,
+					from: null,
+					to: null,
+				});
+				position.poolId ??= args.id;
+				position.tickLower ??= args.tickLower;
+				position.tickUpper ??= args.tickUpper;
+				position.liquidity = (BigInt(position.liquidity) + delta).toString();
+				position.updatedBlock = blockNumber;
+				changedPositions.add(tokenId);
+				break;
+			}
+
+			case "Transfer": {
+				if (!isAddressEqual(log.address, positionManager)) break;
+				const { from, to, id } = log.args;
+				const tokenId = id.toString();
+				const minted = isAddressEqual(from, ZERO_ADDRESS);
+				const position: Position | undefined = minted
+					? {
+							chainId,
+							tokenId,
+							owner: to,
+							poolId: null,
+							tickLower: null,
+							tickUpper: null,
+							liquidity: "0",
+							burned: false,
+							createdBlock: blockNumber,
+							updatedBlock: blockNumber,
+						}
+					: positionState.get(tokenId);
+				if (!position) break;
+
+				eventRows.push({
+					...base,
+					tokenId,
+					type: "transfer",
+					liquidityDelta: null,
+					amount0: null,
+					amount1: null,
+					from,
+					to,
+				});
+				position.owner = to;
+				position.burned = isAddressEqual(to, ZERO_ADDRESS);
+				position.updatedBlock = blockNumber;
+				positionState.set(tokenId, position);
+				changedPositions.add(tokenId);
+				break;
+			}
+		}
+	}
+
+	const poolRows = [...changedPools].map((id) => poolState.get(id) as Pool);
+	const positionRows = [...changedPositions].map(
+		(id) => positionState.get(id) as Position,
+	);
+
+	await db.batch([
+		db
+			.insert(indexerCursors)
+			.values({ chainId, ...cursor, updatedAt: new Date() })
+			.onConflictDoUpdate({
+				target: indexerCursors.chainId,
+				set: excluded(indexerCursors, [
+					"blockNumber",
+					"blockHash",
+					"updatedAt",
+				]),
+			}),
+		...chunkRows(eventRows).map((rows) =>
+			db.insert(positionEvents).values(rows).onConflictDoNothing(),
+		),
+		...chunkRows(swapRows).map((rows) =>
+			db.insert(swaps).values(rows).onConflictDoNothing(),
+		),
+		...chunkRows(poolRows).map((rows) =>
+			db
+				.insert(pools)
+				.values(rows)
+				.onConflictDoUpdate({
+					target: [pools.chainId, pools.poolId],
+					set: excluded(pools, [
+						"sqrtPriceX96",
+						"tick",
+						"liquidity",
+						"updatedBlock",
+					]),
+				}),
+		),
+		...chunkRows(positionRows).map((rows) =>
+			db
+				.insert(positions)
+				.values(rows)
+				.onConflictDoUpdate({
+					target: [positions.chainId, positions.tokenId],
+					set: excluded(positions, [
+						"owner",
+						"poolId",
+						"tickLower",
+						"tickUpper",
+						"liquidity",
+						"burned",
+						"updatedBlock",
+					]),
+				}),
+		),
+		...chunkRows(
+			[...blockRows].map(([blockNumber, blockHash]) => ({
+				chainId,
+				blockNumber,
+				blockHash,
+			})),
+		).map((rows) =>
+			db
+				.insert(indexedBlocks)
+				.values(rows)
+				.onConflictDoUpdate({
+					target: [indexedBlocks.chainId, indexedBlocks.blockNumber],
+					set: excluded(indexedBlocks, ["blockHash"]),
+				}),
+		),
+		db
+			.delete(indexedBlocks)
+			.where(
+				and(
+					eq(indexedBlocks.chainId, chainId),
+					lt(indexedBlocks.blockNumber, cursor.blockNumber - REORG_WINDOW),
+				),
+			),
+	]);
+}
+
+/**
+ * Index the next block ranges of one chain
+ */
+export async function syncChain(chainId: number): Promise<void> {
+	const contracts = CONTRACTS[chainId];
+	if (!contracts) throw new Error(`Unsupported chain ID: ${chainId}`);
+
+	const client = getPublicClient(chainId);
+	const [stored] = await db
+		.select()
+		.from(indexerCursors)
+		.where(eq(indexerCursors.chainId, chainId));
+
+	let cursor: Cursor | undefined = stored && {
+		blockNumber: stored.blockNumber,
+		blockHash: stored.blockHash as Hash,
+	};
+	if (cursor) {
+		const { hash } = await client.getBlock({
+			blockNumber: BigInt(cursor.blockNumber),
+		});
+		if (hash !== cursor.blockHash) {
+			cursor = await rollbackToAncestor(client, chainId, cursor.blockNumber);
+		}
+	}
+
+	const head = (await client.getBlockNumber()) - CONFIRMATIONS;
+	let fromBlock = cursor
+		? BigInt(cursor.blockNumber) + 1n
+		: contracts.POSITION_MANAGER_DEPLOY_BLOCK;
+	let span = BLOCK_SPAN;
+
+	for (let run = 0; run < MAX_RANGES_PER_RUN && fromBlock <= head; run++) {
+		const toBlock = fromBlock + span - 1n < head ? fromBlock + span - 1n : head;
+
+		let logs: IndexedLog[];
+		try {
+			logs = await fetchLogs(client, chainId, fromBlock, toBlock);
+		} catch (error) {
+			if (span <= MIN_BLOCK_SPAN) throw error;
+			span /= 2n;
+			continue;
+		}
+
+		const block = await client.getBlock({ blockNumber: toBlock });
+		await applyLogs(chainId, logs, {
+			blockNumber: Number(toBlock),
+			blockHash: block.hash,
+		});
+		fromBlock = toBlock + 1n;
+	}
+}
+
+/**
+ * Scheduled entry point: advance every V4 chain, one failing RPC never
+ * holding back the others
+ */
+export async function runIndexer(): Promise<void> {
+	const chainIds = Object.keys(CONTRACTS).map(Number);
+	const results = await Promise.allSettled(chainIds.map(syncChain));
+	results.forEach((result, i) => {
+		if (result.status === "rejected") {
+			console.error(`Indexer failed on chain ${chainIds[i]}:`, result.reason);
+		}
+	});
+}
@@ -0,0 +1,120 @@
+/**
+ * Alert conditions evaluated against a watched position's live state
+ */
+
+import { formatUnits } from "viem";
+import type { AlertKind, Watch } from "../../db/schema/monitoring";
+import { sqrtPriceX96ToPrice } from "../uniswap/math";
+import type { PositionSummary } from "../uniswap/positions";
+
+export interface MetCondition {
+	kind: AlertKind;
+	message: string;
+}
+
+export function describePosition(position: PositionSummary): string {
+	return `${position.token0.symbol}/${position.token1.symbol} position #${position.tokenId}`;
+}
+
+/**
+ * Value of token amounts in token1 at the pool's current price
+ */
+function valueInToken1(
+	position: PositionSummary,
+	amount0: string,
+	amount1: string,
+): number {
+	const price = sqrtPriceX96ToPrice(
+		BigInt(position.sqrtPriceX96),
+		position.token0.decimals,
+		position.token1.decimals,
+	);
+	return (
+		Number(formatUnits(BigInt(amount0), position.token0.decimals)) * price +
+		Number(formatUnits(BigInt(amount1), position.token1.decimals))
+	);
+}
+
+/**
+ * USD value of the position's uncollected fees, priced through the gateway's
+ * USD value of its liquidity. Null when the gateway had no value for it.
+ */
+export function getUncollectedFeesUsd(
+	position: PositionSummary,
+): number | null {
+	const liquidityUsd =
+		position.totalLiquidityUsd !== null
+			? Number(position.totalLiquidityUsd)
+			: 0;
+	const liquidityValue = valueInToken1(
+		position,
+		position.amount0,
+		position.amount1,
+	);
+	if (!(liquidityUsd > 0) || !(liquidityValue > 0)) return null;
+
+	const fees = valueInToken1(
+		position,
+		position.token0UncollectedFees,
+		position.token1UncollectedFees,
+	);
+	return (fees * liquidityUsd) / liquidityValue;
+}
+
+/**
+ * Distance of the current price to the nearest range bound, as a percentage of
+ * the current price
+ */
+function getEdgeDistance(position: PositionSummary): {
+	bound: "lower" | "upper";
+	percent: number;
+} {
+	const { currentTick, tickLower, tickUpper } = position;
+	const toLower = (1 - 1.0001 ** (tickLower - currentTick)) * 100;
+	const toUpper = (1.0001 ** (tickUpper - currentTick) - 1) * 100;
+	return toLower <= toUpper
+		? { bound: "lower", percent: toLower }
+		: { bound: "upper", percent: toUpper };
+}
+
+/**
+ * Conditions of the watch the position currently meets. Closed positions only
+ * raise fee alerts, and the fee condition is skipped without a USD price.
+ */
+export function evaluateWatch(
+	watch: Watch,
+	position: PositionSummary,
+): MetCondition[] {
+	const met: MetCondition[] = [];
+	const name = describePosition(position);
+	const open = BigInt(position.liquidity) > 0n;
+
+	if (open && position.status === "POSITION_STATUS_OUT_OF_RANGE") {
+		if (watch.alertOutOfRange) {
+			met.push({
+				kind: "out_of_range",
+				message: `${name} is out of range and no longer earning fees`,
+			});
+		}
+	} else if (open && watch.edgeThresholdPercent !== null) {
+		const { bound, percent } = getEdgeDistance(position);
+		if (percent <= watch.edgeThresholdPercent) {
+			met.push({
+				kind: "near_edge",
+				message: `${name} is ${percent.toFixed(2)}% from the ${bound} bound of its range`,
+			});
+		}
+	}
+
+	if (watch.feesThresholdUsd !== null) {
+		const feesUsd = getUncollectedFeesUsd(position);
+		if (feesUsd !== null && feesUsd >= watch.feesThresholdUsd) {
+			met.push({
+				kind: "fees",
+				message: `${name} has $${feesUsd.toFixed(2)} in uncollected fees`,
+			});
+		}
+	}
+
+	return met;
+}
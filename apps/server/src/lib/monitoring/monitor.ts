@@ -0,0 +1,268 @@
+/**
+ * Position monitoring
+ *
+ * Every scheduled run reads the live state of all watched positions, evaluates
+ * each watch's conditions and notifies its channel when a condition starts
+ * being met. A condition alerts once, then again only after it has cleared.
+ * Watches whose NFT was burned or left its owner are deleted.
+ */
+
+import { eq, inArray } from "drizzle-orm";
+import { type Address, isAddressEqual } from "viem";
+import { db } from "../../db";
+import {
+	type AlertKind,
+	type Watch,
+	watches,
+} from "../../db/schema/monitoring";
+import {
+	V3_POSITION_MANAGER_ABI,
+	V4_POSITION_MANAGER_ABI,
+} from "../uniswap/abis";
+import { CONTRACTS, getPublicClient, V3_CONTRACTS } from "../uniswap/contracts";
+import {
+	applyPositionEnrichment,
+	fetchPositionEnrichment,
+	type PositionEnrichment,
+} from "../uniswap/gateway";
+import {
+	type PositionSummary,
+	type ProtocolVersion,
+	readV3Positions,
+	readV4Positions,
+} from "../uniswap/positions";
+import { evaluateWatch, getUncollectedFeesUsd } from "./conditions";
+import { deliverAlert } from "./notifiers";
+
+function positionKey(
+	chainId: number,
+	protocolVersion: string,
+	tokenId: string,
+): string {
+	return `${chainId}-${protocolVersion}-${tokenId}`;
+}
+
+/**
+ * Current holder of each NFT, null where ownerOf reverted because it was
+ * burned. A failing RPC rejects the whole read.
+ */
+async function readOwners(
+	chainId: number,
+	protocolVersion: ProtocolVersion,
+	tokenIds: bigint[],
+): Promise<(Address | null)[]> {
+	const client = getPublicClient(chainId);
+	const manager =
+		protocolVersion === "PROTOCOL_VERSION_V4"
+			? CONTRACTS[chainId]?.POSITION_MANAGER
+			: V3_CONTRACTS[chainId]?.NONFUNGIBLE_POSITION_MANAGER;
+	if (!manager) throw new Error(`Unsupported chain ID: ${chainId}`);
+
+	const results = await client.multicall({
+		contracts: tokenIds.map(
+			(tokenId) =>
+				({
+					address: manager,
+					// ownerOf has the same signature on both managers
+					abi:
+						protocolVersion === "PROTOCOL_VERSION_V4"
+							? V4_POSITION_MANAGER_ABI
+							: V3_POSITION_MANAGER_ABI,
+					functionName: "ownerOf",
+					args: [tokenId],
+				}) as const,
+		),
+		allowFailure: true,
+	});
+	return results.map((result) =>
+		result.status === "success" ? (result.result as Address) : null,
+	);
+}
+
+interface WatchedState {
+	positions: Map<string, PositionSummary>;
+	// Holder of each watched NFT, null once burned; absent where the read failed
+	owners: Map<string, Address | null>;
+}
+
+/**
+ * Read every watched position and its holder, one multicall of each per chain
+ * and protocol; a failing RPC only leaves its own chain's watches unevaluated
+ */
+async function readWatchedPositions(watched: Watch[]): Promise<WatchedState> {
+	const groups = new Map<string, Watch[]>();
+	for (const watch of watched) {
+		const key = `${watch.chainId}-${watch.protocolVersion}`;
+		groups.set(key, [...(groups.get(key) ?? []), watch]);
+	}
+
+	const results = await Promise.allSettled(
+		[...groups.values()].map(async (group) => {
+			const { chainId, protocolVersion } = group[0];
+			const tokenIds = [...new Set(group.map((watch) => watch.tokenId))].map(
+				BigInt,
+			);
+			const [positions, owners] = await Promise.all([
+				protocolVersion === "PROTOCOL_VERSION_V4"
+					? readV4Positions(chainId, tokenIds)
+					: readV3Positions(chainId, tokenIds),
+				readOwners(chainId, protocolVersion, tokenIds),
+			]);
+			return { chainId, protocolVersion, tokenIds, positions, owners };
+		}),
+	);
+
+	const state: WatchedState = { positions: new Map(), owners: new Map() };
+	for (const result of results) {
+		if (result.status === "rejected") {
+			console.error("Error reading watched positions:", result.reason);
+			continue;
+		}
+		const { chainId, protocolVersion, tokenIds, positions, owners } =
+			result.value;
+		tokenIds.forEach((tokenId, i) => {
+			state.owners.set(
+				positionKey(chainId, protocolVersion, tokenId.toString()),
+				owners[i],
+			);
+		});
+		for (const position of positions) {
+			state.positions.set(
+				positionKey(
+					position.chainId,
+					position.protocolVersion,
+					position.tokenId,
+				),
+				position,
+			);
+		}
+	}
+	return state;
+}
+
+/**
+ * USD values from the gateway for the owners of watches with a fee threshold
+ */
+async function fetchOwnerEnrichment(
+	watched: Watch[],
+): Promise<Map<string, Map<string, PositionEnrichment>>> {
+	const owners = [
+		...new Set(
+			watched
+				.filter((watch) => watch.feesThresholdUsd !== null)
+				.map((watch) => watch.owner),
+		),
+	];
+	const enrichments = await Promise.all(owners.map(fetchPositionEnrichment));
+	return new Map(owners.map((owner, i) => [owner, enrichments[i]]));
+}
+
+/**
+ * Evaluate one watch and notify the conditions it newly meets. Returns the
+ * conditions to remember as met; a failed delivery is left out so the next
+ * run retries it.
+ */
+async function checkWatch(
+	watch: Watch,
+	position: PositionSummary,
+	now: Date,
+): Promise<AlertKind[]> {
+	const met = evaluateWatch(watch, position);
+	const active = met.map(({ kind }) => kind);
+
+	// Without a USD price the fee condition keeps its previous state
+	if (
+		watch.feesThresholdUsd !== null &&
+		getUncollectedFeesUsd(position) === null &&
+		watch.activeKinds.includes("fees")
+	) {
+		active.push("fees");
+	}
+
+	const fresh = met.filter(({ kind }) => !watch.activeKinds.includes(kind));
+	const results = await Promise.allSettled(
+		fresh.map(({ kind, message }) =>
+			deliverAlert({ watch, kind, message, createdAt: now }),
+		),
+	);
+
+	const failed = new Set<AlertKind>();
+	results.forEach((result, i) => {
+		if (result.status === "rejected") {
+			console.error(
+				`Error delivering ${fresh[i].kind} alert for watch ${watch.id}:`,
+				result.reason,
+			);
+			failed.add(fresh[i].kind);
+		}
+	});
+
+	return active.filter((kind) => !failed.has(kind));
+}
+
+/**
+ * Scheduled entry point: evaluate every watch against live pool state
+ */
+export async function runMonitor(): Promise<void> {
+	const watched = await db.select().from(watches);
+	if (watched.length === 0) return;
+
+	const [{ positions, owners }, enrichment] = await Promise.all([
+		readWatchedPositions(watched),
+		fetchOwnerEnrichment(watched),
+	]);
+	const now = new Date();
+
+	// Burned NFTs and NFTs moved to another address end their watches
+	const ended = watched.filter((watch) => {
+		const key = positionKey(
+			watch.chainId,
+			watch.protocolVersion,
+			watch.tokenId,
+		);
+		if (!owners.has(key)) return false;
+		const holder = owners.get(key);
+		return !holder || !isAddressEqual(holder, watch.owner as Address);
+	});
+	if (ended.length > 0) {
+		console.warn(
+			`Deleting ${ended.length} watches of burned or transferred positions`,
+		);
+		await db.delete(watches).where(
+			inArray(
+				watches.id,
+				ended.map((watch) => watch.id),
+			),
+		);
+	}
+	const endedIds = new Set(ended.map((watch) => watch.id));
+
+	const checked = await Promise.all(
+		watched.map(async (watch) => {
+			if (endedIds.has(watch.id)) return null;
+			const position = positions.get(
+				positionKey(watch.chainId, watch.protocolVersion, watch.tokenId),
+			);
+			if (!position) return null;
+
+			const [enriched] = applyPositionEnrichment(
+				[position],
+				enrichment.get(watch.owner) ?? new Map(),
+			);
+			return {
+				id: watch.id,
+				activeKinds: await checkWatch(watch, enriched, now),
+			};
+		}),
+	);
+
+	const [first, ...rest] = checked
+		.filter((result) => result !== null)
+		.map(({ id, activeKinds }) =>
+			db
+				.update(watches)
+				.set({ activeKinds, lastCheckedAt: now })
+				.where(eq(watches.id, id)),
+		);
+	if (first) await db.batch([first, ...rest]);
+}
@@ -0,0 +1,107 @@
+/**
+ * Alert delivery, one notifier per watch channel
+ */
+
+import { db } from "../../db";
+import {
+	type AlertChannel,
+	type AlertKind,
+	alerts,
+	type Watch,
+} from "../../db/schema/monitoring";
+import { sendMail } from "./smtp";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+// Web app origin, used to link alerts to the position page
+const APP_URL = process.env.CORS_ORIGIN;
+
+export interface AlertNotification {
+	watch: Watch;
+	kind: AlertKind;
+	message: string;
+	createdAt: Date;
+}
+
+export interface Notifier {
+	send(notification: AlertNotification): Promise<void>;
+}
+
+function positionUrl({ watch }: AlertNotification): string | null {
+	if (!APP_URL) return null;
+	const url = new URL(`/positions/${watch.chainId}/${watch.tokenId}`, APP_URL);
+	if (watch.protocolVersion === "PROTOCOL_VERSION_V3") {
+		url.searchParams.set("version", "v3");
+	}
+	return url.toString();
+}
+
+function requireTarget({ watch }: AlertNotification): string {
+	if (!watch.target) {
+		throw new Error(`Watch ${watch.id} has no ${watch.channel} target`);
+	}
+	return watch.target;
+}
+
+const inboxNotifier: Notifier = {
+	async send({ watch, kind, message, createdAt }) {
+		await db.insert(alerts).values({
+			watchId: watch.id,
+			owner: watch.owner,
+			chainId: watch.chainId,
+			tokenId: watch.tokenId,
+			protocolVersion: watch.protocolVersion,
+			kind,
+			message,
+			createdAt,
+		});
+	},
+};
+
+const webhookNotifier: Notifier = {
+	async send(notification) {
+		const { watch, kind, message, createdAt } = notification;
+		const response = await fetch(requireTarget(notification), {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({
+				type: "position.alert",
+				watchId: watch.id,
+				owner: watch.owner,
+				chainId: watch.chainId,
+				tokenId: watch.tokenId,
+				protocolVersion: watch.protocolVersion,
+				kind,
+				message,
+				url: positionUrl(notification),
+				createdAt: createdAt.toISOString(),
+			}),
+			signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+		});
+		if (!response.ok) {
+			throw new Error(
+				`Webhook responded with ${response.status} ${response.statusText}`,
+			);
+		}
+	},
+};
+
+const emailNotifier: Notifier = {
+	async send(notification) {
+		const url = positionUrl(notification);
+		await sendMail({
+			to: requireTarget(notification),
+			subject: notification.message,
+			text: url ? `${notification.message}\n\n${url}\n` : notification.message,
+		});
+	},
+};
+
+export const NOTIFIERS: Record<AlertChannel, Notifier> = {
+	inbox: inboxNotifier,
+	webhook: webhookNotifier,
+	email: emailNotifier,
+};
+
+export function deliverAlert(notification: AlertNotification): Promise<void> {
+	return NOTIFIERS[notification.watch.channel].send(notification);
+}
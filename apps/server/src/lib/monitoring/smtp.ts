@@ -0,0 +1,170 @@
+/**
+ * Minimal SMTP client over Workers TCP sockets
+ *
+ * Sends a plain-text message through any SMTP server: implicit TLS when
+ * SMTP_SECURE is "true" (usually port 465), otherwise STARTTLS whenever the
+ * server offers it. Unencrypted sessions are only used without credentials,
+ * e.g. against a local catch-all server.
+ */
+
+import { connect } from "cloudflare:sockets";
+
+const SMTP_HOST = process.env.SMTP_HOST;
+const SMTP_PORT = Number(process.env.SMTP_PORT || 587);
+const SMTP_SECURE = process.env.SMTP_SECURE === "true";
+const SMTP_USER = process.env.SMTP_USER;
+const SMTP_PASSWORD = process.env.SMTP_PASSWORD;
+const SMTP_FROM = process.env.SMTP_FROM;
+
+// Name announced in EHLO
+const CLIENT_NAME = "localhost";
+
+export interface MailMessage {
+	to: string;
+	subject: string;
+	text: string;
+}
+
+interface SmtpReply {
+	code: number;
+	lines: string[];
+}
+
+function expectReply(reply: SmtpReply, codes: number[], step: string) {
+	if (!codes.includes(reply.code)) {
+		throw new Error(`SMTP ${step} failed: ${reply.lines.join(" ")}`);
+	}
+	return reply;
+}
+
+/**
+ * Line-based command/reply exchange over an open socket
+ */
+function openSession(socket: Socket) {
+	const reader = socket.readable.getReader();
+	const writer = socket.writable.getWriter();
+	const decoder = new TextDecoder();
+	const encoder = new TextEncoder();
+	let buffer = "";
+
+	// A reply spans lines until one without a "-" after its code
+	async function readReply(): Promise<SmtpReply> {
+		const lines: string[] = [];
+		for (;;) {
+			const end = buffer.indexOf("\r\n");
+			if (end === -1) {
+				const { value, done } = await reader.read();
+				if (done) throw new Error("SMTP server closed the connection");
+				buffer += decoder.decode(value, { stream: true });
+				continue;
+			}
+			const line = buffer.slice(0, end);
+			buffer = buffer.slice(end + 2);
+			lines.push(line);
+			if (line[3] !== "-") return { code: Number(line.slice(0, 3)), lines };
+		}
+	}
+
+	// The step names the command in errors so credentials never end up in logs
+	async function send(
+		command: string,
+		codes: number[],
+		step = command.split(" ")[0],
+	): Promise<SmtpReply> {
+		await writer.write(encoder.encode(`${command}\r\n`));
+		return expectReply(await readReply(), codes, step);
+	}
+
+	function release() {
+		reader.releaseLock();
+		writer.releaseLock();
+	}
+
+	return { readReply, send, release };
+}
+
+function encodeBase64(value: string): string {
+	return btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+}
+
+// RFC 2047 encoded word for non-ASCII subjects
+function encodeHeader(value: string): string {
+	return /^[\x20-\x7e]*$/.test(value)
+		? value
+		: `=?UTF-8?B?${encodeBase64(value)}?=`;
+}
+
+/**
+ * RFC 5322 message with CRLF line endings and dot-stuffed body lines
+ */
+function formatMessage(from: string, message: MailMessage): string {
+	const headers = [
+		`From: ${from}`,
+		`To: ${message.to}`,
+		`Subject: ${encodeHeader(message.subject)}`,
+		`Date: ${new Date().toUTCString()}`,
+		"MIME-Version: 1.0",
+		"Content-Type: text/plain; charset=utf-8",
+		"Content-Transfer-Encoding: 8bit",
+	];
+	const body = message.text
+		.split(/\r?\n/)
+		.map((line) => (line.startsWith(".") ? `.${line}` : line));
+	return [...headers, "", ...body].join("\r\n");
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+	if (!SMTP_HOST || !SMTP_FROM) {
+		throw new Error("SMTP_HOST and SMTP_FROM must be configured to send email");
+	}
+
+	let socket = connect(
+		{ hostname: SMTP_HOST, port: SMTP_PORT },
+		{ secureTransport: SMTP_SECURE ? "on" : "starttls", allowHalfOpen: false },
+	);
+	let session = openSession(socket);
+	let encrypted = SMTP_SECURE;
+
+	try {
+		expectReply(await session.readReply(), [220], "greeting");
+		const ehlo = await session.send(`EHLO ${CLIENT_NAME}`, [250]);
+
+		if (
+			!encrypted &&
+			ehlo.lines.some((line) => /^250[- ]STARTTLS/i.test(line))
+		) {
+			await session.send("STARTTLS", [220]);
+			session.release();
+			socket = socket.startTls();
+			session = openSession(socket);
+			encrypted = true;
+			await session.send(`EHLO ${CLIENT_NAME}`, [250]);
+		}
+
+		if (SMTP_USER) {
+			if (!encrypted) {
+				throw new Error(
+					"SMTP server does not offer STARTTLS, refusing to send credentials in the clear",
+				);
+			}
+			await session.send(
+				`AUTH PLAIN ${encodeBase64(`\0${SMTP_USER}\0${SMTP_PASSWORD ?? ""}`)}`,
+				[235],
+				"AUTH",
+			);
+		}
+
+		const sender = SMTP_FROM.match(/<([^>]+)>/)?.[1] ?? SMTP_FROM;
+		await session.send(`MAIL FROM:<${sender}>`, [250], "MAIL FROM");
+		await session.send(`RCPT TO:<${message.to}>`, [250, 251], "RCPT TO");
+		await session.send("DATA", [354]);
+		await session.send(
+			`${formatMessage(SMTP_FROM, message)}\r\n.`,
+			[250],
+			"DATA",
+		);
+		await session.send("QUIT", [221]);
+	} finally {
+		await socket.close();
+	}
+}
@@ -0,0 +1,116 @@
+/**
+ * Proof of address ownership
+ *
+ * There are no sessions: procedures acting for an owner address take a
+ * Sign-In with Ethereum message signed by that address. The wallet signs it
+ * once and the client reuses it until it expires.
+ */
+
+import { type Address, getAddress, isAddressEqual } from "viem";
+import { parseSiweMessage } from "viem/siwe";
+import { z } from "zod";
+import {
+	V3_POSITION_MANAGER_ABI,
+	V4_POSITION_MANAGER_ABI,
+} from "./uniswap/abis";
+import {
+	CONTRACTS,
+	getPublicClient,
+	SUPPORTED_CHAIN_IDS,
+	V3_CONTRACTS,
+} from "./uniswap/contracts";
+import type { ProtocolVersion } from "./uniswap/positions";
+
+// Longest lifetime a signed message may claim
+const MAX_PROOF_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+// Web app host the message must be signed for, when configured
+const APP_HOST = (() => {
+	try {
+		return process.env.CORS_ORIGIN
+			? new URL(process.env.CORS_ORIGIN).host
+			: undefined;
+	} catch {
+		return undefined;
+	}
+})();
+
+export const OWNER_PROOF_REQUIRED =
+	"Sign in with the owner's wallet to continue";
+
+export const ownerProofSchema = z.object({
+	// EIP-4361 message
+	message: z.string().max(2_000),
+	signature: z.string().regex(/^0x[a-fA-F0-9]+$/, "Invalid signature"),
+});
+
+export type OwnerProof = z.infer<typeof ownerProofSchema>;
+
+/**
+ * Whether a proof was signed by the owner for this app and is still valid.
+ * Messages must carry an expiration; contract wallets are checked on the
+ * chain the message names.
+ */
+export async function verifyOwnerProof(
+	owner: string,
+	proof: OwnerProof | undefined,
+): Promise<boolean> {
+	if (!proof) return false;
+	const { address, chainId, issuedAt, expirationTime } = parseSiweMessage(
+		proof.message,
+	);
+	if (!address || !isAddressEqual(address, getAddress(owner))) return false;
+	if (!issuedAt || !expirationTime) return false;
+	if (expirationTime.getTime() - issuedAt.getTime() > MAX_PROOF_LIFETIME_MS) {
+		return false;
+	}
+
+	const client = getPublicClient(
+		chainId && SUPPORTED_CHAIN_IDS.includes(chainId) ? chainId : 1,
+	);
+	try {
+		// Also checks the message's address, domain and time bounds
+		return await client.verifySiweMessage({
+			message: proof.message,
+			signature: proof.signature as `0x${string}`,
+			address: getAddress(owner),
+			domain: APP_HOST,
+		});
+	} catch (error) {
+		console.error("Error verifying owner proof:", error);
+		return false;
+	}
+}
+
+/**
+ * Current holder of a position NFT, null once it is burned or never minted
+ */
+export async function readPositionOwner(
+	chainId: number,
+	protocolVersion: ProtocolVersion,
+	tokenId: bigint,
+): Promise<Address | null> {
+	const client = getPublicClient(chainId);
+	try {
+		if (protocolVersion === "PROTOCOL_VERSION_V4") {
+			const contracts = CONTRACTS[chainId];
+			if (!contracts) return null;
+			return await client.readContract({
+				address: contracts.POSITION_MANAGER,
+				abi: V4_POSITION_MANAGER_ABI,
+				functionName: "ownerOf",
+				args: [tokenId],
+			});
+		}
+		const contracts = V3_CONTRACTS[chainId];
+		if (!contracts) return null;
+		return await client.readContract({
+			address: contracts.NONFUNGIBLE_POSITION_MANAGER,
+			abi: V3_POSITION_MANAGER_ABI,
+			functionName: "ownerOf",
+			args: [tokenId],
+		});
+	} catch {
+		// ownerOf reverts for burned and unminted IDs
+		return null;
+	}
+}
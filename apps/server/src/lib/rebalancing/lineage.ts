@@ -0,0 +1,106 @@
+/**
+ * Rebalancing lineage
+ *
+ * A rebalance burns a position and mints its replacement. The receipts of the
+ * batch are checked for both Transfer events before the link between the two
+ * token IDs is recorded.
+ */
+
+import { and, eq, inArray, or } from "drizzle-orm";
+import { type Address, type Hash, isAddressEqual, parseEventLogs } from "viem";
+import { db } from "../../db";
+import { type Rebalance, rebalances } from "../../db/schema/rebalancing";
+import { V4_POSITION_MANAGER_ABI } from "../uniswap/abis";
+import { CONTRACTS, getPublicClient, ZERO_ADDRESS } from "../uniswap/contracts";
+
+// Rebalances followed in each direction from a position
+const MAX_LINEAGE_DEPTH = 50;
+
+/**
+ * Token ID minted to owner by the batch that burned fromTokenId. Throws when
+ * a receipt is missing or reverted, or the batch did not burn and mint.
+ */
+export async function findRebalancedTokenId(
+	chainId: number,
+	owner: Address,
+	fromTokenId: bigint,
+	transactionHashes: Hash[],
+): Promise<bigint> {
+	const positionManager = CONTRACTS[chainId]?.POSITION_MANAGER;
+	if (!positionManager) {
+		throw new Error(`Unsupported chain ID: ${chainId}`);
+	}
+
+	const client = getPublicClient(chainId);
+	const receipts = await Promise.all(
+		transactionHashes.map((hash) => client.getTransactionReceipt({ hash })),
+	);
+	const reverted = receipts.find((receipt) => receipt.status !== "success");
+	if (reverted) {
+		throw new Error(`Transaction ${reverted.transactionHash} reverted`);
+	}
+
+	const transfers = parseEventLogs({
+		abi: V4_POSITION_MANAGER_ABI,
+		eventName: "Transfer",
+		logs: receipts.flatMap((receipt) => receipt.logs),
+	}).filter((log) => isAddressEqual(log.address, positionManager));
+
+	const burned = transfers.some(
+		({ args }) =>
+			args.id === fromTokenId &&
+			isAddressEqual(args.from, owner) &&
+			isAddressEqual(args.to, ZERO_ADDRESS),
+	);
+	if (!burned) {
+		throw new Error(`Position ${fromTokenId} was not burned by ${owner}`);
+	}
+
+	const minted = transfers.filter(
+		({ args }) =>
+			isAddressEqual(args.from, ZERO_ADDRESS) && isAddressEqual(args.to, owner),
+	);
+	if (minted.length !== 1) {
+		throw new Error(
+			`Expected one position minted to ${owner}, found ${minted.length}`,
+		);
+	}
+	return minted[0].args.id;
+}
+
+/**
+ * Every rebalance before and after a position, oldest first
+ */
+export async function getLineage(
+	chainId: number,
+	tokenId: string,
+): Promise<Rebalance[]> {
+	const lineage = new Map<number, Rebalance>();
+	let frontier = [tokenId];
+
+	for (let depth = 0; depth < MAX_LINEAGE_DEPTH && frontier.length; depth++) {
+		const rows = await db
+			.select()
+			.from(rebalances)
+			.where(
+				and(
+					eq(rebalances.chainId, chainId),
+					or(
+						inArray(rebalances.fromTokenId, frontier),
+						inArray(rebalances.toTokenId, frontier),
+					),
+				),
+			);
+
+		frontier = [];
+		for (const row of rows) {
+			if (lineage.has(row.id)) continue;
+			lineage.set(row.id, row);
+			frontier.push(row.fromTokenId, row.toTokenId);
+		}
+	}
+
+	return [...lineage.values()].sort(
+		(a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+	);
+}
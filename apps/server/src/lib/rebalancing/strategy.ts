@@ -0,0 +1,88 @@
+/**
+ * Rebalancing strategies
+ *
+ * A strategy picks the range a position is re-centered on and, optionally,
+ * how long the position must sit out of range before a rebalance is due. The
+ * plan itself is built by the client; the schedule only tracks the trigger.
+ */
+
+import { eq, isNotNull } from "drizzle-orm";
+import { db } from "../../db";
+import {
+	type RebalanceStrategy,
+	rebalanceStrategies,
+} from "../../db/schema/rebalancing";
+import { type PositionSummary, readV4Positions } from "../uniswap/positions";
+
+export interface TriggerState {
+	outOfRangeSince: Date | null;
+	due: boolean;
+}
+
+export function getTriggerState(
+	strategy: Pick<RebalanceStrategy, "triggerMinutes" | "outOfRangeSince">,
+	now = new Date(),
+): TriggerState {
+	const { triggerMinutes, outOfRangeSince } = strategy;
+	return {
+		outOfRangeSince,
+		due:
+			triggerMinutes !== null &&
+			outOfRangeSince !== null &&
+			now.getTime() - outOfRangeSince.getTime() >= triggerMinutes * 60_000,
+	};
+}
+
+/**
+ * Scheduled entry point: record when positions with a timed trigger leave
+ * their range, and clear it when they come back
+ */
+export async function trackRebalanceTriggers(): Promise<void> {
+	const strategies = await db
+		.select()
+		.from(rebalanceStrategies)
+		.where(isNotNull(rebalanceStrategies.triggerMinutes));
+	if (strategies.length === 0) return;
+
+	const chainIds = [...new Set(strategies.map(({ chainId }) => chainId))];
+	const results = await Promise.allSettled(
+		chainIds.map((chainId) =>
+			readV4Positions(
+				chainId,
+				strategies
+					.filter((strategy) => strategy.chainId === chainId)
+					.map(({ tokenId }) => BigInt(tokenId)),
+			),
+		),
+	);
+
+	const statuses = new Map<string, PositionSummary["status"]>();
+	results.forEach((result, i) => {
+		if (result.status === "rejected") {
+			console.error(
+				`Error reading rebalancing positions on chain ${chainIds[i]}:`,
+				result.reason,
+			);
+			return;
+		}
+		for (const position of result.value) {
+			statuses.set(`${position.chainId}-${position.tokenId}`, position.status);
+		}
+	});
+
+	const now = new Date();
+	const [first, ...rest] = strategies.flatMap((strategy) => {
+		const status = statuses.get(`${strategy.chainId}-${strategy.tokenId}`);
+		if (!status) return [];
+		const outOfRange = status === "POSITION_STATUS_OUT_OF_RANGE";
+		// Only transitions are written
+		if (outOfRange === (strategy.outOfRangeSince !== null)) return [];
+		return [
+			db
+				.update(rebalanceStrategies)
+				.set({ outOfRangeSince: outOfRange ? now : null })
+				.where(eq(rebalanceStrategies.id, strategy.id)),
+		];
+	});
+	if (first) await db.batch([first, ...rest]);
+}
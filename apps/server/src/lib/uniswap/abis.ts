@@ -0,0 +1,445 @@
+// StateView ABI for fetching pool state
+export const STATE_VIEW_ABI = [
+	{
+		inputs: [{ name: "poolId", type: "bytes32" }],
+		name: "getSlot0",
+		outputs: [
+			{ name: "sqrtPriceX96", type: "uint160" },
+			{ name: "tick", type: "int24" },
+			{ name: "protocolFee", type: "uint24" },
+			{ name: "lpFee", type: "uint24" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [{ name: "poolId", type: "bytes32" }],
+		name: "getLiquidity",
+		outputs: [{ name: "liquidity", type: "uint128" }],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{ name: "poolId", type: "bytes32" },
+			{ name: "owner", type: "address" },
+			{ name: "tickLower", type: "int24" },
+			{ name: "tickUpper", type: "int24" },
+			{ name: "salt", type: "bytes32" },
+		],
+		name: "getPositionInfo",
+		outputs: [
+			{ name: "liquidity", type: "uint128" },
+			{ name: "feeGrowthInside0LastX128", type: "uint256" },
+			{ name: "feeGrowthInside1LastX128", type: "uint256" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{ name: "poolId", type: "bytes32" },
+			{ name: "tickLower", type: "int24" },
+			{ name: "tickUpper", type: "int24" },
+		],
+		name: "getFeeGrowthInside",
+		outputs: [
+			{ name: "feeGrowthInside0X128", type: "uint256" },
+			{ name: "feeGrowthInside1X128", type: "uint256" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{ name: "poolId", type: "bytes32" },
+			{ name: "tick", type: "int16" },
+		],
+		name: "getTickBitmap",
+		outputs: [{ name: "tickBitmap", type: "uint256" }],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{ name: "poolId", type: "bytes32" },
+			{ name: "tick", type: "int24" },
+		],
+		name: "getTickLiquidity",
+		outputs: [
+			{ name: "liquidityGross", type: "uint128" },
+			{ name: "liquidityNet", type: "int128" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+] as const;
+
+// Permit2 ABI
+export const PERMIT2_ABI = [
+	{
+		inputs: [
+			{ name: "owner", type: "address" },
+			{ name: "token", type: "address" },
+			{ name: "spender", type: "address" },
+		],
+		name: "allowance",
+		outputs: [
+			{ name: "amount", type: "uint160" },
+			{ name: "expiration", type: "uint48" },
+			{ name: "nonce", type: "uint48" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+] as const;
+
+// Uniswap V4 PoolManager events, the ledger of every liquidity change
+export const POOL_MANAGER_ABI = [
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, name: "id", type: "bytes32" },
+			{ indexed: true, name: "currency0", type: "address" },
+			{ indexed: true, name: "currency1", type: "address" },
+			{ indexed: false, name: "fee", type: "uint24" },
+			{ indexed: false, name: "tickSpacing", type: "int24" },
+			{ indexed: false, name: "hooks", type: "address" },
+			{ indexed: false, name: "sqrtPriceX96", type: "uint160" },
+			{ indexed: false, name: "tick", type: "int24" },
+		],
+		name: "Initialize",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, name: "id", type: "bytes32" },
+			{ indexed: true, name: "sender", type: "address" },
+			{ indexed: false, name: "tickLower", type: "int24" },
+			{ indexed: false, name: "tickUpper", type: "int24" },
+			{ indexed: false, name: "liquidityDelta", type: "int256" },
+			{ indexed: false, name: "salt", type: "bytes32" },
+		],
+		name: "ModifyLiquidity",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, name: "id", type: "bytes32" },
+			{ indexed: true, name: "sender", type: "address" },
+			{ indexed: false, name: "amount0", type: "int128" },
+			{ indexed: false, name: "amount1", type: "int128" },
+			{ indexed: false, name: "sqrtPriceX96", type: "uint160" },
+			{ indexed: false, name: "liquidity", type: "uint128" },
+			{ indexed: false, name: "tick", type: "int24" },
+			{ indexed: false, name: "fee", type: "uint24" },
+		],
+		name: "Swap",
+		type: "event",
+	},
+] as const;
+
+// Uniswap V4 PositionManager ABI (ERC721 + position getters)
+export const V4_POSITION_MANAGER_ABI = [
+	{
+		inputs: [{ name: "tokenId", type: "uint256" }],
+		name: "getPoolAndPositionInfo",
+		outputs: [
+			{
+				name: "poolKey",
+				type: "tuple",
+				components: [
+					{ name: "currency0", type: "address" },
+					{ name: "currency1", type: "address" },
+					{ name: "fee", type: "uint24" },
+					{ name: "tickSpacing", type: "int24" },
+					{ name: "hooks", type: "address" },
+				],
+			},
+			{ name: "info", type: "uint256" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [{ name: "tokenId", type: "uint256" }],
+		name: "getPositionLiquidity",
+		outputs: [{ name: "liquidity", type: "uint128" }],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [{ name: "id", type: "uint256" }],
+		name: "ownerOf",
+		outputs: [{ name: "owner", type: "address" }],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, name: "from", type: "address" },
+			{ indexed: true, name: "to", type: "address" },
+			{ indexed: true, name: "id", type: "uint256" },
+		],
+		name: "Transfer",
+		type: "event",
+	},
+] as const;
+
+// Uniswap V3 NonfungiblePositionManager ABI (enumerable ERC721 + positions)
+export const V3_POSITION_MANAGER_ABI = [
+	{
+		inputs: [{ name: "owner", type: "address" }],
+		name: "balanceOf",
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{ name: "owner", type: "address" },
+			{ name: "index", type: "uint256" },
+		],
+		name: "tokenOfOwnerByIndex",
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [{ name: "tokenId", type: "uint256" }],
+		name: "ownerOf",
+		outputs: [{ name: "", type: "address" }],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [{ name: "tokenId", type: "uint256" }],
+		name: "positions",
+		outputs: [
+			{ name: "nonce", type: "uint96" },
+			{ name: "operator", type: "address" },
+			{ name: "token0", type: "address" },
+			{ name: "token1", type: "address" },
+			{ name: "fee", type: "uint24" },
+			{ name: "tickLower", type: "int24" },
+			{ name: "tickUpper", type: "int24" },
+			{ name: "liquidity", type: "uint128" },
+			{ name: "feeGrowthInside0LastX128", type: "uint256" },
+			{ name: "feeGrowthInside1LastX128", type: "uint256" },
+			{ name: "tokensOwed0", type: "uint128" },
+			{ name: "tokensOwed1", type: "uint128" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, name: "tokenId", type: "uint256" },
+			{ indexed: false, name: "liquidity", type: "uint128" },
+			{ indexed: false, name: "amount0", type: "uint256" },
+			{ indexed: false, name: "amount1", type: "uint256" },
+		],
+		name: "IncreaseLiquidity",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, name: "tokenId", type: "uint256" },
+			{ indexed: false, name: "liquidity", type: "uint128" },
+			{ indexed: false, name: "amount0", type: "uint256" },
+			{ indexed: false, name: "amount1", type: "uint256" },
+		],
+		name: "DecreaseLiquidity",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, name: "tokenId", type: "uint256" },
+			{ indexed: false, name: "recipient", type: "address" },
+			{ indexed: false, name: "amount0", type: "uint256" },
+			{ indexed: false, name: "amount1", type: "uint256" },
+		],
+		name: "Collect",
+		type: "event",
+	},
+] as const;
+
+// Uniswap V3 factory ABI for getPool function
+export const V3_FACTORY_ABI = [
+	{
+		inputs: [
+			{ name: "tokenA", type: "address" },
+			{ name: "tokenB", type: "address" },
+			{ name: "fee", type: "uint24" },
+		],
+		name: "getPool",
+		outputs: [{ name: "pool", type: "address" }],
+		stateMutability: "view",
+		type: "function",
+	},
+] as const;
+
+// Uniswap V3 pool ABI for price, liquidity and fee accounting
+export const V3_POOL_ABI = [
+	{
+		inputs: [],
+		name: "slot0",
+		outputs: [
+			{ name: "sqrtPriceX96", type: "uint160" },
+			{ name: "tick", type: "int24" },
+			{ name: "observationIndex", type: "uint16" },
+			{ name: "observationCardinality", type: "uint16" },
+			{ name: "observationCardinalityNext", type: "uint16" },
+			{ name: "feeProtocol", type: "uint8" },
+			{ name: "unlocked", type: "bool" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "liquidity",
+		outputs: [{ name: "", type: "uint128" }],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "feeGrowthGlobal0X128",
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "feeGrowthGlobal1X128",
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [{ name: "tick", type: "int24" }],
+		name: "ticks",
+		outputs: [
+			{ name: "liquidityGross", type: "uint128" },
+			{ name: "liquidityNet", type: "int128" },
+			{ name: "feeGrowthOutside0X128", type: "uint256" },
+			{ name: "feeGrowthOutside1X128", type: "uint256" },
+			{ name: "tickCumulativeOutside", type: "int56" },
+			{ name: "secondsPerLiquidityOutsideX128", type: "uint160" },
+			{ name: "secondsOutside", type: "uint32" },
+			{ name: "initialized", type: "bool" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+] as const;
+
+// Uniswap V3 TickLens ABI for reading a pool's initialized ticks one bitmap word at a time
+export const V3_TICK_LENS_ABI = [
+	{
+		inputs: [
+			{ name: "pool", type: "address" },
+			{ name: "tickBitmapIndex", type: "int16" },
+		],
+		name: "getPopulatedTicksInWord",
+		outputs: [
+			{
+				name: "populatedTicks",
+				type: "tuple[]",
+				components: [
+					{ name: "tick", type: "int24" },
+					{ name: "liquidityNet", type: "int128" },
+					{ name: "liquidityGross", type: "uint128" },
+				],
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+] as const;
+
+// Uniswap V3 QuoterV2 ABI. The quoter simulates each swap and reverts with the
+// result, so it is only ever eth_call'ed and is declared view here.
+export const V3_QUOTER_V2_ABI = [
+	{
+		inputs: [
+			{ name: "path", type: "bytes" },
+			{ name: "amountIn", type: "uint256" },
+		],
+		name: "quoteExactInput",
+		outputs: [
+			{ name: "amountOut", type: "uint256" },
+			{ name: "sqrtPriceX96AfterList", type: "uint160[]" },
+			{ name: "initializedTicksCrossedList", type: "uint32[]" },
+			{ name: "gasEstimate", type: "uint256" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{ name: "path", type: "bytes" },
+			{ name: "amountOut", type: "uint256" },
+		],
+		name: "quoteExactOutput",
+		outputs: [
+			{ name: "amountIn", type: "uint256" },
+			{ name: "sqrtPriceX96AfterList", type: "uint160[]" },
+			{ name: "initializedTicksCrossedList", type: "uint32[]" },
+			{ name: "gasEstimate", type: "uint256" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+] as const;
+
+const V4_QUOTE_PARAMS = {
+	name: "params",
+	type: "tuple",
+	components: [
+		{ name: "exactCurrency", type: "address" },
+		{
+			name: "path",
+			type: "tuple[]",
+			components: [
+				{ name: "intermediateCurrency", type: "address" },
+				{ name: "fee", type: "uint24" },
+				{ name: "tickSpacing", type: "int24" },
+				{ name: "hooks", type: "address" },
+				{ name: "hookData", type: "bytes" },
+			],
+		},
+		{ name: "exactAmount", type: "uint128" },
+	],
+} as const;
+
+// Uniswap V4 Quoter ABI, declared view for the same reason as QuoterV2
+export const V4_QUOTER_ABI = [
+	{
+		inputs: [V4_QUOTE_PARAMS],
+		name: "quoteExactInput",
+		outputs: [
+			{ name: "amountOut", type: "uint256" },
+			{ name: "gasEstimate", type: "uint256" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [V4_QUOTE_PARAMS],
+		name: "quoteExactOutput",
+		outputs: [
+			{ name: "amountIn", type: "uint256" },
+			{ name: "gasEstimate", type: "uint256" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+] as const;
@@ -0,0 +1,525 @@
+/**
+ * Position accounting
+ *
+ * Rebuilds a position's history from chain events (PoolManager ModifyLiquidity
+ * for V4, the NonfungiblePositionManager's liquidity and Collect events for V3)
+ * and values every deposit, withdrawal and fee collection at the pool price of
+ * its block. Values are denominated in token1; the gateway's USD value, when
+ * available, converts the totals at today's token1 price.
+ *
+ * Historical pool state is read at past blocks, which needs an archive RPC.
+ */
+
+import {
+	type Address,
+	BaseError,
+	ContractFunctionRevertedError,
+	ContractFunctionZeroDataError,
+	erc721Abi,
+	formatUnits,
+	getAbiItem,
+	type Hash,
+	type Hex,
+	numberToHex,
+	type PublicClient,
+} from "viem";
+import {
+	POOL_MANAGER_ABI,
+	STATE_VIEW_ABI,
+	V3_POOL_ABI,
+	V3_POSITION_MANAGER_ABI,
+} from "./abis";
+import { CONTRACTS, getPublicClient, V3_CONTRACTS } from "./contracts";
+import {
+	getAmountsForLiquidity,
+	getFeesOwed,
+	sqrtPriceX96ToPrice,
+} from "./math";
+import { type PositionSummary, scanLogs } from "./positions";
+
+const MODIFY_LIQUIDITY_EVENT = getAbiItem({
+	abi: POOL_MANAGER_ABI,
+	name: "ModifyLiquidity",
+});
+
+const V3_EVENTS = {
+	increase: getAbiItem({
+		abi: V3_POSITION_MANAGER_ABI,
+		name: "IncreaseLiquidity",
+	}),
+	decrease: getAbiItem({
+		abi: V3_POSITION_MANAGER_ABI,
+		name: "DecreaseLiquidity",
+	}),
+	collect: getAbiItem({ abi: V3_POSITION_MANAGER_ABI, name: "Collect" }),
+};
+
+export type PositionEventKind = "deposit" | "withdraw" | "collect";
+
+export interface PositionEvent {
+	kind: PositionEventKind;
+	blockNumber: string;
+	timestamp: number;
+	transactionHash: Hash;
+	// Base units; fees only for collect events, principal otherwise
+	amount0: string;
+	amount1: string;
+	// Pool price of token0 in token1 at the event's block
+	price: number;
+	// amount0 and amount1 valued in token1 at that price
+	value: number;
+}
+
+/**
+ * Profit and loss of a position, all values in token1
+ */
+export interface PositionAccounting {
+	events: PositionEvent[];
+	deposited: number;
+	withdrawn: number;
+	// Deposit value attributed to the liquidity still in the position
+	costBasis: number;
+	currentValue: number;
+	feesCollected: number;
+	feesUncollected: number;
+	feesEarned: number;
+	// Deposited tokens held instead, at today's price, plus the share sold off at each withdrawal
+	hodlValue: number;
+	// Position value and withdrawals minus hodlValue, excluding fees; negative is a loss
+	impermanentLoss: number;
+	impermanentLossPercent: number | null;
+	// Withdrawals and collected fees against the cost basis they released
+	realizedPnl: number;
+	// Current value and uncollected fees against the remaining cost basis
+	unrealizedPnl: number;
+	totalPnl: number;
+	totalPnlPercent: number | null;
+	// USD per token1 today, null when the gateway has no value for the position
+	usdPerToken1: number | null;
+}
+
+// One liquidity change or collection, before valuation
+interface LedgerEntry {
+	blockNumber: bigint;
+	transactionHash: Hash;
+	liquidityDelta: bigint;
+	principal0: bigint;
+	principal1: bigint;
+	fees0: bigint;
+	fees1: bigint;
+	sqrtPriceX96: bigint;
+}
+
+// ownerOf reverts for unminted IDs and returns nothing before the manager was deployed
+function isUnminted(error: unknown): boolean {
+	return (
+		error instanceof BaseError &&
+		!!error.walk(
+			(cause) =>
+				cause instanceof ContractFunctionRevertedError ||
+				cause instanceof ContractFunctionZeroDataError,
+		)
+	);
+}
+
+/**
+ * Find the block a position NFT was minted in by bisecting on ownerOf
+ */
+async function findMintBlock(
+	client: PublicClient,
+	positionManager: Address,
+	tokenId: bigint,
+	fromBlock: bigint,
+): Promise<bigint> {
+	let low = fromBlock;
+	let high = await client.getBlockNumber();
+
+	while (low < high) {
+		const mid = (low + high) / 2n;
+		try {
+			await client.readContract({
+				address: positionManager,
+				abi: erc721Abi,
+				functionName: "ownerOf",
+				args: [tokenId],
+				blockNumber: mid,
+			});
+			high = mid;
+		} catch (error) {
+			if (!isUnminted(error)) throw error;
+			low = mid + 1n;
+		}
+	}
+
+	return low;
+}
+
+/**
+ * V4 ledger from the PoolManager's ModifyLiquidity events. Every liquidity
+ * change also settles the fees accrued since the previous one, which are
+ * recovered from the fee growth inside the range at each event's block.
+ */
+async function readV4Ledger(
+	client: PublicClient,
+	position: PositionSummary,
+): Promise<LedgerEntry[]> {
+	const contracts = CONTRACTS[position.chainId];
+	if (!contracts) return [];
+
+	const tokenId = BigInt(position.tokenId);
+	const poolId = position.poolId as Hex;
+	// PositionManager keys each position in the pool by its token ID
+	const salt = numberToHex(tokenId, { size: 32 });
+
+	const mintBlock = await findMintBlock(
+		client,
+		contracts.POSITION_MANAGER,
+		tokenId,
+		contracts.POSITION_MANAGER_DEPLOY_BLOCK,
+	);
+	const logs = await scanLogs(client, mintBlock, (fromBlock, toBlock) =>
+		client.getLogs({
+			address: contracts.POOL_MANAGER,
+			event: MODIFY_LIQUIDITY_EVENT,
+			args: { id: poolId, sender: contracts.POSITION_MANAGER },
+			fromBlock,
+			toBlock,
+		}),
+	);
+	const own = logs.filter((log) => log.args.salt === salt);
+
+	const states = await Promise.all(
+		own.map((log) =>
+			Promise.all([
+				client.readContract({
+					address: contracts.STATE_VIEW,
+					abi: STATE_VIEW_ABI,
+					functionName: "getSlot0",
+					args: [poolId],
+					blockNumber: log.blockNumber,
+				}),
+				client.readContract({
+					address: contracts.STATE_VIEW,
+					abi: STATE_VIEW_ABI,
+					functionName: "getFeeGrowthInside",
+					args: [poolId, position.tickLower, position.tickUpper],
+					blockNumber: log.blockNumber,
+				}),
+			]),
+		),
+	);
+
+	let liquidity = 0n;
+	let feeGrowthInside0LastX128 = 0n;
+	let feeGrowthInside1LastX128 = 0n;
+
+	return own.map((log, i) => {
+		const [[sqrtPriceX96], [feeGrowthInside0X128, feeGrowthInside1X128]] =
+			states[i];
+		const liquidityDelta = log.args.liquidityDelta ?? 0n;
+		const { amount0, amount1 } = getAmountsForLiquidity(
+			sqrtPriceX96,
+			position.tickLower,
+			position.tickUpper,
+			liquidityDelta < 0n ? -liquidityDelta : liquidityDelta,
+		);
+		const entry = {
+			blockNumber: log.blockNumber,
+			transactionHash: log.transactionHash,
+			liquidityDelta,
+			principal0: amount0,
+			principal1: amount1,
+			fees0: getFeesOwed(
+				liquidity,
+				feeGrowthInside0X128,
+				feeGrowthInside0LastX128,
+			),
+			fees1: getFeesOwed(
+				liquidity,
+				feeGrowthInside1X128,
+				feeGrowthInside1LastX128,
+			),
+			sqrtPriceX96,
+		};
+		liquidity += liquidityDelta;
+		feeGrowthInside0LastX128 = feeGrowthInside0X128;
+		feeGrowthInside1LastX128 = feeGrowthInside1X128;
+		return entry;
+	});
+}
+
+/**
+ * V3 ledger from the NonfungiblePositionManager's events. Removed liquidity is
+ * owed to the position until collected, so a Collect pays out that principal
+ * first and fees after it.
+ */
+async function readV3Ledger(
+	client: PublicClient,
+	position: PositionSummary,
+): Promise<LedgerEntry[]> {
+	const contracts = V3_CONTRACTS[position.chainId];
+	if (!contracts) return [];
+
+	const tokenId = BigInt(position.tokenId);
+	const positionManager = contracts.NONFUNGIBLE_POSITION_MANAGER;
+	const mintBlock = await findMintBlock(client, positionManager, tokenId, 0n);
+
+	const [increases, decreases, collects] = await Promise.all([
+		scanLogs(client, mintBlock, (fromBlock, toBlock) =>
+			client.getLogs({
+				address: positionManager,
+				event: V3_EVENTS.increase,
+				args: { tokenId },
+				fromBlock,
+				toBlock,
+			}),
+		),
+		scanLogs(client, mintBlock, (fromBlock, toBlock) =>
+			client.getLogs({
+				address: positionManager,
+				event: V3_EVENTS.decrease,
+				args: { tokenId },
+				fromBlock,
+				toBlock,
+			}),
+		),
+		scanLogs(client, mintBlock, (fromBlock, toBlock) =>
+			client.getLogs({
+				address: positionManager,
+				event: V3_EVENTS.collect,
+				args: { tokenId },
+				fromBlock,
+				toBlock,
+			}),
+		),
+	]);
+
+	const logs = [
+		...increases.map((log) => ({
+			...log,
+			kind: "increase" as const,
+			liquidity: log.args.liquidity ?? 0n,
+		})),
+		...decreases.map((log) => ({
+			...log,
+			kind: "decrease" as const,
+			liquidity: log.args.liquidity ?? 0n,
+		})),
+		...collects.map((log) => ({
+			...log,
+			kind: "collect" as const,
+			liquidity: 0n,
+		})),
+	].sort((a, b) =>
+		a.blockNumber === b.blockNumber
+			? a.logIndex - b.logIndex
+			: a.blockNumber < b.blockNumber
+				? -1
+				: 1,
+	);
+
+	const prices = await Promise.all(
+		logs.map((log) =>
+			client.readContract({
+				address: position.poolId as Address,
+				abi: V3_POOL_ABI,
+				functionName: "slot0",
+				blockNumber: log.blockNumber,
+			}),
+		),
+	);
+
+	let owed0 = 0n;
+	let owed1 = 0n;
+
+	return logs.map((log, i) => {
+		const [sqrtPriceX96] = prices[i];
+		const amount0 = log.args.amount0 ?? 0n;
+		const amount1 = log.args.amount1 ?? 0n;
+		const entry = {
+			blockNumber: log.blockNumber,
+			transactionHash: log.transactionHash,
+			liquidityDelta: 0n,
+			principal0: 0n,
+			principal1: 0n,
+			fees0: 0n,
+			fees1: 0n,
+			sqrtPriceX96,
+		};
+
+		if (log.kind === "collect") {
+			const principal0 = amount0 < owed0 ? amount0 : owed0;
+			const principal1 = amount1 < owed1 ? amount1 : owed1;
+			owed0 -= principal0;
+			owed1 -= principal1;
+			return {
+				...entry,
+				fees0: amount0 - principal0,
+				fees1: amount1 - principal1,
+			};
+		}
+
+		if (log.kind === "decrease") {
+			owed0 += amount0;
+			owed1 += amount1;
+		}
+		return {
+			...entry,
+			liquidityDelta: log.kind === "decrease" ? -log.liquidity : log.liquidity,
+			principal0: amount0,
+			principal1: amount1,
+		};
+	});
+}
+
+/**
+ * Value a position's ledger and split its result into fees, impermanent loss
+ * and realized and unrealized PnL
+ */
+function summarize(
+	position: PositionSummary,
+	ledger: LedgerEntry[],
+	timestamps: Map<bigint, number>,
+): PositionAccounting {
+	const { decimals: decimals0 } = position.token0;
+	const { decimals: decimals1 } = position.token1;
+	const valueAt = (amount0: bigint, amount1: bigint, price: number) =>
+		Number(formatUnits(amount0, decimals0)) * price +
+		Number(formatUnits(amount1, decimals1));
+
+	const events: PositionEvent[] = [];
+	let liquidity = 0n;
+	let deposited = 0;
+	let withdrawn = 0;
+	let costBasis = 0;
+	let releasedBasis = 0;
+	let feesCollected = 0;
+	// Deposited token amounts still "held" in the counterfactual, and what the withdrawn share fetched
+	let hodl0 = 0;
+	let hodl1 = 0;
+	let hodlWithdrawn = 0;
+
+	for (const entry of ledger) {
+		const price = sqrtPriceX96ToPrice(entry.sqrtPriceX96, decimals0, decimals1);
+		const base = {
+			blockNumber: entry.blockNumber.toString(),
+			timestamp: timestamps.get(entry.blockNumber) ?? 0,
+			transactionHash: entry.transactionHash,
+			price,
+		};
+
+		if (entry.fees0 > 0n || entry.fees1 > 0n) {
+			const value = valueAt(entry.fees0, entry.fees1, price);
+			feesCollected += value;
+			events.push({
+				...base,
+				kind: "collect",
+				amount0: entry.fees0.toString(),
+				amount1: entry.fees1.toString(),
+				value,
+			});
+		}
+
+		if (entry.liquidityDelta === 0n) continue;
+
+		const value = valueAt(entry.principal0, entry.principal1, price);
+		if (entry.liquidityDelta > 0n) {
+			deposited += value;
+			costBasis += value;
+			hodl0 += Number(formatUnits(entry.principal0, decimals0));
+			hodl1 += Number(formatUnits(entry.principal1, decimals1));
+		} else {
+			// Share of the position's liquidity being removed
+			const share =
+				liquidity > 0n
+					? Math.min(Number(-entry.liquidityDelta) / Number(liquidity), 1)
+					: 1;
+			withdrawn += value;
+			releasedBasis += costBasis * share;
+			costBasis -= costBasis * share;
+			hodlWithdrawn += (hodl0 * price + hodl1) * share;
+			hodl0 -= hodl0 * share;
+			hodl1 -= hodl1 * share;
+		}
+		liquidity += entry.liquidityDelta;
+		events.push({
+			...base,
+			kind: entry.liquidityDelta > 0n ? "deposit" : "withdraw",
+			amount0: entry.principal0.toString(),
+			amount1: entry.principal1.toString(),
+			value,
+		});
+	}
+
+	const price = sqrtPriceX96ToPrice(
+		BigInt(position.sqrtPriceX96),
+		decimals0,
+		decimals1,
+	);
+	const currentValue = valueAt(
+		BigInt(position.amount0),
+		BigInt(position.amount1),
+		price,
+	);
+	const feesUncollected = valueAt(
+		BigInt(position.token0UncollectedFees),
+		BigInt(position.token1UncollectedFees),
+		price,
+	);
+	const hodlValue = hodl0 * price + hodl1 + hodlWithdrawn;
+	const impermanentLoss = currentValue + withdrawn - hodlValue;
+	const realizedPnl = withdrawn - releasedBasis + feesCollected;
+	const unrealizedPnl = currentValue + feesUncollected - costBasis;
+	const totalPnl = realizedPnl + unrealizedPnl;
+	const totalLiquidityUsd =
+		position.totalLiquidityUsd !== null
+			? Number(position.totalLiquidityUsd)
+			: 0;
+
+	return {
+		events,
+		deposited,
+		withdrawn,
+		costBasis,
+		currentValue,
+		feesCollected,
+		feesUncollected,
+		feesEarned: feesCollected + feesUncollected,
+		hodlValue,
+		impermanentLoss,
+		impermanentLossPercent:
+			hodlValue > 0 ? (impermanentLoss / hodlValue) * 100 : null,
+		realizedPnl,
+		unrealizedPnl,
+		totalPnl,
+		totalPnlPercent: deposited > 0 ? (totalPnl / deposited) * 100 : null,
+		usdPerToken1:
+			totalLiquidityUsd > 0 && currentValue > 0
+				? totalLiquidityUsd / currentValue
+				: null,
+	};
+}
+
+/**
+ * Reconstruct and value a position's history. The result covers the position
+ * itself, whoever held the NFT at the time of each event.
+ */
+export async function fetchPositionAccounting(
+	position: PositionSummary,
+): Promise<PositionAccounting> {
+	const client = getPublicClient(position.chainId);
+	const ledger =
+		position.protocolVersion === "PROTOCOL_VERSION_V4"
+			? await readV4Ledger(client, position)
+			: await readV3Ledger(client, position);
+
+	const blockNumbers = [...new Set(ledger.map((entry) => entry.blockNumber))];
+	const blocks = await Promise.all(
+		blockNumbers.map((blockNumber) => client.getBlock({ blockNumber })),
+	);
+	const timestamps = new Map(
+		blocks.map((block) => [block.number, Number(block.timestamp)]),
+	);
+
+	return summarize(position, ledger, timestamps);
+}
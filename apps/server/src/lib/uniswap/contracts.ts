@@ -0,0 +1,254 @@
+import {
+	type Address,
+	type Chain,
+	createPublicClient,
+	encodeAbiParameters,
+	getCreate2Address,
+	http,
+	keccak256,
+	parseAbiParameters,
+} from "viem";
+import { arbitrum, base, mainnet, optimism, polygon } from "viem/chains";
+
+// Uniswap V4 contract addresses by chain
+export const CONTRACTS: Record<
+	number,
+	{
+		POOL_MANAGER: Address;
+		POSITION_MANAGER: Address;
+		STATE_VIEW: Address;
+		PERMIT2: Address;
+		QUOTER: Address;
+		// Block the PositionManager was deployed at, used as the lower bound for log scans
+		POSITION_MANAGER_DEPLOY_BLOCK: bigint;
+	}
+> = {
+	// Ethereum Mainnet
+	1: {
+		POOL_MANAGER: "0x000000000004444c5dc75cB358380D2e3dE08A90",
+		POSITION_MANAGER: "0xbd216513d74c8cf14cf4747e6aaa6420ff64ee9e",
+		STATE_VIEW: "0x7ffe42c4a5deea5b0fec41c94c136cf115597227",
+		PERMIT2: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
+		QUOTER: "0x52f0e24d1c21c8a0cb1e5a5dd6198556bd9e1203",
+		POSITION_MANAGER_DEPLOY_BLOCK: 21688329n,
+	},
+	// Polygon
+	137: {
+		POOL_MANAGER: "0x67366782805870060151383f4bbff9dab53e5cd6",
+		POSITION_MANAGER: "0x1ec2ebf4f37e7363fdfe3551602425af0b3ceef9",
+		STATE_VIEW: "0x5ea1bd7974c8a611cbab0bdcafcb1d9cc9b3ba5a",
+		PERMIT2: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
+		QUOTER: "0xb3d5c3dfc3a7aebff71895a7191796bffc2c81b9",
+		POSITION_MANAGER_DEPLOY_BLOCK: 66980384n,
+	},
+	// Optimism
+	10: {
+		POOL_MANAGER: "0x9a13f98cb987694c9f086b1f5eb990eea8264ec3",
+		POSITION_MANAGER: "0x3c3ea4b57a46241e54610e5f022e5c45859a1017",
+		STATE_VIEW: "0xc18a3169788f4f75a170290584eca6395c75ecdb",
+		PERMIT2: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
+		QUOTER: "0x1f3131a13296fb91c90870043742c3cdbff1a8d7",
+		POSITION_MANAGER_DEPLOY_BLOCK: 130947675n,
+	},
+	// Base
+	8453: {
+		POOL_MANAGER: "0x498581ff718922c3f8e6a244956af099b2652b2b",
+		POSITION_MANAGER: "0x7c5f5a4bbd8fd63184577525326123b519429bdc",
+		STATE_VIEW: "0xa3c0c9b65bad0b08107aa264b0f3db444b867a71",
+		PERMIT2: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
+		QUOTER: "0x0d5e0f971ed27fbff6c2837bf31316121532048d",
+		POSITION_MANAGER_DEPLOY_BLOCK: 25350988n,
+	},
+	// Arbitrum
+	42161: {
+		POOL_MANAGER: "0x360e68faccca8ca495c1b759fd9eee466db9fb32",
+		POSITION_MANAGER: "0xd88f38f930b7952f2db2432cb002e7abbf3dd869",
+		STATE_VIEW: "0x76fd297e2d437cd7f76d50f01afe6160f86e9990",
+		PERMIT2: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
+		QUOTER: "0x3972c00f7ed4885e145823eb7c655375d275a1c5",
+		POSITION_MANAGER_DEPLOY_BLOCK: 297842872n,
+	},
+} as const;
+
+// Uniswap V3 contract addresses by chain
+export const V3_CONTRACTS: Record<
+	number,
+	{
+		FACTORY: Address;
+		NONFUNGIBLE_POSITION_MANAGER: Address;
+		TICK_LENS?: Address;
+		QUOTER_V2?: Address;
+	}
+> = {
+	// Ethereum Mainnet
+	1: {
+		FACTORY: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+		NONFUNGIBLE_POSITION_MANAGER: "0xC36442b4a4522E871399CD717aBDD847Ab11FE88",
+		TICK_LENS: "0xbfd8137f7d1516D3ea5cA83523914859ec47F573",
+		QUOTER_V2: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e",
+	},
+	// Polygon
+	137: {
+		FACTORY: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+		NONFUNGIBLE_POSITION_MANAGER: "0xC36442b4a4522E871399CD717aBDD847Ab11FE88",
+		TICK_LENS: "0xbfd8137f7d1516D3ea5cA83523914859ec47F573",
+		QUOTER_V2: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e",
+	},
+	// Optimism
+	10: {
+		FACTORY: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+		NONFUNGIBLE_POSITION_MANAGER: "0xC36442b4a4522E871399CD717aBDD847Ab11FE88",
+		TICK_LENS: "0xbfd8137f7d1516D3ea5cA83523914859ec47F573",
+		QUOTER_V2: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e",
+	},
+	// Base
+	8453: {
+		FACTORY: "0x33128a8fC17869897dcE68Ed026d694621f6FDfD",
+		NONFUNGIBLE_POSITION_MANAGER: "0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1",
+		TICK_LENS: "0x0CdeE061c75D43c82520eD998C23ac2991c9ac6d",
+		QUOTER_V2: "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a",
+	},
+	// Arbitrum
+	42161: {
+		FACTORY: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+		NONFUNGIBLE_POSITION_MANAGER: "0xC36442b4a4522E871399CD717aBDD847Ab11FE88",
+		TICK_LENS: "0xbfd8137f7d1516D3ea5cA83523914859ec47F573",
+		QUOTER_V2: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e",
+	},
+} as const;
+
+// WETH addresses by chain
+export const WETH_ADDRESSES: Record<number, Address> = {
+	1: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", // Ethereum Mainnet
+	137: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619", // Polygon
+	10: "0x4200000000000000000000000000000000000006", // Optimism
+	8453: "0x4200000000000000000000000000000000000006", // Base
+	42161: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1", // Arbitrum
+} as const;
+
+// Wrapped native currency by chain, the token that unwraps to the chain's gas token
+export const WRAPPED_NATIVE_ADDRESSES: Record<number, Address> = {
+	1: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", // WETH
+	137: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270", // WPOL
+	10: "0x4200000000000000000000000000000000000006", // WETH
+	8453: "0x4200000000000000000000000000000000000006", // WETH
+	42161: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1", // WETH
+} as const;
+
+// Native USDC by chain, a routing hub for multi-hop quotes alongside the wrapped native token
+export const USDC_ADDRESSES: Record<number, Address> = {
+	1: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", // Ethereum Mainnet
+	137: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", // Polygon
+	10: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85", // Optimism
+	8453: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", // Base
+	42161: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", // Arbitrum
+} as const;
+
+// Init code hash of V3 pools, the same on every chain's factory
+const V3_POOL_INIT_CODE_HASH =
+	"0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54";
+
+// Chain configurations for all supported mainnet chains
+export const CHAIN_CONFIGS: {
+	[key: number]: { chain: Chain; rpcUrl: string };
+} = {
+	1: {
+		// Ethereum Mainnet
+		chain: mainnet,
+		rpcUrl: "https://ethereum-rpc.publicnode.com",
+	},
+	137: {
+		// Polygon
+		chain: polygon,
+		rpcUrl: "https://polygon-rpc.com",
+	},
+	10: {
+		// Optimism
+		chain: optimism,
+		rpcUrl: "https://mainnet.optimism.io",
+	},
+	8453: {
+		// Base
+		chain: base,
+		rpcUrl: "https://mainnet.base.org",
+	},
+	42161: {
+		// Arbitrum
+		chain: arbitrum,
+		rpcUrl: "https://arb1.arbitrum.io/rpc",
+	},
+};
+
+export const SUPPORTED_CHAIN_IDS = Object.keys(CHAIN_CONFIGS).map(Number);
+
+export const ZERO_ADDRESS: Address =
+	"0x0000000000000000000000000000000000000000";
+
+/**
+ * Create a viem public client for a supported chain
+ */
+export function getPublicClient(chainId: number) {
+	const chainConfig = CHAIN_CONFIGS[chainId];
+	if (!chainConfig) {
+		throw new Error(`Unsupported chain ID: ${chainId}`);
+	}
+
+	return createPublicClient({
+		chain: chainConfig.chain,
+		transport: http(chainConfig.rpcUrl),
+	});
+}
+
+// Helper function to get tick spacing based on fee tier
+export function getTickSpacing(feeTier: number): number {
+	switch (feeTier) {
+		case 100:
+			return 1; // 0.01%
+		case 500:
+			return 10; // 0.05%
+		case 3000:
+			return 60; // 0.3%
+		case 10000:
+			return 200; // 1%
+		default:
+			return 60; // Default to 0.3% fee tier
+	}
+}
+
+// Helper to calculate pool ID (keccak256 hash of pool key)
+export function calculatePoolId(
+	token0: Address,
+	token1: Address,
+	fee: number,
+	tickSpacing: number,
+	hookAddress: Address,
+): `0x${string}` {
+	// Encode the pool key according to Uniswap V4 PoolKey struct
+	const encodedPoolKey = encodeAbiParameters(
+		parseAbiParameters("address, address, uint24, int24, address"),
+		[token0, token1, fee, tickSpacing, hookAddress],
+	);
+
+	// Return keccak256 hash as bytes32
+	return keccak256(encodedPoolKey);
+}
+
+// Helper to compute a V3 pool's address from its factory without an RPC call
+export function computeV3PoolAddress(
+	factory: Address,
+	token0: Address,
+	token1: Address,
+	fee: number,
+): Address {
+	return getCreate2Address({
+		from: factory,
+		salt: keccak256(
+			encodeAbiParameters(parseAbiParameters("address, address, uint24"), [
+				token0,
+				token1,
+				fee,
+			]),
+		),
+		bytecodeHash: V3_POOL_INIT_CODE_HASH,
+	});
+}
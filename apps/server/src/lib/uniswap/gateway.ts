@@ -0,0 +1,175 @@
+/**
+ * Uniswap interface gateway client
+ *
+ * Optional enrichment source for USD values and APRs. Positions themselves are
+ * read on-chain (see ./positions), so any failure here degrades to null fields.
+ */
+
+import type { PositionSummary } from "./positions";
+
+const UNISWAP_INTERFACE_API_URL =
+	"https://interface.gateway.uniswap.org/v2/pools.v1.PoolsService/ListPositions";
+
+// Give up quickly so a slow or blocked gateway never stalls the on-chain path
+const GATEWAY_TIMEOUT_MS = 5_000;
+
+// Types and interfaces based on Uniswap Interface API
+interface ApiToken {
+	chainId: number;
+	address: string;
+	symbol: string;
+	decimals: number;
+	name: string;
+	isNative?: boolean;
+}
+
+interface PoolPosition {
+	tokenId: string;
+	tickLower: string;
+	tickUpper: string;
+	liquidity: string;
+	token0: ApiToken;
+	token1: ApiToken;
+	feeTier: string;
+	currentTick: string;
+	currentPrice: string;
+	tickSpacing: string;
+	token0UncollectedFees: string;
+	token1UncollectedFees: string;
+	amount0: string;
+	amount1: string;
+	poolId: string;
+	totalLiquidityUsd: string;
+	currentLiquidity: string;
+	apr: number;
+	totalApr: number;
+}
+
+interface ApiV4Position {
+	poolPosition: PoolPosition;
+	hooks: Array<{
+		address: string;
+	}>;
+}
+
+interface Position {
+	chainId: number;
+	protocolVersion: string;
+	v4Position?: ApiV4Position;
+	v3Position?: PoolPosition;
+	v2Position?: any; // V2 positions have different structure
+	status: string;
+	timestamp: number;
+}
+
+interface ListPositionsResponse {
+	positions: Position[];
+}
+
+export interface PositionEnrichment {
+	totalLiquidityUsd: string;
+	apr: number;
+	totalApr: number;
+}
+
+// Helper function to call Uniswap Interface API
+async function fetchPositionsFromUniswap(
+	address: string,
+): Promise<ListPositionsResponse> {
+	const response = await fetch(UNISWAP_INTERFACE_API_URL, {
+		method: "POST",
+		headers: {
+			accept: "*/*",
+			"connect-protocol-version": "1",
+			"content-type": "application/json",
+		},
+		body: JSON.stringify({
+			address: address,
+			chainIds: [
+				1, 130, 8453, 42161, 137, 10, 56, 43114, 480, 324, 1868, 7777777, 42220,
+				81457,
+			], // All supported chains
+			protocolVersions: ["PROTOCOL_VERSION_V4", "PROTOCOL_VERSION_V3"],
+			positionStatuses: [
+				"POSITION_STATUS_IN_RANGE",
+				"POSITION_STATUS_OUT_OF_RANGE",
+			],
+			pageSize: 100, // Fetch more positions
+			pageToken: "",
+			includeHidden: true,
+		}),
+		signal: AbortSignal.timeout(GATEWAY_TIMEOUT_MS),
+	});
+
+	if (!response.ok) {
+		throw new Error(
+			`Uniswap API error: ${response.status} ${response.statusText}`,
+		);
+	}
+
+	return response.json() as Promise<ListPositionsResponse>;
+}
+
+function enrichmentKey(
+	chainId: number,
+	protocolVersion: string,
+	tokenId: string,
+): string {
+	return `${chainId}-${protocolVersion}-${tokenId}`;
+}
+
+/**
+ * Fetch USD values and APRs keyed by chain, protocol and token ID.
+ * Returns an empty map when the gateway is unreachable or rejects the request.
+ */
+export async function fetchPositionEnrichment(
+	owner: string,
+): Promise<Map<string, PositionEnrichment>> {
+	const enrichment = new Map<string, PositionEnrichment>();
+
+	try {
+		const response = await fetchPositionsFromUniswap(owner);
+
+		for (const position of response.positions ?? []) {
+			const poolPosition =
+				position.v4Position?.poolPosition ?? position.v3Position;
+			if (!poolPosition) continue;
+
+			enrichment.set(
+				enrichmentKey(
+					position.chainId,
+					position.protocolVersion,
+					poolPosition.tokenId,
+				),
+				{
+					totalLiquidityUsd: poolPosition.totalLiquidityUsd,
+					apr: poolPosition.apr,
+					totalApr: poolPosition.totalApr,
+				},
+			);
+		}
+	} catch (error) {
+		console.warn("Uniswap gateway enrichment unavailable:", error);
+	}
+
+	return enrichment;
+}
+
+/**
+ * Merge gateway enrichment into on-chain positions, leaving unmatched positions untouched
+ */
+export function applyPositionEnrichment(
+	positions: PositionSummary[],
+	enrichment: Map<string, PositionEnrichment>,
+): PositionSummary[] {
+	return positions.map((position) => {
+		const extra = enrichment.get(
+			enrichmentKey(
+				position.chainId,
+				position.protocolVersion,
+				position.tokenId,
+			),
+		);
+		return extra ? { ...position, ...extra } : position;
+	});
+}
@@ -0,0 +1,330 @@
+/**
+ * Pool liquidity distribution
+ *
+ * Reads a pool's initialized ticks around its current tick (TickLens for V3,
+ * StateView's tick bitmap for V4) and turns their liquidityNet into the active
+ * liquidity of each tick range, for rendering a depth chart.
+ */
+
+import type { Address, PublicClient } from "viem";
+import {
+	STATE_VIEW_ABI,
+	V3_FACTORY_ABI,
+	V3_POOL_ABI,
+	V3_TICK_LENS_ABI,
+} from "./abis";
+import {
+	CONTRACTS,
+	calculatePoolId,
+	getPublicClient,
+	getTickSpacing,
+	V3_CONTRACTS,
+	ZERO_ADDRESS,
+} from "./contracts";
+import { MAX_TICK, MIN_TICK } from "./math";
+import type { ProtocolVersion } from "./positions";
+
+// Each bitmap word covers 256 usable ticks; bounds the RPC calls per request
+const MAX_WORDS_PER_SIDE = 16;
+
+interface PopulatedTick {
+	tick: number;
+	liquidityNet: bigint;
+}
+
+export interface LiquidityBar {
+	tickLower: number;
+	tickUpper: number;
+	// Active liquidity while the price is inside [tickLower, tickUpper)
+	liquidity: string;
+}
+
+export interface LiquidityDistribution {
+	protocolVersion: ProtocolVersion;
+	token0: Address;
+	token1: Address;
+	tickSpacing: number;
+	currentTick: number;
+	sqrtPriceX96: string;
+	liquidity: string;
+	bars: LiquidityBar[];
+}
+
+/**
+ * Bitmap words covering the ticks within tickWindow of the current tick
+ */
+function getWordRange(
+	currentTick: number,
+	tickSpacing: number,
+	tickWindow: number,
+): { words: number[]; tickLower: number; tickUpper: number } {
+	const toWord = (tick: number) => Math.floor(tick / tickSpacing) >> 8;
+	const currentWord = toWord(currentTick);
+	const minWord = Math.max(
+		toWord(Math.max(currentTick - tickWindow, MIN_TICK)),
+		currentWord - MAX_WORDS_PER_SIDE,
+	);
+	const maxWord = Math.min(
+		toWord(Math.min(currentTick + tickWindow, MAX_TICK)),
+		currentWord + MAX_WORDS_PER_SIDE,
+	);
+
+	const words: number[] = [];
+	for (let word = minWord; word <= maxWord; word++) words.push(word);
+
+	return {
+		words,
+		tickLower: Math.max(minWord * 256 * tickSpacing, MIN_TICK),
+		tickUpper: Math.min((maxWord + 1) * 256 * tickSpacing, MAX_TICK),
+	};
+}
+
+/**
+ * Walk outwards from the current tick, applying liquidityNet at each crossed tick.
+ * Every initialized tick between tickLower and tickUpper must be in ticks.
+ */
+function buildLiquidityBars(
+	ticks: PopulatedTick[],
+	currentTick: number,
+	activeLiquidity: bigint,
+	tickLower: number,
+	tickUpper: number,
+): LiquidityBar[] {
+	const netByTick = new Map(
+		ticks
+			.filter((t) => t.tick > tickLower && t.tick < tickUpper)
+			.map((t) => [t.tick, t.liquidityNet]),
+	);
+	const boundaries = [
+		tickLower,
+		...[...netByTick.keys()].sort((a, b) => a - b),
+		tickUpper,
+	];
+
+	// Segment holding the current tick, its liquidity is the pool's active liquidity
+	let current = boundaries.findIndex(
+		(tick, i) => currentTick >= tick && currentTick < boundaries[i + 1],
+	);
+	if (current === -1)
+		current = currentTick < tickLower ? 0 : boundaries.length - 2;
+
+	const liquidity: bigint[] = new Array(boundaries.length - 1);
+	liquidity[current] = activeLiquidity;
+	for (let i = current + 1; i < boundaries.length - 1; i++) {
+		liquidity[i] = liquidity[i - 1] + (netByTick.get(boundaries[i]) ?? 0n);
+	}
+	for (let i = current - 1; i >= 0; i--) {
+		liquidity[i] = liquidity[i + 1] - (netByTick.get(boundaries[i + 1]) ?? 0n);
+	}
+
+	return liquidity.map((value, i) => ({
+		tickLower: boundaries[i],
+		tickUpper: boundaries[i + 1],
+		liquidity: (value > 0n ? value : 0n).toString(),
+	}));
+}
+
+async function readV4PopulatedTicks(
+	client: PublicClient,
+	stateView: Address,
+	poolId: `0x${string}`,
+	words: number[],
+	tickSpacing: number,
+): Promise<PopulatedTick[]> {
+	const bitmaps = await client.multicall({
+		contracts: words.map(
+			(word) =>
+				({
+					address: stateView,
+					abi: STATE_VIEW_ABI,
+					functionName: "getTickBitmap",
+					args: [poolId, word],
+				}) as const,
+		),
+		allowFailure: false,
+	});
+
+	const initializedTicks = words.flatMap((word, i) => {
+		const ticks: number[] = [];
+		for (let bit = 0; bit < 256; bit++) {
+			if ((bitmaps[i] >> BigInt(bit)) & 1n) {
+				ticks.push((word * 256 + bit) * tickSpacing);
+			}
+		}
+		return ticks;
+	});
+	if (initializedTicks.length === 0) return [];
+
+	const tickLiquidity = await client.multicall({
+		contracts: initializedTicks.map(
+			(tick) =>
+				({
+					address: stateView,
+					abi: STATE_VIEW_ABI,
+					functionName: "getTickLiquidity",
+					args: [poolId, tick],
+				}) as const,
+		),
+		allowFailure: false,
+	});
+
+	return initializedTicks.map((tick, i) => ({
+		tick,
+		liquidityNet: tickLiquidity[i][1],
+	}));
+}
+
+async function readV3PopulatedTicks(
+	client: PublicClient,
+	tickLens: Address,
+	pool: Address,
+	words: number[],
+): Promise<PopulatedTick[]> {
+	const results = await client.multicall({
+		contracts: words.map(
+			(word) =>
+				({
+					address: tickLens,
+					abi: V3_TICK_LENS_ABI,
+					functionName: "getPopulatedTicksInWord",
+					args: [pool, word],
+				}) as const,
+		),
+		allowFailure: false,
+	});
+
+	return results.flatMap((ticks) =>
+		ticks.map((t) => ({ tick: t.tick, liquidityNet: t.liquidityNet })),
+	);
+}
+
+/**
+ * Liquidity distribution of a hookless V4 pool, or null if it is not initialized
+ */
+export async function fetchV4LiquidityDistribution(
+	chainId: number,
+	token0: Address,
+	token1: Address,
+	fee: number,
+	tickWindow: number,
+): Promise<LiquidityDistribution | null> {
+	const contracts = CONTRACTS[chainId];
+	if (!contracts) {
+		throw new Error(`Uniswap V4 is not deployed on chain ${chainId}`);
+	}
+
+	const client = getPublicClient(chainId);
+	const tickSpacing = getTickSpacing(fee);
+	const poolId = calculatePoolId(
+		token0,
+		token1,
+		fee,
+		tickSpacing,
+		ZERO_ADDRESS,
+	);
+
+	const [[sqrtPriceX96, currentTick], liquidity] = await client.multicall({
+		contracts: [
+			{
+				address: contracts.STATE_VIEW,
+				abi: STATE_VIEW_ABI,
+				functionName: "getSlot0",
+				args: [poolId],
+			},
+			{
+				address: contracts.STATE_VIEW,
+				abi: STATE_VIEW_ABI,
+				functionName: "getLiquidity",
+				args: [poolId],
+			},
+		],
+		allowFailure: false,
+	});
+	if (sqrtPriceX96 === 0n) return null;
+
+	const range = getWordRange(currentTick, tickSpacing, tickWindow);
+	const ticks = await readV4PopulatedTicks(
+		client,
+		contracts.STATE_VIEW,
+		poolId,
+		range.words,
+		tickSpacing,
+	);
+
+	return {
+		protocolVersion: "PROTOCOL_VERSION_V4",
+		token0,
+		token1,
+		tickSpacing,
+		currentTick,
+		sqrtPriceX96: sqrtPriceX96.toString(),
+		liquidity: liquidity.toString(),
+		bars: buildLiquidityBars(
+			ticks,
+			currentTick,
+			liquidity,
+			range.tickLower,
+			range.tickUpper,
+		),
+	};
+}
+
+/**
+ * Liquidity distribution of a V3 pool, or null if the factory has no such pool
+ */
+export async function fetchV3LiquidityDistribution(
+	chainId: number,
+	token0: Address,
+	token1: Address,
+	fee: number,
+	tickWindow: number,
+): Promise<LiquidityDistribution | null> {
+	const contracts = V3_CONTRACTS[chainId];
+	if (!contracts?.TICK_LENS) {
+		throw new Error(`Uniswap V3 TickLens is not deployed on chain ${chainId}`);
+	}
+
+	const client = getPublicClient(chainId);
+	const pool = await client.readContract({
+		address: contracts.FACTORY,
+		abi: V3_FACTORY_ABI,
+		functionName: "getPool",
+		args: [token0, token1, fee],
+	});
+	if (pool === ZERO_ADDRESS) return null;
+
+	const [[sqrtPriceX96, currentTick], liquidity] = await client.multicall({
+		contracts: [
+			{ address: pool, abi: V3_POOL_ABI, functionName: "slot0" },
+			{ address: pool, abi: V3_POOL_ABI, functionName: "liquidity" },
+		],
+		allowFailure: false,
+	});
+	if (sqrtPriceX96 === 0n) return null;
+
+	const tickSpacing = getTickSpacing(fee);
+	const range = getWordRange(currentTick, tickSpacing, tickWindow);
+	const ticks = await readV3PopulatedTicks(
+		client,
+		contracts.TICK_LENS,
+		pool,
+		range.words,
+	);
+
+	return {
+		protocolVersion: "PROTOCOL_VERSION_V3",
+		token0,
+		token1,
+		tickSpacing,
+		currentTick,
+		sqrtPriceX96: sqrtPriceX96.toString(),
+		liquidity: liquidity.toString(),
+		bars: buildLiquidityBars(
+			ticks,
+			currentTick,
+			liquidity,
+			range.tickLower,
+			range.tickUpper,
+		),
+	};
+}
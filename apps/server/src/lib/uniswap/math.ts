@@ -0,0 +1,288 @@
+/**
+ * Uniswap concentrated liquidity math
+ *
+ * Bigint ports of the TickMath / SqrtPriceMath / LiquidityAmounts helpers from
+ * v3-core and v4-core, so the server can value positions without the SDKs.
+ */
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+
+export const Q96 = 2n ** 96n;
+export const Q128 = 2n ** 128n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+/**
+ * Round a tick to the nearest tick usable with the given spacing, clamped to the valid range
+ */
+export function nearestUsableTick(tick: number, tickSpacing: number): number {
+	const rounded = Math.round(tick / tickSpacing) * tickSpacing;
+	if (rounded < MIN_TICK) return rounded + tickSpacing;
+	if (rounded > MAX_TICK) return rounded - tickSpacing;
+	return rounded;
+}
+
+/**
+ * Largest tick whose price does not exceed the given human readable price of token0 in token1
+ */
+export function priceToTick(
+	price: number,
+	decimals0: number,
+	decimals1: number,
+): number {
+	if (!(price > 0) || !Number.isFinite(price)) {
+		throw new Error(`Invalid price: ${price}`);
+	}
+	const rawPrice = price * 10 ** (decimals1 - decimals0);
+	const tick = Math.floor(Math.log(rawPrice) / Math.log(1.0001));
+	return Math.min(Math.max(tick, MIN_TICK), MAX_TICK);
+}
+
+/**
+ * Human readable price of token0 in token1 at a tick
+ */
+export function tickToPrice(
+	tick: number,
+	decimals0: number,
+	decimals1: number,
+): number {
+	return 1.0001 ** tick * 10 ** (decimals0 - decimals1);
+}
+
+/**
+ * Convert a price range to usable ticks for the pool's tick spacing.
+ * Prices are of token0 in token1; the range is widened by a spacing if both
+ * bounds snap to the same tick.
+ */
+export function priceRangeToTicks(
+	minPrice: number,
+	maxPrice: number,
+	decimals0: number,
+	decimals1: number,
+	tickSpacing: number,
+): { tickLower: number; tickUpper: number } {
+	if (minPrice >= maxPrice) {
+		throw new Error("Min price must be lower than max price");
+	}
+
+	const tickLower = nearestUsableTick(
+		priceToTick(minPrice, decimals0, decimals1),
+		tickSpacing,
+	);
+	let tickUpper = nearestUsableTick(
+		priceToTick(maxPrice, decimals0, decimals1),
+		tickSpacing,
+	);
+	if (tickUpper <= tickLower) {
+		tickUpper = tickLower + tickSpacing;
+	}
+	if (tickUpper > MAX_TICK) {
+		return { tickLower: tickLower - tickSpacing, tickUpper: tickLower };
+	}
+	return { tickLower, tickUpper };
+}
+
+/**
+ * Calculate sqrt(1.0001^tick) * 2^96
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+	if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+		throw new Error(`Tick out of range: ${tick}`);
+	}
+
+	const absTick = BigInt(Math.abs(tick));
+
+	let ratio =
+		(absTick & 0x1n) !== 0n
+			? 0xfffcb933bd6fad37aa2d162d1a594001n
+			: 0x100000000000000000000000000000000n;
+	if ((absTick & 0x2n) !== 0n)
+		ratio = (ratio * 0xfff97272373d413259a46990580e213an) >> 128n;
+	if ((absTick & 0x4n) !== 0n)
+		ratio = (ratio * 0xfff2e50f5f656932ef12357cf3c7fdccn) >> 128n;
+	if ((absTick & 0x8n) !== 0n)
+		ratio = (ratio * 0xffe5caca7e10e4e61c3624eaa0941cd0n) >> 128n;
+	if ((absTick & 0x10n) !== 0n)
+		ratio = (ratio * 0xffcb9843d60f6159c9db58835c926644n) >> 128n;
+	if ((absTick & 0x20n) !== 0n)
+		ratio = (ratio * 0xff973b41fa98c081472e6896dfb254c0n) >> 128n;
+	if ((absTick & 0x40n) !== 0n)
+		ratio = (ratio * 0xff2ea16466c96a3843ec78b326b52861n) >> 128n;
+	if ((absTick & 0x80n) !== 0n)
+		ratio = (ratio * 0xfe5dee046a99a2a811c461f1969c3053n) >> 128n;
+	if ((absTick & 0x100n) !== 0n)
+		ratio = (ratio * 0xfcbe86c7900a88aedcffc83b479aa3a4n) >> 128n;
+	if ((absTick & 0x200n) !== 0n)
+		ratio = (ratio * 0xf987a7253ac413176f2b074cf7815e54n) >> 128n;
+	if ((absTick & 0x400n) !== 0n)
+		ratio = (ratio * 0xf3392b0822b70005940c7a398e4b70f3n) >> 128n;
+	if ((absTick & 0x800n) !== 0n)
+		ratio = (ratio * 0xe7159475a2c29b7443b29c7fa6e889d9n) >> 128n;
+	if ((absTick & 0x1000n) !== 0n)
+		ratio = (ratio * 0xd097f3bdfd2022b8845ad8f792aa5825n) >> 128n;
+	if ((absTick & 0x2000n) !== 0n)
+		ratio = (ratio * 0xa9f746462d870fdf8a65dc1f90e061e5n) >> 128n;
+	if ((absTick & 0x4000n) !== 0n)
+		ratio = (ratio * 0x70d869a156d2a1b890bb3df62baf32f7n) >> 128n;
+	if ((absTick & 0x8000n) !== 0n)
+		ratio = (ratio * 0x31be135f97d08fd981231505542fcfa6n) >> 128n;
+	if ((absTick & 0x10000n) !== 0n)
+		ratio = (ratio * 0x9aa508b5b7a84e1c677de54f3e99bc9n) >> 128n;
+	if ((absTick & 0x20000n) !== 0n)
+		ratio = (ratio * 0x5d6af8dedb81196699c329225ee604n) >> 128n;
+	if ((absTick & 0x40000n) !== 0n)
+		ratio = (ratio * 0x2216e584f5fa1ea926041bedfe98n) >> 128n;
+	if ((absTick & 0x80000n) !== 0n)
+		ratio = (ratio * 0x48a170391f7dc42444e8fa2n) >> 128n;
+
+	if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+	// Round up to a Q64.96 value
+	return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+function getAmount0ForLiquidity(
+	sqrtRatioA: bigint,
+	sqrtRatioB: bigint,
+	liquidity: bigint,
+): bigint {
+	const [lower, upper] =
+		sqrtRatioA < sqrtRatioB
+			? [sqrtRatioA, sqrtRatioB]
+			: [sqrtRatioB, sqrtRatioA];
+	return ((liquidity << 96n) * (upper - lower)) / upper / lower;
+}
+
+function getAmount1ForLiquidity(
+	sqrtRatioA: bigint,
+	sqrtRatioB: bigint,
+	liquidity: bigint,
+): bigint {
+	const [lower, upper] =
+		sqrtRatioA < sqrtRatioB
+			? [sqrtRatioA, sqrtRatioB]
+			: [sqrtRatioB, sqrtRatioA];
+	return (liquidity * (upper - lower)) / Q96;
+}
+
+/**
+ * Token amounts held by a position with the given liquidity at the current price
+ */
+export function getAmountsForLiquidity(
+	sqrtPriceX96: bigint,
+	tickLower: number,
+	tickUpper: number,
+	liquidity: bigint,
+): { amount0: bigint; amount1: bigint } {
+	const sqrtRatioLower = getSqrtRatioAtTick(tickLower);
+	const sqrtRatioUpper = getSqrtRatioAtTick(tickUpper);
+
+	if (sqrtPriceX96 <= sqrtRatioLower) {
+		return {
+			amount0: getAmount0ForLiquidity(
+				sqrtRatioLower,
+				sqrtRatioUpper,
+				liquidity,
+			),
+			amount1: 0n,
+		};
+	}
+
+	if (sqrtPriceX96 < sqrtRatioUpper) {
+		return {
+			amount0: getAmount0ForLiquidity(sqrtPriceX96, sqrtRatioUpper, liquidity),
+			amount1: getAmount1ForLiquidity(sqrtRatioLower, sqrtPriceX96, liquidity),
+		};
+	}
+
+	return {
+		amount0: 0n,
+		amount1: getAmount1ForLiquidity(sqrtRatioLower, sqrtRatioUpper, liquidity),
+	};
+}
+
+/**
+ * Fees accrued since the last checkpoint: liquidity * (growthInside - growthInsideLast) / 2^128,
+ * with the subtraction wrapping the same way the contracts' unchecked math does
+ */
+export function getFeesOwed(
+	liquidity: bigint,
+	feeGrowthInsideX128: bigint,
+	feeGrowthInsideLastX128: bigint,
+): bigint {
+	const delta = (feeGrowthInsideX128 - feeGrowthInsideLastX128) & MAX_UINT256;
+	return (liquidity * delta) / Q128;
+}
+
+/**
+ * V3-style fee growth inside a tick range from global and per-tick outside accumulators
+ */
+export function getFeeGrowthInside(
+	tickCurrent: number,
+	tickLower: number,
+	tickUpper: number,
+	feeGrowthGlobalX128: bigint,
+	lowerOutsideX128: bigint,
+	upperOutsideX128: bigint,
+): bigint {
+	const below =
+		tickCurrent >= tickLower
+			? lowerOutsideX128
+			: (feeGrowthGlobalX128 - lowerOutsideX128) & MAX_UINT256;
+	const above =
+		tickCurrent < tickUpper
+			? upperOutsideX128
+			: (feeGrowthGlobalX128 - upperOutsideX128) & MAX_UINT256;
+	return (feeGrowthGlobalX128 - below - above) & MAX_UINT256;
+}
+
+/**
+ * Human readable price of token0 denominated in token1
+ */
+export function sqrtPriceX96ToPrice(
+	sqrtPriceX96: bigint,
+	decimals0: number,
+	decimals1: number,
+): number {
+	const ratio = Number(sqrtPriceX96) / Number(Q96);
+	return ratio * ratio * 10 ** (decimals0 - decimals1);
+}
+
+/**
+ * sqrt(price) * 2^96 for a human readable price of token0 in token1, used as the
+ * starting price when initializing a pool
+ */
+export function priceToSqrtPriceX96(
+	price: number,
+	decimals0: number,
+	decimals1: number,
+): bigint {
+	if (!(price > 0) || !Number.isFinite(price)) {
+		throw new Error(`Invalid price: ${price}`);
+	}
+	const sqrtPrice = Math.sqrt(price * 10 ** (decimals1 - decimals0));
+	const sqrtPriceX96 = BigInt(Math.floor(sqrtPrice * Number(Q96)));
+	if (
+		sqrtPriceX96 < getSqrtRatioAtTick(MIN_TICK) ||
+		sqrtPriceX96 >= getSqrtRatioAtTick(MAX_TICK)
+	) {
+		throw new Error(`Price out of range: ${price}`);
+	}
+	return sqrtPriceX96;
+}
+
+/**
+ * Greatest tick whose sqrt ratio does not exceed sqrtPriceX96, matching TickMath.getTickAtSqrtRatio
+ */
+export function getTickAtSqrtPrice(sqrtPriceX96: bigint): number {
+	const ratio = Number(sqrtPriceX96) / Number(Q96);
+	let tick = Math.floor((2 * Math.log(ratio)) / Math.log(1.0001));
+	tick = Math.min(Math.max(tick, MIN_TICK), MAX_TICK - 1);
+
+	// The float estimate can be off by one either way near a tick boundary
+	while (tick > MIN_TICK && getSqrtRatioAtTick(tick) > sqrtPriceX96) tick--;
+	while (tick < MAX_TICK - 1 && getSqrtRatioAtTick(tick + 1) <= sqrtPriceX96) {
+		tick++;
+	}
+	return tick;
+}
@@ -0,0 +1,995 @@
+/**
+ * On-chain position source
+ *
+ * Enumerates an owner's Uniswap V4 PositionManager and V3 NonfungiblePositionManager
+ * NFTs and values them from pool state (StateView for V4, the pool contract for V3).
+ * V4 NFTs come from the indexer's positions table once it has caught up, and
+ * otherwise from a scan of Transfer logs to the owner resumed from a stored
+ * block on each load; V3 NFTs from the manager's enumerable balance.
+ */
+
+import { and, eq } from "drizzle-orm";
+import {
+	type Address,
+	BaseError,
+	erc20Abi,
+	getAbiItem,
+	getAddress,
+	LimitExceededRpcError,
+	numberToHex,
+	type PublicClient,
+} from "viem";
+import { db } from "../../db";
+import {
+	positions as indexedPositions,
+	indexerCursors,
+} from "../../db/schema/indexer";
+import { positionScans } from "../../db/schema/positions";
+import {
+	STATE_VIEW_ABI,
+	V3_FACTORY_ABI,
+	V3_POOL_ABI,
+	V3_POSITION_MANAGER_ABI,
+	V4_POSITION_MANAGER_ABI,
+} from "./abis";
+import {
+	CHAIN_CONFIGS,
+	CONTRACTS,
+	calculatePoolId,
+	getPublicClient,
+	getTickSpacing,
+	V3_CONTRACTS,
+	WRAPPED_NATIVE_ADDRESSES,
+	ZERO_ADDRESS,
+} from "./contracts";
+import {
+	getAmountsForLiquidity,
+	getFeeGrowthInside,
+	getFeesOwed,
+	sqrtPriceX96ToPrice,
+} from "./math";
+
+export type ProtocolVersion = "PROTOCOL_VERSION_V3" | "PROTOCOL_VERSION_V4";
+
+export type PositionStatus =
+	| "POSITION_STATUS_IN_RANGE"
+	| "POSITION_STATUS_OUT_OF_RANGE";
+
+export interface PositionToken {
+	chainId: number;
+	address: string;
+	symbol: string;
+	decimals: number;
+	name: string;
+	isNative?: boolean;
+	// Set on the chain's wrapped native token (WETH, WPOL), which can be unwrapped on collect
+	isWrappedNative?: boolean;
+}
+
+/**
+ * Normalized position returned by the uniswap router.
+ * Token amounts and fees are raw base-unit strings.
+ */
+export interface PositionSummary {
+	tokenId: string;
+	chainId: number;
+	protocolVersion: ProtocolVersion;
+	status: PositionStatus;
+	timestamp: number;
+	tickLower: number;
+	tickUpper: number;
+	liquidity: string;
+	token0: PositionToken;
+	token1: PositionToken;
+	feeTier: number;
+	currentTick: number;
+	currentPrice: string;
+	sqrtPriceX96: string;
+	tickSpacing: number;
+	token0UncollectedFees: string;
+	token1UncollectedFees: string;
+	amount0: string;
+	amount1: string;
+	poolId: string;
+	currentLiquidity: string;
+	hooks: string[];
+	// Enrichment fields, only available when the interface gateway responds
+	totalLiquidityUsd: string | null;
+	apr: number | null;
+	totalApr: number | null;
+}
+
+// Smallest block span we will split a rejected eth_getLogs range into
+const MIN_LOG_SPAN = 10n;
+// getLogs requests one position listing spends on an owner's V4 transfers
+const MAX_SCAN_REQUESTS = 25;
+// Blocks the indexer may lag the head by and still list V4 positions
+const MAX_UNINDEXED_SPAN = 50_000n;
+// RPC messages for a getLogs range over the provider's block or result cap
+const LOG_RANGE_ERROR =
+	/block range|range (is )?too (large|wide)|limited to|more than \d+ results|response size|exceeds? (the )?max/i;
+
+const TRANSFER_EVENT = getAbiItem({
+	abi: V4_POSITION_MANAGER_ABI,
+	name: "Transfer",
+});
+
+/**
+ * Decode a signed int24 packed into an unsigned word
+ */
+function decodeInt24(raw: bigint): number {
+	const value = Number(raw & 0xffffffn);
+	return value >= 0x800000 ? value - 0x1000000 : value;
+}
+
+/**
+ * Unpack V4 PositionInfo: | 200 bits poolId | 24 bits tickUpper | 24 bits tickLower | 8 bits hasSubscriber |
+ */
+function decodePositionInfo(info: bigint) {
+	return {
+		tickLower: decodeInt24(info >> 8n),
+		tickUpper: decodeInt24(info >> 32n),
+		hasSubscriber: (info & 0xffn) !== 0n,
+	};
+}
+
+function getPositionStatus(
+	currentTick: number,
+	tickLower: number,
+	tickUpper: number,
+): PositionStatus {
+	return currentTick >= tickLower && currentTick < tickUpper
+		? "POSITION_STATUS_IN_RANGE"
+		: "POSITION_STATUS_OUT_OF_RANGE";
+}
+
+/**
+ * Fetch ERC20 metadata for a set of tokens; the zero address resolves to the chain's native currency
+ */
+async function fetchTokenInfo(
+	client: PublicClient,
+	chainId: number,
+	addresses: Address[],
+): Promise<Map<string, PositionToken>> {
+	const tokens = new Map<string, PositionToken>();
+	const unique = [...new Set(addresses.map((a) => a.toLowerCase() as Address))];
+
+	const nativeCurrency = CHAIN_CONFIGS[chainId]?.chain.nativeCurrency;
+	const wrappedNative = WRAPPED_NATIVE_ADDRESSES[chainId]?.toLowerCase();
+	const erc20s = unique.filter((address) => address !== ZERO_ADDRESS);
+
+	if (unique.includes(ZERO_ADDRESS) && nativeCurrency) {
+		tokens.set(ZERO_ADDRESS, {
+			chainId,
+			address: ZERO_ADDRESS,
+			symbol: nativeCurrency.symbol,
+			decimals: nativeCurrency.decimals,
+			name: nativeCurrency.name,
+			isNative: true,
+		});
+	}
+
+	const results = await client.multicall({
+		contracts: erc20s.flatMap((address) => [
+			{ address, abi: erc20Abi, functionName: "symbol" } as const,
+			{ address, abi: erc20Abi, functionName: "name" } as const,
+			{ address, abi: erc20Abi, functionName: "decimals" } as const,
+		]),
+		allowFailure: true,
+	});
+
+	erc20s.forEach((address, i) => {
+		const [symbol, name, decimals] = results.slice(i * 3, i * 3 + 3);
+		tokens.set(address, {
+			chainId,
+			address,
+			symbol:
+				symbol.status === "success" ? (symbol.result as string) : "UNKNOWN",
+			name:
+				name.status === "success" ? (name.result as string) : "Unknown Token",
+			decimals: decimals.status === "success" ? Number(decimals.result) : 18,
+			...(address === wrappedNative && { isWrappedNative: true }),
+		});
+	});
+
+	return tokens;
+}
+
+// Rejections of a getLogs range as too large, as opposed to transient failures
+function isLogRangeError(error: unknown): boolean {
+	return (
+		error instanceof BaseError &&
+		!!error.walk(
+			(cause) =>
+				cause instanceof LimitExceededRpcError ||
+				(cause instanceof BaseError && LOG_RANGE_ERROR.test(cause.details)),
+		)
+	);
+}
+
+export interface LogScan<T> {
+	logs: T[];
+	// Last block covered, short of toBlock when the request budget ran out
+	scannedTo: bigint;
+}
+
+/**
+ * Run a log query from fromBlock to toBlock in at most maxRequests requests.
+ * The block span is halved when the RPC rejects a range as too large and
+ * doubled again after each successful request; other errors are thrown.
+ */
+export async function scanLogRange<T>(
+	fromBlock: bigint,
+	toBlock: bigint,
+	getLogs: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+	maxRequests = Number.POSITIVE_INFINITY,
+): Promise<LogScan<T>> {
+	const logs: T[] = [];
+
+	let start = fromBlock;
+	let span = toBlock - fromBlock + 1n;
+
+	for (let request = 0; start <= toBlock && request < maxRequests; request++) {
+		const end = start + span - 1n < toBlock ? start + span - 1n : toBlock;
+		try {
+			logs.push(...(await getLogs(start, end)));
+			start = end + 1n;
+			span *= 2n;
+		} catch (error) {
+			if (!isLogRangeError(error) || span <= MIN_LOG_SPAN) throw error;
+			span /= 2n;
+		}
+	}
+
+	return { logs, scannedTo: start - 1n };
+}
+
+/**
+ * Run a log query from fromBlock to the chain head
+ */
+export async function scanLogs<T>(
+	client: PublicClient,
+	fromBlock: bigint,
+	getLogs: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+): Promise<T[]> {
+	const toBlock = await client.getBlockNumber();
+	const { logs } = await scanLogRange(fromBlock, toBlock, getLogs);
+	return logs;
+}
+
+export interface V4TokenIds {
+	tokenIds: bigint[];
+	// False while the owner's transfers are still being scanned up to the head
+	complete: boolean;
+}
+
+// Current holder of each NFT, null where ownerOf failed or reverted
+async function readV4Owners(
+	client: PublicClient,
+	positionManager: Address,
+	tokenIds: bigint[],
+): Promise<(Address | null)[]> {
+	if (tokenIds.length === 0) return [];
+	const results = await client.multicall({
+		contracts: tokenIds.map(
+			(tokenId) =>
+				({
+					address: positionManager,
+					abi: V4_POSITION_MANAGER_ABI,
+					functionName: "ownerOf",
+					args: [tokenId],
+				}) as const,
+		),
+		allowFailure: true,
+	});
+	return results.map((result) =>
+		result.status === "success" ? result.result : null,
+	);
+}
+
+/**
+ * List the V4 position token IDs currently held by the owner on a chain.
+ * Once the indexer has caught up with the chain, its positions table is read
+ * and only the blocks past its cursor are scanned. Otherwise the Transfer
+ * scan continues from the block stored for the owner and spends at most
+ * MAX_SCAN_REQUESTS requests, so a first listing on a fast chain can take
+ * several loads to complete.
+ */
+export async function listV4TokenIds(
+	chainId: number,
+	owner: Address,
+): Promise<V4TokenIds> {
+	const contracts = CONTRACTS[chainId];
+	if (!contracts) return { tokenIds: [], complete: true };
+
+	const account = getAddress(owner);
+	const client = getPublicClient(chainId);
+	const [[cursor], [stored], head] = await Promise.all([
+		db
+			.select({ blockNumber: indexerCursors.blockNumber })
+			.from(indexerCursors)
+			.where(eq(indexerCursors.chainId, chainId)),
+		db
+			.select()
+			.from(positionScans)
+			.where(
+				and(
+					eq(positionScans.chainId, chainId),
+					eq(positionScans.owner, account),
+				),
+			),
+		client.getBlockNumber(),
+	]);
+	const indexedTo = cursor ? BigInt(cursor.blockNumber) : undefined;
+	const useIndexer =
+		indexedTo !== undefined && head - indexedTo <= MAX_UNINDEXED_SPAN;
+
+	const scanFrom = useIndexer
+		? indexedTo + 1n
+		: stored
+			? BigInt(stored.blockNumber) + 1n
+			: contracts.POSITION_MANAGER_DEPLOY_BLOCK;
+	const [indexed, scan] = await Promise.all([
+		useIndexer
+			? db
+					.select({ tokenId: indexedPositions.tokenId })
+					.from(indexedPositions)
+					.where(
+						and(
+							eq(indexedPositions.chainId, chainId),
+							eq(indexedPositions.owner, account),
+							eq(indexedPositions.burned, false),
+						),
+					)
+			: Promise.resolve(
+					(stored?.tokenIds ?? []).map((tokenId) => ({ tokenId })),
+				),
+		scanLogRange(
+			scanFrom,
+			head,
+			(fromBlock, toBlock) =>
+				client.getLogs({
+					address: contracts.POSITION_MANAGER,
+					event: TRANSFER_EVENT,
+					args: { to: account },
+					fromBlock,
+					toBlock,
+				}),
+			MAX_SCAN_REQUESTS,
+		),
+	]);
+	const candidates = [
+		...new Set([
+			...indexed.map((row) => BigInt(row.tokenId)),
+			...scan.logs.flatMap((log) =>
+				log.args.id === undefined ? [] : [log.args.id],
+			),
+		]),
+	];
+
+	// Transfers in do not mean the owner still holds the NFT
+	const owners = await readV4Owners(
+		client,
+		contracts.POSITION_MANAGER,
+		candidates,
+	);
+	const isHeld = (i: number) =>
+		owners[i]?.toLowerCase() === account.toLowerCase();
+	const held = candidates.filter((_, i) => isHeld(i));
+
+	// The owner's own scan only advances while the indexer is behind
+	if (!useIndexer) {
+		// NFTs seen leaving are dropped, a transfer back is found by later scans
+		const kept = candidates
+			.filter((_, i) => owners[i] === null || isHeld(i))
+			.map(String);
+		const scannedTo = Number(scan.scannedTo);
+		await db
+			.insert(positionScans)
+			.values({
+				chainId,
+				owner: account,
+				blockNumber: scannedTo,
+				tokenIds: kept,
+				updatedAt: new Date(),
+			})
+			.onConflictDoUpdate({
+				target: [positionScans.chainId, positionScans.owner],
+				set: { blockNumber: scannedTo, tokenIds: kept, updatedAt: new Date() },
+			});
+	}
+
+	return { tokenIds: held, complete: scan.scannedTo >= head };
+}
+
+/**
+ * List the V3 position token IDs currently held by the owner on a chain
+ */
+export async function listV3TokenIds(
+	chainId: number,
+	owner: Address,
+): Promise<bigint[]> {
+	const contracts = V3_CONTRACTS[chainId];
+	if (!contracts) return [];
+
+	const client = getPublicClient(chainId);
+	const balance = await client.readContract({
+		address: contracts.NONFUNGIBLE_POSITION_MANAGER,
+		abi: V3_POSITION_MANAGER_ABI,
+		functionName: "balanceOf",
+		args: [owner],
+	});
+	if (balance === 0n) return [];
+
+	return client.multicall({
+		contracts: Array.from(
+			{ length: Number(balance) },
+			(_, index) =>
+				({
+					address: contracts.NONFUNGIBLE_POSITION_MANAGER,
+					abi: V3_POSITION_MANAGER_ABI,
+					functionName: "tokenOfOwnerByIndex",
+					args: [owner, BigInt(index)],
+				}) as const,
+		),
+		allowFailure: false,
+	});
+}
+
+/**
+ * Read and value V4 positions by token ID
+ */
+export async function readV4Positions(
+	chainId: number,
+	tokenIds: bigint[],
+): Promise<PositionSummary[]> {
+	const contracts = CONTRACTS[chainId];
+	if (!contracts || tokenIds.length === 0) return [];
+
+	const client = getPublicClient(chainId);
+
+	const positionData = await client.multicall({
+		contracts: tokenIds.flatMap((tokenId) => [
+			{
+				address: contracts.POSITION_MANAGER,
+				abi: V4_POSITION_MANAGER_ABI,
+				functionName: "getPoolAndPositionInfo",
+				args: [tokenId],
+			} as const,
+			{
+				address: contracts.POSITION_MANAGER,
+				abi: V4_POSITION_MANAGER_ABI,
+				functionName: "getPositionLiquidity",
+				args: [tokenId],
+			} as const,
+		]),
+		allowFailure: true,
+	});
+
+	// One unreadable token ID only drops its own position
+	const positions = tokenIds.flatMap((tokenId, i) => {
+		const [infoResult, liquidityResult] = positionData.slice(i * 2, i * 2 + 2);
+		if (
+			infoResult.status !== "success" ||
+			liquidityResult.status !== "success"
+		) {
+			console.error(
+				`Skipping V4 position ${tokenId} on chain ${chainId}:`,
+				infoResult.error ?? liquidityResult.error,
+			);
+			return [];
+		}
+		const [poolKey, info] = infoResult.result as readonly [
+			{
+				currency0: Address;
+				currency1: Address;
+				fee: number;
+				tickSpacing: number;
+				hooks: Address;
+			},
+			bigint,
+		];
+		const liquidity = liquidityResult.result as bigint;
+		const { tickLower, tickUpper } = decodePositionInfo(info);
+		const poolId = calculatePoolId(
+			poolKey.currency0,
+			poolKey.currency1,
+			poolKey.fee,
+			poolKey.tickSpacing,
+			poolKey.hooks,
+		);
+		return [{ tokenId, poolKey, liquidity, tickLower, tickUpper, poolId }];
+	});
+	if (positions.length === 0) return [];
+
+	const poolIds = [...new Set(positions.map((p) => p.poolId))];
+
+	const [poolData, feeData, tokens] = await Promise.all([
+		client.multicall({
+			contracts: poolIds.flatMap((poolId) => [
+				{
+					address: contracts.STATE_VIEW,
+					abi: STATE_VIEW_ABI,
+					functionName: "getSlot0",
+					args: [poolId],
+				} as const,
+				{
+					address: contracts.STATE_VIEW,
+					abi: STATE_VIEW_ABI,
+					functionName: "getLiquidity",
+					args: [poolId],
+				} as const,
+			]),
+			allowFailure: false,
+		}),
+		client.multicall({
+			contracts: positions.flatMap((p) => [
+				{
+					address: contracts.STATE_VIEW,
+					abi: STATE_VIEW_ABI,
+					functionName: "getPositionInfo",
+					args: [
+						p.poolId,
+						contracts.POSITION_MANAGER,
+						p.tickLower,
+						p.tickUpper,
+						numberToHex(p.tokenId, { size: 32 }),
+					],
+				} as const,
+				{
+					address: contracts.STATE_VIEW,
+					abi: STATE_VIEW_ABI,
+					functionName: "getFeeGrowthInside",
+					args: [p.poolId, p.tickLower, p.tickUpper],
+				} as const,
+			]),
+			allowFailure: false,
+		}),
+		fetchTokenInfo(
+			client,
+			chainId,
+			positions.flatMap((p) => [p.poolKey.currency0, p.poolKey.currency1]),
+		),
+	]);
+
+	const pools = new Map(
+		poolIds.map((poolId, i) => {
+			const [sqrtPriceX96, tick] = poolData[i * 2] as readonly [
+				bigint,
+				number,
+				number,
+				number,
+			];
+			return [
+				poolId,
+				{ sqrtPriceX96, tick, liquidity: poolData[i * 2 + 1] as bigint },
+			];
+		}),
+	);
+
+	const timestamp = Math.floor(Date.now() / 1000);
+
+	return positions.flatMap((p, i) => {
+		const pool = pools.get(p.poolId);
+		const token0 = tokens.get(p.poolKey.currency0.toLowerCase());
+		const token1 = tokens.get(p.poolKey.currency1.toLowerCase());
+		if (!pool || !token0 || !token1) {
+			console.error(
+				`Skipping V4 position ${p.tokenId} on chain ${chainId}: pool or token data missing`,
+			);
+			return [];
+		}
+		const [, feeGrowthInside0LastX128, feeGrowthInside1LastX128] = feeData[
+			i * 2
+		] as readonly [bigint, bigint, bigint];
+		const [feeGrowthInside0X128, feeGrowthInside1X128] = feeData[
+			i * 2 + 1
+		] as readonly [bigint, bigint];
+
+		const { amount0, amount1 } = getAmountsForLiquidity(
+			pool.sqrtPriceX96,
+			p.tickLower,
+			p.tickUpper,
+			p.liquidity,
+		);
+
+		return [
+			{
+				tokenId: p.tokenId.toString(),
+				chainId,
+				protocolVersion: "PROTOCOL_VERSION_V4",
+				status: getPositionStatus(pool.tick, p.tickLower, p.tickUpper),
+				timestamp,
+				tickLower: p.tickLower,
+				tickUpper: p.tickUpper,
+				liquidity: p.liquidity.toString(),
+				token0,
+				token1,
+				feeTier: p.poolKey.fee,
+				currentTick: pool.tick,
+				currentPrice: sqrtPriceX96ToPrice(
+					pool.sqrtPriceX96,
+					token0.decimals,
+					token1.decimals,
+				).toString(),
+				sqrtPriceX96: pool.sqrtPriceX96.toString(),
+				tickSpacing: p.poolKey.tickSpacing,
+				token0UncollectedFees: getFeesOwed(
+					p.liquidity,
+					feeGrowthInside0X128,
+					feeGrowthInside0LastX128,
+				).toString(),
+				token1UncollectedFees: getFeesOwed(
+					p.liquidity,
+					feeGrowthInside1X128,
+					feeGrowthInside1LastX128,
+				).toString(),
+				amount0: amount0.toString(),
+				amount1: amount1.toString(),
+				poolId: p.poolId,
+				currentLiquidity: pool.liquidity.toString(),
+				hooks: p.poolKey.hooks === ZERO_ADDRESS ? [] : [p.poolKey.hooks],
+				totalLiquidityUsd: null,
+				apr: null,
+				totalApr: null,
+			} satisfies PositionSummary,
+		];
+	});
+}
+
+/**
+ * Read and value V3 positions by token ID
+ */
+export async function readV3Positions(
+	chainId: number,
+	tokenIds: bigint[],
+): Promise<PositionSummary[]> {
+	const contracts = V3_CONTRACTS[chainId];
+	if (!contracts || tokenIds.length === 0) return [];
+
+	const client = getPublicClient(chainId);
+
+	const positionData = await client.multicall({
+		contracts: tokenIds.map(
+			(tokenId) =>
+				({
+					address: contracts.NONFUNGIBLE_POSITION_MANAGER,
+					abi: V3_POSITION_MANAGER_ABI,
+					functionName: "positions",
+					args: [tokenId],
+				}) as const,
+		),
+		allowFailure: true,
+	});
+
+	// positions() reverts for a burned NFT, which only drops its own position
+	const positions = tokenIds.flatMap((tokenId, i) => {
+		const result = positionData[i];
+		if (result.status !== "success") {
+			console.error(
+				`Skipping V3 position ${tokenId} on chain ${chainId}:`,
+				result.error,
+			);
+			return [];
+		}
+		const [
+			,
+			,
+			token0,
+			token1,
+			fee,
+			tickLower,
+			tickUpper,
+			liquidity,
+			feeGrowthInside0LastX128,
+			feeGrowthInside1LastX128,
+			tokensOwed0,
+			tokensOwed1,
+		] = result.result;
+		return [
+			{
+				tokenId,
+				token0,
+				token1,
+				fee,
+				tickLower,
+				tickUpper,
+				liquidity,
+				feeGrowthInside0LastX128,
+				feeGrowthInside1LastX128,
+				tokensOwed0,
+				tokensOwed1,
+				poolKey: `${token0}-${token1}-${fee}`.toLowerCase(),
+			},
+		];
+	});
+	if (positions.length === 0) return [];
+
+	const poolKeys = [...new Map(positions.map((p) => [p.poolKey, p])).values()];
+	const poolAddresses = await client.multicall({
+		contracts: poolKeys.map(
+			(p) =>
+				({
+					address: contracts.FACTORY,
+					abi: V3_FACTORY_ABI,
+					functionName: "getPool",
+					args: [p.token0, p.token1, p.fee],
+				}) as const,
+		),
+		allowFailure: false,
+	});
+	const poolAddressByKey = new Map(
+		poolKeys.map((p, i) => [p.poolKey, poolAddresses[i]]),
+	);
+	// The factory returns the zero address for a pool it never created
+	const existingPools = poolAddresses.filter(
+		(address) => address !== ZERO_ADDRESS,
+	);
+	const located = positions.flatMap((p) => {
+		const poolAddress = poolAddressByKey.get(p.poolKey);
+		if (poolAddress && poolAddress !== ZERO_ADDRESS) {
+			return [{ ...p, poolAddress }];
+		}
+		console.error(
+			`Skipping V3 position ${p.tokenId} on chain ${chainId}: pool not found`,
+		);
+		return [];
+	});
+
+	const [poolData, tickData, tokens] = await Promise.all([
+		client.multicall({
+			contracts: existingPools.flatMap((address) => [
+				{ address, abi: V3_POOL_ABI, functionName: "slot0" } as const,
+				{ address, abi: V3_POOL_ABI, functionName: "liquidity" } as const,
+				{
+					address,
+					abi: V3_POOL_ABI,
+					functionName: "feeGrowthGlobal0X128",
+				} as const,
+				{
+					address,
+					abi: V3_POOL_ABI,
+					functionName: "feeGrowthGlobal1X128",
+				} as const,
+			]),
+			allowFailure: false,
+		}),
+		client.multicall({
+			contracts: located.flatMap((p) => [
+				{
+					address: p.poolAddress,
+					abi: V3_POOL_ABI,
+					functionName: "ticks",
+					args: [p.tickLower],
+				} as const,
+				{
+					address: p.poolAddress,
+					abi: V3_POOL_ABI,
+					functionName: "ticks",
+					args: [p.tickUpper],
+				} as const,
+			]),
+			allowFailure: false,
+		}),
+		fetchTokenInfo(
+			client,
+			chainId,
+			located.flatMap((p) => [p.token0, p.token1]),
+		),
+	]);
+
+	const pools = new Map(
+		existingPools.map((address, i) => {
+			const [sqrtPriceX96, tick] = poolData[i * 4] as readonly [
+				bigint,
+				number,
+				...unknown[],
+			];
+			return [
+				address,
+				{
+					sqrtPriceX96,
+					tick,
+					liquidity: poolData[i * 4 + 1] as bigint,
+					feeGrowthGlobal0X128: poolData[i * 4 + 2] as bigint,
+					feeGrowthGlobal1X128: poolData[i * 4 + 3] as bigint,
+				},
+			];
+		}),
+	);
+
+	const timestamp = Math.floor(Date.now() / 1000);
+
+	return located.flatMap((p, i) => {
+		const pool = pools.get(p.poolAddress);
+		const token0 = tokens.get(p.token0.toLowerCase());
+		const token1 = tokens.get(p.token1.toLowerCase());
+		if (!pool || !token0 || !token1) {
+			console.error(
+				`Skipping V3 position ${p.tokenId} on chain ${chainId}: pool or token data missing`,
+			);
+			return [];
+		}
+		const lowerTick = tickData[i * 2] as readonly [
+			bigint,
+			bigint,
+			bigint,
+			bigint,
+			...unknown[],
+		];
+		const upperTick = tickData[i * 2 + 1] as readonly [
+			bigint,
+			bigint,
+			bigint,
+			bigint,
+			...unknown[],
+		];
+
+		const feeGrowthInside0X128 = getFeeGrowthInside(
+			pool.tick,
+			p.tickLower,
+			p.tickUpper,
+			pool.feeGrowthGlobal0X128,
+			lowerTick[2],
+			upperTick[2],
+		);
+		const feeGrowthInside1X128 = getFeeGrowthInside(
+			pool.tick,
+			p.tickLower,
+			p.tickUpper,
+			pool.feeGrowthGlobal1X128,
+			lowerTick[3],
+			upperTick[3],
+		);
+
+		const { amount0, amount1 } = getAmountsForLiquidity(
+			pool.sqrtPriceX96,
+			p.tickLower,
+			p.tickUpper,
+			p.liquidity,
+		);
+
+		return [
+			{
+				tokenId: p.tokenId.toString(),
+				chainId,
+				protocolVersion: "PROTOCOL_VERSION_V3",
+				status: getPositionStatus(pool.tick, p.tickLower, p.tickUpper),
+				timestamp,
+				tickLower: p.tickLower,
+				tickUpper: p.tickUpper,
+				liquidity: p.liquidity.toString(),
+				token0,
+				token1,
+				feeTier: p.fee,
+				currentTick: pool.tick,
+				currentPrice: sqrtPriceX96ToPrice(
+					pool.sqrtPriceX96,
+					token0.decimals,
+					token1.decimals,
+				).toString(),
+				sqrtPriceX96: pool.sqrtPriceX96.toString(),
+				tickSpacing: getTickSpacing(p.fee),
+				token0UncollectedFees: (
+					p.tokensOwed0 +
+					getFeesOwed(
+						p.liquidity,
+						feeGrowthInside0X128,
+						p.feeGrowthInside0LastX128,
+					)
+				).toString(),
+				token1UncollectedFees: (
+					p.tokensOwed1 +
+					getFeesOwed(
+						p.liquidity,
+						feeGrowthInside1X128,
+						p.feeGrowthInside1LastX128,
+					)
+				).toString(),
+				amount0: amount0.toString(),
+				amount1: amount1.toString(),
+				poolId: p.poolAddress,
+				currentLiquidity: pool.liquidity.toString(),
+				hooks: [],
+				totalLiquidityUsd: null,
+				apr: null,
+				totalApr: null,
+			} satisfies PositionSummary,
+		];
+	});
+}
+
+export interface OnchainPositions {
+	positions: PositionSummary[];
+	// False while the owner's V4 NFTs on the chain are still being scanned
+	complete: boolean;
+}
+
+/**
+ * Fetch every open position the owner holds on one chain, V4 and V3
+ */
+export async function fetchOnchainPositions(
+	chainId: number,
+	owner: Address,
+): Promise<OnchainPositions> {
+	const [v4, v3TokenIds] = await Promise.all([
+		listV4TokenIds(chainId, owner),
+		listV3TokenIds(chainId, owner),
+	]);
+
+	const [v4Positions, v3Positions] = await Promise.all([
+		readV4Positions(chainId, v4.tokenIds),
+		readV3Positions(chainId, v3TokenIds),
+	]);
+
+	// Closed positions keep their NFT but hold no liquidity
+	return {
+		positions: [...v4Positions, ...v3Positions].filter(
+			(p) =>
+				p.liquidity !== "0" ||
+				p.token0UncollectedFees !== "0" ||
+				p.token1UncollectedFees !== "0",
+		),
+		complete: v4.complete,
+	};
+}
+
+/**
+ * Fetch a single position by chain, protocol and token ID along with the
+ * address currently holding its NFT
+ */
+export async function fetchPositionWithOwner(
+	chainId: number,
+	protocolVersion: ProtocolVersion,
+	tokenId: bigint,
+): Promise<{ position: PositionSummary; owner: Address } | null> {
+	const client = getPublicClient(chainId);
+
+	if (protocolVersion === "PROTOCOL_VERSION_V4") {
+		const contracts = CONTRACTS[chainId];
+		if (!contracts) return null;
+		const [owner, [position]] = await Promise.all([
+			client.readContract({
+				address: contracts.POSITION_MANAGER,
+				abi: V4_POSITION_MANAGER_ABI,
+				functionName: "ownerOf",
+				args: [tokenId],
+			}),
+			readV4Positions(chainId, [tokenId]),
+		]);
+		return position ? { position, owner } : null;
+	}
+
+	const contracts = V3_CONTRACTS[chainId];
+	if (!contracts) return null;
+	const [owner, [position]] = await Promise.all([
+		client.readContract({
+			address: contracts.NONFUNGIBLE_POSITION_MANAGER,
+			abi: V3_POSITION_MANAGER_ABI,
+			functionName: "ownerOf",
+			args: [tokenId],
+		}),
+		readV3Positions(chainId, [tokenId]),
+	]);
+	return position ? { position, owner } : null;
+}
+
+/**
+ * Fetch a single position by chain, protocol and token ID, verifying ownership
+ */
+export async function fetchOnchainPosition(
+	chainId: number,
+	protocolVersion: ProtocolVersion,
+	tokenId: bigint,
+	owner: Address,
+): Promise<PositionSummary | null> {
+	const result = await fetchPositionWithOwner(
+		chainId,
+		protocolVersion,
+		tokenId,
+	);
+	if (!result || result.owner.toLowerCase() !== owner.toLowerCase()) {
+		return null;
+	}
+	return result.position;
+}
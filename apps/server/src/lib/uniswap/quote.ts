@@ -0,0 +1,441 @@
+/**
+ * Swap quotes
+ *
+ * Quotes a swap over every direct and single-hub route, through QuoterV2 for V3
+ * pools and the V4 Quoter for hookless V4 pools, and ranks the routes by the
+ * amount they deliver. Price impact is measured against the pools' mid prices.
+ */
+
+import {
+	type Address,
+	concat,
+	type Hex,
+	numberToHex,
+	type PublicClient,
+} from "viem";
+import {
+	STATE_VIEW_ABI,
+	V3_POOL_ABI,
+	V3_QUOTER_V2_ABI,
+	V4_QUOTER_ABI,
+} from "./abis";
+import {
+	CONTRACTS,
+	calculatePoolId,
+	computeV3PoolAddress,
+	getPublicClient,
+	getTickSpacing,
+	USDC_ADDRESSES,
+	V3_CONTRACTS,
+	WETH_ADDRESSES,
+	WRAPPED_NATIVE_ADDRESSES,
+	ZERO_ADDRESS,
+} from "./contracts";
+import { sqrtPriceX96ToPrice } from "./math";
+import type { ProtocolVersion } from "./positions";
+
+export type TradeType = "EXACT_INPUT" | "EXACT_OUTPUT";
+
+const FEE_TIERS = [100, 500, 3000, 10000];
+
+export interface RouteQuote {
+	protocolVersion: ProtocolVersion;
+	// Currencies from input to output, with the fee tier of the pool between each pair
+	path: Address[];
+	fees: number[];
+	amountIn: string;
+	amountOut: string;
+	gasEstimate: string;
+	// Share of the output lost to fees and slippage against the pools' mid prices
+	priceImpact: number | null;
+}
+
+export interface SwapQuote {
+	tradeType: TradeType;
+	amountIn: string;
+	amountOut: string;
+	bestRoute: RouteQuote;
+	// Every route that could be quoted, best first
+	routes: RouteQuote[];
+}
+
+interface CandidateRoute {
+	protocolVersion: ProtocolVersion;
+	path: Address[];
+	fees: number[];
+}
+
+interface QuotedAmounts {
+	amountIn: bigint;
+	amountOut: bigint;
+	gasEstimate: bigint;
+}
+
+function sameAddress(a: Address, b: Address): boolean {
+	return a.toLowerCase() === b.toLowerCase();
+}
+
+function sortCurrencies(a: Address, b: Address): [Address, Address] {
+	return a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+}
+
+function uniqueAddresses(addresses: (Address | undefined)[]): Address[] {
+	const unique: Address[] = [];
+	for (const address of addresses) {
+		if (address && !unique.some((a) => sameAddress(a, address))) {
+			unique.push(address);
+		}
+	}
+	return unique;
+}
+
+/**
+ * Direct routes over every fee tier, plus two hop routes through each hub
+ */
+function getCandidateRoutes(
+	protocolVersion: ProtocolVersion,
+	tokenIn: Address,
+	tokenOut: Address,
+	hubs: Address[],
+	maxHops: number,
+): CandidateRoute[] {
+	if (sameAddress(tokenIn, tokenOut)) return [];
+
+	const routes: CandidateRoute[] = FEE_TIERS.map((fee) => ({
+		protocolVersion,
+		path: [tokenIn, tokenOut],
+		fees: [fee],
+	}));
+	if (maxHops < 2) return routes;
+
+	for (const hub of hubs) {
+		if (sameAddress(hub, tokenIn) || sameAddress(hub, tokenOut)) continue;
+		for (const feeIn of FEE_TIERS) {
+			for (const feeOut of FEE_TIERS) {
+				routes.push({
+					protocolVersion,
+					path: [tokenIn, hub, tokenOut],
+					fees: [feeIn, feeOut],
+				});
+			}
+		}
+	}
+	return routes;
+}
+
+/**
+ * V3 path encoding: token, fee, token, ... in swap order
+ */
+function encodeV3Path(path: Address[], fees: number[]): Hex {
+	return concat(
+		path.flatMap((token, i) =>
+			i < fees.length ? [token, numberToHex(fees[i], { size: 3 })] : [token],
+		),
+	);
+}
+
+async function quoteV3Routes(
+	client: PublicClient,
+	quoter: Address,
+	routes: CandidateRoute[],
+	tradeType: TradeType,
+	amount: bigint,
+): Promise<(QuotedAmounts | null)[]> {
+	const results = await client.multicall({
+		contracts: routes.map((route) =>
+			tradeType === "EXACT_INPUT"
+				? ({
+						address: quoter,
+						abi: V3_QUOTER_V2_ABI,
+						functionName: "quoteExactInput",
+						args: [encodeV3Path(route.path, route.fees), amount],
+					} as const)
+				: ({
+						address: quoter,
+						abi: V3_QUOTER_V2_ABI,
+						functionName: "quoteExactOutput",
+						// Exact output paths are encoded from the output backwards
+						args: [
+							encodeV3Path(
+								[...route.path].reverse(),
+								[...route.fees].reverse(),
+							),
+							amount,
+						],
+					} as const),
+		),
+		allowFailure: true,
+	});
+
+	return results.map((result) => {
+		// Missing pools and insufficient liquidity revert
+		if (result.status !== "success") return null;
+		const [quoted, , , gasEstimate] = result.result;
+		return tradeType === "EXACT_INPUT"
+			? { amountIn: amount, amountOut: quoted, gasEstimate }
+			: { amountIn: quoted, amountOut: amount, gasEstimate };
+	});
+}
+
+async function quoteV4Routes(
+	client: PublicClient,
+	quoter: Address,
+	routes: CandidateRoute[],
+	tradeType: TradeType,
+	amount: bigint,
+): Promise<(QuotedAmounts | null)[]> {
+	const pathKey = (intermediateCurrency: Address, fee: number) => ({
+		intermediateCurrency,
+		fee,
+		tickSpacing: getTickSpacing(fee),
+		hooks: ZERO_ADDRESS,
+		hookData: "0x" as Hex,
+	});
+
+	const results = await client.multicall({
+		contracts: routes.map(({ path, fees }) =>
+			tradeType === "EXACT_INPUT"
+				? ({
+						address: quoter,
+						abi: V4_QUOTER_ABI,
+						functionName: "quoteExactInput",
+						// Each path key names the currency a hop swaps into
+						args: [
+							{
+								exactCurrency: path[0],
+								path: fees.map((fee, i) => pathKey(path[i + 1], fee)),
+								exactAmount: amount,
+							},
+						],
+					} as const)
+				: ({
+						address: quoter,
+						abi: V4_QUOTER_ABI,
+						functionName: "quoteExactOutput",
+						// Walked from the output backwards, each key names the currency a hop swaps from
+						args: [
+							{
+								exactCurrency: path[path.length - 1],
+								path: fees.map((fee, i) => pathKey(path[i], fee)),
+								exactAmount: amount,
+							},
+						],
+					} as const),
+		),
+		allowFailure: true,
+	});
+
+	return results.map((result) => {
+		if (result.status !== "success") return null;
+		const [quoted, gasEstimate] = result.result;
+		return tradeType === "EXACT_INPUT"
+			? { amountIn: amount, amountOut: quoted, gasEstimate }
+			: { amountIn: quoted, amountOut: amount, gasEstimate };
+	});
+}
+
+function getPoolRef(
+	protocolVersion: ProtocolVersion,
+	currencyA: Address,
+	currencyB: Address,
+	fee: number,
+): string {
+	const [currency0, currency1] = sortCurrencies(currencyA, currencyB);
+	return `${protocolVersion}:${currency0}:${currency1}:${fee}`.toLowerCase();
+}
+
+/**
+ * Current sqrtPriceX96 of every pool the routes pass through, by pool ref
+ */
+async function readPoolPrices(
+	client: PublicClient,
+	chainId: number,
+	routes: CandidateRoute[],
+): Promise<Map<string, bigint>> {
+	const pools = new Map<
+		string,
+		{
+			protocolVersion: ProtocolVersion;
+			currencies: [Address, Address];
+			fee: number;
+		}
+	>();
+	for (const { protocolVersion, path, fees } of routes) {
+		fees.forEach((fee, i) => {
+			pools.set(getPoolRef(protocolVersion, path[i], path[i + 1], fee), {
+				protocolVersion,
+				currencies: sortCurrencies(path[i], path[i + 1]),
+				fee,
+			});
+		});
+	}
+
+	const entries = [...pools.entries()];
+	const v3Factory = V3_CONTRACTS[chainId]?.FACTORY;
+	const stateView = CONTRACTS[chainId]?.STATE_VIEW;
+
+	const results = await client.multicall({
+		contracts: entries.map(([, { protocolVersion, currencies, fee }]) =>
+			protocolVersion === "PROTOCOL_VERSION_V4"
+				? ({
+						address: stateView,
+						abi: STATE_VIEW_ABI,
+						functionName: "getSlot0",
+						args: [
+							calculatePoolId(
+								currencies[0],
+								currencies[1],
+								fee,
+								getTickSpacing(fee),
+								ZERO_ADDRESS,
+							),
+						],
+					} as const)
+				: ({
+						address: computeV3PoolAddress(
+							v3Factory,
+							currencies[0],
+							currencies[1],
+							fee,
+						),
+						abi: V3_POOL_ABI,
+						functionName: "slot0",
+					} as const),
+		),
+		allowFailure: true,
+	});
+
+	const prices = new Map<string, bigint>();
+	results.forEach((result, i) => {
+		if (result.status === "success")
+			prices.set(entries[i][0], result.result[0]);
+	});
+	return prices;
+}
+
+/**
+ * Price impact of a quoted route: how far its execution price falls short of
+ * the product of its pools' mid prices
+ */
+function getPriceImpact(
+	route: CandidateRoute,
+	amounts: QuotedAmounts,
+	prices: Map<string, bigint>,
+): number | null {
+	let midRate = 1;
+	for (const [i, fee] of route.fees.entries()) {
+		const [currencyIn, currencyOut] = [route.path[i], route.path[i + 1]];
+		const sqrtPriceX96 = prices.get(
+			getPoolRef(route.protocolVersion, currencyIn, currencyOut, fee),
+		);
+		if (!sqrtPriceX96) return null;
+
+		// Raw price of currency0 in currency1
+		const price = sqrtPriceX96ToPrice(sqrtPriceX96, 0, 0);
+		const zeroForOne =
+			sortCurrencies(currencyIn, currencyOut)[0] === currencyIn;
+		midRate *= zeroForOne ? price : 1 / price;
+	}
+
+	const expectedOut = Number(amounts.amountIn) * midRate;
+	if (!(expectedOut > 0)) return null;
+	return Math.max(1 - Number(amounts.amountOut) / expectedOut, 0);
+}
+
+/**
+ * Quote a swap of amount (the input for EXACT_INPUT, the output for EXACT_OUTPUT)
+ * over V3 and V4 routes. Returns null if no route can fill it.
+ *
+ * Native currency is quoted as the wrapped token on V3 and as native on V4,
+ * where ETH pools hold it directly.
+ */
+export async function fetchSwapQuote(
+	chainId: number,
+	tokenIn: Address,
+	tokenOut: Address,
+	amount: bigint,
+	tradeType: TradeType,
+	maxHops: number,
+): Promise<SwapQuote | null> {
+	const v3Quoter = V3_CONTRACTS[chainId]?.QUOTER_V2;
+	const v4Quoter = CONTRACTS[chainId]?.QUOTER;
+	if (!v3Quoter && !v4Quoter) {
+		throw new Error(`No Uniswap quoter deployed on chain ${chainId}`);
+	}
+
+	const client = getPublicClient(chainId);
+	const wrappedNative = WRAPPED_NATIVE_ADDRESSES[chainId];
+	const toV3Currency = (address: Address) =>
+		sameAddress(address, ZERO_ADDRESS) ? wrappedNative : address;
+
+	const v3Routes = v3Quoter
+		? getCandidateRoutes(
+				"PROTOCOL_VERSION_V3",
+				toV3Currency(tokenIn),
+				toV3Currency(tokenOut),
+				uniqueAddresses([
+					wrappedNative,
+					WETH_ADDRESSES[chainId],
+					USDC_ADDRESSES[chainId],
+				]),
+				maxHops,
+			)
+		: [];
+	const v4Routes = v4Quoter
+		? getCandidateRoutes(
+				"PROTOCOL_VERSION_V4",
+				tokenIn,
+				tokenOut,
+				uniqueAddresses([ZERO_ADDRESS, USDC_ADDRESSES[chainId]]),
+				maxHops,
+			)
+		: [];
+
+	const [v3Quotes, v4Quotes] = await Promise.all([
+		v3Quoter && v3Routes.length > 0
+			? quoteV3Routes(client, v3Quoter, v3Routes, tradeType, amount)
+			: [],
+		v4Quoter && v4Routes.length > 0
+			? quoteV4Routes(client, v4Quoter, v4Routes, tradeType, amount)
+			: [],
+	]);
+
+	const amounts = [...v3Quotes, ...v4Quotes];
+	const quoted = [...v3Routes, ...v4Routes]
+		.map((route, i) => ({ route, amounts: amounts[i] }))
+		.filter(
+			(quote): quote is { route: CandidateRoute; amounts: QuotedAmounts } =>
+				quote.amounts !== null,
+		);
+	if (quoted.length === 0) return null;
+
+	// Best first: most output for exact input, least input for exact output
+	quoted.sort((a, b) => {
+		const [x, y] =
+			tradeType === "EXACT_INPUT"
+				? [b.amounts.amountOut, a.amounts.amountOut]
+				: [a.amounts.amountIn, b.amounts.amountIn];
+		return x > y ? 1 : x < y ? -1 : 0;
+	});
+
+	const prices = await readPoolPrices(
+		client,
+		chainId,
+		quoted.map(({ route }) => route),
+	);
+	const routes: RouteQuote[] = quoted.map(({ route, amounts }) => ({
+		...route,
+		amountIn: amounts.amountIn.toString(),
+		amountOut: amounts.amountOut.toString(),
+		gasEstimate: amounts.gasEstimate.toString(),
+		priceImpact: getPriceImpact(route, amounts, prices),
+	}));
+
+	return {
+		tradeType,
+		amountIn: routes[0].amountIn,
+		amountOut: routes[0].amountOut,
+		bestRoute: routes[0],
+		routes,
+	};
+}
@@ -0,0 +1,183 @@
+/**
+ * Backtesting Router - Better-T-Stack Server
+ *
+ * Replays a V4 pool's historical swaps, from the indexer or an imported CSV,
+ * against candidate ranges to estimate their fees, time in range, IL and
+ * final value before capital is committed.
+ */
+
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import type { Address } from "viem";
+import { z } from "zod";
+import { loadIndexedSwaps, parseSwapsCsv } from "../lib/backtesting/history";
+import { type BacktestResult, runBacktest } from "../lib/backtesting/simulate";
+import { publicProcedure, router } from "../lib/trpc";
+import {
+	CONTRACTS,
+	calculatePoolId,
+	getTickSpacing,
+	ZERO_ADDRESS,
+} from "../lib/uniswap/contracts";
+import { MAX_TICK, MIN_TICK } from "../lib/uniswap/math";
+
+// Imported CSVs are sent inline with the request
+const MAX_CSV_LENGTH = 10_000_000;
+// Ranges compared in one backtest
+const MAX_RANGES = 6;
+
+const addressSchema = z
+	.string()
+	.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address");
+
+const amountSchema = z
+	.string()
+	.regex(/^\d+$/, "Amount must be a numeric string in base units");
+
+const rangeSchema = z
+	.object({
+		tickLower: z.number().int().min(MIN_TICK),
+		tickUpper: z.number().int().max(MAX_TICK),
+	})
+	.refine(({ tickLower, tickUpper }) => tickLower < tickUpper, {
+		message: "tickLower must be below tickUpper",
+	});
+
+interface BacktestSuccessResponse {
+	success: true;
+	poolId: string;
+	result: BacktestResult;
+	// History only covered part of the requested window, the result's from/to
+	windowShortened: boolean;
+	message: string;
+}
+
+interface BacktestErrorResponse {
+	success: false;
+	poolId: string | null;
+	result: null;
+	message: string;
+}
+
+type BacktestResponse = BacktestSuccessResponse | BacktestErrorResponse;
+
+export const backtestingRouter = router({
+	// Simulate deposits into each range over a time window of a pool's history
+	backtest: publicProcedure
+		.input(
+			z
+				.object({
+					chainId: z.number(),
+					currency0: addressSchema,
+					currency1: addressSchema,
+					fee: z.number().int().min(0).max(1_000_000),
+					tickSpacing: z.number().int().positive().optional(),
+					hooks: addressSchema.optional(),
+					ranges: z.array(rangeSchema).min(1).max(MAX_RANGES),
+					depositAmount0: amountSchema,
+					depositAmount1: amountSchema,
+					// Unix seconds; imported CSVs default to their first and last swap
+					from: z.number().int().nonnegative().optional(),
+					to: z.number().int().positive().optional(),
+					source: z.enum(["indexer", "csv"]),
+					csv: z.string().max(MAX_CSV_LENGTH).optional(),
+				})
+				.refine(
+					({ currency0, currency1 }) => BigInt(currency0) < BigInt(currency1),
+					{
+						message: "currency0 must sort below currency1",
+						path: ["currency1"],
+					},
+				)
+				.refine(
+					({ source, from, to }) =>
+						source === "csv" || (from !== undefined && to !== undefined),
+					{
+						message: "Backtests of indexed swaps need a window",
+						path: ["from"],
+					},
+				)
+				.refine(
+					({ from, to }) => from === undefined || to === undefined || from < to,
+					{
+						message: "The window must end after it starts",
+						path: ["to"],
+					},
+				)
+				.refine(({ source, csv }) => source !== "csv" || !!csv, {
+					message: "A CSV of swaps is required",
+					path: ["csv"],
+				})
+				.refine(
+					({ depositAmount0, depositAmount1 }) =>
+						BigInt(depositAmount0) > 0n || BigInt(depositAmount1) > 0n,
+					{
+						message: "The deposit must not be empty",
+						path: ["depositAmount0"],
+					},
+				),
+		)
+		.mutation(async ({ input }) => {
+			try {
+				if (!CONTRACTS[input.chainId]) {
+					return {
+						success: false,
+						poolId: null,
+						result: null,
+						message: `Unsupported chain ID: ${input.chainId}`,
+					} satisfies BacktestResponse;
+				}
+
+				const tickSpacing = input.tickSpacing ?? getTickSpacing(input.fee);
+				const poolId = calculatePoolId(
+					input.currency0 as Address,
+					input.currency1 as Address,
+					input.fee,
+					tickSpacing,
+					(input.hooks ?? ZERO_ADDRESS) as Address,
+				);
+
+				const history =
+					input.source === "csv"
+						? parseSwapsCsv(
+								input.csv ?? "",
+								{ from: input.from, to: input.to },
+								input.fee,
+							)
+						: // The input check requires a window for indexed swaps
+							await loadIndexedSwaps(
+								input.chainId,
+								poolId,
+								input.from ?? 0,
+								input.to ?? 0,
+							);
+
+				const result = runBacktest({
+					...history,
+					deposit0: BigInt(input.depositAmount0),
+					deposit1: BigInt(input.depositAmount1),
+					ranges: input.ranges,
+				});
+
+				const windowShortened =
+					(input.from !== undefined && history.from > input.from) ||
+					(input.to !== undefined && history.to < input.to);
+				return {
+					success: true,
+					poolId,
+					result,
+					windowShortened,
+					message: windowShortened
+						? `Replayed ${result.swapCount} swaps against ${result.ranges.length} ranges, over the part of the window the history covers`
+						: `Replayed ${result.swapCount} swaps against ${result.ranges.length} ranges`,
+				} satisfies BacktestResponse;
+			} catch (error) {
+				console.error("Error running backtest:", error);
+				return {
+					success: false,
+					poolId: null,
+					result: null,
+					message: `Error running backtest: ${describeError(error)}`,
+				} satisfies BacktestResponse;
+			}
+		}),
+});
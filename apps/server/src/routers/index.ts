@@ -1,6 +1,10 @@
 import { publicProcedure, router } from "../lib/trpc";
+import { backtestingRouter } from "./backtesting";
 import { balancesRouter } from "./balances";
 import { currenciesRouter } from "./currencies";
+import { indexerRouter } from "./indexer";
+import { monitoringRouter } from "./monitoring";
+import { rebalancingRouter } from "./rebalancing";
 import { uniswapRouter } from "./uniswap";
 
 export const appRouter = router({
@@ -10,5 +14,9 @@ export const appRouter = router({
 	uniswap: uniswapRouter,
 	currencies: currenciesRouter,
 	balances: balancesRouter,
+	indexer: indexerRouter,
+	monitoring: monitoringRouter,
+	rebalancing: rebalancingRouter,
+	backtesting: backtestingRouter,
 });
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,223 @@
+/**
+ * Indexer Router - Better-T-Stack Server
+ *
+ * Serves pools, positions, position history and swaps from the D1 tables
+ * filled by the scheduled event indexer
+ */
+
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import { and, desc, eq } from "drizzle-orm";
+import { getAddress } from "viem";
+import { z } from "zod";
+import { db } from "../db";
+import {
+	indexerCursors,
+	type Pool,
+	type Position,
+	pools,
+	positionEvents,
+	positions,
+	swaps,
+} from "../db/schema/indexer";
+import { publicProcedure, router } from "../lib/trpc";
+
+const MAX_SWAPS = 500;
+
+type IndexerCursor = typeof indexerCursors.$inferSelect;
+type IndexedPositionEvent = typeof positionEvents.$inferSelect;
+type IndexedSwap = typeof swaps.$inferSelect;
+
+interface IndexerStatusSuccessResponse {
+	success: true;
+	cursors: IndexerCursor[];
+}
+
+interface IndexerStatusErrorResponse {
+	success: false;
+	cursors: [];
+	message: string;
+}
+
+type IndexerStatusResponse =
+	| IndexerStatusSuccessResponse
+	| IndexerStatusErrorResponse;
+
+interface IndexedPositionsSuccessResponse {
+	success: true;
+	positions: Position[];
+}
+
+interface IndexedPositionsErrorResponse {
+	success: false;
+	positions: [];
+	message: string;
+}
+
+type IndexedPositionsResponse =
+	| IndexedPositionsSuccessResponse
+	| IndexedPositionsErrorResponse;
+
+interface PositionEventsSuccessResponse {
+	success: true;
+	events: IndexedPositionEvent[];
+}
+
+interface PositionEventsErrorResponse {
+	success: false;
+	events: [];
+	message: string;
+}
+
+type PositionEventsResponse =
+	| PositionEventsSuccessResponse
+	| PositionEventsErrorResponse;
+
+interface PoolSwapsSuccessResponse {
+	success: true;
+	pool: Pool | null;
+	swaps: IndexedSwap[];
+}
+
+interface PoolSwapsErrorResponse {
+	success: false;
+	pool: null;
+	swaps: [];
+	message: string;
+}
+
+type PoolSwapsResponse = PoolSwapsSuccessResponse | PoolSwapsErrorResponse;
+
+export const indexerRouter = router({
+	// Last indexed block per chain
+	getStatus: publicProcedure.query(async () => {
+		try {
+			const cursors = await db.select().from(indexerCursors);
+			return { success: true, cursors } satisfies IndexerStatusResponse;
+		} catch (error) {
+			console.error("Error fetching indexer status:", error);
+			return {
+				success: false,
+				cursors: [],
+				message: `Error fetching indexer status: ${describeError(error)}`,
+			} satisfies IndexerStatusResponse;
+		}
+	}),
+
+	getPositions: publicProcedure
+		.input(
+			z.object({
+				owner: z
+					.string()
+					.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address"),
+				chainId: z.number().optional(),
+				includeBurned: z.boolean().optional().default(false),
+			}),
+		)
+		.query(async ({ input }) => {
+			try {
+				// Logs decode to checksummed addresses
+				const owner = getAddress(input.owner);
+				const rows = await db
+					.select()
+					.from(positions)
+					.where(
+						and(
+							eq(positions.owner, owner),
+							input.chainId !== undefined
+								? eq(positions.chainId, input.chainId)
+								: undefined,
+							input.includeBurned ? undefined : eq(positions.burned, false),
+						),
+					)
+					.orderBy(desc(positions.createdBlock));
+				return {
+					success: true,
+					positions: rows,
+				} satisfies IndexedPositionsResponse;
+			} catch (error) {
+				console.error("Error fetching indexed positions:", error);
+				return {
+					success: false,
+					positions: [],
+					message: `Error fetching indexed positions: ${describeError(error)}`,
+				} satisfies IndexedPositionsResponse;
+			}
+		}),
+
+	// Mints, liquidity changes and transfers of one position, oldest first
+	getPositionEvents: publicProcedure
+		.input(
+			z.object({
+				chainId: z.number(),
+				tokenId: z.string().regex(/^\d+$/, "Token ID must be a numeric string"),
+			}),
+		)
+		.query(async ({ input }) => {
+			try {
+				const events = await db
+					.select()
+					.from(positionEvents)
+					.where(
+						and(
+							eq(positionEvents.chainId, input.chainId),
+							eq(positionEvents.tokenId, input.tokenId),
+						),
+					)
+					.orderBy(positionEvents.blockNumber, positionEvents.logIndex);
+				return { success: true, events } satisfies PositionEventsResponse;
+			} catch (error) {
+				console.error("Error fetching position events:", error);
+				return {
+					success: false,
+					events: [],
+					message: `Error fetching position events: ${describeError(error)}`,
+				} satisfies PositionEventsResponse;
+			}
+		}),
+
+	// A pool's latest swaps, newest first
+	getSwaps: publicProcedure
+		.input(
+			z.object({
+				chainId: z.number(),
+				poolId: z
+					.string()
+					.regex(/^0x[a-fA-F0-9]{64}$/, "Pool ID must be a 32-byte hex string"),
+				limit: z.number().int().min(1).max(MAX_SWAPS).optional().default(100),
+			}),
+		)
+		.query(async ({ input }) => {
+			try {
+				const poolId = input.poolId.toLowerCase();
+				const [[pool], rows] = await Promise.all([
+					db
+						.select()
+						.from(pools)
+						.where(
+							and(eq(pools.chainId, input.chainId), eq(pools.poolId, poolId)),
+						),
+					db
+						.select()
+						.from(swaps)
+						.where(
+							and(eq(swaps.chainId, input.chainId), eq(swaps.poolId, poolId)),
+						)
+						.orderBy(desc(swaps.blockNumber), desc(swaps.logIndex))
+						.limit(input.limit),
+				]);
+				return {
+					success: true,
+					pool: pool ?? null,
+					swaps: rows,
+				} satisfies PoolSwapsResponse;
+			} catch (error) {
+				console.error("Error fetching pool swaps:", error);
+				return {
+					success: false,
+					pool: null,
+					swaps: [],
+					message: `Error fetching pool swaps: ${describeError(error)}`,
+				} satisfies PoolSwapsResponse;
+			}
+		}),
+});
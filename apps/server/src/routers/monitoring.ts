@@ -0,0 +1,442 @@
+/**
+ * Monitoring Router - Better-T-Stack Server
+ *
+ * Registers watched positions and serves the in-app alert inbox. Watches are
+ * evaluated by the scheduled monitor in lib/monitoring. Changes, and watch
+ * targets, need a proof that the caller controls the owner address.
+ */
+
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import { and, desc, eq, gt, inArray, isNull, or } from "drizzle-orm";
+import { getAddress } from "viem";
+import { z } from "zod";
+import { db } from "../db";
+import {
+	ALERT_CHANNELS,
+	alerts,
+	type InboxAlert,
+	type Watch,
+	watches,
+} from "../db/schema/monitoring";
+import { deliverAlert } from "../lib/monitoring/notifiers";
+import {
+	OWNER_PROOF_REQUIRED,
+	ownerProofSchema,
+	readPositionOwner,
+	verifyOwnerProof,
+} from "../lib/ownership";
+import { publicProcedure, router } from "../lib/trpc";
+import { CONTRACTS, V3_CONTRACTS } from "../lib/uniswap/contracts";
+
+const MAX_ALERTS = 200;
+// Minimum time between test alerts of an owner, and to the same target
+const TEST_COOLDOWN_MS = 60 * 1000;
+
+const ownerSchema = z
+	.string()
+	.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address");
+
+function isTargetValid(channel: Watch["channel"], target?: string): boolean {
+	if (channel === "inbox") return true;
+	if (!target) return false;
+	if (channel === "email") return z.email().safeParse(target).success;
+	try {
+		return ["http:", "https:"].includes(new URL(target).protocol);
+	} catch {
+		return false;
+	}
+}
+
+interface WatchesSuccessResponse {
+	success: true;
+	watches: Watch[];
+	// Targets are only returned with a valid owner proof
+	targetsHidden: boolean;
+}
+
+interface WatchesErrorResponse {
+	success: false;
+	watches: [];
+	message: string;
+}
+
+type WatchesResponse = WatchesSuccessResponse | WatchesErrorResponse;
+
+interface WatchSuccessResponse {
+	success: true;
+	watch: Watch;
+	message: string;
+}
+
+interface WatchErrorResponse {
+	success: false;
+	watch: null;
+	message: string;
+}
+
+type WatchResponse = WatchSuccessResponse | WatchErrorResponse;
+
+interface MonitoringActionResponse {
+	success: boolean;
+	message: string;
+}
+
+interface AlertsSuccessResponse {
+	success: true;
+	alerts: InboxAlert[];
+	unreadCount: number;
+}
+
+interface AlertsErrorResponse {
+	success: false;
+	alerts: [];
+	unreadCount: 0;
+	message: string;
+}
+
+type AlertsResponse = AlertsSuccessResponse | AlertsErrorResponse;
+
+export const monitoringRouter = router({
+	// Watches of an owner, optionally narrowed to one position
+	getWatches: publicProcedure
+		.input(
+			z.object({
+				owner: ownerSchema,
+				chainId: z.number().optional(),
+				tokenId: z.string().optional(),
+				proof: ownerProofSchema.optional(),
+			}),
+		)
+		.query(async ({ input }) => {
+			try {
+				const [rows, verified] = await Promise.all([
+					db
+						.select()
+						.from(watches)
+						.where(
+							and(
+								eq(watches.owner, getAddress(input.owner)),
+								input.chainId !== undefined
+									? eq(watches.chainId, input.chainId)
+									: undefined,
+								input.tokenId !== undefined
+									? eq(watches.tokenId, input.tokenId)
+									: undefined,
+							),
+						)
+						.orderBy(desc(watches.createdAt)),
+					verifyOwnerProof(input.owner, input.proof),
+				]);
+				return {
+					success: true,
+					watches: verified
+						? rows
+						: rows.map((watch) => ({ ...watch, target: null })),
+					targetsHidden: !verified,
+				} satisfies WatchesResponse;
+			} catch (error) {
+				console.error("Error fetching watches:", error);
+				return {
+					success: false,
+					watches: [],
+					message: `Error fetching watches: ${describeError(error)}`,
+				} satisfies WatchesResponse;
+			}
+		}),
+
+	createWatch: publicProcedure
+		.input(
+			z
+				.object({
+					owner: ownerSchema,
+					chainId: z.number(),
+					tokenId: z
+						.string()
+						.regex(/^\d+$/, "Token ID must be a numeric string"),
+					protocolVersion: z
+						.enum(["PROTOCOL_VERSION_V3", "PROTOCOL_VERSION_V4"])
+						.optional()
+						.default("PROTOCOL_VERSION_V4"),
+					channel: z.enum(ALERT_CHANNELS),
+					target: z.string().trim().optional(),
+					proof: ownerProofSchema,
+					alertOutOfRange: z.boolean().optional().default(true),
+					edgeThresholdPercent: z.number().positive().max(100).optional(),
+					feesThresholdUsd: z.number().positive().optional(),
+				})
+				.refine(({ channel, target }) => isTargetValid(channel, target), {
+					message:
+						"Webhooks need an http(s) URL and email alerts an email address",
+					path: ["target"],
+				})
+				.refine(
+					(input) =>
+						input.alertOutOfRange ||
+						input.edgeThresholdPercent !== undefined ||
+						input.feesThresholdUsd !== undefined,
+					{ message: "Choose at least one alert condition" },
+				),
+		)
+		.mutation(async ({ input }) => {
+			try {
+				const deployed =
+					input.protocolVersion === "PROTOCOL_VERSION_V4"
+						? CONTRACTS[input.chainId]
+						: V3_CONTRACTS[input.chainId];
+				if (!deployed) {
+					return {
+						success: false,
+						watch: null,
+						message: `Unsupported chain ID: ${input.chainId}`,
+					} satisfies WatchResponse;
+				}
+				if (!(await verifyOwnerProof(input.owner, input.proof))) {
+					return {
+						success: false,
+						watch: null,
+						message: OWNER_PROOF_REQUIRED,
+					} satisfies WatchResponse;
+				}
+
+				// Alerts go to whoever holds the position, not to anyone watching it
+				const holder = await readPositionOwner(
+					input.chainId,
+					input.protocolVersion,
+					BigInt(input.tokenId),
+				);
+				if (!holder || getAddress(holder) !== getAddress(input.owner)) {
+					return {
+						success: false,
+						watch: null,
+						message: `Position #${input.tokenId} is not owned by ${input.owner}`,
+					} satisfies WatchResponse;
+				}
+
+				const [watch] = await db
+					.insert(watches)
+					.values({
+						owner: getAddress(input.owner),
+						chainId: input.chainId,
+						tokenId: input.tokenId,
+						protocolVersion: input.protocolVersion,
+						channel: input.channel,
+						target: input.channel === "inbox" ? null : input.target,
+						alertOutOfRange: input.alertOutOfRange,
+						edgeThresholdPercent: input.edgeThresholdPercent ?? null,
+						feesThresholdUsd: input.feesThresholdUsd ?? null,
+						createdAt: new Date(),
+					})
+					.returning();
+				return {
+					success: true,
+					watch,
+					message: "Watch created",
+				} satisfies WatchResponse;
+			} catch (error) {
+				console.error("Error creating watch:", error);
+				return {
+					success: false,
+					watch: null,
+					message: `Error creating watch: ${describeError(error)}`,
+				} satisfies WatchResponse;
+			}
+		}),
+
+	deleteWatch: publicProcedure
+		.input(
+			z.object({ owner: ownerSchema, id: z.number(), proof: ownerProofSchema }),
+		)
+		.mutation(async ({ input }) => {
+			try {
+				if (!(await verifyOwnerProof(input.owner, input.proof))) {
+					return {
+						success: false,
+						message: OWNER_PROOF_REQUIRED,
+					} satisfies MonitoringActionResponse;
+				}
+
+				const deleted = await db
+					.delete(watches)
+					.where(
+						and(
+							eq(watches.id, input.id),
+							eq(watches.owner, getAddress(input.owner)),
+						),
+					)
+					.returning({ id: watches.id });
+				return (
+					deleted.length > 0
+						? { success: true, message: "Watch deleted" }
+						: { success: false, message: "Watch not found" }
+				) satisfies MonitoringActionResponse;
+			} catch (error) {
+				console.error("Error deleting watch:", error);
+				return {
+					success: false,
+					message: `Error deleting watch: ${describeError(error)}`,
+				} satisfies MonitoringActionResponse;
+			}
+		}),
+
+	// Send a sample alert through the watch's channel to check its delivery
+	testWatch: publicProcedure
+		.input(
+			z.object({ owner: ownerSchema, id: z.number(), proof: ownerProofSchema }),
+		)
+		.mutation(async ({ input }) => {
+			try {
+				if (!(await verifyOwnerProof(input.owner, input.proof))) {
+					return {
+						success: false,
+						message: OWNER_PROOF_REQUIRED,
+					} satisfies MonitoringActionResponse;
+				}
+
+				const [watch] = await db
+					.select()
+					.from(watches)
+					.where(
+						and(
+							eq(watches.id, input.id),
+							eq(watches.owner, getAddress(input.owner)),
+						),
+					);
+				if (!watch) {
+					return {
+						success: false,
+						message: "Watch not found",
+					} satisfies MonitoringActionResponse;
+				}
+
+				// Throttled per owner and per target, so tests cannot be used to
+				// flood a mailbox or URL
+				const now = new Date();
+				const recent = await db.$count(
+					watches,
+					and(
+						gt(
+							watches.lastTestedAt,
+							new Date(now.getTime() - TEST_COOLDOWN_MS),
+						),
+						or(
+							eq(watches.owner, watch.owner),
+							watch.target ? eq(watches.target, watch.target) : undefined,
+						),
+					),
+				);
+				if (recent > 0) {
+					return {
+						success: false,
+						message: "A test alert was just sent, try again in a minute",
+					} satisfies MonitoringActionResponse;
+				}
+				await db
+					.update(watches)
+					.set({ lastTestedAt: now })
+					.where(eq(watches.id, watch.id));
+
+				await deliverAlert({
+					watch,
+					kind: "test",
+					message: `Test alert for position #${watch.tokenId}`,
+					createdAt: now,
+				});
+				return {
+					success: true,
+					message: `Test alert sent to ${watch.target ?? "the inbox"}`,
+				} satisfies MonitoringActionResponse;
+			} catch (error) {
+				console.error("Error sending test alert:", error);
+				return {
+					success: false,
+					message: `Error sending test alert: ${describeError(error)}`,
+				} satisfies MonitoringActionResponse;
+			}
+		}),
+
+	// In-app inbox, newest first
+	getAlerts: publicProcedure
+		.input(
+			z.object({
+				owner: ownerSchema,
+				unreadOnly: z.boolean().optional().default(false),
+				limit: z.number().int().min(1).max(MAX_ALERTS).optional().default(50),
+			}),
+		)
+		.query(async ({ input }) => {
+			try {
+				const owner = getAddress(input.owner);
+				const [rows, unread] = await Promise.all([
+					db
+						.select()
+						.from(alerts)
+						.where(
+							and(
+								eq(alerts.owner, owner),
+								input.unreadOnly ? isNull(alerts.readAt) : undefined,
+							),
+						)
+						.orderBy(desc(alerts.createdAt), desc(alerts.id))
+						.limit(input.limit),
+					db.$count(
+						alerts,
+						and(eq(alerts.owner, owner), isNull(alerts.readAt)),
+					),
+				]);
+				return {
+					success: true,
+					alerts: rows,
+					unreadCount: unread,
+				} satisfies AlertsResponse;
+			} catch (error) {
+				console.error("Error fetching alerts:", error);
+				return {
+					success: false,
+					alerts: [],
+					unreadCount: 0,
+					message: `Error fetching alerts: ${describeError(error)}`,
+				} satisfies AlertsResponse;
+			}
+		}),
+
+	// Mark the given alerts read, or all of the owner's alerts when none are given
+	markAlertsRead: publicProcedure
+		.input(
+			z.object({
+				owner: ownerSchema,
+				ids: z.array(z.number()).max(MAX_ALERTS).optional(),
+				proof: ownerProofSchema,
+			}),
+		)
+		.mutation(async ({ input }) => {
+			try {
+				if (!(await verifyOwnerProof(input.owner, input.proof))) {
+					return {
+						success: false,
+						message: OWNER_PROOF_REQUIRED,
+					} satisfies MonitoringActionResponse;
+				}
+
+				await db
+					.update(alerts)
+					.set({ readAt: new Date() })
+					.where(
+						and(
+							eq(alerts.owner, getAddress(input.owner)),
+							isNull(alerts.readAt),
+							input.ids ? inArray(alerts.id, input.ids) : undefined,
+						),
+					);
+				return {
+					success: true,
+					message: "Alerts marked as read",
+				} satisfies MonitoringActionResponse;
+			} catch (error) {
+				console.error("Error marking alerts read:", error);
+				return {
+					success: false,
+					message: `Error marking alerts read: ${describeError(error)}`,
+				} satisfies MonitoringActionResponse;
+			}
+		}),
+});
@@ -0,0 +1,423 @@
+/**
+ * Rebalancing Router - Better-T-Stack Server
+ *
+ * Stores the rebalancing strategy of a position and the lineage between the
+ * positions a rebalance burns and mints. Triggers are tracked by the scheduled
+ * run in lib/rebalancing; the client plans and sends the rebalance itself.
+ * Strategies are only changed with a proof from the position's owner.
+ */
+
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import { and, eq } from "drizzle-orm";
+import { type Address, getAddress, type Hash } from "viem";
+import { z } from "zod";
+import { db } from "../db";
+import {
+	RANGE_STRATEGIES,
+	type Rebalance,
+	type RebalanceStrategy,
+	rebalanceStrategies,
+	rebalances,
+} from "../db/schema/rebalancing";
+import {
+	OWNER_PROOF_REQUIRED,
+	ownerProofSchema,
+	readPositionOwner,
+	verifyOwnerProof,
+} from "../lib/ownership";
+import { findRebalancedTokenId, getLineage } from "../lib/rebalancing/lineage";
+import {
+	getTriggerState,
+	type TriggerState,
+} from "../lib/rebalancing/strategy";
+import { publicProcedure, router } from "../lib/trpc";
+import { CONTRACTS } from "../lib/uniswap/contracts";
+
+// Tick spacings on each side for fixed_width
+const MAX_FIXED_WIDTH = 10_000;
+
+const ownerSchema = z
+	.string()
+	.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address");
+
+const tokenIdSchema = z
+	.string()
+	.regex(/^\d+$/, "Token ID must be a numeric string");
+
+interface StrategySuccessResponse {
+	success: true;
+	strategy: (RebalanceStrategy & { trigger: TriggerState }) | null;
+	message: string;
+}
+
+interface StrategyErrorResponse {
+	success: false;
+	strategy: null;
+	message: string;
+}
+
+type StrategyResponse = StrategySuccessResponse | StrategyErrorResponse;
+
+interface RebalancingActionResponse {
+	success: boolean;
+	message: string;
+}
+
+interface RecordRebalanceSuccessResponse {
+	success: true;
+	rebalance: Rebalance;
+	message: string;
+}
+
+interface RecordRebalanceErrorResponse {
+	success: false;
+	rebalance: null;
+	message: string;
+}
+
+type RecordRebalanceResponse =
+	| RecordRebalanceSuccessResponse
+	| RecordRebalanceErrorResponse;
+
+interface LineageSuccessResponse {
+	success: true;
+	rebalances: Rebalance[];
+}
+
+interface LineageErrorResponse {
+	success: false;
+	rebalances: [];
+	message: string;
+}
+
+type LineageResponse = LineageSuccessResponse | LineageErrorResponse;
+
+function withTrigger(
+	strategy: RebalanceStrategy,
+): RebalanceStrategy & { trigger: TriggerState } {
+	return { ...strategy, trigger: getTriggerState(strategy) };
+}
+
+async function findRebalance(
+	chainId: number,
+	fromTokenId: string,
+): Promise<Rebalance | undefined> {
+	const [rebalance] = await db
+		.select()
+		.from(rebalances)
+		.where(
+			and(
+				eq(rebalances.chainId, chainId),
+				eq(rebalances.fromTokenId, fromTokenId),
+			),
+		);
+	return rebalance;
+}
+
+function recordedRebalance(rebalance: Rebalance) {
+	return {
+		success: true,
+		rebalance,
+		message: `Position ${rebalance.fromTokenId} rebalanced into ${rebalance.toTokenId}`,
+	} satisfies RecordRebalanceResponse;
+}
+
+export const rebalancingRouter = router({
+	// Strategy an owner set on a position, null when there is none
+	getStrategy: publicProcedure
+		.input(
+			z.object({
+				owner: ownerSchema,
+				chainId: z.number(),
+				tokenId: tokenIdSchema,
+			}),
+		)
+		.query(async ({ input }) => {
+			try {
+				const [strategy] = await db
+					.select()
+					.from(rebalanceStrategies)
+					.where(
+						and(
+							eq(rebalanceStrategies.owner, getAddress(input.owner)),
+							eq(rebalanceStrategies.chainId, input.chainId),
+							eq(rebalanceStrategies.tokenId, input.tokenId),
+						),
+					);
+				return {
+					success: true,
+					strategy: strategy ? withTrigger(strategy) : null,
+					message: strategy ? "Strategy found" : "No strategy set",
+				} satisfies StrategyResponse;
+			} catch (error) {
+				console.error("Error fetching rebalancing strategy:", error);
+				return {
+					success: false,
+					strategy: null,
+					message: `Error fetching rebalancing strategy: ${describeError(error)}`,
+				} satisfies StrategyResponse;
+			}
+		}),
+
+	// Create or replace the strategy of a position
+	saveStrategy: publicProcedure
+		.input(
+			z
+				.object({
+					owner: ownerSchema,
+					chainId: z.number(),
+					tokenId: tokenIdSchema,
+					range: z.enum(RANGE_STRATEGIES),
+					width: z.number().positive(),
+					triggerMinutes: z.number().int().positive().optional(),
+					proof: ownerProofSchema,
+				})
+				.refine(
+					({ range, width }) =>
+						range === "fixed_width"
+							? Number.isInteger(width) && width <= MAX_FIXED_WIDTH
+							: width < 100,
+					{
+						message:
+							"Fixed width takes a whole number of tick spacings, a percent band less than 100%",
+						path: ["width"],
+					},
+				),
+		)
+		.mutation(async ({ input }) => {
+			try {
+				if (!CONTRACTS[input.chainId]) {
+					return {
+						success: false,
+						strategy: null,
+						message: `Unsupported chain ID: ${input.chainId}`,
+					} satisfies StrategyResponse;
+				}
+
+				if (!(await verifyOwnerProof(input.owner, input.proof))) {
+					return {
+						success: false,
+						strategy: null,
+						message: OWNER_PROOF_REQUIRED,
+					} satisfies StrategyResponse;
+				}
+
+				// Strategies drive scheduled checks, only the holder may set one
+				const owner = getAddress(input.owner);
+				const holder = await readPositionOwner(
+					input.chainId,
+					"PROTOCOL_VERSION_V4",
+					BigInt(input.tokenId),
+				);
+				if (!holder || getAddress(holder) !== owner) {
+					return {
+						success: false,
+						strategy: null,
+						message: `Position #${input.tokenId} is not owned by ${owner}`,
+					} satisfies StrategyResponse;
+				}
+
+				const now = new Date();
+				const values = {
+					range: input.range,
+					width: input.width,
+					triggerMinutes: input.triggerMinutes ?? null,
+					updatedAt: now,
+				};
+
+				const [existing] = await db
+					.select({ id: rebalanceStrategies.id })
+					.from(rebalanceStrategies)
+					.where(
+						and(
+							eq(rebalanceStrategies.owner, owner),
+							eq(rebalanceStrategies.chainId, input.chainId),
+							eq(rebalanceStrategies.tokenId, input.tokenId),
+						),
+					);
+
+				const [strategy] = existing
+					? await db
+							.update(rebalanceStrategies)
+							.set(values)
+							.where(eq(rebalanceStrategies.id, existing.id))
+							.returning()
+					: await db
+							.insert(rebalanceStrategies)
+							.values({
+								...values,
+								owner,
+								chainId: input.chainId,
+								tokenId: input.tokenId,
+								createdAt: now,
+							})
+							.returning();
+				return {
+					success: true,
+					strategy: withTrigger(strategy),
+					message: "Strategy saved",
+				} satisfies StrategyResponse;
+			} catch (error) {
+				console.error("Error saving rebalancing strategy:", error);
+				return {
+					success: false,
+					strategy: null,
+					message: `Error saving rebalancing strategy: ${describeError(error)}`,
+				} satisfies StrategyResponse;
+			}
+		}),
+
+	deleteStrategy: publicProcedure
+		.input(
+			z.object({ owner: ownerSchema, id: z.number(), proof: ownerProofSchema }),
+		)
+		.mutation(async ({ input }) => {
+			try {
+				if (!(await verifyOwnerProof(input.owner, input.proof))) {
+					return {
+						success: false,
+						message: OWNER_PROOF_REQUIRED,
+					} satisfies RebalancingActionResponse;
+				}
+
+				const deleted = await db
+					.delete(rebalanceStrategies)
+					.where(
+						and(
+							eq(rebalanceStrategies.id, input.id),
+							eq(rebalanceStrategies.owner, getAddress(input.owner)),
+						),
+					)
+					.returning({ id: rebalanceStrategies.id });
+				return deleted.length > 0
+					? ({
+							success: true,
+							message: "Strategy deleted",
+						} satisfies RebalancingActionResponse)
+					: ({
+							success: false,
+							message: `Strategy ${input.id} not found`,
+						} satisfies RebalancingActionResponse);
+			} catch (error) {
+				console.error("Error deleting rebalancing strategy:", error);
+				return {
+					success: false,
+					message: `Error deleting rebalancing strategy: ${describeError(error)}`,
+				} satisfies RebalancingActionResponse;
+			}
+		}),
+
+	// Link a rebalanced position to its replacement once the batch has landed;
+	// its strategy follows the new position
+	recordRebalance: publicProcedure
+		.input(
+			z.object({
+				owner: ownerSchema,
+				chainId: z.number(),
+				fromTokenId: tokenIdSchema,
+				transactionHashes: z
+					.array(
+						z.string().regex(/^0x[a-fA-F0-9]{64}$/, "Invalid transaction hash"),
+					)
+					.min(1)
+					.max(20),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			try {
+				const owner = getAddress(input.owner) as Address;
+
+				// Recording again, e.g. after a reload, returns the existing row
+				const existing = await findRebalance(input.chainId, input.fromTokenId);
+				if (existing) return recordedRebalance(existing);
+
+				const transactionHashes = [
+					...new Set(input.transactionHashes.map((hash) => hash.toLowerCase())),
+				] as Hash[];
+				const toTokenId = await findRebalancedTokenId(
+					input.chainId,
+					owner,
+					BigInt(input.fromTokenId),
+					transactionHashes,
+				);
+
+				const [strategy] = await db
+					.select({ id: rebalanceStrategies.id })
+					.from(rebalanceStrategies)
+					.where(
+						and(
+							eq(rebalanceStrategies.owner, owner),
+							eq(rebalanceStrategies.chainId, input.chainId),
+							eq(rebalanceStrategies.tokenId, input.fromTokenId),
+						),
+					);
+
+				const now = new Date();
+				const [rebalance] = await db
+					.insert(rebalances)
+					.values({
+						owner,
+						chainId: input.chainId,
+						fromTokenId: input.fromTokenId,
+						toTokenId: toTokenId.toString(),
+						strategyId: strategy?.id ?? null,
+						transactionHashes,
+						createdAt: now,
+					})
+					.onConflictDoNothing()
+					.returning();
+				// Recorded concurrently by another request, which also moved the strategy
+				if (!rebalance) {
+					const recorded = await findRebalance(
+						input.chainId,
+						input.fromTokenId,
+					);
+					if (!recorded) {
+						throw new Error(
+							`Rebalance of ${input.fromTokenId} was not recorded`,
+						);
+					}
+					return recordedRebalance(recorded);
+				}
+				if (strategy) {
+					await db
+						.update(rebalanceStrategies)
+						.set({
+							tokenId: rebalance.toTokenId,
+							outOfRangeSince: null,
+							updatedAt: now,
+						})
+						.where(eq(rebalanceStrategies.id, strategy.id));
+				}
+
+				return recordedRebalance(rebalance);
+			} catch (error) {
+				console.error("Error recording rebalance:", error);
+				return {
+					success: false,
+					rebalance: null,
+					message: `Error recording rebalance: ${describeError(error)}`,
+				} satisfies RecordRebalanceResponse;
+			}
+		}),
+
+	// Positions a position was rebalanced from and into, oldest first
+	getLineage: publicProcedure
+		.input(z.object({ chainId: z.number(), tokenId: tokenIdSchema }))
+		.query(async ({ input }) => {
+			try {
+				const lineage = await getLineage(input.chainId, input.tokenId);
+				return {
+					success: true,
+					rebalances: lineage,
+				} satisfies LineageResponse;
+			} catch (error) {
+				console.error("Error fetching rebalance lineage:", error);
+				return {
+					success: false,
+					rebalances: [],
+					message: `Error fetching rebalance lineage: ${describeError(error)}`,
+				} satisfies LineageResponse;
+			}
+		}),
+});
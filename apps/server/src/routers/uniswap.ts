@@ -1,14 +1,50 @@
-import {
-	type Address,
-	createPublicClient,
-	encodeAbiParameters,
-	http,
-	keccak256,
-	parseAbiParameters,
-} from "viem";
-import { arbitrum, base, mainnet, optimism, polygon } from "viem/chains";
+import { BASE_UNIT_PATTERN } from "@my-better-t-app/shared/amounts";
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import type { Address } from "viem";
 import { z } from "zod";
 import { publicProcedure, router } from "../lib/trpc";
+import { STATE_VIEW_ABI } from "../lib/uniswap/abis";
+import {
+	fetchPositionAccounting,
+	type PositionAccounting,
+} from "../lib/uniswap/accounting";
+import {
+	CHAIN_CONFIGS,
+	CONTRACTS,
+	calculatePoolId,
+	getPublicClient,
+	getTickSpacing,
+	SUPPORTED_CHAIN_IDS,
+	V3_CONTRACTS,
+	WRAPPED_NATIVE_ADDRESSES,
+	ZERO_ADDRESS,
+} from "../lib/uniswap/contracts";
+import {
+	applyPositionEnrichment,
+	fetchPositionEnrichment,
+} from "../lib/uniswap/gateway";
+import {
+	fetchV3LiquidityDistribution,
+	fetchV4LiquidityDistribution,
+	type LiquidityDistribution,
+} from "../lib/uniswap/liquidity";
+import {
+	getAmountsForLiquidity,
+	getTickAtSqrtPrice,
+	MAX_TICK,
+	nearestUsableTick,
+	priceRangeToTicks,
+	priceToSqrtPriceX96,
+} from "../lib/uniswap/math";
+import {
+	fetchOnchainPosition,
+	fetchOnchainPositions,
+	fetchPositionWithOwner,
+	type PositionSummary,
+	type PositionToken,
+	type ProtocolVersion,
+} from "../lib/uniswap/positions";
+import { fetchSwapQuote, type SwapQuote } from "../lib/uniswap/quote";
 
 // Type definitions
 export interface TokenInfo {
@@ -28,6 +64,8 @@ interface MintPositionSuccessResponse {
 		currentTick: number;
 		currentLiquidity: string;
 		poolId: string;
+		// When false the price is the requested starting price and the pool must be created
+		initialized: boolean;
 	};
 	poolKey: {
 		token0: TokenInfo;
@@ -60,7 +98,7 @@ type MintPositionResponse =
 
 interface PositionsSuccessResponse {
 	success: true;
-	positions: Position[];
+	positions: PositionSummary[];
 	message: string;
 }
 
@@ -74,7 +112,7 @@ type PositionsResponse = PositionsSuccessResponse | PositionsErrorResponse;
 
 interface PositionDetailsSuccessResponse {
 	success: true;
-	position: any; // Keep flexible for now due to complex position structure
+	position: PositionSummary;
 }
 
 interface PositionDetailsErrorResponse {
@@ -87,272 +125,235 @@ type PositionDetailsResponse =
 	| PositionDetailsSuccessResponse
 	| PositionDetailsErrorResponse;
 
-// StateView ABI for fetching pool state
-const STATE_VIEW_ABI = [
-	{
-		inputs: [{ name: "poolId", type: "bytes32" }],
-		name: "getSlot0",
-		outputs: [
-			{ name: "sqrtPriceX96", type: "uint160" },
-			{ name: "tick", type: "int24" },
-			{ name: "protocolFee", type: "uint24" },
-			{ name: "lpFee", type: "uint24" },
-		],
-		stateMutability: "view",
-		type: "function",
-	},
-	{
-		inputs: [{ name: "poolId", type: "bytes32" }],
-		name: "getLiquidity",
-		outputs: [{ name: "liquidity", type: "uint128" }],
-		stateMutability: "view",
-		type: "function",
-	},
-] as const;
-
-// Permit2 ABI
-const PERMIT2_ABI = [
-	{
-		inputs: [
-			{ name: "owner", type: "address" },
-			{ name: "token", type: "address" },
-			{ name: "spender", type: "address" },
-		],
-		name: "allowance",
-		outputs: [
-			{ name: "amount", type: "uint160" },
-			{ name: "expiration", type: "uint48" },
-			{ name: "nonce", type: "uint48" },
-		],
-		stateMutability: "view",
-		type: "function",
-	},
-] as const;
-
-const UNISWAP_INTERFACE_API_URL =
-	"https://interface.gateway.uniswap.org/v2/pools.v1.PoolsService/ListPositions";
-
-// Types and interfaces based on Uniswap Interface API
-export interface ApiToken {
-	chainId: number;
-	address: string;
-	symbol: string;
-	decimals: number;
-	name: string;
-	isNative?: boolean;
+interface PositionSuccessResponse {
+	success: true;
+	position: PositionSummary;
+	owner: Address;
 }
 
-interface PoolPosition {
-	tokenId: string;
-	tickLower: string;
-	tickUpper: string;
-	liquidity: string;
-	token0: ApiToken;
-	token1: ApiToken;
-	feeTier: string;
-	currentTick: string;
-	currentPrice: string;
-	tickSpacing: string;
-	token0UncollectedFees: string;
-	token1UncollectedFees: string;
-	amount0: string;
-	amount1: string;
-	poolId: string;
-	totalLiquidityUsd: string;
-	currentLiquidity: string;
-	apr: number;
-	totalApr: number;
+interface PositionErrorResponse {
+	success: false;
+	position: null;
+	owner: null;
+	message: string;
+}
+
+type PositionResponse = PositionSuccessResponse | PositionErrorResponse;
+
+interface PositionAccountingSuccessResponse {
+	success: true;
+	accounting: PositionAccounting;
+}
+
+interface PositionAccountingErrorResponse {
+	success: false;
+	accounting: null;
+	message: string;
+}
+
+type PositionAccountingResponse =
+	| PositionAccountingSuccessResponse
+	| PositionAccountingErrorResponse;
+
+interface DecreaseLiquiditySuccessResponse {
+	success: true;
+	message: string;
+	poolState: {
+		sqrtPriceX96: string;
+		currentTick: number;
+		currentLiquidity: string;
+		poolId: string;
+	};
+	poolKey: {
+		token0: TokenInfo;
+		token1: TokenInfo;
+		fee: number;
+		tickSpacing: number;
+		hookAddress: string;
+	};
+	positionParams: {
+		tokenId: string;
+		tickLower: number;
+		tickUpper: number;
+		liquidity: string;
+		liquidityPercentage: number;
+		liquidityToRemove: string;
+		// Principal expected back at the current price, before slippage
+		expectedAmount0: string;
+		expectedAmount1: string;
+		// V4 settles accrued fees on any liquidity change
+		feesAmount0: string;
+		feesAmount1: string;
+		burnToken: boolean;
+	};
+	contractAddresses: {
+		positionManager: Address;
+	};
+}
+
+interface DecreaseLiquidityErrorResponse {
+	success: false;
+	message: string;
+}
+
+interface IncreaseLiquiditySuccessResponse {
+	success: true;
+	message: string;
+	poolState: {
+		sqrtPriceX96: string;
+		currentTick: number;
+		currentLiquidity: string;
+		poolId: string;
+	};
+	poolKey: {
+		token0: TokenInfo;
+		token1: TokenInfo;
+		fee: number;
+		tickSpacing: number;
+		hookAddress: string;
+	};
+	positionParams: {
+		tokenId: string;
+		tickLower: number;
+		tickUpper: number;
+		liquidity: string;
+		amount0: string;
+		amount1: string;
+	};
+	contractAddresses: {
+		positionManager: Address;
+		permit2: Address;
+	};
+}
+
+interface IncreaseLiquidityErrorResponse {
+	success: false;
+	message: string;
 }
 
-interface ApiV4Position {
-	poolPosition: PoolPosition;
-	hooks: Array<{
-		address: string;
-	}>;
+type IncreaseLiquidityResponse =
+	| IncreaseLiquiditySuccessResponse
+	| IncreaseLiquidityErrorResponse;
+
+type DecreaseLiquidityResponse =
+	| DecreaseLiquiditySuccessResponse
+	| DecreaseLiquidityErrorResponse;
+
+export interface CollectFeesPosition {
+	tokenId: string;
+	protocolVersion: ProtocolVersion;
+	token0: PositionToken;
+	token1: PositionToken;
+	fees: {
+		amount0: string;
+		amount1: string;
+	};
 }
 
-export interface Position {
+interface CollectFeesSuccessResponse {
+	success: true;
+	message: string;
 	chainId: number;
-	protocolVersion: string;
-	v4Position?: ApiV4Position;
-	v3Position?: PoolPosition;
-	v2Position?: any; // V2 positions have different structure
-	status: string;
-	timestamp: number;
+	positions: CollectFeesPosition[];
+	// Token IDs that were requested but are not owned, have nothing to collect
+	// or could not be read
+	skipped: string[];
+	contractAddresses: {
+		positionManager: Address | null;
+		nonfungiblePositionManager: Address | null;
+	};
 }
 
-interface ListPositionsResponse {
-	positions: Position[];
+interface CollectFeesErrorResponse {
+	success: false;
+	message: string;
 }
 
-// Uniswap V4 contract addresses by chain
-const CONTRACTS: Record<
-	number,
-	{
-		POOL_MANAGER: Address;
-		POSITION_MANAGER: Address;
-		STATE_VIEW: Address;
-		PERMIT2: Address;
-	}
-> = {
-	// Ethereum Mainnet
-	1: {
-		POOL_MANAGER: "0x000000000004444c5dc75cB358380D2e3dE08A90",
-		POSITION_MANAGER: "0xbd216513d74c8cf14cf4747e6aaa6420ff64ee9e",
-		STATE_VIEW: "0x7ffe42c4a5deea5b0fec41c94c136cf115597227",
-		PERMIT2: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
-	},
-	// Polygon
-	137: {
-		POOL_MANAGER: "0x67366782805870060151383f4bbff9dab53e5cd6",
-		POSITION_MANAGER: "0x1ec2ebf4f37e7363fdfe3551602425af0b3ceef9",
-		STATE_VIEW: "0x5ea1bd7974c8a611cbab0bdcafcb1d9cc9b3ba5a",
-		PERMIT2: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
-	},
-	// Optimism
-	10: {
-		POOL_MANAGER: "0x9a13f98cb987694c9f086b1f5eb990eea8264ec3",
-		POSITION_MANAGER: "0x3c3ea4b57a46241e54610e5f022e5c45859a1017",
-		STATE_VIEW: "0xc18a3169788f4f75a170290584eca6395c75ecdb",
-		PERMIT2: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
-	},
-	// Base
-	8453: {
-		POOL_MANAGER: "0x498581ff718922c3f8e6a244956af099b2652b2b",
-		POSITION_MANAGER: "0x7c5f5a4bbd8fd63184577525326123b519429bdc",
-		STATE_VIEW: "0xa3c0c9b65bad0b08107aa264b0f3db444b867a71",
-		PERMIT2: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
-	},
-	// Arbitrum
-	42161: {
-		POOL_MANAGER: "0x4444444443c93dd47726ac8a34ae1f8baf6b1b82",
-		POSITION_MANAGER: "0x5e1a6231bd58b9e5b5e4a0eb5bc1f4b4f3c0d98d",
-		STATE_VIEW: "0x89b94a2de0f3d97eabf8dd33c4b2e5d0e1b5e3df",
-		PERMIT2: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
-	},
-} as const;
-
-// WETH addresses by chain
-const WETH_ADDRESSES: Record<number, Address> = {
-	1: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", // Ethereum Mainnet
-	137: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619", // Polygon
-	10: "0x4200000000000000000000000000000000000006", // Optimism
-	8453: "0x4200000000000000000000000000000000000006", // Base
-	42161: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1", // Arbitrum
-} as const;
-
-// Helper function to get tick spacing based on fee tier
-function getTickSpacing(feeTier: number): number {
-	switch (feeTier) {
-		case 100:
-			return 1; // 0.01%
-		case 500:
-			return 10; // 0.05%
-		case 3000:
-			return 60; // 0.3%
-		case 10000:
-			return 200; // 1%
-		default:
-			return 60; // Default to 0.3% fee tier
-	}
+interface PoolStateSuccessResponse {
+	success: true;
+	pool: {
+		poolId: string;
+		token0: Address;
+		token1: Address;
+		fee: number;
+		tickSpacing: number;
+		hookAddress: Address;
+		// False when the pool has never been initialized, it must be created with a starting price
+		initialized: boolean;
+		sqrtPriceX96: string;
+		currentTick: number;
+		liquidity: string;
+	};
 }
 
-// Helper function to calculate nearest usable tick
-function nearestUsableTick(tick: number, tickSpacing: number): number {
-	return Math.round(tick / tickSpacing) * tickSpacing;
+interface PoolStateErrorResponse {
+	success: false;
+	pool: null;
+	message: string;
 }
 
-// Helper to calculate pool ID (keccak256 hash of pool key)
-function calculatePoolId(
-	token0: Address,
-	token1: Address,
-	fee: number,
-	tickSpacing: number,
-	hookAddress: Address,
-): `0x${string}` {
-	// Encode the pool key according to Uniswap V4 PoolKey struct
-	const encodedPoolKey = encodeAbiParameters(
-		parseAbiParameters("address, address, uint24, int24, address"),
-		[token0, token1, fee, tickSpacing, hookAddress],
-	);
-
-	// Return keccak256 hash as bytes32
-	return keccak256(encodedPoolKey);
+type PoolStateResponse = PoolStateSuccessResponse | PoolStateErrorResponse;
+
+interface LiquidityDistributionSuccessResponse {
+	success: true;
+	distribution: LiquidityDistribution;
 }
 
-// Chain configurations for all supported mainnet chains
-const CHAIN_CONFIGS: { [key: number]: { chain: any; rpcUrl: string } } = {
-	1: {
-		// Ethereum Mainnet
-		chain: mainnet,
-		rpcUrl: "https://ethereum-rpc.publicnode.com",
-	},
-	137: {
-		// Polygon
-		chain: polygon,
-		rpcUrl: "https://polygon-rpc.com",
-	},
-	10: {
-		// Optimism
-		chain: optimism,
-		rpcUrl: "https://mainnet.optimism.io",
-	},
-	8453: {
-		// Base
-		chain: base,
-		rpcUrl: "https://mainnet.base.org",
-	},
-	42161: {
-		// Arbitrum
-		chain: arbitrum,
-		rpcUrl: "https://arb1.arbitrum.io/rpc",
-	},
-};
-
-// Helper function to call Uniswap Interface API
-async function fetchPositionsFromUniswap(
-	address: string,
-): Promise<ListPositionsResponse> {
-	const response = await fetch(UNISWAP_INTERFACE_API_URL, {
-		method: "POST",
-		headers: {
-			accept: "*/*",
-			"accept-language": "en-US,en;q=0.9",
-			"connect-protocol-version": "1",
-			"content-type": "application/json",
-			origin: "https://app.uniswap.org",
-			referer: "https://app.uniswap.org/",
-			"user-agent":
-				"Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/139.0.0.0 Safari/537.36",
-		},
-		body: JSON.stringify({
-			address: address,
-			chainIds: [
-				1, 130, 8453, 42161, 137, 10, 56, 43114, 480, 324, 1868, 7777777, 42220,
-				81457,
-			], // All supported chains
-			protocolVersions: [
-				"PROTOCOL_VERSION_V4",
-				"PROTOCOL_VERSION_V3",
-				"PROTOCOL_VERSION_V2",
-			],
-			positionStatuses: [
-				"POSITION_STATUS_IN_RANGE",
-				"POSITION_STATUS_OUT_OF_RANGE",
-			],
-			pageSize: 100, // Fetch more positions
-			pageToken: "",
-			includeHidden: true,
-		}),
-	});
+interface LiquidityDistributionErrorResponse {
+	success: false;
+	distribution: null;
+	message: string;
+}
+
+type LiquidityDistributionResponse =
+	| LiquidityDistributionSuccessResponse
+	| LiquidityDistributionErrorResponse;
+
+interface QuoteSuccessResponse {
+	success: true;
+	quote: SwapQuote;
+}
 
-	if (!response.ok) {
-		throw new Error(
-			`Uniswap API error: ${response.status} ${response.statusText}`,
-		);
-	}
+interface QuoteErrorResponse {
+	success: false;
+	quote: null;
+	message: string;
+}
 
-	return response.json() as Promise<ListPositionsResponse>;
+type QuoteResponse = QuoteSuccessResponse | QuoteErrorResponse;
+
+type CollectFeesResponse =
+	| CollectFeesSuccessResponse
+	| CollectFeesErrorResponse;
+
+/**
+ * Pool currencies for a token pair, sorted by address. V4 pools hold native
+ * currency as address(0); V3 pools only know its wrapped token.
+ */
+function toPoolCurrencies(
+	chainId: number,
+	tokenA: string,
+	tokenB: string,
+	wrapNative: boolean,
+): [Address, Address] {
+	const [token0, token1] = [tokenA, tokenB]
+		.map((address) =>
+			wrapNative && address === ZERO_ADDRESS
+				? WRAPPED_NATIVE_ADDRESSES[chainId]
+				: (address as Address),
+		)
+		.sort((a, b) => (a.toLowerCase() < b.toLowerCase() ? -1 : 1));
+	return [token0, token1];
+}
+
+function toTokenInfo(token: PositionToken): TokenInfo {
+	return {
+		chainId: token.chainId,
+		address: token.address as Address,
+		decimals: token.decimals,
+		symbol: token.symbol,
+		name: token.name,
+	};
 }
 
 // tRPC router
@@ -363,82 +364,78 @@ export const uniswapRouter = router({
 				owner: z
 					.string()
 					.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address"),
+				chainIds: z.array(z.number()).optional(),
+				enrich: z.boolean().optional().default(true),
 			}),
 		)
 		.query(async ({ input }) => {
 			try {
-				const { owner } = input;
+				const owner = input.owner as Address;
+				const chainIds = (input.chainIds ?? SUPPORTED_CHAIN_IDS).filter(
+					(chainId) => CHAIN_CONFIGS[chainId],
+				);
+
+				// Read positions on-chain per chain; a failing RPC only drops its own chain
+				const [results, enrichment] = await Promise.all([
+					Promise.allSettled(
+						chainIds.map((chainId) => fetchOnchainPositions(chainId, owner)),
+					),
+					input.enrich
+						? fetchPositionEnrichment(owner)
+						: Promise.resolve(new Map()),
+				]);
 
-				// Fetch positions from Uniswap Interface API
-				const response = await fetchPositionsFromUniswap(owner);
+				const failedChains: number[] = [];
+				const scanningChains: number[] = [];
+				const positions = results.flatMap((result, index) => {
+					if (result.status === "fulfilled") {
+						if (!result.value.complete) scanningChains.push(chainIds[index]);
+						return result.value.positions;
+					}
+					console.error(
+						`Error fetching positions on chain ${chainIds[index]}:`,
+						result.reason,
+					);
+					failedChains.push(chainIds[index]);
+					return [];
+				});
 
-				if (!response.positions || response.positions.length === 0) {
+				if (failedChains.length === chainIds.length && chainIds.length > 0) {
 					return {
-						success: true,
+						success: false,
 						positions: [],
-						message: "No positions found for this address",
+						message: `Error fetching positions: all chains failed (${failedChains.join(", ")})`,
 					} satisfies PositionsResponse;
 				}
 
-				// Transform positions to a consistent format
-				const transformedPositions = response.positions
-					.map((position) => {
-						// Get pool position data based on protocol version
-						let poolPosition: PoolPosition | undefined;
-						let hooks: string[] = [];
-
-						if (position.v4Position) {
-							poolPosition = position.v4Position.poolPosition;
-							hooks = position.v4Position.hooks.map((h) => h.address);
-						} else if (position.v3Position) {
-							poolPosition = position.v3Position;
-						} else if (position.v2Position) {
-							// V2 positions have different structure, handle separately if needed
-							return null;
-						}
-
-						if (!poolPosition) return null;
+				const enrichedPositions = applyPositionEnrichment(
+					positions,
+					enrichment,
+				);
 
-						return {
-							tokenId: poolPosition.tokenId,
-							chainId: position.chainId,
-							protocolVersion: position.protocolVersion,
-							status: position.status,
-							timestamp: position.timestamp,
-							tickLower: Number.parseInt(poolPosition.tickLower),
-							tickUpper: Number.parseInt(poolPosition.tickUpper),
-							liquidity: poolPosition.liquidity,
-							token0: poolPosition.token0,
-							token1: poolPosition.token1,
-							feeTier: Number.parseInt(poolPosition.feeTier),
-							currentTick: Number.parseInt(poolPosition.currentTick),
-							currentPrice: poolPosition.currentPrice,
-							tickSpacing: Number.parseInt(poolPosition.tickSpacing),
-							token0UncollectedFees: poolPosition.token0UncollectedFees,
-							token1UncollectedFees: poolPosition.token1UncollectedFees,
-							amount0: poolPosition.amount0,
-							amount1: poolPosition.amount1,
-							poolId: poolPosition.poolId,
-							totalLiquidityUsd: poolPosition.totalLiquidityUsd,
-							currentLiquidity: poolPosition.currentLiquidity,
-							apr: poolPosition.apr,
-							totalApr: poolPosition.totalApr,
-							hooks: hooks,
-						};
-					})
-					.filter(Boolean); // Remove null values
+				const failureNote = [
+					failedChains.length > 0
+						? ` (unavailable chains: ${failedChains.join(", ")})`
+						: "",
+					scanningChains.length > 0
+						? ` (still scanning chains: ${scanningChains.join(", ")}, reload for the rest)`
+						: "",
+				].join("");
 
 				return {
 					success: true,
-					positions: transformedPositions as Position[],
-					message: `Found ${transformedPositions.length} positions`,
+					positions: enrichedPositions,
+					message:
+						enrichedPositions.length === 0
+							? `No positions found for this address${failureNote}`
+							: `Found ${enrichedPositions.length} positions${failureNote}`,
 				} satisfies PositionsResponse;
 			} catch (error) {
 				console.error("Error fetching positions:", error);
 				return {
 					success: false,
 					positions: [],
-					message: `Error fetching positions: ${error instanceof Error ? error.message : "Unknown error"}`,
+					message: `Error fetching positions: ${describeError(error)}`,
 				} satisfies PositionsResponse;
 			}
 		}),
@@ -450,18 +447,44 @@ export const uniswapRouter = router({
 					.string()
 					.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address"),
 				tokenId: z.string().regex(/^\d+$/, "Token ID must be a numeric string"),
+				chainId: z.number().optional(),
+				protocolVersion: z
+					.enum(["PROTOCOL_VERSION_V3", "PROTOCOL_VERSION_V4"])
+					.optional(),
 			}),
 		)
 		.query(async ({ input }) => {
 			try {
-				const { owner, tokenId } = input;
-
-				// Fetch all positions and find the specific one
-				const response = await fetchPositionsFromUniswap(owner);
-				const position = response.positions.find((p) => {
-					const poolPos = p.v4Position?.poolPosition || p.v3Position;
-					return poolPos?.tokenId === tokenId;
-				});
+				const owner = input.owner as Address;
+				const { tokenId, chainId, protocolVersion } = input;
+
+				let position: PositionSummary | null | undefined;
+
+				if (chainId !== undefined && protocolVersion) {
+					// Direct lookup when the caller knows where the NFT lives
+					position = await fetchOnchainPosition(
+						chainId,
+						protocolVersion,
+						BigInt(tokenId),
+						owner,
+					);
+				} else {
+					// Token IDs are only unique per chain and protocol, so scan every chain
+					const chainIds =
+						chainId !== undefined ? [chainId] : SUPPORTED_CHAIN_IDS;
+					const results = await Promise.allSettled(
+						chainIds.map((id) => fetchOnchainPositions(id, owner)),
+					);
+					position = results
+						.flatMap((result) =>
+							result.status === "fulfilled" ? result.value.positions : [],
+						)
+						.find(
+							(p) =>
+								p.tokenId === tokenId &&
+								(!protocolVersion || p.protocolVersion === protocolVersion),
+						);
+				}
 
 				if (!position) {
 					return {
@@ -471,63 +494,385 @@ export const uniswapRouter = router({
 					} satisfies PositionDetailsResponse;
 				}
 
-				// Transform the position data
-				let poolPosition: PoolPosition | undefined;
-				let hooks: string[] = [];
+				const enrichment = await fetchPositionEnrichment(owner);
+				const [enrichedPosition] = applyPositionEnrichment(
+					[position],
+					enrichment,
+				);
 
-				if (position.v4Position) {
-					poolPosition = position.v4Position.poolPosition;
-					hooks = position.v4Position.hooks.map((h) => h.address);
-				} else if (position.v3Position) {
-					poolPosition = position.v3Position;
+				return {
+					success: true,
+					position: enrichedPosition,
+				} satisfies PositionDetailsResponse;
+			} catch (error) {
+				console.error("Error fetching position details:", error);
+				return {
+					success: false,
+					position: null,
+					message: `Error fetching position details: ${describeError(error)}`,
+				} satisfies PositionDetailsResponse;
+			}
+		}),
+
+	// Any position by chain and token ID, so position pages can be shared
+	getPosition: publicProcedure
+		.input(
+			z.object({
+				chainId: z.number(),
+				tokenId: z.string().regex(/^\d+$/, "Token ID must be a numeric string"),
+				protocolVersion: z
+					.enum(["PROTOCOL_VERSION_V3", "PROTOCOL_VERSION_V4"])
+					.optional()
+					.default("PROTOCOL_VERSION_V4"),
+			}),
+		)
+		.query(async ({ input }) => {
+			try {
+				const { chainId, tokenId, protocolVersion } = input;
+
+				if (!CHAIN_CONFIGS[chainId]) {
+					return {
+						success: false,
+						position: null,
+						owner: null,
+						message: `Unsupported chain ID: ${chainId}`,
+					} satisfies PositionResponse;
 				}
 
-				if (!poolPosition) {
+				const result = await fetchPositionWithOwner(
+					chainId,
+					protocolVersion,
+					BigInt(tokenId),
+				);
+
+				if (!result) {
 					return {
 						success: false,
 						position: null,
-						message: "Unsupported position type",
-					} satisfies PositionDetailsResponse;
+						owner: null,
+						message: "Position not found",
+					} satisfies PositionResponse;
 				}
 
-				const transformedPosition = {
-					tokenId: poolPosition.tokenId,
-					chainId: position.chainId,
-					protocolVersion: position.protocolVersion,
-					status: position.status,
-					timestamp: position.timestamp,
-					tickLower: Number.parseInt(poolPosition.tickLower),
-					tickUpper: Number.parseInt(poolPosition.tickUpper),
-					liquidity: poolPosition.liquidity,
-					token0: poolPosition.token0,
-					token1: poolPosition.token1,
-					feeTier: Number.parseInt(poolPosition.feeTier),
-					currentTick: Number.parseInt(poolPosition.currentTick),
-					currentPrice: poolPosition.currentPrice,
-					tickSpacing: Number.parseInt(poolPosition.tickSpacing),
-					token0UncollectedFees: poolPosition.token0UncollectedFees,
-					token1UncollectedFees: poolPosition.token1UncollectedFees,
-					amount0: poolPosition.amount0,
-					amount1: poolPosition.amount1,
-					poolId: poolPosition.poolId,
-					totalLiquidityUsd: poolPosition.totalLiquidityUsd,
-					currentLiquidity: poolPosition.currentLiquidity,
-					apr: poolPosition.apr,
-					totalApr: poolPosition.totalApr,
-					hooks: hooks,
-				};
+				const enrichment = await fetchPositionEnrichment(result.owner);
+				const [enrichedPosition] = applyPositionEnrichment(
+					[result.position],
+					enrichment,
+				);
 
 				return {
 					success: true,
-					position: transformedPosition,
-				} satisfies PositionDetailsResponse;
+					position: enrichedPosition,
+					owner: result.owner,
+				} satisfies PositionResponse;
 			} catch (error) {
-				console.error("Error fetching position details:", error);
+				console.error("Error fetching position:", error);
 				return {
 					success: false,
 					position: null,
-					message: `Error fetching position details: ${error instanceof Error ? error.message : "Unknown error"}`,
-				} satisfies PositionDetailsResponse;
+					owner: null,
+					message: `Error fetching position: ${describeError(error)}`,
+				} satisfies PositionResponse;
+			}
+		}),
+
+	// PnL, fees and impermanent loss rebuilt from the position's on-chain history
+	getPositionAccounting: publicProcedure
+		.input(
+			z.object({
+				chainId: z.number(),
+				tokenId: z.string().regex(/^\d+$/, "Token ID must be a numeric string"),
+				protocolVersion: z
+					.enum(["PROTOCOL_VERSION_V3", "PROTOCOL_VERSION_V4"])
+					.optional()
+					.default("PROTOCOL_VERSION_V4"),
+			}),
+		)
+		.query(async ({ input }) => {
+			try {
+				const { chainId, tokenId, protocolVersion } = input;
+
+				if (!CHAIN_CONFIGS[chainId]) {
+					return {
+						success: false,
+						accounting: null,
+						message: `Unsupported chain ID: ${chainId}`,
+					} satisfies PositionAccountingResponse;
+				}
+
+				const result = await fetchPositionWithOwner(
+					chainId,
+					protocolVersion,
+					BigInt(tokenId),
+				);
+
+				if (!result) {
+					return {
+						success: false,
+						accounting: null,
+						message: "Position not found",
+					} satisfies PositionAccountingResponse;
+				}
+
+				// The gateway's USD value prices token1 for the totals
+				const enrichment = await fetchPositionEnrichment(result.owner);
+				const [position] = applyPositionEnrichment(
+					[result.position],
+					enrichment,
+				);
+
+				return {
+					success: true,
+					accounting: await fetchPositionAccounting(position),
+				} satisfies PositionAccountingResponse;
+			} catch (error) {
+				console.error("Error fetching position accounting:", error);
+				return {
+					success: false,
+					accounting: null,
+					message: `Error fetching position accounting: ${describeError(error)}`,
+				} satisfies PositionAccountingResponse;
+			}
+		}),
+
+	getPoolState: publicProcedure
+		.input(
+			z.object({
+				chainId: z.number(),
+				tokenA: z
+					.string()
+					.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid token address"),
+				tokenB: z
+					.string()
+					.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid token address"),
+				feeTier: z.number(),
+				hookAddress: z
+					.string()
+					.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid hook address")
+					.optional()
+					.default("0x0000000000000000000000000000000000000000"),
+			}),
+		)
+		.query(async ({ input }) => {
+			try {
+				const { chainId, feeTier } = input;
+				const hookAddress = input.hookAddress as Address;
+
+				const chainContracts = CONTRACTS[chainId];
+				if (!CHAIN_CONFIGS[chainId] || !chainContracts) {
+					return {
+						success: false,
+						pool: null,
+						message: `Uniswap V4 contracts not deployed on chain ID: ${chainId}`,
+					} satisfies PoolStateResponse;
+				}
+
+				const [token0, token1] = toPoolCurrencies(
+					chainId,
+					input.tokenA,
+					input.tokenB,
+					false,
+				);
+				const tickSpacing = getTickSpacing(feeTier);
+				const poolId = calculatePoolId(
+					token0,
+					token1,
+					feeTier,
+					tickSpacing,
+					hookAddress,
+				);
+
+				const publicClient = getPublicClient(chainId);
+				const [[sqrtPriceX96, currentTick], liquidity] =
+					await publicClient.multicall({
+						contracts: [
+							{
+								address: chainContracts.STATE_VIEW,
+								abi: STATE_VIEW_ABI,
+								functionName: "getSlot0",
+								args: [poolId],
+							},
+							{
+								address: chainContracts.STATE_VIEW,
+								abi: STATE_VIEW_ABI,
+								functionName: "getLiquidity",
+								args: [poolId],
+							},
+						],
+						allowFailure: false,
+					});
+
+				return {
+					success: true,
+					pool: {
+						poolId,
+						token0,
+						token1,
+						fee: feeTier,
+						tickSpacing,
+						hookAddress,
+						initialized: sqrtPriceX96 !== 0n,
+						sqrtPriceX96: sqrtPriceX96.toString(),
+						currentTick,
+						liquidity: liquidity.toString(),
+					},
+				} satisfies PoolStateResponse;
+			} catch (error) {
+				console.error("Error fetching pool state:", error);
+				return {
+					success: false,
+					pool: null,
+					message: `Error fetching pool state: ${describeError(error)}`,
+				} satisfies PoolStateResponse;
+			}
+		}),
+
+	getLiquidityDistribution: publicProcedure
+		.input(
+			z.object({
+				chainId: z.number(),
+				tokenA: z
+					.string()
+					.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid token address"),
+				tokenB: z
+					.string()
+					.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid token address"),
+				feeTier: z.number(),
+				protocolVersion: z
+					.enum(["PROTOCOL_VERSION_V3", "PROTOCOL_VERSION_V4"])
+					.optional()
+					.default("PROTOCOL_VERSION_V4"),
+				// Ticks on each side of the current tick to read, capped per request;
+				// twice MAX_TICK already spans the whole tick range from any tick
+				tickWindow: z
+					.number()
+					.int()
+					.positive()
+					.max(2 * MAX_TICK)
+					.optional()
+					.default(10_000),
+			}),
+		)
+		.query(async ({ input }) => {
+			try {
+				const { chainId, feeTier, protocolVersion, tickWindow } = input;
+
+				if (!CHAIN_CONFIGS[chainId]) {
+					return {
+						success: false,
+						distribution: null,
+						message: `Unsupported chain ID: ${chainId}`,
+					} satisfies LiquidityDistributionResponse;
+				}
+
+				const [token0, token1] = toPoolCurrencies(
+					chainId,
+					input.tokenA,
+					input.tokenB,
+					protocolVersion === "PROTOCOL_VERSION_V3",
+				);
+
+				const distribution =
+					protocolVersion === "PROTOCOL_VERSION_V3"
+						? await fetchV3LiquidityDistribution(
+								chainId,
+								token0,
+								token1,
+								feeTier,
+								tickWindow,
+							)
+						: await fetchV4LiquidityDistribution(
+								chainId,
+								token0,
+								token1,
+								feeTier,
+								tickWindow,
+							);
+
+				if (!distribution) {
+					return {
+						success: false,
+						distribution: null,
+						message: "Pool not found or not initialized",
+					} satisfies LiquidityDistributionResponse;
+				}
+
+				return {
+					success: true,
+					distribution,
+				} satisfies LiquidityDistributionResponse;
+			} catch (error) {
+				console.error("Error fetching liquidity distribution:", error);
+				return {
+					success: false,
+					distribution: null,
+					message: `Error fetching liquidity distribution: ${describeError(error)}`,
+				} satisfies LiquidityDistributionResponse;
+			}
+		}),
+
+	quote: publicProcedure
+		.input(
+			z.object({
+				chainId: z.number(),
+				tokenIn: z
+					.string()
+					.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid token address"),
+				tokenOut: z
+					.string()
+					.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid token address"),
+				// Input amount for EXACT_INPUT, output amount for EXACT_OUTPUT, in base units
+				amount: z
+					.string()
+					.regex(BASE_UNIT_PATTERN, "Amount must be an integer in base units")
+					.refine((amount) => BigInt(amount) > 0n, {
+						message: "Amount must be greater than zero",
+					}),
+				tradeType: z
+					.enum(["EXACT_INPUT", "EXACT_OUTPUT"])
+					.optional()
+					.default("EXACT_INPUT"),
+				maxHops: z.number().int().min(1).max(2).optional().default(2),
+			}),
+		)
+		.query(async ({ input }) => {
+			try {
+				const { chainId, amount, tradeType, maxHops } = input;
+				if (!CHAIN_CONFIGS[chainId]) {
+					return {
+						success: false,
+						quote: null,
+						message: `Unsupported chain ID: ${chainId}`,
+					} satisfies QuoteResponse;
+				}
+
+				const quote = await fetchSwapQuote(
+					chainId,
+					input.tokenIn as Address,
+					input.tokenOut as Address,
+					BigInt(amount),
+					tradeType,
+					maxHops,
+				);
+				if (!quote) {
+					return {
+						success: false,
+						quote: null,
+						message: "No route found for this swap",
+					} satisfies QuoteResponse;
+				}
+
+				return {
+					success: true,
+					quote,
+				} satisfies QuoteResponse;
+			} catch (error) {
+				console.error("Error fetching swap quote:", error);
+				return {
+					success: false,
+					quote: null,
+					message: `Error fetching swap quote: ${describeError(error)}`,
+				} satisfies QuoteResponse;
 			}
 		}),
 
@@ -552,11 +897,34 @@ export const uniswapRouter = router({
 					decimals: z.number(),
 					chainId: z.number(),
 				}),
-				amountA: z.number().positive(),
-				amountB: z.number().positive(),
+				// Amounts in the tokens' base units
+				amountA: z
+					.string()
+					.regex(BASE_UNIT_PATTERN, "Amount must be an integer in base units")
+					.refine((amount) => BigInt(amount) > 0n, {
+						message: "Amount must be greater than zero",
+					}),
+				amountB: z
+					.string()
+					.regex(BASE_UNIT_PATTERN, "Amount must be an integer in base units")
+					.refine((amount) => BigInt(amount) > 0n, {
+						message: "Amount must be greater than zero",
+					}),
 				feeTier: z.number(),
 				fullRange: z.boolean(),
 				tickRange: z.number().optional(),
+				// Price of tokenA denominated in tokenB; takes precedence over tickRange
+				priceRange: z
+					.object({
+						minPrice: z.number().positive(),
+						maxPrice: z.number().positive(),
+					})
+					.refine((range) => range.minPrice < range.maxPrice, {
+						message: "Min price must be lower than max price",
+					})
+					.optional(),
+				// Starting price of tokenA in tokenB, used only when the pool does not exist yet
+				initialPrice: z.number().positive().optional(),
 				slippageTolerance: z.number().min(0.1).max(50),
 				recipient: z
 					.string()
@@ -578,6 +946,8 @@ export const uniswapRouter = router({
 					feeTier,
 					fullRange,
 					tickRange = 500,
+					priceRange,
+					initialPrice,
 					slippageTolerance,
 					recipient,
 					hookAddress,
@@ -601,19 +971,9 @@ export const uniswapRouter = router({
 					} satisfies MintPositionResponse;
 				}
 
-				// Determine WETH address for this chain
-				const wethAddress = WETH_ADDRESSES[tokenA.chainId];
-
-				// Normalize token addresses (convert native to WETH)
-				const token0Address =
-					tokenA.address === "0x0000000000000000000000000000000000000000"
-						? wethAddress
-						: (tokenA.address as Address);
-
-				const token1Address =
-					tokenB.address === "0x0000000000000000000000000000000000000000"
-						? wethAddress
-						: (tokenB.address as Address);
+				// V4 pools hold native currency as address(0), a WETH pair is a separate pool
+				const token0Address = tokenA.address as Address;
+				const token1Address = tokenB.address as Address;
 
 				// Ensure token ordering (token0 < token1)
 				const needsSort =
@@ -657,10 +1017,7 @@ export const uniswapRouter = router({
 				const tickSpacing = getTickSpacing(feeTier);
 
 				// Create viem client for fetching pool state
-				const publicClient = createPublicClient({
-					chain: chainConfig.chain,
-					transport: http(chainConfig.rpcUrl),
-				});
+				const publicClient = getPublicClient(tokenA.chainId);
 
 				// Calculate pool ID
 				const poolId = calculatePoolId(
@@ -688,10 +1045,29 @@ export const uniswapRouter = router({
 				]);
 
 				// Extract pool state data
-				const sqrtPriceX96Current = slot0[0] as bigint;
-				const currentTick = slot0[1] as number;
+				let sqrtPriceX96Current = slot0[0] as bigint;
+				let currentTick = slot0[1] as number;
 				const currentLiquidity = liquidity as bigint;
 
+				// An uninitialized pool has no price, it is created at the caller's starting price
+				const initialized = sqrtPriceX96Current !== 0n;
+				if (!initialized) {
+					if (!initialPrice) {
+						return {
+							success: false,
+							message:
+								"Pool does not exist yet. Enter a starting price to create it.",
+						} satisfies MintPositionResponse;
+					}
+
+					sqrtPriceX96Current = priceToSqrtPriceX96(
+						token0IsA ? initialPrice : 1 / initialPrice,
+						sortedToken0.decimals,
+						sortedToken1.decimals,
+					);
+					currentTick = getTickAtSqrtPrice(sqrtPriceX96Current);
+				}
+
 				// Calculate tick boundaries
 				let tickLower: number;
 				let tickUpper: number;
@@ -701,18 +1077,25 @@ export const uniswapRouter = router({
 					const MAX_TICK = 887272;
 					tickLower = nearestUsableTick(MIN_TICK, tickSpacing);
 					tickUpper = nearestUsableTick(MAX_TICK, tickSpacing);
+				} else if (priceRange) {
+					// Re-express the tokenA/tokenB prices as token0/token1 prices
+					const [minPrice0, maxPrice0] = token0IsA
+						? [priceRange.minPrice, priceRange.maxPrice]
+						: [1 / priceRange.maxPrice, 1 / priceRange.minPrice];
+					({ tickLower, tickUpper } = priceRangeToTicks(
+						minPrice0,
+						maxPrice0,
+						sortedToken0.decimals,
+						sortedToken1.decimals,
+						tickSpacing,
+					));
 				} else {
 					tickLower = nearestUsableTick(currentTick - tickRange, tickSpacing);
 					tickUpper = nearestUsableTick(currentTick + tickRange, tickSpacing);
 				}
 
-				// Convert amounts to token units
-				const amountADesired = BigInt(
-					Math.floor(amountA * 10 ** tokenA.decimals),
-				);
-				const amountBDesired = BigInt(
-					Math.floor(amountB * 10 ** tokenB.decimals),
-				);
+				const amountADesired = BigInt(amountA);
+				const amountBDesired = BigInt(amountB);
 
 				const amount0Desired = token0IsA ? amountADesired : amountBDesired;
 				const amount1Desired = token0IsA ? amountBDesired : amountADesired;
@@ -727,13 +1110,15 @@ export const uniswapRouter = router({
 						currentTick,
 						currentLiquidity: currentLiquidity.toString(),
 						poolId,
+						initialized,
 					},
 					poolKey: {
 						token0: sortedToken0,
 						token1: sortedToken1,
 						fee: feeTier,
 						tickSpacing,
-						hookAddress: hookAddress ?? "0x0000000000000000000000000000000000000000",
+						hookAddress:
+							hookAddress ?? "0x0000000000000000000000000000000000000000",
 					},
 					positionParams: {
 						tickLower,
@@ -751,8 +1136,307 @@ export const uniswapRouter = router({
 				console.error("Error preparing mint position:", error);
 				return {
 					success: false,
-					message: `Error preparing position mint: ${error instanceof Error ? error.message : "Unknown error"}`,
+					message: `Error preparing position mint: ${describeError(error)}`,
 				} satisfies MintPositionResponse;
 			}
 		}),
+
+	increaseLiquidity: publicProcedure
+		.input(
+			z
+				.object({
+					chainId: z.number(),
+					tokenId: z
+						.string()
+						.regex(/^\d+$/, "Token ID must be a numeric string"),
+					owner: z
+						.string()
+						.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address"),
+					// Amounts in the tokens' base units
+					amount0: z
+						.string()
+						.regex(
+							BASE_UNIT_PATTERN,
+							"Amount must be an integer in base units",
+						),
+					amount1: z
+						.string()
+						.regex(
+							BASE_UNIT_PATTERN,
+							"Amount must be an integer in base units",
+						),
+				})
+				.refine(
+					(input) => BigInt(input.amount0) > 0n || BigInt(input.amount1) > 0n,
+					{
+						message: "At least one amount must be greater than zero",
+					},
+				),
+		)
+		.mutation(async ({ input }) => {
+			try {
+				const { chainId, tokenId, amount0, amount1 } = input;
+				const owner = input.owner as Address;
+
+				const chainContracts = CONTRACTS[chainId];
+				if (!chainContracts) {
+					throw new Error(`Unsupported chain ID: ${chainId}`);
+				}
+
+				// The existing position fixes the pool key and tick range
+				const position = await fetchOnchainPosition(
+					chainId,
+					"PROTOCOL_VERSION_V4",
+					BigInt(tokenId),
+					owner,
+				);
+				if (!position) {
+					return {
+						success: false,
+						message: `Position ${tokenId} not found or not owned by ${owner}`,
+					} satisfies IncreaseLiquidityResponse;
+				}
+
+				const amount0Desired = BigInt(amount0);
+				const amount1Desired = BigInt(amount1);
+
+				return {
+					success: true,
+					message: "Liquidity increase prepared successfully",
+					poolState: {
+						sqrtPriceX96: position.sqrtPriceX96,
+						currentTick: position.currentTick,
+						currentLiquidity: position.currentLiquidity,
+						poolId: position.poolId,
+					},
+					poolKey: {
+						token0: toTokenInfo(position.token0),
+						token1: toTokenInfo(position.token1),
+						fee: position.feeTier,
+						tickSpacing: position.tickSpacing,
+						hookAddress: position.hooks[0] ?? ZERO_ADDRESS,
+					},
+					positionParams: {
+						tokenId,
+						tickLower: position.tickLower,
+						tickUpper: position.tickUpper,
+						liquidity: position.liquidity,
+						amount0: amount0Desired.toString(),
+						amount1: amount1Desired.toString(),
+					},
+					contractAddresses: {
+						positionManager: chainContracts.POSITION_MANAGER,
+						permit2: chainContracts.PERMIT2,
+					},
+				} satisfies IncreaseLiquidityResponse;
+			} catch (error) {
+				console.error("Error preparing liquidity increase:", error);
+				return {
+					success: false,
+					message: `Error preparing liquidity increase: ${describeError(error)}`,
+				} satisfies IncreaseLiquidityResponse;
+			}
+		}),
+
+	decreaseLiquidity: publicProcedure
+		.input(
+			z.object({
+				chainId: z.number(),
+				tokenId: z.string().regex(/^\d+$/, "Token ID must be a numeric string"),
+				owner: z
+					.string()
+					.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address"),
+				liquidityPercentage: z.number().int().min(1).max(100),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			try {
+				const { chainId, tokenId, liquidityPercentage } = input;
+				const owner = input.owner as Address;
+
+				const chainContracts = CONTRACTS[chainId];
+				if (!chainContracts) {
+					throw new Error(`Unsupported chain ID: ${chainId}`);
+				}
+
+				const position = await fetchOnchainPosition(
+					chainId,
+					"PROTOCOL_VERSION_V4",
+					BigInt(tokenId),
+					owner,
+				);
+				if (!position) {
+					return {
+						success: false,
+						message: `Position ${tokenId} not found or not owned by ${owner}`,
+					} satisfies DecreaseLiquidityResponse;
+				}
+
+				const liquidity = BigInt(position.liquidity);
+				if (liquidity === 0n) {
+					return {
+						success: false,
+						message: `Position ${tokenId} has no liquidity to remove`,
+					} satisfies DecreaseLiquidityResponse;
+				}
+
+				const liquidityToRemove =
+					(liquidity * BigInt(liquidityPercentage)) / 100n;
+				const expected = getAmountsForLiquidity(
+					BigInt(position.sqrtPriceX96),
+					position.tickLower,
+					position.tickUpper,
+					liquidityToRemove,
+				);
+				const burnToken = liquidityPercentage === 100;
+
+				return {
+					success: true,
+					message: burnToken
+						? "Position close prepared successfully"
+						: "Liquidity decrease prepared successfully",
+					poolState: {
+						sqrtPriceX96: position.sqrtPriceX96,
+						currentTick: position.currentTick,
+						currentLiquidity: position.currentLiquidity,
+						poolId: position.poolId,
+					},
+					poolKey: {
+						token0: toTokenInfo(position.token0),
+						token1: toTokenInfo(position.token1),
+						fee: position.feeTier,
+						tickSpacing: position.tickSpacing,
+						hookAddress: position.hooks[0] ?? ZERO_ADDRESS,
+					},
+					positionParams: {
+						tokenId,
+						tickLower: position.tickLower,
+						tickUpper: position.tickUpper,
+						liquidity: position.liquidity,
+						liquidityPercentage,
+						liquidityToRemove: liquidityToRemove.toString(),
+						expectedAmount0: expected.amount0.toString(),
+						expectedAmount1: expected.amount1.toString(),
+						feesAmount0: position.token0UncollectedFees,
+						feesAmount1: position.token1UncollectedFees,
+						burnToken,
+					},
+					contractAddresses: {
+						positionManager: chainContracts.POSITION_MANAGER,
+					},
+				} satisfies DecreaseLiquidityResponse;
+			} catch (error) {
+				console.error("Error preparing liquidity decrease:", error);
+				return {
+					success: false,
+					message: `Error preparing liquidity decrease: ${describeError(error)}`,
+				} satisfies DecreaseLiquidityResponse;
+			}
+		}),
+
+	collectFees: publicProcedure
+		.input(
+			z.object({
+				chainId: z.number(),
+				owner: z
+					.string()
+					.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address"),
+				positions: z
+					.array(
+						z.object({
+							tokenId: z
+								.string()
+								.regex(/^\d+$/, "Token ID must be a numeric string"),
+							protocolVersion: z.enum([
+								"PROTOCOL_VERSION_V3",
+								"PROTOCOL_VERSION_V4",
+							]),
+						}),
+					)
+					.min(1)
+					.max(50),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			try {
+				const { chainId } = input;
+				const owner = input.owner as Address;
+
+				if (!CHAIN_CONFIGS[chainId]) {
+					throw new Error(`Unsupported chain ID: ${chainId}`);
+				}
+
+				// Re-read every position so fees and ownership reflect current chain state;
+				// a failed read skips that position instead of the whole request
+				const results = await Promise.allSettled(
+					input.positions.map(({ tokenId, protocolVersion }) =>
+						fetchOnchainPosition(
+							chainId,
+							protocolVersion,
+							BigInt(tokenId),
+							owner,
+						),
+					),
+				);
+
+				const collectable: CollectFeesPosition[] = [];
+				const skipped: string[] = [];
+
+				results.forEach((result, i) => {
+					if (result.status === "rejected") {
+						console.error(
+							`Error reading position ${input.positions[i].tokenId}:`,
+							result.reason,
+						);
+						skipped.push(input.positions[i].tokenId);
+						return;
+					}
+					const position = result.value;
+					if (
+						!position ||
+						(BigInt(position.token0UncollectedFees) === 0n &&
+							BigInt(position.token1UncollectedFees) === 0n)
+					) {
+						skipped.push(input.positions[i].tokenId);
+						return;
+					}
+					collectable.push({
+						tokenId: position.tokenId,
+						protocolVersion: position.protocolVersion,
+						token0: position.token0,
+						token1: position.token1,
+						fees: {
+							amount0: position.token0UncollectedFees,
+							amount1: position.token1UncollectedFees,
+						},
+					});
+				});
+
+				if (collectable.length === 0) {
+					return {
+						success: false,
+						message: "No fees to collect for the selected positions",
+					} satisfies CollectFeesResponse;
+				}
+
+				return {
+					success: true,
+					message: `Prepared fee collection for ${collectable.length} position${collectable.length === 1 ? "" : "s"}`,
+					chainId,
+					positions: collectable,
+					skipped,
+					contractAddresses: {
+						positionManager: CONTRACTS[chainId]?.POSITION_MANAGER ?? null,
+						nonfungiblePositionManager:
+							V3_CONTRACTS[chainId]?.NONFUNGIBLE_POSITION_MANAGER ?? null,
+					},
+				} satisfies CollectFeesResponse;
+			} catch (error) {
+				console.error("Error preparing fee collection:", error);
+				return {
+					success: false,
+					message: `Error preparing fee collection: ${describeError(error)}`,
+				} satisfies CollectFeesResponse;
+			}
+		}),
 });
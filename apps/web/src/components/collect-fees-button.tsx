@@ -0,0 +1,95 @@
+import { Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAccount } from "wagmi";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useCollectFees } from "@/hooks/use-collect-fees";
+
+interface CollectFeesButtonProps {
+	chainId: number;
+	positions: Array<{
+		tokenId: string;
+		protocolVersion: "PROTOCOL_VERSION_V3" | "PROTOCOL_VERSION_V4";
+	}>;
+	label: string;
+	// Shows the unwrap toggle when the fees include the chain's wrapped native token
+	nativeSymbol?: string;
+	onSuccess?: () => void;
+}
+
+export function CollectFeesButton({
+	chainId,
+	positions,
+	label,
+	nativeSymbol,
+	onSuccess,
+}: CollectFeesButtonProps) {
+	const { address } = useAccount();
+	const [receiveNative, setReceiveNative] = useState(true);
+
+	const { execute, status, error, isReady, isExecuting, reset } =
+		useCollectFees({
+			chainId,
+			positions,
+			receiveNative: !!nativeSymbol && receiveNative,
+			owner: address,
+		});
+
+	useEffect(() => {
+		if (status === "success") {
+			toast.success("Fees collected successfully");
+			reset();
+			onSuccess?.();
+		} else if (status === "error") {
+			toast.error(error || "Transaction failed. Please try again.");
+			// Reset status to idle after showing error so user can retry
+			setTimeout(() => reset(), 3000);
+		}
+	}, [status, error, reset, onSuccess]);
+
+	const toggleId = `receive-native-${chainId}-${positions.map((p) => p.tokenId).join("-")}`;
+
+	const getButtonText = () => {
+		switch (status) {
+			case "preparing":
+				return "Preparing...";
+			case "switching-chain":
+				return "Switching network...";
+			case "executing":
+				return "Confirm in wallet...";
+			case "confirming":
+				return "Confirming...";
+			default:
+				return label;
+		}
+	};
+
+	return (
+		<div className="flex items-center gap-3">
+			{nativeSymbol && (
+				<div className="flex items-center gap-2">
+					<Checkbox
+						id={toggleId}
+						checked={receiveNative}
+						onCheckedChange={(checked) => setReceiveNative(checked === true)}
+						disabled={isExecuting}
+					/>
+					<Label htmlFor={toggleId} className="text-xs">
+						Receive as {nativeSymbol}
+					</Label>
+				</div>
+			)}
+			<Button
+				size="sm"
+				variant="outline"
+				onClick={execute}
+				disabled={!isReady || isExecuting}
+			>
+				{isExecuting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+				{getButtonText()}
+			</Button>
+		</div>
+	);
+}
@@ -0,0 +1,157 @@
+import { formatAmount } from "@my-better-t-app/shared/amounts";
+import { Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAccount } from "wagmi";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useDecreaseLiquidity } from "@/hooks/use-decrease-liquidity";
+
+const PERCENTAGE_PRESETS = [25, 50, 75, 100];
+
+interface PanelToken {
+	symbol: string;
+	decimals: number;
+}
+
+interface DecreaseLiquidityPanelProps {
+	chainId: number;
+	tokenId: string;
+	token0: PanelToken;
+	token1: PanelToken;
+	amount0: string;
+	amount1: string;
+	onSuccess?: () => void;
+}
+
+export function DecreaseLiquidityPanel({
+	chainId,
+	tokenId,
+	token0,
+	token1,
+	amount0,
+	amount1,
+	onSuccess,
+}: DecreaseLiquidityPanelProps) {
+	const { address } = useAccount();
+	const [liquidityPercentage, setLiquidityPercentage] = useState(50);
+	const [slippageTolerance, setSlippageTolerance] = useState("0.5");
+
+	const { execute, status, error, isReady, isExecuting, reset } =
+		useDecreaseLiquidity({
+			chainId,
+			tokenId,
+			liquidityPercentage,
+			slippageTolerance: Number.parseFloat(slippageTolerance) || 0.5,
+			owner: address,
+		});
+
+	const isClosing = liquidityPercentage === 100;
+
+	useEffect(() => {
+		if (status === "success") {
+			toast.success(
+				isClosing ? "Position closed" : "Liquidity removed successfully",
+			);
+			reset();
+			onSuccess?.();
+		} else if (status === "error") {
+			toast.error(error || "Transaction failed. Please try again.");
+			// Reset status to idle after showing error so user can retry
+			setTimeout(() => reset(), 3000);
+		}
+	}, [status, error, isClosing, reset, onSuccess]);
+
+	const formatShare = (amount: string, decimals: number) => {
+		const share = (BigInt(amount) * BigInt(liquidityPercentage)) / 100n;
+		return formatAmount(share, decimals, { maxDecimals: 6 });
+	};
+
+	const getButtonText = () => {
+		switch (status) {
+			case "preparing":
+				return "Preparing...";
+			case "switching-chain":
+				return "Switching network...";
+			case "executing":
+				return "Confirm in wallet...";
+			case "confirming":
+				return "Confirming...";
+			default:
+				return isClosing ? "Close Position" : "Remove Liquidity";
+		}
+	};
+
+	return (
+		<div className="space-y-3 border-t pt-3">
+			<div className="space-y-2">
+				<Label>Amount to remove: {liquidityPercentage}%</Label>
+				<input
+					type="range"
+					min={1}
+					max={100}
+					value={liquidityPercentage}
+					onChange={(e) => setLiquidityPercentage(Number(e.target.value))}
+					disabled={isExecuting}
+					className="w-full"
+				/>
+				<div className="flex gap-2">
+					{PERCENTAGE_PRESETS.map((preset) => (
+						<Button
+							key={preset}
+							variant={liquidityPercentage === preset ? "default" : "outline"}
+							size="sm"
+							onClick={() => setLiquidityPercentage(preset)}
+							disabled={isExecuting}
+						>
+							{preset === 100 ? "Max" : `${preset}%`}
+						</Button>
+					))}
+				</div>
+			</div>
+
+			<div className="grid grid-cols-2 gap-4 text-sm">
+				<div>
+					<span className="text-muted-foreground">{token0.symbol}</span>
+					<p className="font-mono">{formatShare(amount0, token0.decimals)}</p>
+				</div>
+				<div>
+					<span className="text-muted-foreground">{token1.symbol}</span>
+					<p className="font-mono">{formatShare(amount1, token1.decimals)}</p>
+				</div>
+			</div>
+			<p className="text-muted-foreground text-xs">
+				Uncollected fees are withdrawn along with the liquidity.
+				{isClosing && " The position NFT will be burned."}
+			</p>
+
+			<div className="space-y-2">
+				<Label htmlFor={`slippage-${chainId}-${tokenId}`}>
+					Slippage Tolerance (%)
+				</Label>
+				<Input
+					id={`slippage-${chainId}-${tokenId}`}
+					type="number"
+					step="0.1"
+					min="0.1"
+					max="50"
+					placeholder="0.5"
+					value={slippageTolerance}
+					onChange={(e) => setSlippageTolerance(e.target.value)}
+					disabled={isExecuting}
+				/>
+			</div>
+
+			<Button
+				className="w-full"
+				variant={isClosing ? "destructive" : "default"}
+				onClick={execute}
+				disabled={!isReady || isExecuting}
+			>
+				{isExecuting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+				{getButtonText()}
+			</Button>
+		</div>
+	);
+}
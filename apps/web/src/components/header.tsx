@@ -5,6 +5,9 @@ export default function Header() {
 	const links = [
 		{ to: "/", label: "Home" },
 		{ to: "/positions", label: "Positions" },
+		{ to: "/swap", label: "Swap" },
+		{ to: "/activity", label: "Activity" },
+		{ to: "/alerts", label: "Alerts" },
 		{ to: "/token-selector-demo", label: "TokenSelector Demo" },
 	] as const;
 
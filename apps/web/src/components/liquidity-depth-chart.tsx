@@ -0,0 +1,282 @@
+import { useQuery } from "@tanstack/react-query";
+import { Minus, Plus } from "lucide-react";
+import { type PointerEvent, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { Token } from "@/types/token";
+import { formatPrice, priceToTick, tickToPrice } from "@/utils/price-range";
+import { trpc } from "@/utils/trpc";
+
+interface LiquidityDepthChartProps {
+	tokenA: Token;
+	tokenB: Token;
+	feeTier: number;
+	// Prices are tokenB per tokenA unless inverted, matching the range inputs
+	inverted: boolean;
+	minPrice: number | null;
+	maxPrice: number | null;
+	onRangeChange: (minPrice: string, maxPrice: string) => void;
+}
+
+const WIDTH = 400;
+const HEIGHT = 160;
+const TICK_WINDOW = 10_000;
+
+type Handle = "min" | "max";
+
+/**
+ * Histogram of the pool's active liquidity by price, with draggable handles
+ * for the min and max of the selected range
+ */
+export function LiquidityDepthChart({
+	tokenA,
+	tokenB,
+	feeTier,
+	inverted,
+	minPrice,
+	maxPrice,
+	onRangeChange,
+}: LiquidityDepthChartProps) {
+	const svgRef = useRef<SVGSVGElement>(null);
+	const [dragging, setDragging] = useState<Handle | null>(null);
+	// Ticks shown on each side of the current price
+	const [halfWidth, setHalfWidth] = useState(2_000);
+
+	const [baseToken, quoteToken] = inverted
+		? [tokenB, tokenA]
+		: [tokenA, tokenB];
+
+	const { data, isLoading } = useQuery({
+		...trpc.uniswap.getLiquidityDistribution.queryOptions({
+			chainId: Number.parseInt(tokenA.chainId, 10),
+			tokenA: tokenA.address,
+			tokenB: tokenB.address,
+			feeTier,
+			tickWindow: TICK_WINDOW,
+		}),
+		staleTime: 30_000,
+	});
+	const distribution = data?.success ? data.distribution : null;
+
+	// The chart runs in "display ticks", where the price of the base token in the
+	// quote token rises left to right: pool ticks, negated when the base is token1
+	const baseIsToken0 = useMemo(() => {
+		if (!distribution) return true;
+		return quoteToken.isNative
+			? baseToken.address.toLowerCase() === distribution.token0.toLowerCase()
+			: quoteToken.address.toLowerCase() === distribution.token1.toLowerCase();
+	}, [distribution, baseToken, quoteToken]);
+
+	const chart = useMemo(() => {
+		if (!distribution) return null;
+
+		const sign = baseIsToken0 ? 1 : -1;
+		const current = distribution.currentTick * sign;
+		const domain = { lower: current - halfWidth, upper: current + halfWidth };
+
+		const bars = distribution.bars
+			.map((bar) => {
+				const [lower, upper] = [
+					bar.tickLower * sign,
+					bar.tickUpper * sign,
+				].sort((a, b) => a - b);
+				return {
+					lower: Math.max(lower, domain.lower),
+					upper: Math.min(upper, domain.upper),
+					liquidity: Number(bar.liquidity),
+				};
+			})
+			.filter((bar) => bar.upper > bar.lower);
+		const maxLiquidity = Math.max(...bars.map((bar) => bar.liquidity), 0);
+
+		return { current, domain, bars, maxLiquidity };
+	}, [distribution, baseIsToken0, halfWidth]);
+
+	if (isLoading) {
+		return (
+			<div className="flex h-40 items-center justify-center rounded-md border text-muted-foreground text-sm">
+				Loading liquidity...
+			</div>
+		);
+	}
+
+	if (!chart || !distribution) {
+		return (
+			<div className="flex h-40 items-center justify-center rounded-md border text-muted-foreground text-sm">
+				{data && !data.success ? data.message : "No liquidity data"}
+			</div>
+		);
+	}
+
+	const { domain } = chart;
+	const toX = (tick: number) =>
+		((tick - domain.lower) / (domain.upper - domain.lower)) * WIDTH;
+	const priceAt = (tick: number) =>
+		tickToPrice(tick, baseToken.decimals, quoteToken.decimals);
+	const tickAt = (price: number) =>
+		priceToTick(price, baseToken.decimals, quoteToken.decimals);
+
+	const minTick = minPrice ? tickAt(minPrice) : null;
+	const maxTick = maxPrice ? tickAt(maxPrice) : null;
+
+	const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+		if (!dragging || !svgRef.current) return;
+
+		const rect = svgRef.current.getBoundingClientRect();
+		const ratio = Math.min(
+			Math.max((event.clientX - rect.left) / rect.width, 0),
+			1,
+		);
+		const spacing = distribution.tickSpacing;
+		// Snap to usable ticks so the handles land where the position will
+		const tick =
+			Math.round(
+				(domain.lower + ratio * (domain.upper - domain.lower)) / spacing,
+			) * spacing;
+
+		if (dragging === "min") {
+			const upper = maxTick ?? domain.upper;
+			onRangeChange(
+				formatPrice(priceAt(Math.min(tick, upper - spacing))),
+				formatPrice(priceAt(upper)),
+			);
+		} else {
+			const lower = minTick ?? domain.lower;
+			onRangeChange(
+				formatPrice(priceAt(lower)),
+				formatPrice(priceAt(Math.max(tick, lower + spacing))),
+			);
+		}
+	};
+
+	const startDrag = (handle: Handle) => (event: PointerEvent<SVGElement>) => {
+		svgRef.current?.setPointerCapture(event.pointerId);
+		setDragging(handle);
+	};
+
+	const stopDrag = (event: PointerEvent<SVGSVGElement>) => {
+		svgRef.current?.releasePointerCapture(event.pointerId);
+		setDragging(null);
+	};
+
+	const renderHandle = (handle: Handle, tick: number | null) => {
+		if (tick === null) return null;
+		const x = Math.min(Math.max(toX(tick), 0), WIDTH);
+		return (
+			<g
+				className="cursor-ew-resize"
+				onPointerDown={startDrag(handle)}
+				aria-label={handle === "min" ? "Min price handle" : "Max price handle"}
+			>
+				<rect x={x - 6} y={0} width={12} height={HEIGHT} fill="transparent" />
+				<line
+					x1={x}
+					x2={x}
+					y1={0}
+					y2={HEIGHT}
+					className="stroke-primary"
+					strokeWidth={2}
+					vectorEffect="non-scaling-stroke"
+				/>
+				<rect
+					x={x - 3}
+					y={HEIGHT / 2 - 12}
+					width={6}
+					height={24}
+					rx={2}
+					className="fill-primary"
+				/>
+			</g>
+		);
+	};
+
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center justify-between text-muted-foreground text-xs">
+				<span>
+					Liquidity ({quoteToken.symbol} per {baseToken.symbol})
+				</span>
+				<div className="flex gap-1">
+					<Button
+						variant="ghost"
+						size="sm"
+						className="h-6 w-6 p-0"
+						aria-label="Zoom in"
+						onClick={() =>
+							setHalfWidth((width) =>
+								Math.max(width / 2, distribution.tickSpacing * 20),
+							)
+						}
+					>
+						<Plus className="h-3 w-3" />
+					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						className="h-6 w-6 p-0"
+						aria-label="Zoom out"
+						onClick={() =>
+							setHalfWidth((width) => Math.min(width * 2, TICK_WINDOW))
+						}
+					>
+						<Minus className="h-3 w-3" />
+					</Button>
+				</div>
+			</div>
+			<svg
+				ref={svgRef}
+				viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+				preserveAspectRatio="none"
+				className="h-40 w-full touch-none select-none rounded-md border"
+				onPointerMove={handlePointerMove}
+				onPointerUp={stopDrag}
+				onPointerCancel={stopDrag}
+			>
+				<title>Liquidity distribution</title>
+				{minTick !== null && maxTick !== null && (
+					<rect
+						x={Math.max(toX(minTick), 0)}
+						y={0}
+						width={Math.max(
+							Math.min(toX(maxTick), WIDTH) - Math.max(toX(minTick), 0),
+							0,
+						)}
+						height={HEIGHT}
+						className="fill-primary/10"
+					/>
+				)}
+				{chart.bars.map((bar) => {
+					const height =
+						chart.maxLiquidity > 0
+							? (bar.liquidity / chart.maxLiquidity) * (HEIGHT - 10)
+							: 0;
+					return (
+						<rect
+							key={bar.lower}
+							x={toX(bar.lower)}
+							y={HEIGHT - height}
+							width={toX(bar.upper) - toX(bar.lower)}
+							height={height}
+							className="fill-muted-foreground/40"
+						/>
+					);
+				})}
+				<line
+					x1={toX(chart.current)}
+					x2={toX(chart.current)}
+					y1={0}
+					y2={HEIGHT}
+					className="stroke-foreground"
+					strokeDasharray="4 4"
+					vectorEffect="non-scaling-stroke"
+				/>
+				{renderHandle("min", minTick)}
+				{renderHandle("max", maxTick)}
+			</svg>
+			<div className="flex justify-between text-muted-foreground text-xs">
+				<span>{formatPrice(priceAt(domain.lower))}</span>
+				<span>Current: {formatPrice(priceAt(chart.current))}</span>
+				<span>{formatPrice(priceAt(domain.upper))}</span>
+			</div>
+		</div>
+	);
+}
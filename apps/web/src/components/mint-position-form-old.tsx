@@ -123,7 +123,7 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 					tokenA: uniswapTokenA,
 					tokenB: uniswapTokenB,
 					feeTier,
-					inputAmount: Number.parseFloat(inputAmount),
+					inputAmount,
 					isTokenAInput,
 					fullRange,
 					tickRange: Number.parseInt(tickRange) || 500,
@@ -1,35 +1,124 @@
 import {
 	AlertCircle,
 	ArrowRight,
+	ArrowUpDown,
 	Calculator,
 	ChevronDown,
 	Plus,
 	Settings,
+	Zap,
 } from "lucide-react";
-import { useCallback, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { toast } from "sonner";
+import { type Address, zeroAddress } from "viem";
 import { useAccount, useChainId } from "wagmi";
+import { formatAmount } from "@my-better-t-app/shared/amounts";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { LiquidityDepthChart } from "@/components/liquidity-depth-chart";
+import { MintPreviewCard } from "@/components/mint-preview-card";
+import { RangeBacktest } from "@/components/range-backtest";
 import { TokenSelectorV2 } from "@/components/token-selector-v2";
+import {
+	type IncreaseTarget,
+	useIncreaseLiquidity,
+} from "@/hooks/use-increase-liquidity";
 import { useMintPosition } from "@/hooks/use-mint-position";
 import { useTokenManagement } from "@/hooks/use-token-management";
-import { toUniswapToken, isSupportedChain, getChainInfo } from "@/lib/tokens/multichain-tokens";
+import {
+	getChainInfo,
+	getNativeToken,
+	getWrappedToken,
+	isSupportedChain,
+	toUniswapToken,
+} from "@/lib/tokens/multichain-tokens";
 import type { Token } from "@/types/token";
 import {
 	calculateDependentAmount,
+	calculateDependentAmountForRange,
 	getCurrentPriceRatio,
+	getRangeDepositTokens,
 } from "@/utils/amount-calculator";
+import {
+	formatPrice,
+	getPresetRange,
+	getTickSpacing,
+	invertPriceRange,
+	isValidPriceRange,
+	priceRangeToTicks,
+	RANGE_PRESETS,
+	type RangePreset,
+} from "@/utils/price-range";
+import { trpc } from "@/utils/trpc";
+import { buildV4Pool } from "@/utils/v4-position";
+import { planZap, type ZapPlan } from "@/utils/zap";
+
+/**
+ * Existing V4 position to add liquidity to, as returned by getPositionDetails
+ */
+export interface IncreasePositionData extends IncreaseTarget {
+	token0: IncreaseTarget["token0"] & { name: string; isNative?: boolean };
+	token1: IncreaseTarget["token1"] & { name: string; isNative?: boolean };
+	feeTier: number;
+	tickSpacing: number;
+	tickLower: number;
+	tickUpper: number;
+	currentTick: number;
+	sqrtPriceX96: string;
+	currentLiquidity: string;
+	hooks: string[];
+}
 
 interface MintPositionFormProps {
 	onSuccess?: () => void;
+	// When set, the form adds liquidity to this position instead of minting a new one
+	increasePosition?: IncreasePositionData;
+}
+
+function toFormToken(
+	token: IncreasePositionData["token0"],
+	chainId: number,
+): Token {
+	return {
+		address: token.address,
+		symbol: token.symbol,
+		name: token.name,
+		decimals: token.decimals,
+		chainId: chainId.toString(),
+		isNative: token.isNative,
+	};
 }
 
-export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
+// Fraction digits shown in the zap preview
+const ZAP_DISPLAY_DECIMALS = 6;
+
+function formatZapAmount(amount: bigint, decimals: number): string {
+	return formatAmount(amount, decimals, { maxDecimals: ZAP_DISPLAY_DECIMALS });
+}
+
+// Native currency and its wrapped token pair into separate V4 pools; the other
+// one of the two, or null for any other token
+function toNativeVariant(token: Token): Token | null {
+	const chainId = Number.parseInt(token.chainId);
+	if (!isSupportedChain(chainId)) return null;
+	const wrapped = getWrappedToken(chainId);
+	if (token.isNative) return wrapped ?? null;
+	if (wrapped?.address.toLowerCase() === token.address.toLowerCase()) {
+		return getNativeToken(chainId) ?? null;
+	}
+	return null;
+}
+
+export function MintPositionForm({
+	onSuccess,
+	increasePosition,
+}: MintPositionFormProps) {
+	const isIncrease = !!increasePosition;
 	const { address } = useAccount();
 	const wagmiChainId = useChainId();
 	const chainId = isSupportedChain(wagmiChainId) ? wagmiChainId : null;
@@ -45,15 +134,30 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 	} = useTokenManagement();
 
 	// Form state
-	const [tokenA, setTokenA] = useState<Token | null>(null);
-	const [tokenB, setTokenB] = useState<Token | null>(null);
+	// In increase mode the pair is fixed to the position's token0/token1
+	const [tokenA, setTokenA] = useState<Token | null>(() =>
+		increasePosition
+			? toFormToken(increasePosition.token0, increasePosition.chainId)
+			: null,
+	);
+	const [tokenB, setTokenB] = useState<Token | null>(() =>
+		increasePosition
+			? toFormToken(increasePosition.token1, increasePosition.chainId)
+			: null,
+	);
 	const [showTokenASelector, setShowTokenASelector] = useState(false);
 	const [showTokenBSelector, setShowTokenBSelector] = useState(false);
 	const [amountA, setAmountA] = useState("");
 	const [amountB, setAmountB] = useState("");
-	const [feeTier, setFeeTier] = useState<number>(500); // 0.05%
+	const [feeTier, setFeeTier] = useState<number>(
+		increasePosition?.feeTier ?? 500, // 0.05%
+	);
 	const [fullRange, setFullRange] = useState(false);
-	const [tickRange, setTickRange] = useState("500"); // Default range
+	// Range inputs are shown as the price of the base token in the quote token,
+	// tokenA in tokenB unless inverted
+	const [minPriceInput, setMinPriceInput] = useState("");
+	const [maxPriceInput, setMaxPriceInput] = useState("");
+	const [priceInverted, setPriceInverted] = useState(false);
 	const [slippageTolerance, setSlippageTolerance] = useState("0.5");
 
 	// Auto-calculation state
@@ -61,29 +165,152 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 	const [autoCalculateEnabled, setAutoCalculateEnabled] = useState(true);
 	const [currentPrice, setCurrentPrice] = useState<number | null>(null);
 	const [lastInputField, setLastInputField] = useState<"A" | "B" | null>(null);
+	const [startingPriceInput, setStartingPriceInput] = useState("");
 
-	// Mint position hook
-	const {
-		execute: executeMint,
-		status: mintStatus,
-		error: mintError,
-		balanceError,
-		isReady,
-		isExecuting,
-		reset: resetMint,
-	} = useMintPosition({
-		tokenA,
-		tokenB,
+	// Zap mode: deposit a single token, part of it is swapped into the pair
+	const [zapMode, setZapMode] = useState(false);
+	const [zapToken, setZapToken] = useState<Token | null>(null);
+	const [zapAmount, setZapAmount] = useState("");
+	const [showZapTokenSelector, setShowZapTokenSelector] = useState(false);
+	const [zapPlan, setZapPlan] = useState<ZapPlan | null>(null);
+	const [isPlanningZap, setIsPlanningZap] = useState(false);
+	const [zapError, setZapError] = useState<string | null>(null);
+
+	// Pool and deposit requirements of the position being increased
+	const increasePool = useMemo(() => {
+		if (!increasePosition) return null;
+		return buildV4Pool(
+			{
+				token0: { ...increasePosition.token0, chainId: increasePosition.chainId },
+				token1: { ...increasePosition.token1, chainId: increasePosition.chainId },
+				fee: increasePosition.feeTier,
+				tickSpacing: increasePosition.tickSpacing,
+				hookAddress:
+					increasePosition.hooks[0] ?? "0x0000000000000000000000000000000000000000",
+			},
+			increasePosition,
+		);
+	}, [increasePosition]);
+
+	// Mints go into a V4 pool that may not exist yet, it is then created at a starting price
+	const { data: poolStateData } = useQuery({
+		...trpc.uniswap.getPoolState.queryOptions({
+			chainId: tokenA ? Number.parseInt(tokenA.chainId) : 1,
+			tokenA: tokenA?.address ?? zeroAddress,
+			tokenB: tokenB?.address ?? zeroAddress,
+			feeTier,
+		}),
+		enabled: !isIncrease && !!tokenA && !!tokenB,
+	});
+	// A pair with native currency has a second pool with its wrapped token instead
+	const variantPair = useMemo(() => {
+		if (isIncrease || !tokenA || !tokenB) return null;
+		const variantA = toNativeVariant(tokenA);
+		const variantB = toNativeVariant(tokenB);
+		if (variantA && !variantB) {
+			return { tokenA: variantA, tokenB, current: tokenA, variant: variantA };
+		}
+		if (variantB && !variantA) {
+			return { tokenA, tokenB: variantB, current: tokenB, variant: variantB };
+		}
+		// Neither side is native currency, or the pair is native against wrapped
+		return null;
+	}, [isIncrease, tokenA, tokenB]);
+	const { data: variantPoolStateData } = useQuery({
+		...trpc.uniswap.getPoolState.queryOptions({
+			chainId: tokenA ? Number.parseInt(tokenA.chainId) : 1,
+			tokenA: variantPair?.tokenA.address ?? zeroAddress,
+			tokenB: variantPair?.tokenB.address ?? zeroAddress,
+			feeTier,
+		}),
+		enabled: !!variantPair,
+	});
+	const variantPoolExists =
+		!!variantPair &&
+		variantPoolStateData?.success === true &&
+		variantPoolStateData.pool.initialized;
+
+	const needsPoolCreation =
+		!isIncrease &&
+		poolStateData?.success === true &&
+		!poolStateData.pool.initialized;
+	const initialPrice = needsPoolCreation
+		? Number.parseFloat(startingPriceInput) || null
+		: null;
+	// Price of tokenA in tokenB that the range and amounts are based on
+	const poolPrice = needsPoolCreation ? initialPrice : currentPrice;
+
+	// Price range of tokenA in tokenB, regardless of the displayed orientation
+	const priceRange = useMemo(() => {
+		const range = {
+			minPrice: Number.parseFloat(minPriceInput),
+			maxPrice: Number.parseFloat(maxPriceInput),
+		};
+		if (!isValidPriceRange(range)) return null;
+		return priceInverted ? invertPriceRange(range) : range;
+	}, [minPriceInput, maxPriceInput, priceInverted]);
+
+	// The range the position will actually cover once snapped to usable ticks
+	const snappedRange = useMemo(() => {
+		if (!priceRange || !tokenA || !tokenB) return null;
+		const { snapped } = priceRangeToTicks(
+			priceRange,
+			tokenA,
+			tokenB,
+			getTickSpacing(feeTier),
+		);
+		return priceInverted ? invertPriceRange(snapped) : snapped;
+	}, [priceRange, tokenA, tokenB, feeTier, priceInverted]);
+
+	const [baseToken, quoteToken] = priceInverted
+		? [tokenB, tokenA]
+		: [tokenA, tokenB];
+	const displayPrice =
+		poolPrice && (priceInverted ? 1 / poolPrice : poolPrice);
+
+	const depositTokens = increasePosition
+		? getRangeDepositTokens(
+				increasePosition.currentTick,
+				increasePosition.tickLower,
+				increasePosition.tickUpper,
+			)
+		: { needsToken0: true, needsToken1: true };
+
+	// Mint position hook (idle in increase mode)
+	const mint = useMintPosition({
+		tokenA: isIncrease ? null : tokenA,
+		tokenB: isIncrease ? null : tokenB,
 		amountA,
 		amountB,
 		feeTier,
 		fullRange,
-		tickRange: Number.parseInt(tickRange) || 500,
+		priceRange,
+		initialPrice,
 		slippageTolerance: Number.parseFloat(slippageTolerance) || 0.5,
 		owner: address,
 		chainId: tokenA ? Number.parseInt(tokenA.chainId) : 1,
+		zap: zapMode ? zapPlan : null,
+	});
+
+	// Increase liquidity hook (idle in mint mode), tokenA/amountA map to token0
+	const increase = useIncreaseLiquidity({
+		position: increasePosition ?? null,
+		amount0: amountA,
+		amount1: amountB,
+		slippageTolerance: Number.parseFloat(slippageTolerance) || 0.5,
+		owner: address,
 	});
 
+	const {
+		execute: executeMint,
+		status: mintStatus,
+		error: mintError,
+		balanceError,
+		isReady,
+		isExecuting,
+		reset: resetMint,
+	} = isIncrease ? increase : mint;
+
 	// Convert our Token interface to Uniswap Token
 	const convertToUniswapToken = useCallback((token: Token) => {
 		return toUniswapToken(token);
@@ -115,6 +342,26 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 				return;
 			}
 
+			if (increasePosition && increasePool) {
+				const result = calculateDependentAmountForRange({
+					pool: increasePool,
+					tickLower: increasePosition.tickLower,
+					tickUpper: increasePosition.tickUpper,
+					inputAmount,
+					isToken0Input: isTokenAInput,
+				});
+				if (result.isValid) {
+					if (isTokenAInput) {
+						setAmountB(result.amount1);
+					} else {
+						setAmountA(result.amount0);
+					}
+				} else if (result.error) {
+					console.warn("Amount calculation:", result.error);
+				}
+				return;
+			}
+
 			setIsCalculating(true);
 			try {
 				const uniswapTokenA = convertToUniswapToken(tokenA);
@@ -124,17 +371,18 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 					tokenA: uniswapTokenA,
 					tokenB: uniswapTokenB,
 					feeTier,
-					inputAmount: Number.parseFloat(inputAmount),
+					inputAmount,
 					isTokenAInput,
 					fullRange,
-					tickRange: Number.parseInt(tickRange) || 500,
+					priceRange: priceRange ?? undefined,
+					initialPrice: initialPrice ?? undefined,
 				});
 
 				if (result.isValid) {
 					if (isTokenAInput) {
-						setAmountB(result.amountB.toString());
+						setAmountB(result.amountB);
 					} else {
-						setAmountA(result.amountA.toString());
+						setAmountA(result.amountA);
 					}
 				} else if (result.error) {
 					console.warn("Amount calculation:", result.error);
@@ -151,8 +399,11 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 			tokenB,
 			feeTier,
 			fullRange,
-			tickRange,
+			priceRange,
+			initialPrice,
 			convertToUniswapToken,
+			increasePosition,
+			increasePool,
 		],
 	);
 
@@ -164,6 +415,12 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 				return;
 			}
 
+			// The position's own pool is already known, no need to look one up
+			if (increasePool) {
+				setCurrentPrice(Number(increasePool.token0Price.toSignificant(6)));
+				return;
+			}
+
 			try {
 				const uniswapTokenA = convertToUniswapToken(tokenA);
 				const uniswapTokenB = convertToUniswapToken(tokenB);
@@ -180,17 +437,157 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 		};
 
 		fetchPrice();
-	}, [tokenA, tokenB, feeTier, convertToUniswapToken]);
+	}, [tokenA, tokenB, feeTier, convertToUniswapToken, increasePool]);
+
+	// Start each new pair with a ±5% range around its current price
+	useEffect(() => {
+		if (isIncrease) return;
+		setPriceInverted(false);
+		setMinPriceInput("");
+		setMaxPriceInput("");
+		setStartingPriceInput("");
+		// Keep the previous pair's price from seeding the new range
+		setCurrentPrice(null);
+	}, [tokenA, tokenB, isIncrease]);
+
+	useEffect(() => {
+		if (!poolPrice || minPriceInput || maxPriceInput) return;
+		const range = getPresetRange(poolPrice, 5);
+		setMinPriceInput(formatPrice(range.minPrice));
+		setMaxPriceInput(formatPrice(range.maxPrice));
+	}, [poolPrice, minPriceInput, maxPriceInput]);
+
+	// Recalculate the dependent amount when the range changes
+	useEffect(() => {
+		if (lastInputField === "A" && amountA) {
+			calculateOtherAmount(amountA, true);
+		} else if (lastInputField === "B" && amountB) {
+			calculateOtherAmount(amountB, false);
+		}
+	}, [priceRange, fullRange, initialPrice]);
+
+	// Re-plan the zap's swaps once the inputs settle
+	useEffect(() => {
+		setZapPlan(null);
+		setZapError(null);
+		if (
+			!zapMode ||
+			!tokenA ||
+			!tokenB ||
+			!zapToken ||
+			!(Number.parseFloat(zapAmount) > 0) ||
+			(!fullRange && !priceRange)
+		) {
+			return;
+		}
+
+		let cancelled = false;
+		const timeout = setTimeout(async () => {
+			setIsPlanningZap(true);
+			try {
+				const plan = await planZap({
+					tokenA: convertToUniswapToken(tokenA),
+					tokenB: convertToUniswapToken(tokenB),
+					feeTier,
+					inputToken: {
+						address: zapToken.address as Address,
+						symbol: zapToken.symbol,
+						decimals: zapToken.decimals,
+					},
+					inputAmount: zapAmount,
+					fullRange,
+					priceRange: priceRange ?? undefined,
+					initialPrice: initialPrice ?? undefined,
+					slippageTolerance: Number.parseFloat(slippageTolerance) || 0.5,
+				});
+				if (!cancelled) setZapPlan(plan);
+			} catch (error) {
+				console.error("Error planning zap:", error);
+				if (!cancelled) {
+					setZapError(error instanceof Error ? error.message : "Unknown error");
+				}
+			} finally {
+				if (!cancelled) setIsPlanningZap(false);
+			}
+		}, 500);
+
+		return () => {
+			cancelled = true;
+			clearTimeout(timeout);
+			setIsPlanningZap(false);
+		};
+	}, [
+		zapMode,
+		tokenA,
+		tokenB,
+		zapToken,
+		zapAmount,
+		feeTier,
+		fullRange,
+		priceRange,
+		initialPrice,
+		slippageTolerance,
+		convertToUniswapToken,
+	]);
+
+	const handleZapModeChange = (enabled: boolean) => {
+		setZapMode(enabled);
+		// Start from the pair's first token, any other token can be picked
+		if (enabled && !zapToken) setZapToken(tokenA);
+	};
+
+	const handleZapTokenSelect = (token: Token) => {
+		setZapToken(token);
+		setShowZapTokenSelector(false);
+	};
+
+	const handlePresetSelect = (preset: RangePreset) => {
+		if (preset.percent === null) {
+			setFullRange(true);
+			return;
+		}
+		setFullRange(false);
+		if (!displayPrice) return;
+		const range = getPresetRange(displayPrice, preset.percent);
+		setMinPriceInput(formatPrice(range.minPrice));
+		setMaxPriceInput(formatPrice(range.maxPrice));
+	};
+
+	// Flip the displayed orientation, keeping the same underlying range
+	const handleInvertPrice = () => {
+		const range = {
+			minPrice: Number.parseFloat(minPriceInput),
+			maxPrice: Number.parseFloat(maxPriceInput),
+		};
+		if (isValidPriceRange(range)) {
+			const inverted = invertPriceRange(range);
+			setMinPriceInput(formatPrice(inverted.minPrice));
+			setMaxPriceInput(formatPrice(inverted.maxPrice));
+		}
+		setPriceInverted((inverted) => !inverted);
+	};
+
+	const rangeError =
+		!fullRange && (minPriceInput || maxPriceInput) && !priceRange
+			? "Min price must be positive and lower than max price"
+			: null;
 
 	// Handle mint success and errors
 	useEffect(() => {
 		if (mintStatus === "success") {
-			toast.success("Position minted successfully!");
+			toast.success(
+				isIncrease
+					? "Liquidity added successfully!"
+					: "Position minted successfully!",
+			);
 			// Reset form
-			setTokenA(null);
-			setTokenB(null);
+			if (!isIncrease) {
+				setTokenA(null);
+				setTokenB(null);
+			}
 			setAmountA("");
 			setAmountB("");
+			setZapAmount("");
 			resetMint();
 			onSuccess?.();
 		} else if (mintStatus === "error") {
@@ -200,7 +597,7 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 			// Reset status to idle after showing error so user can retry
 			setTimeout(() => resetMint(), 3000);
 		}
-	}, [mintStatus, mintError, resetMint, onSuccess]);
+	}, [mintStatus, mintError, resetMint, onSuccess, isIncrease]);
 
 	// Token selection handlers
 	const handleTokenASelect = useCallback((token: Token) => {
@@ -266,6 +663,13 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 		}
 	};
 
+	// Move the pair to the pool holding the other form of the native currency
+	const handleUseVariantPool = () => {
+		if (!variantPair) return;
+		setTokenA(variantPair.tokenA);
+		setTokenB(variantPair.tokenB);
+	};
+
 	const handleMintPosition = async () => {
 		if (!address) {
 			toast.error("Please connect your wallet");
@@ -277,17 +681,30 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 			return;
 		}
 
-		if (!amountA || !amountB) {
-			toast.error("Please enter amounts for both tokens");
-			return;
-		}
+		const amountANum = Number.parseFloat(amountA) || 0;
+		const amountBNum = Number.parseFloat(amountB) || 0;
 
-		const amountANum = Number.parseFloat(amountA);
-		const amountBNum = Number.parseFloat(amountB);
+		if (zapMode && !isIncrease) {
+			if (!zapPlan) {
+				toast.error(zapError || "Enter an amount to zap");
+				return;
+			}
+		} else if (isIncrease) {
+			// Out of range positions only take one of the tokens
+			if (amountANum <= 0 && amountBNum <= 0) {
+				toast.error("Please enter an amount to add");
+				return;
+			}
+		} else {
+			if (!amountA || !amountB) {
+				toast.error("Please enter amounts for both tokens");
+				return;
+			}
 
-		if (amountANum <= 0 || amountBNum <= 0) {
-			toast.error("Amounts must be greater than zero");
-			return;
+			if (amountANum <= 0 || amountBNum <= 0) {
+				toast.error("Amounts must be greater than zero");
+				return;
+			}
 		}
 
 		// Execute mint transaction via hook
@@ -305,12 +722,23 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 				return "Preparing transaction...";
 			case "checking-allowance":
 				return "Checking allowances...";
+			case "signing-permit":
+				return "Sign permit in wallet...";
+			case "simulating":
+				return "Simulating transaction...";
+			case "review":
+				return "Confirm & Send";
+			case "switching-chain":
+				return "Switching network...";
 			case "executing":
 				return "Executing transaction...";
 			case "confirming":
 				return "Confirming...";
 			default:
-				return "Mint Position";
+				if (isIncrease) return "Add Liquidity";
+				if (zapMode && isPlanningZap) return "Planning swaps...";
+				if (zapMode) return needsPoolCreation ? "Create Pool & Zap" : "Zap & Mint Position";
+				return needsPoolCreation ? "Create Pool & Mint" : "Mint Position";
 		}
 	};
 
@@ -347,7 +775,7 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 				<CardHeader>
 					<CardTitle className="flex items-center gap-2">
 						<Plus className="h-5 w-5" />
-						Select Token Pair
+						{isIncrease ? "Token Pair" : "Select Token Pair"}
 					</CardTitle>
 				</CardHeader>
 				<CardContent className="space-y-4">
@@ -357,6 +785,7 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 						<Button
 							variant="outline"
 							onClick={() => setShowTokenASelector(true)}
+							disabled={isIncrease}
 							className="w-full h-auto flex items-center justify-between p-4"
 						>
 							<div className="flex items-center gap-3">
@@ -390,6 +819,7 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 						<Button
 							variant="outline"
 							onClick={() => setShowTokenBSelector(true)}
+							disabled={isIncrease}
 							className="w-full h-auto flex items-center justify-between p-4"
 						>
 							<div className="flex items-center gap-3">
@@ -418,7 +848,7 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 					</div>
 
 					{/* Swap Button */}
-					{tokenA && tokenB && (
+					{tokenA && tokenB && !isIncrease && (
 						<div className="flex justify-center">
 							<Button
 								variant="ghost"
@@ -431,6 +861,31 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 							</Button>
 						</div>
 					)}
+
+					{/* Native or wrapped pool, when the other one exists too */}
+					{variantPair && variantPoolExists && (
+						<div className="space-y-2">
+							<Label>Pool Currency</Label>
+							<div className="grid grid-cols-2 gap-2">
+								<Button variant="default" size="sm" disabled>
+									{variantPair.current.symbol} pool
+								</Button>
+								<Button
+									variant="outline"
+									size="sm"
+									onClick={handleUseVariantPool}
+									disabled={isExecuting}
+								>
+									{variantPair.variant.symbol} pool
+								</Button>
+							</div>
+							<p className="text-muted-foreground text-sm">
+								{variantPair.current.isNative
+									? `Deposits ${variantPair.current.symbol} directly, no wrapping needed`
+									: `Deposits ${variantPair.current.symbol}, the wrapped form of ${variantPair.variant.symbol}`}
+							</p>
+						</div>
+					)}
 				</CardContent>
 			</Card>
 
@@ -454,64 +909,165 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 								<Calculator className="h-3 w-3" />
 								Auto-calculate
 							</Label>
+							{!isIncrease && (
+								<>
+									<Checkbox
+										id="zapMode"
+										checked={zapMode}
+										onCheckedChange={(checked) =>
+											handleZapModeChange(checked === true)
+										}
+									/>
+									<Label
+										htmlFor="zapMode"
+										className="flex items-center gap-1 font-normal text-sm"
+									>
+										<Zap className="h-3 w-3" />
+										Zap
+									</Label>
+								</>
+							)}
 						</div>
 					</CardTitle>
-					{currentPrice && tokenA && tokenB && (
+					{poolPrice && tokenA && tokenB && (
 						<div className="text-muted-foreground text-sm">
-							Current price: 1 {tokenA.symbol} = {currentPrice.toFixed(6)}{" "}
+							{needsPoolCreation ? "Starting price" : "Current price"}: 1{" "}
+							{tokenA.symbol} = {poolPrice.toFixed(6)}{" "}
 							{tokenB.symbol}
 						</div>
 					)}
 				</CardHeader>
 				<CardContent className="space-y-4">
-					<div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-						<div className="space-y-2">
-							<Label htmlFor="amountA">
-								{tokenA ? `${tokenA.symbol} Amount` : "Token A Amount"}
-							</Label>
-							<div className="relative">
-								<Input
-									id="amountA"
-									type="number"
-									step="any"
-									placeholder="0.0"
-									value={amountA}
-									onChange={(e) => handleAmountAChange(e.target.value)}
-									disabled={
-										!tokenA || (isCalculating && lastInputField === "B")
-									}
-								/>
-								{isCalculating && lastInputField === "B" && (
-									<div className="-translate-y-1/2 absolute top-1/2 right-2">
-										<div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
-									</div>
-								)}
+					{zapMode && !isIncrease ? (
+						<div className="space-y-4">
+							<div className="space-y-2">
+								<Label htmlFor="zapAmount">Deposit Amount</Label>
+								<div className="flex gap-2">
+									<Input
+										id="zapAmount"
+										type="number"
+										step="any"
+										placeholder="0.0"
+										value={zapAmount}
+										onChange={(e) => setZapAmount(e.target.value)}
+										disabled={!tokenA || !tokenB}
+									/>
+									<Button
+										variant="outline"
+										onClick={() => setShowZapTokenSelector(true)}
+										className="shrink-0 gap-2"
+									>
+										{zapToken ? zapToken.symbol : "Select Token"}
+										<ChevronDown className="h-4 w-4" />
+									</Button>
+								</div>
+								<p className="text-muted-foreground text-sm">
+									Part of it is swapped so the deposit matches the range
+								</p>
 							</div>
-						</div>
-						<div className="space-y-2">
-							<Label htmlFor="amountB">
-								{tokenB ? `${tokenB.symbol} Amount` : "Token B Amount"}
-							</Label>
-							<div className="relative">
-								<Input
-									id="amountB"
-									type="number"
-									step="any"
-									placeholder="0.0"
-									value={amountB}
-									onChange={(e) => handleAmountBChange(e.target.value)}
-									disabled={
-										!tokenB || (isCalculating && lastInputField === "A")
-									}
-								/>
-								{isCalculating && lastInputField === "A" && (
-									<div className="-translate-y-1/2 absolute top-1/2 right-2">
-										<div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+
+							{isPlanningZap && (
+								<p className="text-muted-foreground text-sm">Planning swaps...</p>
+							)}
+							{zapError && <p className="text-red-600 text-sm">{zapError}</p>}
+
+							{/* Zap Preview */}
+							{zapPlan && tokenA && tokenB && (
+								<div className="space-y-2 rounded-md border p-3 text-sm">
+									{zapPlan.swaps.map((swap) => {
+										const outToken =
+											swap.tokenOut.toLowerCase() === tokenA.address.toLowerCase()
+												? tokenA
+												: tokenB;
+										return (
+											<div key={swap.tokenOut} className="flex justify-between">
+												<span className="text-muted-foreground">Swap:</span>
+												<span>
+													{formatZapAmount(swap.amountIn, zapPlan.inputToken.decimals)}{" "}
+													{zapPlan.inputToken.symbol} →{" "}
+													{formatZapAmount(swap.amountOut, outToken.decimals)}{" "}
+													{outToken.symbol}
+												</span>
+											</div>
+										);
+									})}
+									<div className="flex justify-between">
+										<span className="text-muted-foreground">Deposit:</span>
+										<span>
+											{formatZapAmount(zapPlan.depositA, tokenA.decimals)}{" "}
+											{tokenA.symbol} +{" "}
+											{formatZapAmount(zapPlan.depositB, tokenB.decimals)}{" "}
+											{tokenB.symbol}
+										</span>
 									</div>
-								)}
+									<div className="flex justify-between">
+										<span className="text-muted-foreground">
+											Leftover (stays in wallet):
+										</span>
+										<span>
+											{formatZapAmount(zapPlan.leftoverA, tokenA.decimals)}{" "}
+											{tokenA.symbol} +{" "}
+											{formatZapAmount(zapPlan.leftoverB, tokenB.decimals)}{" "}
+											{tokenB.symbol}
+										</span>
+									</div>
+								</div>
+							)}
+						</div>
+					) : (
+						<div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+							<div className="space-y-2">
+								<Label htmlFor="amountA">
+									{tokenA ? `${tokenA.symbol} Amount` : "Token A Amount"}
+								</Label>
+								<div className="relative">
+									<Input
+										id="amountA"
+										type="number"
+										step="any"
+										placeholder="0.0"
+										value={amountA}
+										onChange={(e) => handleAmountAChange(e.target.value)}
+										disabled={
+											!tokenA ||
+											!depositTokens.needsToken0 ||
+											(isCalculating && lastInputField === "B")
+										}
+									/>
+									{isCalculating && lastInputField === "B" && (
+										<div className="-translate-y-1/2 absolute top-1/2 right-2">
+											<div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+										</div>
+									)}
+								</div>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="amountB">
+									{tokenB ? `${tokenB.symbol} Amount` : "Token B Amount"}
+								</Label>
+								<div className="relative">
+									<Input
+										id="amountB"
+										type="number"
+										step="any"
+										placeholder="0.0"
+										value={amountB}
+										onChange={(e) => handleAmountBChange(e.target.value)}
+										disabled={
+											!tokenB ||
+											!depositTokens.needsToken1 ||
+											(isCalculating && lastInputField === "A")
+										}
+									/>
+									{isCalculating && lastInputField === "A" && (
+										<div className="-translate-y-1/2 absolute top-1/2 right-2">
+											<div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+										</div>
+									)}
+								</div>
 							</div>
 						</div>
-					</div>
+					)}
 					{autoCalculateEnabled && !tokenA && !tokenB && (
 						<div className="rounded-md bg-blue-50 p-3 dark:bg-blue-900/20">
 							<p className="text-blue-800 text-sm dark:text-blue-200">
@@ -532,110 +1088,221 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 					</CardTitle>
 				</CardHeader>
 				<CardContent className="space-y-6">
-					{/* Fee Tier */}
-					<div className="space-y-3">
-						<Label>Fee Tier</Label>
-						<div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
-							{[
-								{ value: 100, label: "0.01%" },
-								{ value: 500, label: "0.05%" },
-								{ value: 3000, label: "0.30%" },
-								{ value: 10000, label: "1.00%" },
-							].map((tier) => (
-								<Button
-									key={tier.value}
-									variant={feeTier === tier.value ? "default" : "outline"}
-									size="sm"
-									onClick={() => {
-										setFeeTier(tier.value);
-										// Trigger recalculation when fee tier changes
-										if (lastInputField === "A" && amountA) {
-											setTimeout(
-												() => calculateOtherAmount(amountA, true),
-												100,
-											);
-										} else if (lastInputField === "B" && amountB) {
-											setTimeout(
-												() => calculateOtherAmount(amountB, false),
-												100,
-											);
-										}
-									}}
-								>
-									{tier.label}
-								</Button>
-							))}
+					{isIncrease && increasePosition ? (
+						<div className="space-y-2 text-sm">
+							<div className="flex justify-between">
+								<span className="text-muted-foreground">Fee Tier</span>
+								<Badge variant="secondary">
+									{(increasePosition.feeTier / 10000).toFixed(2)}%
+								</Badge>
+							</div>
+							<div className="flex justify-between">
+								<span className="text-muted-foreground">Tick Range</span>
+								<span className="font-mono">
+									{increasePosition.tickLower.toLocaleString()} →{" "}
+									{increasePosition.tickUpper.toLocaleString()}
+								</span>
+							</div>
+							<p className="text-muted-foreground">
+								Fee tier and range are fixed by position #
+								{increasePosition.tokenId}.
+							</p>
 						</div>
-					</div>
-
-					{/* Price Range */}
-					<div className="space-y-3">
-						<div className="flex items-center gap-2">
-							<Checkbox
-								id="fullRange"
-								checked={fullRange}
-								onCheckedChange={(checked) => {
-									setFullRange(checked === true);
-									// Trigger recalculation when range changes
-									if (lastInputField === "A" && amountA) {
-										setTimeout(() => calculateOtherAmount(amountA, true), 100);
-									} else if (lastInputField === "B" && amountB) {
-										setTimeout(() => calculateOtherAmount(amountB, false), 100);
-									}
-								}}
-							/>
-							<Label htmlFor="fullRange">Full Range Position</Label>
+					) : (
+						<>
+						{/* Fee Tier */}
+						<div className="space-y-3">
+							<Label>Fee Tier</Label>
+							<div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+								{[
+									{ value: 100, label: "0.01%" },
+									{ value: 500, label: "0.05%" },
+									{ value: 3000, label: "0.30%" },
+									{ value: 10000, label: "1.00%" },
+								].map((tier) => (
+									<Button
+										key={tier.value}
+										variant={feeTier === tier.value ? "default" : "outline"}
+										size="sm"
+										onClick={() => {
+											setFeeTier(tier.value);
+											// Trigger recalculation when fee tier changes
+											if (lastInputField === "A" && amountA) {
+												setTimeout(
+													() => calculateOtherAmount(amountA, true),
+													100,
+												);
+											} else if (lastInputField === "B" && amountB) {
+												setTimeout(
+													() => calculateOtherAmount(amountB, false),
+													100,
+												);
+											}
+										}}
+									>
+										{tier.label}
+									</Button>
+								))}
+							</div>
 						</div>
 
-						{!fullRange && (
-							<div className="space-y-2">
-								<Label htmlFor="tickRange">
-									Tick Range Around Current Price
-								</Label>
-								<Input
-									id="tickRange"
-									type="number"
-									placeholder="500"
-									value={tickRange}
-									onChange={(e) => {
-										setTickRange(e.target.value);
-										// Trigger recalculation when tick range changes
-										if (lastInputField === "A" && amountA) {
-											setTimeout(
-												() => calculateOtherAmount(amountA, true),
-												100,
-											);
-										} else if (lastInputField === "B" && amountB) {
-											setTimeout(
-												() => calculateOtherAmount(amountB, false),
-												100,
-											);
-										}
-									}}
-								/>
-								<p className="text-muted-foreground text-sm">
-									Position will be active within ±{tickRange} ticks from current
-									price
-								</p>
+						{/* Starting Price */}
+						{needsPoolCreation && tokenA && tokenB && (
+							<div className="space-y-3 rounded-md bg-blue-50 p-3 dark:bg-blue-900/20">
+								<div className="flex items-start gap-2">
+									<AlertCircle className="mt-0.5 h-4 w-4 text-blue-600 dark:text-blue-400" />
+									<div className="text-sm">
+										<p className="font-medium text-blue-800 dark:text-blue-200">
+											New Pool
+										</p>
+										<p className="text-blue-700 dark:text-blue-300">
+											No pool exists for this pair and fee tier yet. Set its
+											starting price and it will be created in the same
+											transaction as your position.
+										</p>
+									</div>
+								</div>
+								<div className="space-y-2">
+									<Label htmlFor="startingPrice">
+										Starting Price ({tokenB.symbol} per {tokenA.symbol})
+									</Label>
+									<Input
+										id="startingPrice"
+										type="number"
+										step="any"
+										min="0"
+										placeholder="0.0"
+										value={startingPriceInput}
+										onChange={(e) => setStartingPriceInput(e.target.value)}
+									/>
+								</div>
 							</div>
 						)}
 
-						{fullRange && (
-							<div className="flex items-start gap-2 rounded-md bg-yellow-50 p-3 dark:bg-yellow-900/20">
-								<AlertCircle className="mt-0.5 h-4 w-4 text-yellow-600 dark:text-yellow-500" />
-								<div className="text-sm">
-									<p className="font-medium text-yellow-800 dark:text-yellow-200">
-										Full Range Position
-									</p>
-									<p className="text-yellow-700 dark:text-yellow-300">
-										Your liquidity will be active across the entire price range.
-										This provides maximum liquidity but may result in
-										impermanent loss.
-									</p>
-								</div>
+						{/* Price Range */}
+						<div className="space-y-3">
+							<div className="flex items-center justify-between">
+								<Label>Price Range</Label>
+								{baseToken && quoteToken && (
+									<Button
+										variant="ghost"
+										size="sm"
+										onClick={handleInvertPrice}
+										className="gap-1"
+									>
+										<ArrowUpDown className="h-3 w-3" />
+										{quoteToken.symbol} per {baseToken.symbol}
+									</Button>
+								)}
 							</div>
-						)}
-					</div>
+							<div className="grid grid-cols-3 gap-2 sm:grid-cols-5">
+								{RANGE_PRESETS.map((preset) => (
+									<Button
+										key={preset.label}
+										variant={
+											preset.percent === null && fullRange
+												? "default"
+												: "outline"
+										}
+										size="sm"
+										disabled={preset.percent !== null && !displayPrice}
+										onClick={() => handlePresetSelect(preset)}
+									>
+										{preset.label}
+									</Button>
+								))}
+							</div>
+
+							{!fullRange && (
+								<div className="space-y-2">
+									{tokenA && tokenB && !needsPoolCreation && (
+										<LiquidityDepthChart
+											tokenA={tokenA}
+											tokenB={tokenB}
+											feeTier={feeTier}
+											inverted={priceInverted}
+											minPrice={Number.parseFloat(minPriceInput) || null}
+											maxPrice={Number.parseFloat(maxPriceInput) || null}
+											onRangeChange={(min, max) => {
+												setMinPriceInput(min);
+												setMaxPriceInput(max);
+											}}
+										/>
+									)}
+									<div className="grid grid-cols-2 gap-4">
+										<div className="space-y-2">
+											<Label htmlFor="minPrice">Min Price</Label>
+											<Input
+												id="minPrice"
+												type="number"
+												step="any"
+												min="0"
+												placeholder="0.0"
+												value={minPriceInput}
+												onChange={(e) => setMinPriceInput(e.target.value)}
+											/>
+										</div>
+										<div className="space-y-2">
+											<Label htmlFor="maxPrice">Max Price</Label>
+											<Input
+												id="maxPrice"
+												type="number"
+												step="any"
+												min="0"
+												placeholder="0.0"
+												value={maxPriceInput}
+												onChange={(e) => setMaxPriceInput(e.target.value)}
+											/>
+										</div>
+									</div>
+									{rangeError ? (
+										<p className="text-red-600 text-sm">{rangeError}</p>
+									) : (
+										snappedRange &&
+										baseToken &&
+										quoteToken && (
+											<p className="text-muted-foreground text-sm">
+												Position will be active between{" "}
+												{formatPrice(snappedRange.minPrice)} and{" "}
+												{formatPrice(snappedRange.maxPrice)} {quoteToken.symbol}{" "}
+												per {baseToken.symbol}, rounded to the nearest usable
+												ticks
+											</p>
+										)
+									)}
+								</div>
+							)}
+
+							{fullRange && (
+								<div className="flex items-start gap-2 rounded-md bg-yellow-50 p-3 dark:bg-yellow-900/20">
+									<AlertCircle className="mt-0.5 h-4 w-4 text-yellow-600 dark:text-yellow-500" />
+									<div className="text-sm">
+										<p className="font-medium text-yellow-800 dark:text-yellow-200">
+											Full Range Position
+										</p>
+										<p className="text-yellow-700 dark:text-yellow-300">
+											Your liquidity will be active across the entire price range.
+											This provides maximum liquidity but may result in
+											impermanent loss.
+										</p>
+									</div>
+								</div>
+							)}
+
+							{tokenA && tokenB && !needsPoolCreation && (
+								<RangeBacktest
+									tokenA={tokenA}
+									tokenB={tokenB}
+									feeTier={feeTier}
+									priceRange={fullRange ? null : priceRange}
+									poolPrice={poolPrice}
+									amountA={amountA}
+									amountB={amountB}
+								/>
+							)}
+						</div>
+						</>
+					)}
 
 					{/* Slippage Tolerance */}
 					<div className="space-y-2">
@@ -676,7 +1343,15 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 							</div>
 							<div className="flex justify-between">
 								<span className="text-muted-foreground">Range:</span>
-								<span>{fullRange ? "Full Range" : `±${tickRange} ticks`}</span>
+								<span>
+									{increasePosition
+										? `${increasePosition.tickLower} → ${increasePosition.tickUpper}`
+										: fullRange
+											? "Full Range"
+											: snappedRange && baseToken && quoteToken
+												? `${formatPrice(snappedRange.minPrice)} – ${formatPrice(snappedRange.maxPrice)} ${quoteToken.symbol}/${baseToken.symbol}`
+												: "—"}
+								</span>
 							</div>
 							<div className="flex justify-between">
 								<span className="text-muted-foreground">Chain:</span>
@@ -708,10 +1383,27 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 				</Card>
 			)}
 
+			{/* Simulated outcome, confirmed before the wallet prompt */}
+			{!isIncrease && mint.status === "review" && mint.preview && (
+				<MintPreviewCard
+					preview={mint.preview}
+					nativeCurrency={
+						currentChainInfo?.nativeCurrency ?? { symbol: "ETH", decimals: 18 }
+					}
+					onCancel={resetMint}
+				/>
+			)}
+
 			{/* Mint Button */}
 			<Button
-				onClick={handleMintPosition}
-				disabled={!isReady || isExecuting}
+				onClick={mintStatus === "review" ? mint.confirm : handleMintPosition}
+				disabled={
+					mintStatus !== "review" &&
+					(!isReady ||
+						isExecuting ||
+						(needsPoolCreation && !initialPrice) ||
+						(zapMode && !isIncrease && !zapPlan))
+				}
 				variant={balanceError ? "destructive" : "default"}
 				className="w-full"
 				size="lg"
@@ -755,6 +1447,24 @@ export function MintPositionForm({ onSuccess }: MintPositionFormProps) {
 				enableFilters={true}
 				enableHistory={true}
 			/>
+
+			<TokenSelectorV2
+				isOpen={showZapTokenSelector}
+				onClose={() => setShowZapTokenSelector(false)}
+				onTokenSelect={handleZapTokenSelect}
+				selectedToken={zapToken || undefined}
+				tokens={tokens}
+				loading={tokensLoading}
+				error={tokensError ? new Error(tokensError) : undefined}
+				title="Select Token to Deposit"
+				subtitle="Either token of the pair, or any other token to swap from"
+				supportedChains={supportedChains}
+				currentChainId={currentChainId?.toString()}
+				onRefresh={() => currentChainId && refreshTokens(currentChainId)}
+				showBalances={false}
+				enableFilters={true}
+				enableHistory={true}
+			/>
 		</div>
 	);
 }
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { formatAmount } from "@my-better-t-app/shared/amounts";
+import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { MintPreview } from "@/hooks/use-mint-position";
+
+// Fraction digits shown for a simulated amount
+const DISPLAY_DECIMALS = 6;
+
+interface NativeCurrency {
+	symbol: string;
+	decimals: number;
+}
+
+interface MintPreviewCardProps {
+	preview: MintPreview;
+	nativeCurrency: NativeCurrency;
+	onCancel: () => void;
+}
+
+function formatSigned(diff: bigint, decimals: number): string {
+	const amount = formatAmount(diff < 0n ? -diff : diff, decimals, {
+		maxDecimals: DISPLAY_DECIMALS,
+	});
+	return `${diff < 0n ? "-" : "+"}${amount}`;
+}
+
+export function MintPreviewCard({
+	preview,
+	nativeCurrency,
+	onCancel,
+}: MintPreviewCardProps) {
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Review Transaction</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{preview.simulated ? (
+					<div className="space-y-2 text-sm">
+						<div className="flex justify-between">
+							<span className="text-muted-foreground">Liquidity Minted:</span>
+							<span>{preview.liquidity?.toString() ?? "—"}</span>
+						</div>
+						{preview.assetChanges.map((change) => (
+							<div key={change.address} className="flex justify-between">
+								<span className="text-muted-foreground">
+									{change.symbol ??
+										`${change.address.slice(0, 6)}…${change.address.slice(-4)}`}
+									:
+								</span>
+								<span className={change.diff < 0n ? "" : "text-green-600"}>
+									{formatSigned(change.diff, change.decimals ?? 18)}
+								</span>
+							</div>
+						))}
+						{preview.refund > 0n && (
+							<div className="flex justify-between">
+								<span className="text-muted-foreground">Refunded:</span>
+								<span>
+									{formatAmount(preview.refund, nativeCurrency.decimals, {
+										maxDecimals: DISPLAY_DECIMALS,
+									})}{" "}
+									{nativeCurrency.symbol}
+								</span>
+							</div>
+						)}
+						<div className="flex justify-between">
+							<span className="text-muted-foreground">Network Cost:</span>
+							<span>
+								~
+								{formatAmount(preview.gasCost, nativeCurrency.decimals, {
+									maxDecimals: DISPLAY_DECIMALS,
+								})}{" "}
+								{nativeCurrency.symbol} ({preview.gasUsed.toString()} gas)
+							</span>
+						</div>
+					</div>
+				) : (
+					<div className="flex items-start gap-2 text-sm">
+						<AlertCircle className="mt-0.5 h-4 w-4 text-yellow-600" />
+						<p className="text-muted-foreground">
+							{preview.reason}. Check the amounts in your wallet before signing.
+						</p>
+					</div>
+				)}
+				<Button variant="outline" className="w-full" onClick={onCancel}>
+					Cancel
+				</Button>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,308 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bell, Send, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useAccount } from "wagmi";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useOwnerProof } from "@/hooks/use-owner-proof";
+import { queryClient, trpc, trpcClient } from "@/utils/trpc";
+
+type AlertChannel = "inbox" | "webhook" | "email";
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+	inbox: "Inbox",
+	webhook: "Webhook",
+	email: "Email",
+};
+
+const TARGET_PLACEHOLDERS: Record<AlertChannel, string> = {
+	inbox: "",
+	webhook: "https://example.com/hooks/uniswap",
+	email: "you@example.com",
+};
+
+interface PositionAlertsProps {
+	chainId: number;
+	tokenId: string;
+	protocolVersion: "PROTOCOL_VERSION_V3" | "PROTOCOL_VERSION_V4";
+}
+
+interface WatchConditions {
+	alertOutOfRange: boolean;
+	edgeThresholdPercent: number | null;
+	feesThresholdUsd: number | null;
+}
+
+function describeConditions(watch: WatchConditions): string {
+	const conditions = [
+		watch.alertOutOfRange && "out of range",
+		watch.edgeThresholdPercent !== null &&
+			`within ${watch.edgeThresholdPercent}% of a bound`,
+		watch.feesThresholdUsd !== null && `fees above $${watch.feesThresholdUsd}`,
+	].filter(Boolean);
+	return conditions.join(", ");
+}
+
+// Empty input means the condition is off
+function parseThreshold(value: string): number | undefined {
+	const parsed = Number.parseFloat(value);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Watches the connected wallet has on a position, and a form to add one. The
+ * server evaluates them on a schedule and alerts through the chosen channel.
+ */
+export function PositionAlerts({
+	chainId,
+	tokenId,
+	protocolVersion,
+}: PositionAlertsProps) {
+	const { address } = useAccount();
+	const [channel, setChannel] = useState<AlertChannel>("inbox");
+	const [target, setTarget] = useState("");
+	const [alertOutOfRange, setAlertOutOfRange] = useState(true);
+	const [edgeThreshold, setEdgeThreshold] = useState("");
+	const [feesThreshold, setFeesThreshold] = useState("");
+	const [isSaving, setIsSaving] = useState(false);
+	// Changes are signed for by the owner, targets are only shown once signed
+	const { proof, getProof } = useOwnerProof();
+
+	const watchesQuery = trpc.monitoring.getWatches.queryOptions({
+		owner: address ?? "",
+		chainId,
+		tokenId,
+		proof: proof ?? undefined,
+	});
+	const { data, isLoading } = useQuery({
+		...watchesQuery,
+		enabled: !!address,
+	});
+	const watches = (data?.success ? data.watches : []).filter(
+		(watch) => watch.protocolVersion === protocolVersion,
+	);
+	const targetsHidden =
+		data?.success === true &&
+		data.targetsHidden &&
+		watches.some((watch) => watch.channel !== "inbox");
+
+	const refresh = () =>
+		queryClient.invalidateQueries({ queryKey: watchesQuery.queryKey });
+
+	const handleCreate = async () => {
+		if (!address) return;
+		setIsSaving(true);
+		try {
+			const result = await trpcClient.monitoring.createWatch.mutate({
+				owner: address,
+				chainId,
+				tokenId,
+				protocolVersion,
+				channel,
+				target: channel === "inbox" ? undefined : target,
+				alertOutOfRange,
+				edgeThresholdPercent: parseThreshold(edgeThreshold),
+				feesThresholdUsd: parseThreshold(feesThreshold),
+				proof: await getProof(),
+			});
+			if (!result.success) throw new Error(result.message);
+			toast.success("Alert created");
+			setEdgeThreshold("");
+			setFeesThreshold("");
+			await refresh();
+		} catch (error) {
+			toast.error(
+				error instanceof Error ? error.message : "Failed to create the alert",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleTest = async (id: number) => {
+		if (!address) return;
+		try {
+			const result = await trpcClient.monitoring.testWatch.mutate({
+				owner: address,
+				id,
+				proof: await getProof(),
+			});
+			if (result.success) toast.success(result.message);
+			else toast.error(result.message);
+		} catch (error) {
+			toast.error(
+				error instanceof Error ? error.message : "Failed to send a test alert",
+			);
+		}
+	};
+
+	const handleDelete = async (id: number) => {
+		if (!address) return;
+		try {
+			const result = await trpcClient.monitoring.deleteWatch.mutate({
+				owner: address,
+				id,
+				proof: await getProof(),
+			});
+			if (!result.success) toast.error(result.message);
+			await refresh();
+		} catch (error) {
+			toast.error(
+				error instanceof Error ? error.message : "Failed to delete the alert",
+			);
+		}
+	};
+
+	const handleSignIn = async () => {
+		try {
+			await getProof();
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "Failed to sign in");
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<Bell className="h-4 w-4" />
+					Alerts
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4 text-sm">
+				{!address ? (
+					<p className="text-muted-foreground">
+						Connect a wallet to get alerted when this position needs attention.
+					</p>
+				) : (
+					<>
+						{isLoading ? (
+							<Skeleton className="h-12 w-full" />
+						) : (
+							watches.map((watch) => (
+								<div
+									key={watch.id}
+									className="flex items-center justify-between gap-4"
+								>
+									<div className="min-w-0">
+										<div className="flex items-center gap-2">
+											<Badge variant="outline">
+												{CHANNEL_LABELS[watch.channel]}
+											</Badge>
+											{watch.activeKinds.length > 0 && (
+												<Badge variant="destructive">Triggered</Badge>
+											)}
+										</div>
+										<p className="truncate text-muted-foreground text-xs">
+											{describeConditions(watch)}
+											{watch.target && ` → ${watch.target}`}
+										</p>
+									</div>
+									<div className="flex gap-1">
+										<Button
+											size="sm"
+											variant="ghost"
+											title="Send a test alert"
+											onClick={() => handleTest(watch.id)}
+										>
+											<Send className="h-4 w-4" />
+										</Button>
+										<Button
+											size="sm"
+											variant="ghost"
+											title="Delete alert"
+											onClick={() => handleDelete(watch.id)}
+										>
+											<Trash2 className="h-4 w-4" />
+										</Button>
+									</div>
+								</div>
+							))
+						)}
+
+						{targetsHidden && (
+							<div className="flex items-center justify-between gap-2 text-muted-foreground text-xs">
+								<span>
+									Webhook and email targets are hidden until you sign in with
+									this wallet.
+								</span>
+								<Button size="sm" variant="outline" onClick={handleSignIn}>
+									Sign in
+								</Button>
+							</div>
+						)}
+
+						<div className="space-y-3 border-t pt-4">
+							<div className="flex gap-2">
+								{(Object.keys(CHANNEL_LABELS) as AlertChannel[]).map((key) => (
+									<Button
+										key={key}
+										size="sm"
+										variant={channel === key ? "default" : "outline"}
+										onClick={() => setChannel(key)}
+									>
+										{CHANNEL_LABELS[key]}
+									</Button>
+								))}
+							</div>
+							{channel !== "inbox" && (
+								<Input
+									value={target}
+									placeholder={TARGET_PLACEHOLDERS[channel]}
+									onChange={(event) => setTarget(event.target.value)}
+								/>
+							)}
+							<div className="flex items-center space-x-2">
+								<Checkbox
+									id="alert-out-of-range"
+									checked={alertOutOfRange}
+									onCheckedChange={(checked) =>
+										setAlertOutOfRange(checked === true)
+									}
+								/>
+								<Label htmlFor="alert-out-of-range">
+									When the position goes out of range
+								</Label>
+							</div>
+							<div className="grid gap-3 md:grid-cols-2">
+								<div className="space-y-1">
+									<Label htmlFor="alert-edge">Within % of a range bound</Label>
+									<Input
+										id="alert-edge"
+										type="number"
+										min="0"
+										step="0.1"
+										placeholder="Off"
+										value={edgeThreshold}
+										onChange={(event) => setEdgeThreshold(event.target.value)}
+									/>
+								</div>
+								<div className="space-y-1">
+									<Label htmlFor="alert-fees">Uncollected fees above $</Label>
+									<Input
+										id="alert-fees"
+										type="number"
+										min="0"
+										step="1"
+										placeholder="Off"
+										value={feesThreshold}
+										onChange={(event) => setFeesThreshold(event.target.value)}
+									/>
+								</div>
+							</div>
+							<Button onClick={handleCreate} disabled={isSaving}>
+								{isSaving ? "Saving..." : "Add Alert"}
+							</Button>
+						</div>
+					</>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -1,5 +1,13 @@
+import { formatAmount } from "@my-better-t-app/shared/amounts";
+import { Link } from "@tanstack/react-router";
+import { useState } from "react";
+import { CollectFeesButton } from "@/components/collect-fees-button";
+import { DecreaseLiquidityPanel } from "@/components/decrease-liquidity-panel";
+import { PositionPnlSummary } from "@/components/position-pnl";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { CHAIN_INFO, isSupportedChain } from "@/lib/tokens/multichain-tokens";
 
 interface Token {
 	chainId: number;
@@ -8,12 +16,13 @@ interface Token {
 	decimals: number;
 	name: string;
 	isNative?: boolean;
+	isWrappedNative?: boolean;
 }
 
 interface PositionData {
 	tokenId: string;
 	chainId: number;
-	protocolVersion: string;
+	protocolVersion: "PROTOCOL_VERSION_V3" | "PROTOCOL_VERSION_V4";
 	status: string;
 	timestamp: number;
 	tickLower: number;
@@ -24,24 +33,30 @@ interface PositionData {
 	feeTier: number;
 	currentTick: number;
 	currentPrice: string;
+	sqrtPriceX96: string;
 	tickSpacing: number;
 	token0UncollectedFees: string;
 	token1UncollectedFees: string;
 	amount0: string;
 	amount1: string;
 	poolId: string;
-	totalLiquidityUsd: string;
+	totalLiquidityUsd: string | null;
 	currentLiquidity: string;
-	apr: number;
-	totalApr: number;
+	apr: number | null;
+	totalApr: number | null;
 	hooks: string[];
 }
 
 interface PositionCardProps {
 	position: PositionData;
+	onPositionChange?: () => void;
 }
 
-export function PositionCard({ position }: PositionCardProps) {
+export function PositionCard({
+	position,
+	onPositionChange,
+}: PositionCardProps) {
+	const [showRemove, setShowRemove] = useState(false);
 	const {
 		tokenId,
 		chainId,
@@ -59,8 +74,18 @@ export function PositionCard({ position }: PositionCardProps) {
 		totalApr,
 		token0UncollectedFees,
 		token1UncollectedFees,
+		amount0,
+		amount1,
 		hooks,
 	} = position;
+	// Liquidity management is only wired up for V4 positions
+	const nativeSymbol =
+		(token0.isWrappedNative || token1.isWrappedNative) &&
+		isSupportedChain(chainId)
+			? CHAIN_INFO[chainId].nativeCurrency.symbol
+			: undefined;
+	const canManage =
+		protocolVersion === "PROTOCOL_VERSION_V4" && BigInt(liquidity) > 0n;
 	const feePercentage = (feeTier / 10000).toFixed(2);
 
 	const formatAddress = (address: string) => {
@@ -123,8 +148,7 @@ export function PositionCard({ position }: PositionCardProps) {
 	};
 
 	const formatFees = (fees: string, decimals: number) => {
-		const num = Number.parseFloat(fees) / 10 ** decimals;
-		return num.toFixed(6);
+		return formatAmount(BigInt(fees), decimals, { maxDecimals: 6 });
 	};
 
 	return (
@@ -133,7 +157,21 @@ export function PositionCard({ position }: PositionCardProps) {
 			<div className="flex items-start justify-between">
 				<div className="space-y-1">
 					<div className="flex items-center gap-2">
-						<h3 className="font-semibold">#{tokenId}</h3>
+						<h3 className="font-semibold">
+							<Link
+								to="/positions/$chainId/$tokenId"
+								params={{ chainId: String(chainId), tokenId }}
+								search={{
+									version:
+										protocolVersion === "PROTOCOL_VERSION_V3"
+											? "v3"
+											: undefined,
+								}}
+								className="hover:underline"
+							>
+								#{tokenId}
+							</Link>
+						</h3>
 						{getProtocolBadge()}
 						{getStatusBadge()}
 					</div>
@@ -146,11 +184,13 @@ export function PositionCard({ position }: PositionCardProps) {
 				</div>
 				<div className="space-y-1 text-right">
 					<p className="font-semibold text-lg">
-						{formatUSD(totalLiquidityUsd)}
-					</p>
-					<p className="font-medium text-green-600 text-sm">
-						{totalApr.toFixed(2)}% APR
+						{totalLiquidityUsd !== null ? formatUSD(totalLiquidityUsd) : "—"}
 					</p>
+					{totalApr !== null && (
+						<p className="font-medium text-green-600 text-sm">
+							{totalApr.toFixed(2)}% APR
+						</p>
+					)}
 				</div>
 			</div>
 
@@ -195,11 +235,36 @@ export function PositionCard({ position }: PositionCardProps) {
 				</div>
 			</div>
 
+			{/* Profit & Loss */}
+			<div className="border-t pt-3">
+				<PositionPnlSummary
+					chainId={chainId}
+					tokenId={tokenId}
+					protocolVersion={protocolVersion}
+					token0={token0}
+					token1={token1}
+				/>
+			</div>
+
 			{/* Uncollected Fees */}
 			{(Number.parseFloat(token0UncollectedFees) > 0 ||
 				Number.parseFloat(token1UncollectedFees) > 0) && (
 				<div className="border-t pt-3">
-					<h4 className="mb-2 font-medium text-sm">Uncollected Fees</h4>
+					<div className="mb-2 flex items-center justify-between">
+						<h4 className="font-medium text-sm">Uncollected Fees</h4>
+						<CollectFeesButton
+							chainId={chainId}
+							positions={[
+								{
+									tokenId,
+									protocolVersion,
+								},
+							]}
+							label="Collect"
+							nativeSymbol={nativeSymbol}
+							onSuccess={onPositionChange}
+						/>
+					</div>
 					<div className="grid grid-cols-2 gap-4 text-sm">
 						<div>
 							<span className="text-muted-foreground">{token0.symbol}</span>
@@ -217,6 +282,40 @@ export function PositionCard({ position }: PositionCardProps) {
 				</div>
 			)}
 
+			{/* Actions */}
+			{canManage && (
+				<div className="space-y-3">
+					<div className="grid grid-cols-2 gap-2">
+						<Button variant="outline" size="sm" asChild>
+							<Link to="/mint-position" search={{ chainId, tokenId }}>
+								Add Liquidity
+							</Link>
+						</Button>
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => setShowRemove((open) => !open)}
+						>
+							{showRemove ? "Cancel" : "Remove Liquidity"}
+						</Button>
+					</div>
+					{showRemove && (
+						<DecreaseLiquidityPanel
+							chainId={chainId}
+							tokenId={tokenId}
+							token0={token0}
+							token1={token1}
+							amount0={amount0}
+							amount1={amount1}
+							onSuccess={() => {
+								setShowRemove(false);
+								onPositionChange?.();
+							}}
+						/>
+					)}
+				</div>
+			)}
+
 			{/* Footer */}
 			<div className="border-t pt-2">
 				<div className="flex items-center justify-between text-muted-foreground text-xs">
@@ -0,0 +1,254 @@
+import { formatAmount } from "@my-better-t-app/shared/amounts";
+import { useQuery } from "@tanstack/react-query";
+import { ExternalLink } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CHAIN_INFO, isSupportedChain } from "@/lib/tokens/multichain-tokens";
+import { trpc } from "@/utils/trpc";
+
+// Fraction digits shown for an amount
+const DISPLAY_DECIMALS = 6;
+
+const EVENT_LABELS = {
+	deposit: "Deposit",
+	withdraw: "Withdraw",
+	collect: "Fees Collected",
+} as const;
+
+interface PnlToken {
+	symbol: string;
+	decimals: number;
+}
+
+interface PositionPnlProps {
+	chainId: number;
+	tokenId: string;
+	protocolVersion: "PROTOCOL_VERSION_V3" | "PROTOCOL_VERSION_V4";
+	token0: PnlToken;
+	token1: PnlToken;
+}
+
+// Rebuilding the history scans logs and reads past blocks, so keep results around
+function usePositionAccounting({
+	chainId,
+	tokenId,
+	protocolVersion,
+}: Pick<PositionPnlProps, "chainId" | "tokenId" | "protocolVersion">) {
+	const { data, isLoading } = useQuery({
+		...trpc.uniswap.getPositionAccounting.queryOptions({
+			chainId,
+			tokenId,
+			protocolVersion,
+		}),
+		staleTime: 5 * 60 * 1000, // 5 minutes
+	});
+	return {
+		accounting: data?.success ? data.accounting : null,
+		message: data && !data.success ? data.message : undefined,
+		isLoading,
+	};
+}
+
+/**
+ * Format a token1-denominated value in USD when the position has a USD price,
+ * in token1 otherwise
+ */
+function formatValue(
+	value: number,
+	usdPerToken1: number | null,
+	symbol: string,
+	{ signed = false }: { signed?: boolean } = {},
+): string {
+	const sign = signed ? (value < 0 ? "-" : "+") : value < 0 ? "-" : "";
+	const magnitude = Math.abs(value);
+	if (usdPerToken1 !== null) {
+		return `${sign}$${(magnitude * usdPerToken1).toFixed(2)}`;
+	}
+	return `${sign}${Number(magnitude.toPrecision(6))} ${symbol}`;
+}
+
+function formatPercent(value: number | null): string {
+	if (value === null) return "";
+	return ` (${value >= 0 ? "+" : ""}${value.toFixed(2)}%)`;
+}
+
+function formatTokenAmount(amount: string, decimals: number): string {
+	return formatAmount(BigInt(amount), decimals, {
+		maxDecimals: DISPLAY_DECIMALS,
+	});
+}
+
+function pnlClass(value: number): string {
+	return value >= 0 ? "text-green-600" : "text-red-600";
+}
+
+/**
+ * One-line PnL, fees and impermanent loss for a position card
+ */
+export function PositionPnlSummary(props: PositionPnlProps) {
+	const { accounting, isLoading } = usePositionAccounting(props);
+	const { symbol } = props.token1;
+
+	if (isLoading) return <Skeleton className="h-10 w-full" />;
+	if (!accounting) return null;
+
+	const { usdPerToken1 } = accounting;
+	return (
+		<div className="grid grid-cols-3 gap-4 text-sm">
+			<div>
+				<span className="text-muted-foreground">PnL</span>
+				<p className={`font-mono ${pnlClass(accounting.totalPnl)}`}>
+					{formatValue(accounting.totalPnl, usdPerToken1, symbol, {
+						signed: true,
+					})}
+				</p>
+			</div>
+			<div>
+				<span className="text-muted-foreground">Fees Earned</span>
+				<p className="font-mono">
+					{formatValue(accounting.feesEarned, usdPerToken1, symbol)}
+				</p>
+			</div>
+			<div>
+				<span className="text-muted-foreground">IL vs HODL</span>
+				<p className={`font-mono ${pnlClass(accounting.impermanentLoss)}`}>
+					{formatValue(accounting.impermanentLoss, usdPerToken1, symbol, {
+						signed: true,
+					})}
+				</p>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Full PnL breakdown and the position's deposit, withdrawal and collection history
+ */
+export function PositionPnlDetails(props: PositionPnlProps) {
+	const { accounting, message, isLoading } = usePositionAccounting(props);
+	const { chainId, token0, token1 } = props;
+
+	const explorerUrl = isSupportedChain(chainId)
+		? CHAIN_INFO[chainId].explorerUrl
+		: undefined;
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Profit & Loss</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4 text-sm">
+				{isLoading ? (
+					<Skeleton className="h-40 w-full" />
+				) : !accounting ? (
+					<p className="text-muted-foreground">
+						{message ?? "Position history is unavailable."}
+					</p>
+				) : (
+					<>
+						<div className="grid gap-x-6 gap-y-2 md:grid-cols-2">
+							{[
+								{
+									label: "Total PnL",
+									value: accounting.totalPnl,
+									suffix: formatPercent(accounting.totalPnlPercent),
+									signed: true,
+								},
+								{
+									label: "Realized",
+									value: accounting.realizedPnl,
+									signed: true,
+								},
+								{
+									label: "Unrealized",
+									value: accounting.unrealizedPnl,
+									signed: true,
+								},
+								{
+									label: "Impermanent Loss",
+									value: accounting.impermanentLoss,
+									suffix: formatPercent(accounting.impermanentLossPercent),
+									signed: true,
+								},
+								{ label: "Fees Collected", value: accounting.feesCollected },
+								{
+									label: "Fees Uncollected",
+									value: accounting.feesUncollected,
+								},
+								{ label: "Deposited", value: accounting.deposited },
+								{ label: "Withdrawn", value: accounting.withdrawn },
+								{ label: "Cost Basis", value: accounting.costBasis },
+								{ label: "HODL Value", value: accounting.hodlValue },
+							].map(({ label, value, suffix, signed }) => (
+								<div key={label} className="flex justify-between">
+									<span className="text-muted-foreground">{label}</span>
+									<span
+										className={`font-mono ${signed ? pnlClass(value) : ""}`}
+									>
+										{formatValue(
+											value,
+											accounting.usdPerToken1,
+											token1.symbol,
+											{
+												signed,
+											},
+										)}
+										{suffix}
+									</span>
+								</div>
+							))}
+						</div>
+
+						<p className="text-muted-foreground text-xs">
+							Each event is valued at the pool price of its block
+							{accounting.usdPerToken1 !== null
+								? `, converted to USD at today's ${token1.symbol} price.`
+								: `, in ${token1.symbol}.`}
+						</p>
+
+						{accounting.events.length > 0 && (
+							<div className="space-y-2 border-t pt-4">
+								<h4 className="font-medium">History</h4>
+								{accounting.events.map((event) => (
+									<div
+										key={`${event.transactionHash}-${event.kind}`}
+										className="flex items-center justify-between gap-4"
+									>
+										<div>
+											<p>{EVENT_LABELS[event.kind]}</p>
+											<p className="text-muted-foreground text-xs">
+												{new Date(event.timestamp * 1000).toLocaleString()}
+											</p>
+										</div>
+										<div className="flex items-center gap-2 text-right">
+											<div className="font-mono text-xs">
+												<p>
+													{formatTokenAmount(event.amount0, token0.decimals)}{" "}
+													{token0.symbol}
+												</p>
+												<p>
+													{formatTokenAmount(event.amount1, token1.decimals)}{" "}
+													{token1.symbol}
+												</p>
+											</div>
+											{explorerUrl && (
+												<a
+													href={`${explorerUrl}/tx/${event.transactionHash}`}
+													target="_blank"
+													rel="noopener noreferrer"
+													className="text-muted-foreground hover:text-foreground"
+												>
+													<ExternalLink className="h-4 w-4" />
+												</a>
+											)}
+										</div>
+									</div>
+								))}
+							</div>
+						)}
+					</>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
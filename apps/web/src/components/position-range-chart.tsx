@@ -0,0 +1,126 @@
+import { ArrowLeftRight } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { formatPrice, tickToPrice } from "@/utils/price-range";
+
+interface RangeToken {
+	symbol: string;
+	decimals: number;
+}
+
+interface PositionRangeChartProps {
+	token0: RangeToken;
+	token1: RangeToken;
+	tickLower: number;
+	tickUpper: number;
+	currentTick: number;
+}
+
+const WIDTH = 400;
+const HEIGHT = 80;
+// Share of the chart left empty on each side of the range and current price
+const PADDING = 0.2;
+
+/**
+ * A position's price range against the pool's current price, read-only
+ */
+export function PositionRangeChart({
+	token0,
+	token1,
+	tickLower,
+	tickUpper,
+	currentTick,
+}: PositionRangeChartProps) {
+	const [inverted, setInverted] = useState(false);
+
+	const [baseToken, quoteToken] = inverted
+		? [token1, token0]
+		: [token0, token1];
+
+	// Display ticks: the base token's price rises left to right, so ticks are
+	// negated when prices are shown in token0
+	const sign = inverted ? -1 : 1;
+	const [lower, upper] = [tickLower * sign, tickUpper * sign].sort(
+		(a, b) => a - b,
+	);
+	const current = currentTick * sign;
+
+	const start = Math.min(lower, current);
+	const end = Math.max(upper, current);
+	const padding = Math.max((end - start) * PADDING, 1);
+	const domain = { lower: start - padding, upper: end + padding };
+
+	const toX = (tick: number) =>
+		((tick - domain.lower) / (domain.upper - domain.lower)) * WIDTH;
+	const priceAt = (tick: number) =>
+		tickToPrice(tick, baseToken.decimals, quoteToken.decimals);
+	const inRange = currentTick >= tickLower && currentTick < tickUpper;
+
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center justify-between text-muted-foreground text-xs">
+				<span>
+					Price ({quoteToken.symbol} per {baseToken.symbol})
+				</span>
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-6 gap-1 px-2 text-xs"
+					onClick={() => setInverted((value) => !value)}
+				>
+					<ArrowLeftRight className="h-3 w-3" />
+					{quoteToken.symbol}
+				</Button>
+			</div>
+			<svg
+				viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+				preserveAspectRatio="none"
+				className="h-20 w-full rounded-md border"
+			>
+				<title>Position price range</title>
+				<rect
+					x={toX(lower)}
+					y={0}
+					width={toX(upper) - toX(lower)}
+					height={HEIGHT}
+					className={inRange ? "fill-green-600/20" : "fill-yellow-600/20"}
+				/>
+				{[lower, upper].map((tick) => (
+					<line
+						key={tick}
+						x1={toX(tick)}
+						x2={toX(tick)}
+						y1={0}
+						y2={HEIGHT}
+						className="stroke-primary"
+						strokeWidth={2}
+						vectorEffect="non-scaling-stroke"
+					/>
+				))}
+				<line
+					x1={toX(current)}
+					x2={toX(current)}
+					y1={0}
+					y2={HEIGHT}
+					className="stroke-foreground"
+					strokeDasharray="4 4"
+					vectorEffect="non-scaling-stroke"
+				/>
+			</svg>
+			<div className="grid grid-cols-3 text-xs">
+				<div>
+					<p className="text-muted-foreground">Min Price</p>
+					<p className="font-mono">{formatPrice(priceAt(lower))}</p>
+				</div>
+				<div className="text-center">
+					<p className="text-muted-foreground">Current Price</p>
+					<p className="font-mono">{formatPrice(priceAt(current))}</p>
+				</div>
+				<div className="text-right">
+					<p className="text-muted-foreground">Max Price</p>
+					<p className="font-mono">{formatPrice(priceAt(upper))}</p>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,491 @@
+import { formatAmount } from "@my-better-t-app/shared/amounts";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+import { Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAccount } from "wagmi";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useOwnerProof } from "@/hooks/use-owner-proof";
+import { useRebalancePosition } from "@/hooks/use-rebalance-position";
+import { CHAIN_INFO, isSupportedChain } from "@/lib/tokens/multichain-tokens";
+import { tickToPrice } from "@/utils/price-range";
+import {
+	getTargetRange,
+	type RangeStrategy,
+	type StrategyDefinition,
+} from "@/utils/rebalance";
+import { queryClient, trpc, trpcClient } from "@/utils/trpc";
+
+// Fraction digits shown for a planned amount
+const DISPLAY_DECIMALS = 6;
+
+const RANGE_LABELS: Record<RangeStrategy, string> = {
+	fixed_width: "Fixed Width",
+	percent_band: "Percent Band",
+};
+
+const WIDTH_LABELS: Record<RangeStrategy, string> = {
+	fixed_width: "Tick spacings on each side",
+	percent_band: "% of the price on each side",
+};
+
+interface RebalanceToken {
+	symbol: string;
+	decimals: number;
+}
+
+interface PositionRebalancingProps {
+	chainId: number;
+	tokenId: string;
+	token0: RebalanceToken;
+	token1: RebalanceToken;
+	currentTick: number;
+	tickSpacing: number;
+	// Owner of a V4 position with liquidity
+	canManage: boolean;
+	onRebalanced: (newTokenId: string) => void;
+}
+
+function parseStrategy(
+	range: RangeStrategy,
+	width: string,
+): StrategyDefinition | null {
+	const parsed = Number.parseFloat(width);
+	if (!Number.isFinite(parsed) || parsed <= 0) return null;
+	if (range === "fixed_width" && !Number.isInteger(parsed)) return null;
+	if (range === "percent_band" && parsed >= 100) return null;
+	return { range, width: parsed };
+}
+
+function formatPlanAmount(amount: bigint, token: RebalanceToken): string {
+	return `${formatAmount(amount > 0n ? amount : 0n, token.decimals, {
+		maxDecimals: DISPLAY_DECIMALS,
+	})} ${token.symbol}`;
+}
+
+function formatPrice(price: number): string {
+	return Number(price.toPrecision(6)).toLocaleString();
+}
+
+/**
+ * Rebalancing strategy of a position and the positions it was rebalanced from
+ * and into. The owner can plan a rebalance onto the strategy's range, review
+ * its costs and send the remove, swap and mint as one batch.
+ */
+export function PositionRebalancing({
+	chainId,
+	tokenId,
+	token0,
+	token1,
+	currentTick,
+	tickSpacing,
+	canManage,
+	onRebalanced,
+}: PositionRebalancingProps) {
+	const { address } = useAccount();
+	const [range, setRange] = useState<RangeStrategy>("fixed_width");
+	const [width, setWidth] = useState("10");
+	const [triggerMinutes, setTriggerMinutes] = useState("");
+	const [slippageTolerance, setSlippageTolerance] = useState("0.5");
+	const [isSaving, setIsSaving] = useState(false);
+	const [loadedId, setLoadedId] = useState<number | null>(null);
+	const { getProof } = useOwnerProof();
+
+	const strategyQuery = trpc.rebalancing.getStrategy.queryOptions({
+		owner: address ?? "",
+		chainId,
+		tokenId,
+	});
+	const { data: strategyData } = useQuery({
+		...strategyQuery,
+		enabled: !!address && canManage,
+	});
+	const saved = strategyData?.success ? strategyData.strategy : null;
+
+	const { data: lineageData } = useQuery(
+		trpc.rebalancing.getLineage.queryOptions({ chainId, tokenId }),
+	);
+	const lineage = lineageData?.success ? lineageData.rebalances : [];
+
+	// Start the form from the saved strategy, once per strategy
+	useEffect(() => {
+		if (!saved || saved.id === loadedId) return;
+		setRange(saved.range);
+		setWidth(String(saved.width));
+		setTriggerMinutes(saved.triggerMinutes ? String(saved.triggerMinutes) : "");
+		setLoadedId(saved.id);
+	}, [saved, loadedId]);
+
+	const strategy = parseStrategy(range, width);
+	const slippage = Number.parseFloat(slippageTolerance) || 0.5;
+	const target = strategy
+		? getTargetRange(currentTick, tickSpacing, strategy)
+		: null;
+
+	const {
+		prepare,
+		confirm,
+		plan,
+		preview,
+		status,
+		error,
+		newTokenId,
+		isExecuting,
+		reset,
+	} = useRebalancePosition({
+		chainId,
+		tokenId,
+		strategy,
+		slippageTolerance: slippage,
+		owner: address,
+	});
+	// The reviewed plan is for the current inputs
+	const isLocked = isExecuting || status === "review";
+
+	useEffect(() => {
+		if (status === "success" && newTokenId) {
+			toast.success(`Rebalanced into position #${newTokenId}`);
+			reset();
+			onRebalanced(newTokenId);
+		} else if (status === "error") {
+			toast.error(error || "Rebalance failed. Please try again.");
+			// Reset status to idle after showing error so user can retry
+			setTimeout(() => reset(), 3000);
+		}
+	}, [status, error, newTokenId, reset, onRebalanced]);
+
+	const handleSave = async () => {
+		if (!address || !strategy) return;
+		setIsSaving(true);
+		try {
+			const minutes = Number.parseInt(triggerMinutes, 10);
+			const result = await trpcClient.rebalancing.saveStrategy.mutate({
+				owner: address,
+				chainId,
+				tokenId,
+				...strategy,
+				triggerMinutes: minutes > 0 ? minutes : undefined,
+				proof: await getProof(),
+			});
+			if (!result.success) throw new Error(result.message);
+			toast.success("Strategy saved");
+			await queryClient.invalidateQueries({
+				queryKey: strategyQuery.queryKey,
+			});
+		} catch (err) {
+			toast.error(
+				err instanceof Error ? err.message : "Failed to save the strategy",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleDelete = async () => {
+		if (!address || !saved) return;
+		try {
+			const result = await trpcClient.rebalancing.deleteStrategy.mutate({
+				owner: address,
+				id: saved.id,
+				proof: await getProof(),
+			});
+			if (!result.success) toast.error(result.message);
+			await queryClient.invalidateQueries({
+				queryKey: strategyQuery.queryKey,
+			});
+		} catch (err) {
+			toast.error(
+				err instanceof Error ? err.message : "Failed to delete the strategy",
+			);
+		}
+	};
+
+	const getButtonText = () => {
+		switch (status) {
+			case "planning":
+				return "Planning...";
+			case "simulating":
+				return "Simulating...";
+			case "switching-chain":
+				return "Switching network...";
+			case "executing":
+				return "Confirm in wallet...";
+			case "confirming":
+				return "Confirming...";
+			case "recording":
+				return "Recording...";
+			default:
+				return "Plan Rebalance";
+		}
+	};
+
+	if (!canManage && lineage.length === 0) return null;
+
+	const nativeCurrency = isSupportedChain(chainId)
+		? CHAIN_INFO[chainId].nativeCurrency
+		: { symbol: "ETH", decimals: 18 };
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<RefreshCw className="h-4 w-4" />
+					Rebalancing
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4 text-sm">
+				{lineage.length > 0 && (
+					<div className="space-y-1">
+						{lineage.map((rebalance) => (
+							<div key={rebalance.id} className="flex justify-between">
+								<span className="text-muted-foreground">
+									{new Date(rebalance.createdAt).toLocaleString()}
+								</span>
+								<span className="flex items-center gap-1 font-mono">
+									<LineageLink
+										chainId={chainId}
+										tokenId={rebalance.fromTokenId}
+										current={tokenId}
+									/>
+									→
+									<LineageLink
+										chainId={chainId}
+										tokenId={rebalance.toTokenId}
+										current={tokenId}
+									/>
+								</span>
+							</div>
+						))}
+					</div>
+				)}
+
+				{canManage && (
+					<div className="space-y-3">
+						{saved && (
+							<div className="flex items-center justify-between gap-4">
+								<div className="flex items-center gap-2">
+									<Badge variant="outline">{RANGE_LABELS[saved.range]}</Badge>
+									{saved.trigger.due ? (
+										<Badge variant="destructive">Rebalance due</Badge>
+									) : (
+										saved.trigger.outOfRangeSince && (
+											<span className="text-muted-foreground text-xs">
+												Out of range since{" "}
+												{new Date(
+													saved.trigger.outOfRangeSince,
+												).toLocaleString()}
+											</span>
+										)
+									)}
+								</div>
+								<Button
+									size="sm"
+									variant="ghost"
+									title="Delete strategy"
+									onClick={handleDelete}
+								>
+									<Trash2 className="h-4 w-4" />
+								</Button>
+							</div>
+						)}
+
+						<div className="flex gap-2">
+							{(Object.keys(RANGE_LABELS) as RangeStrategy[]).map((key) => (
+								<Button
+									key={key}
+									size="sm"
+									variant={range === key ? "default" : "outline"}
+									onClick={() => setRange(key)}
+									disabled={isLocked}
+								>
+									{RANGE_LABELS[key]}
+								</Button>
+							))}
+						</div>
+						<div className="grid gap-3 md:grid-cols-3">
+							<div className="space-y-1">
+								<Label htmlFor="rebalance-width">{WIDTH_LABELS[range]}</Label>
+								<Input
+									id="rebalance-width"
+									type="number"
+									min="0"
+									step={range === "fixed_width" ? "1" : "0.5"}
+									value={width}
+									onChange={(event) => setWidth(event.target.value)}
+									disabled={isLocked}
+								/>
+							</div>
+							<div className="space-y-1">
+								<Label htmlFor="rebalance-trigger">
+									Due after out of range (min)
+								</Label>
+								<Input
+									id="rebalance-trigger"
+									type="number"
+									min="0"
+									step="1"
+									placeholder="Off"
+									value={triggerMinutes}
+									onChange={(event) => setTriggerMinutes(event.target.value)}
+									disabled={isLocked}
+								/>
+							</div>
+							<div className="space-y-1">
+								<Label htmlFor="rebalance-slippage">
+									Slippage Tolerance (%)
+								</Label>
+								<Input
+									id="rebalance-slippage"
+									type="number"
+									step="0.1"
+									min="0.1"
+									max="50"
+									placeholder="0.5"
+									value={slippageTolerance}
+									onChange={(event) => setSlippageTolerance(event.target.value)}
+									disabled={isLocked}
+								/>
+							</div>
+						</div>
+						{target && (
+							<p className="text-muted-foreground text-xs">
+								New range:{" "}
+								{formatPrice(
+									tickToPrice(
+										target.tickLower,
+										token0.decimals,
+										token1.decimals,
+									),
+								)}{" "}
+								→{" "}
+								{formatPrice(
+									tickToPrice(
+										target.tickUpper,
+										token0.decimals,
+										token1.decimals,
+									),
+								)}{" "}
+								{token1.symbol} per {token0.symbol} (ticks{" "}
+								{target.tickLower.toLocaleString()} →{" "}
+								{target.tickUpper.toLocaleString()})
+							</p>
+						)}
+
+						{plan && status === "review" && (
+							<div className="space-y-2 rounded-md border p-3">
+								<PlanRow
+									label="Removed (at least)"
+									value={`${formatPlanAmount(plan.available0, token0)} + ${formatPlanAmount(plan.available1, token1)}`}
+								/>
+								{plan.swap ? (
+									<PlanRow
+										label="Swap"
+										value={
+											plan.swap.tokenIn.toLowerCase() ===
+											plan.removal.poolKey.token0.address.toLowerCase()
+												? `${formatPlanAmount(plan.swap.amountIn, token0)} → ≥ ${formatPlanAmount(plan.swap.amountOutMin, token1)}`
+												: `${formatPlanAmount(plan.swap.amountIn, token1)} → ≥ ${formatPlanAmount(plan.swap.amountOutMin, token0)}`
+										}
+									/>
+								) : (
+									<PlanRow label="Swap" value="Not needed" />
+								)}
+								<PlanRow
+									label="Deposited"
+									value={`${formatPlanAmount(plan.deposit0, token0)} + ${formatPlanAmount(plan.deposit1, token1)}`}
+								/>
+								<PlanRow
+									label="Left in wallet"
+									value={`${formatPlanAmount(plan.leftover0, token0)} + ${formatPlanAmount(plan.leftover1, token1)}`}
+								/>
+								<PlanRow
+									label="Swap cost"
+									value={formatPlanAmount(plan.swapCost, token1)}
+								/>
+								<PlanRow
+									label="Network cost"
+									value={
+										preview?.simulated
+											? `~${formatAmount(preview.gasCost, nativeCurrency.decimals, { maxDecimals: DISPLAY_DECIMALS })} ${nativeCurrency.symbol} (${preview.gasUsed.toString()} gas)`
+											: `Not simulated${preview ? `: ${preview.reason}` : ""}`
+									}
+								/>
+							</div>
+						)}
+
+						<div className="flex gap-2">
+							<Button
+								variant="outline"
+								onClick={handleSave}
+								disabled={!strategy || isSaving || isExecuting}
+							>
+								{isSaving ? "Saving..." : "Save Strategy"}
+							</Button>
+							{status === "review" ? (
+								<>
+									<Button className="flex-1" onClick={confirm}>
+										Rebalance
+									</Button>
+									<Button variant="ghost" onClick={reset}>
+										Cancel
+									</Button>
+								</>
+							) : (
+								<Button
+									className="flex-1"
+									onClick={prepare}
+									disabled={!strategy || !address || isExecuting}
+								>
+									{isExecuting && (
+										<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+									)}
+									{getButtonText()}
+								</Button>
+							)}
+						</div>
+						<p className="text-muted-foreground text-xs">
+							Removes all liquidity with its fees and burns the NFT, swaps the
+							excess token and mints a new position in the same pool.
+						</p>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
+
+function PlanRow({ label, value }: { label: string; value: string }) {
+	return (
+		<div className="flex justify-between gap-4">
+			<span className="text-muted-foreground">{label}</span>
+			<span className="text-right font-mono">{value}</span>
+		</div>
+	);
+}
+
+function LineageLink({
+	chainId,
+	tokenId,
+	current,
+}: {
+	chainId: number;
+	tokenId: string;
+	current: string;
+}) {
+	if (tokenId === current) return <span>#{tokenId}</span>;
+	return (
+		<Link
+			to="/positions/$chainId/$tokenId"
+			params={{ chainId: String(chainId), tokenId }}
+			search={{ version: undefined }}
+			className="hover:underline"
+		>
+			#{tokenId}
+		</Link>
+	);
+}
@@ -0,0 +1,365 @@
+import {
+	formatAmount,
+	isDecimalString,
+	parseAmount,
+} from "@my-better-t-app/shared/amounts";
+import { nearestUsableTick, TickMath } from "@uniswap/v3-sdk";
+import { History, Loader2 } from "lucide-react";
+import { type ChangeEvent, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { Token } from "@/types/token";
+import {
+	getPresetRange,
+	getTickSpacing,
+	type PriceRange,
+	priceRangeToTicks,
+} from "@/utils/price-range";
+import { trpcClient } from "@/utils/trpc";
+
+interface RangeBacktestProps {
+	tokenA: Token;
+	tokenB: Token;
+	feeTier: number;
+	// Range of tokenA in tokenB entered in the form, null when incomplete
+	priceRange: PriceRange | null;
+	// Price of tokenA in tokenB the presets are centered on
+	poolPrice: number | null;
+	amountA: string;
+	amountB: string;
+}
+
+interface Candidate {
+	label: string;
+	tickLower: number;
+	tickUpper: number;
+}
+
+type Source = "indexer" | "csv";
+
+type BacktestResult = NonNullable<
+	Awaited<ReturnType<typeof trpcClient.backtesting.backtest.mutate>>["result"]
+>;
+
+const WIDTH = 400;
+const HEIGHT = 160;
+const WINDOWS = [7, 30, 90];
+// Half widths in percent of the preset ranges compared with the form's range
+const PRESET_PERCENTS = [2, 5, 10, 25];
+// Line and legend colors, one per candidate
+const COLORS = [
+	{ stroke: "stroke-primary", fill: "bg-primary" },
+	{ stroke: "stroke-blue-500", fill: "bg-blue-500" },
+	{ stroke: "stroke-green-600", fill: "bg-green-600" },
+	{ stroke: "stroke-orange-500", fill: "bg-orange-500" },
+	{ stroke: "stroke-purple-500", fill: "bg-purple-500" },
+	{ stroke: "stroke-pink-500", fill: "bg-pink-500" },
+];
+
+function formatPercent(value: number): string {
+	return `${(value * 100).toFixed(2)}%`;
+}
+
+/**
+ * Replays a window of the pool's history against the form's range and a few
+ * presets, comparing the value, fees, time in range and IL of each
+ */
+export function RangeBacktest({
+	tokenA,
+	tokenB,
+	feeTier,
+	priceRange,
+	poolPrice,
+	amountA,
+	amountB,
+}: RangeBacktestProps) {
+	const [days, setDays] = useState(30);
+	const [source, setSource] = useState<Source>("indexer");
+	const [csv, setCsv] = useState<string | null>(null);
+	const [isRunning, setIsRunning] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	// Results keep the candidates they were run for, the form may change since
+	const [run, setRun] = useState<{
+		candidates: Candidate[];
+		result: BacktestResult;
+		windowShortened: boolean;
+	} | null>(null);
+
+	// Pools order their currencies by address, native currency is the zero address
+	const token0IsA = tokenA.address.toLowerCase() < tokenB.address.toLowerCase();
+	const [token0, token1] = token0IsA ? [tokenA, tokenB] : [tokenB, tokenA];
+
+	const candidates = useMemo(() => {
+		const tickSpacing = getTickSpacing(feeTier);
+		const list: Candidate[] = [];
+		if (priceRange) {
+			list.push({
+				label: "Your range",
+				...priceRangeToTicks(priceRange, tokenA, tokenB, tickSpacing),
+			});
+		}
+		if (poolPrice) {
+			for (const percent of PRESET_PERCENTS) {
+				list.push({
+					label: `±${percent}%`,
+					...priceRangeToTicks(
+						getPresetRange(poolPrice, percent),
+						tokenA,
+						tokenB,
+						tickSpacing,
+					),
+				});
+			}
+		}
+		list.push({
+			label: "Full range",
+			tickLower: nearestUsableTick(TickMath.MIN_TICK, tickSpacing),
+			tickUpper: nearestUsableTick(TickMath.MAX_TICK, tickSpacing),
+		});
+		return list;
+	}, [priceRange, poolPrice, tokenA, tokenB, feeTier]);
+
+	// Deposit in base units of token0 and token1, null until an amount is entered
+	const deposit = useMemo(() => {
+		const parse = (value: string, decimals: number) =>
+			isDecimalString(value) ? parseAmount(value, decimals) : 0n;
+		const depositA = parse(amountA, tokenA.decimals);
+		const depositB = parse(amountB, tokenB.decimals);
+		if (depositA === 0n && depositB === 0n) return null;
+		return token0IsA
+			? { amount0: depositA, amount1: depositB }
+			: { amount0: depositB, amount1: depositA };
+	}, [amountA, amountB, tokenA, tokenB, token0IsA]);
+
+	const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		setCsv(file ? await file.text() : null);
+	};
+
+	const handleRun = async () => {
+		if (!deposit) return;
+		setIsRunning(true);
+		setError(null);
+		try {
+			// Indexed swaps replay the last days, a CSV its own first to last swap
+			const to = Math.floor(Date.now() / 1000);
+			const timeWindow =
+				source === "indexer"
+					? { from: to - days * 24 * 60 * 60, to }
+					: { from: undefined, to: undefined };
+			const result = await trpcClient.backtesting.backtest.mutate({
+				chainId: Number.parseInt(tokenA.chainId, 10),
+				currency0: token0.address,
+				currency1: token1.address,
+				fee: feeTier,
+				ranges: candidates.map(({ tickLower, tickUpper }) => ({
+					tickLower,
+					tickUpper,
+				})),
+				depositAmount0: deposit.amount0.toString(),
+				depositAmount1: deposit.amount1.toString(),
+				...timeWindow,
+				source,
+				csv: source === "csv" ? (csv ?? undefined) : undefined,
+			});
+			if (!result.success) throw new Error(result.message);
+			setRun({
+				candidates,
+				result: result.result,
+				windowShortened: result.windowShortened,
+			});
+		} catch (err) {
+			setRun(null);
+			setError(
+				err instanceof Error ? err.message : "Failed to run the backtest",
+			);
+		} finally {
+			setIsRunning(false);
+		}
+	};
+
+	const chart = useMemo(() => {
+		if (!run) return null;
+		const { result } = run;
+		// Every line starts from the deposit's value when the window opens
+		const lines = result.ranges.map((range) => [
+			{ timestamp: result.from, value: Number(result.depositValue) },
+			...range.series.map((point) => ({
+				timestamp: point.timestamp,
+				value: Number(point.value),
+			})),
+		]);
+		const values = lines.flat().map((point) => point.value);
+		const min = Math.min(...values);
+		const max = Math.max(...values);
+		const span = max - min || 1;
+		const toX = (timestamp: number) =>
+			((timestamp - result.from) / (result.to - result.from)) * WIDTH;
+		const toY = (value: number) =>
+			HEIGHT - 5 - ((value - min) / span) * (HEIGHT - 10);
+		return {
+			paths: lines.map((line) =>
+				line
+					.map(
+						(point, i) =>
+							`${i === 0 ? "M" : "L"}${toX(point.timestamp)},${toY(point.value)}`,
+					)
+					.join(" "),
+			),
+			min,
+			max,
+		};
+	}, [run]);
+
+	// Values come in token1 base units, as strings or as chart numbers
+	const formatValue = (value: string | number) => {
+		const amount =
+			typeof value === "string" ? BigInt(value) : BigInt(Math.round(value));
+		return `${formatAmount(amount, token1.decimals, { maxDecimals: 6 })} ${token1.symbol}`;
+	};
+
+	return (
+		<div className="space-y-3 rounded-md border p-3">
+			<div className="flex items-center gap-2 font-medium text-sm">
+				<History className="h-4 w-4" />
+				Backtest ranges
+			</div>
+			<div className="flex flex-wrap items-center gap-2">
+				{source === "indexer" ? (
+					WINDOWS.map((windowDays) => (
+						<Button
+							key={windowDays}
+							variant={days === windowDays ? "default" : "outline"}
+							size="sm"
+							onClick={() => setDays(windowDays)}
+						>
+							{windowDays}d
+						</Button>
+					))
+				) : (
+					<span className="text-muted-foreground text-xs">
+						Replays the CSV from its first to its last swap
+					</span>
+				)}
+				<div className="ml-auto flex gap-1">
+					<Button
+						variant={source === "indexer" ? "default" : "outline"}
+						size="sm"
+						onClick={() => setSource("indexer")}
+					>
+						Indexed swaps
+					</Button>
+					<Button
+						variant={source === "csv" ? "default" : "outline"}
+						size="sm"
+						onClick={() => setSource("csv")}
+					>
+						CSV
+					</Button>
+				</div>
+			</div>
+			{source === "csv" && (
+				<Input type="file" accept=".csv,text/csv" onChange={handleFile} />
+			)}
+			<Button
+				variant="outline"
+				className="w-full"
+				disabled={!deposit || isRunning || (source === "csv" && !csv)}
+				onClick={handleRun}
+			>
+				{isRunning ? (
+					<>
+						<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+						Replaying swaps...
+					</>
+				) : (
+					`Backtest ${candidates.length} ranges over ${source === "indexer" ? `${days} days` : "the CSV"}`
+				)}
+			</Button>
+			{!deposit && (
+				<p className="text-muted-foreground text-xs">
+					Enter deposit amounts to backtest them
+				</p>
+			)}
+			{error && <p className="text-red-600 text-sm">{error}</p>}
+
+			{run && chart && (
+				<div className="space-y-2">
+					<svg
+						viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+						preserveAspectRatio="none"
+						className="h-40 w-full rounded-md border"
+					>
+						<title>Simulated position value</title>
+						{chart.paths.map((path, i) => (
+							<path
+								key={run.candidates[i].label}
+								d={path}
+								fill="none"
+								className={COLORS[i % COLORS.length].stroke}
+								strokeWidth={2}
+								vectorEffect="non-scaling-stroke"
+							/>
+						))}
+					</svg>
+					<div className="flex justify-between text-muted-foreground text-xs">
+						<span>{new Date(run.result.from * 1000).toLocaleDateString()}</span>
+						<span>
+							{formatValue(chart.min)} – {formatValue(chart.max)}
+						</span>
+						<span>{new Date(run.result.to * 1000).toLocaleDateString()}</span>
+					</div>
+					<div className="overflow-x-auto">
+						<table className="w-full text-xs">
+							<thead className="text-muted-foreground">
+								<tr className="text-left">
+									<th className="py-1 font-normal">Range</th>
+									<th className="py-1 font-normal">Fees</th>
+									<th className="py-1 font-normal">In range</th>
+									<th className="py-1 font-normal">IL</th>
+									<th className="py-1 text-right font-normal">Final value</th>
+								</tr>
+							</thead>
+							<tbody>
+								{run.result.ranges.map((range, i) => (
+									<tr key={run.candidates[i].label} className="border-t">
+										<td className="py-1">
+											<span className="flex items-center gap-2">
+												<span
+													className={`h-2 w-2 rounded-full ${COLORS[i % COLORS.length].fill}`}
+												/>
+												{run.candidates[i].label}
+											</span>
+										</td>
+										<td className="py-1">{formatValue(range.feesValue)}</td>
+										<td className="py-1">{formatPercent(range.timeInRange)}</td>
+										<td className="py-1">
+											{formatPercent(range.impermanentLoss)}
+										</td>
+										<td className="py-1 text-right">
+											{formatValue(range.finalValue)}
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+					<p className="text-muted-foreground text-xs">
+						{run.result.swapCount} swaps replayed against a deposit worth{" "}
+						{formatValue(run.result.depositValue)}. Fees are estimated from each
+						range's share of the pool's liquidity, values are at the ending
+						price.
+					</p>
+					{run.windowShortened && (
+						<p className="text-xs text-yellow-700 dark:text-yellow-300">
+							The history only covers{" "}
+							{new Date(run.result.from * 1000).toLocaleDateString()} to{" "}
+							{new Date(run.result.to * 1000).toLocaleDateString()}, so the
+							backtest ran over that part of the window.
+						</p>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,230 @@
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import { AlertCircle } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import type { Hash } from "viem";
+import { useAccount, useConfig, useSwitchChain } from "wagmi";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useCallsStatus } from "@/hooks/use-calls-status";
+import { useSendCalls } from "@/hooks/use-send-calls";
+import { useTrackedTransactions } from "@/hooks/use-tracked-transactions";
+import {
+	deleteBatch,
+	getBatchStatus,
+	isSessionBatch,
+	type TrackedBatch,
+	updateBatch,
+} from "@/lib/transactions/transaction-store";
+import { getIntentLabel } from "@/utils/activity";
+
+/**
+ * Picks up monitoring of a batch sent before the page was reloaded. Batches
+ * are followed through the wallet's EIP-5792 status, sequential steps through
+ * their receipts, which also reveal transactions sped up or cancelled in the
+ * wallet.
+ */
+function BatchMonitor({ batch }: { batch: TrackedBatch }) {
+	const config = useConfig();
+
+	const { data: callsStatus } = useCallsStatus({
+		id: batch.mode === "batch" ? batch.callsId : undefined,
+		mode: "batch",
+		query: {
+			enabled: batch.mode === "batch",
+			refetchInterval: 1000,
+		},
+	});
+
+	useEffect(() => {
+		if (!callsStatus || callsStatus.status === "pending") return;
+
+		const receipts = callsStatus.receipts ?? [];
+		const stepStatus =
+			callsStatus.status === "success" ? "confirmed" : "reverted";
+		updateBatch(batch.id, (current) => ({
+			...current,
+			status: callsStatus.status === "success" ? "success" : "failure",
+			steps: current.steps.map((step, i) => ({
+				...step,
+				status: stepStatus,
+				hash: (receipts[i] ?? receipts[0])?.transactionHash,
+			})),
+		}));
+	}, [callsStatus, batch.id]);
+
+	// Hashes of sequential steps that were in flight during the reload
+	const inFlight = useMemo(
+		() =>
+			batch.steps.flatMap((step, index) =>
+				batch.mode === "sequential" && step.status === "submitted" && step.hash
+					? [{ index, hash: step.hash }]
+					: [],
+			),
+		[batch.steps, batch.mode],
+	);
+	// Steps are re-read on every store change, each hash is watched once
+	const watched = useRef(new Set<Hash>());
+
+	useEffect(() => {
+		if (batch.mode !== "sequential") return;
+
+		// Reloaded between steps: nothing to wait for
+		if (inFlight.length === 0) {
+			if (getBatchStatus(batch.steps) !== batch.status) {
+				updateBatch(batch.id, (current) => ({
+					...current,
+					status: getBatchStatus(current.steps),
+				}));
+			}
+			return;
+		}
+
+		const watch = async (index: number, hash: Hash) => {
+			const { waitForTransactionReceipt } = await import("wagmi/actions");
+
+			let replaced = false;
+			const receipt = await waitForTransactionReceipt(config, {
+				hash,
+				chainId: batch.chainId,
+				onReplaced: (replacement) => {
+					replaced = replacement.reason !== "repriced";
+				},
+			});
+
+			await updateBatch(batch.id, (current) => {
+				const steps = current.steps.map((step, i) => {
+					if (i !== index) return step;
+					return {
+						...step,
+						hash: receipt.transactionHash,
+						replacedHash:
+							receipt.transactionHash !== hash ? hash : step.replacedHash,
+						status: replaced
+							? ("replaced" as const)
+							: receipt.status === "success"
+								? ("confirmed" as const)
+								: ("reverted" as const),
+					};
+				});
+				return { ...current, steps, status: getBatchStatus(steps) };
+			});
+		};
+
+		for (const { index, hash } of inFlight) {
+			if (watched.current.has(hash)) continue;
+			watched.current.add(hash);
+			watch(index, hash).catch((error) => {
+				// Still unmined, monitoring resumes on the next load
+				console.error(`Failed to monitor transaction ${hash}:`, error);
+			});
+		}
+	}, [
+		batch.id,
+		batch.mode,
+		batch.chainId,
+		batch.steps,
+		batch.status,
+		inFlight,
+		config,
+	]);
+
+	return null;
+}
+
+function InterruptedBatch({ batch }: { batch: TrackedBatch }) {
+	const { chainId } = useAccount();
+	const { switchChainAsync } = useSwitchChain();
+	const { resume, isPending } = useSendCalls({ enable5792: false });
+	const [isSwitching, setIsSwitching] = useState(false);
+
+	const confirmed = batch.steps.filter(
+		(step) => step.status === "confirmed",
+	).length;
+
+	const handleContinue = async () => {
+		try {
+			if (chainId !== batch.chainId) {
+				setIsSwitching(true);
+				await switchChainAsync({ chainId: batch.chainId });
+				setIsSwitching(false);
+			}
+			await resume(batch.id);
+			toast.success(`${getIntentLabel(batch)} completed`);
+		} catch (error) {
+			setIsSwitching(false);
+			toast.error(describeError(error, "Transaction failed"));
+		}
+	};
+
+	return (
+		<div className="space-y-2 text-sm">
+			<p>
+				<span className="font-medium">{getIntentLabel(batch)}</span>{" "}
+				<span className="text-muted-foreground">
+					stopped after {confirmed} of {batch.steps.length} steps
+				</span>
+			</p>
+			<div className="flex gap-2">
+				<Button
+					size="sm"
+					onClick={handleContinue}
+					disabled={isPending || isSwitching}
+				>
+					{isSwitching
+						? "Switching network..."
+						: isPending
+							? "Sending..."
+							: "Continue remaining steps"}
+				</Button>
+				<Button
+					size="sm"
+					variant="outline"
+					onClick={() => deleteBatch(batch.id)}
+					disabled={isPending}
+				>
+					Dismiss
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Resumes monitoring of the connected account's transactions after a reload
+ * and offers to continue batches whose remaining steps were never sent.
+ */
+export function TransactionTracker() {
+	const { batches } = useTrackedTransactions();
+
+	// Sequential batches of this session are followed by the hook sending them
+	const monitored = batches.filter(
+		(batch) =>
+			batch.status === "pending" &&
+			!(batch.mode === "sequential" && isSessionBatch(batch.id)),
+	);
+	const interrupted = batches.filter((batch) => batch.status === "interrupted");
+
+	return (
+		<>
+			{monitored.map((batch) => (
+				<BatchMonitor key={batch.id} batch={batch} />
+			))}
+			{interrupted.length > 0 && (
+				<Card className="fixed bottom-4 left-4 z-50 w-96">
+					<CardHeader>
+						<CardTitle className="flex items-center gap-2">
+							<AlertCircle className="h-4 w-4 text-yellow-600" />
+							Unfinished Transactions
+						</CardTitle>
+					</CardHeader>
+					<CardContent className="space-y-4">
+						{interrupted.map((batch) => (
+							<InterruptedBatch key={batch.id} batch={batch} />
+						))}
+					</CardContent>
+				</Card>
+			)}
+		</>
+	);
+}
@@ -4,6 +4,7 @@
  * Non-virtualized token list for displaying tokens without complex dependencies
  */
 
+import { formatAmount } from "@my-better-t-app/shared/amounts";
 import { AlertTriangle, ChevronRight, Star } from "lucide-react";
 import type React from "react";
 import { useCallback } from "react";
@@ -49,13 +50,19 @@ export function SimpleTokenList({
 	onToggleFavorite,
 }: SimpleTokenListProps) {
 	const formatBalance = useCallback((amount: string, decimals: number) => {
-		const value = Number.parseFloat(amount) / 10 ** decimals;
-		if (value === 0) return "0";
-		if (value < 0.001) return "< 0.001";
-		if (value < 1) return value.toFixed(6);
-		if (value < 1000) return value.toFixed(3);
-		if (value < 1000000) return `${(value / 1000).toFixed(1)}K`;
-		return `${(value / 1000000).toFixed(1)}M`;
+		const value = BigInt(amount);
+		const unit = 10n ** BigInt(decimals);
+		if (value === 0n) return "0";
+		if (value * 1000n < unit) return "< 0.001";
+		if (value < unit) return formatAmount(value, decimals, { maxDecimals: 6 });
+		if (value < 1000n * unit) {
+			return formatAmount(value, decimals, { maxDecimals: 3 });
+		}
+		// Thousands and millions are the same digits with the decimal point moved
+		if (value < 1000000n * unit) {
+			return `${formatAmount(value, decimals + 3, { maxDecimals: 1 })}K`;
+		}
+		return `${formatAmount(value, decimals + 6, { maxDecimals: 1 })}M`;
 	}, []);
 
 	const formatUsdValue = useCallback((valueUsd: number | null) => {
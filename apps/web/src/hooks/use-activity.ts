@@ -0,0 +1,81 @@
+import { useQueries } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { useConfig } from "wagmi";
+import { getPublicClient } from "wagmi/actions";
+import {
+	getBatchStatus,
+	type TrackedBatch,
+	updateBatch,
+} from "@/lib/transactions/transaction-store";
+import { reconcileBatch, type StepActivity } from "@/utils/activity";
+import { useTrackedTransactions } from "./use-tracked-transactions";
+
+export interface ActivityEntry {
+	batch: TrackedBatch;
+	steps: StepActivity[] | undefined; // undefined until reconciled
+	isLoading: boolean;
+}
+
+/**
+ * Hook to list the connected account's tracked transactions, each step
+ * reconciled with its on-chain receipt. Steps the store still shows as in
+ * flight but that were mined are written back to the store.
+ *
+ * @param chainId - Only list transactions on this chain (default: all chains)
+ * @returns Activity entries, newest first, and loading state
+ */
+export function useActivity({ chainId }: { chainId?: number } = {}) {
+	const config = useConfig();
+	const { batches, isLoading } = useTrackedTransactions();
+
+	const filtered = useMemo(
+		() =>
+			chainId ? batches.filter((batch) => batch.chainId === chainId) : batches,
+		[batches, chainId],
+	);
+
+	const reconciled = useQueries({
+		queries: filtered.map((batch) => ({
+			queryKey: ["activity", batch.id, batch.updatedAt],
+			queryFn: async () => {
+				const client = getPublicClient(config, { chainId: batch.chainId });
+				if (!client) {
+					throw new Error(`No RPC client for chain ${batch.chainId}`);
+				}
+
+				const steps = await reconcileBatch(client, batch);
+
+				const mined = steps.some(
+					(step, i) =>
+						batch.steps[i].status === "submitted" &&
+						step.status !== "submitted",
+				);
+				if (mined) {
+					await updateBatch(batch.id, (current) => {
+						const updated = current.steps.map((step, i) =>
+							step.status === "submitted"
+								? { ...step, status: steps[i].status, hash: steps[i].hash }
+								: step,
+						);
+						return {
+							...current,
+							steps: updated,
+							status: getBatchStatus(updated),
+						};
+					});
+				}
+
+				return steps;
+			},
+			staleTime: Number.POSITIVE_INFINITY,
+		})),
+	});
+
+	const entries: ActivityEntry[] = filtered.map((batch, i) => ({
+		batch,
+		steps: reconciled[i]?.data,
+		isLoading: reconciled[i]?.isLoading ?? true,
+	}));
+
+	return { entries, isLoading };
+}
@@ -1,8 +1,7 @@
 import { useMemo } from "react";
 import { useQueries } from "@tanstack/react-query";
 import type { TransactionReceipt } from "viem";
-import { useConfig } from "wagmi";
-import { useCallsStatus as useWagmiCallsStatus } from "wagmi/experimental";
+import { useCallsStatus as useWagmiCallsStatus, useConfig } from "wagmi";
 
 interface UseCallsStatusParams {
 	id: string | undefined;
@@ -0,0 +1,211 @@
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Address, Hex } from "viem";
+import { useAccount, useSwitchChain } from "wagmi";
+import {
+	buildV3CollectCalldata,
+	buildV4CollectCalldata,
+} from "@/utils/collect-fees";
+import { trpcClient } from "@/utils/trpc";
+import { useCallsStatus } from "./use-calls-status";
+import { useSendCalls } from "./use-send-calls";
+
+type Status =
+	| "idle"
+	| "preparing"
+	| "switching-chain"
+	| "executing"
+	| "confirming"
+	| "success"
+	| "error";
+
+interface CollectTarget {
+	tokenId: string;
+	protocolVersion: "PROTOCOL_VERSION_V3" | "PROTOCOL_VERSION_V4";
+}
+
+interface UseCollectFeesParams {
+	chainId: number;
+	positions: CollectTarget[];
+	receiveNative: boolean;
+	owner: Address | undefined;
+}
+
+interface UseCollectFeesReturn {
+	execute: () => Promise<void>;
+	status: Status;
+	error: string | null;
+	transactionHash: string | null;
+	callsId: string | undefined;
+	isReady: boolean;
+	isExecuting: boolean;
+	reset: () => void;
+}
+
+/**
+ * Hook to collect uncollected fees from one or more positions on a single chain
+ * V3 and V4 positions are each grouped into one call against their position manager
+ */
+export function useCollectFees({
+	chainId,
+	positions,
+	receiveNative,
+	owner,
+}: UseCollectFeesParams): UseCollectFeesReturn {
+	const [status, setStatus] = useState<Status>("idle");
+	const [error, setError] = useState<string | null>(null);
+
+	const { chainId: walletChainId } = useAccount();
+	const { switchChainAsync } = useSwitchChain();
+
+	const {
+		sendCalls,
+		data: sendResult,
+		reset: resetSendCalls,
+	} = useSendCalls({ chainId });
+
+	const { data: callsStatus } = useCallsStatus({
+		id: sendResult?.id,
+		mode: sendResult?.mode,
+		transactionHashes: sendResult?.transactionHashes,
+		query: {
+			enabled: !!sendResult?.id,
+			refetchInterval: 1000, // Poll every second
+		},
+	});
+
+	const isReady = useMemo(() => {
+		return !!owner && positions.length > 0 && status === "idle";
+	}, [owner, positions.length, status]);
+
+	const isExecuting = useMemo(() => {
+		return ["preparing", "switching-chain", "executing", "confirming"].includes(
+			status,
+		);
+	}, [status]);
+
+	const execute = useCallback(async () => {
+		if (!owner || positions.length === 0) {
+			setError("Missing required parameters");
+			setStatus("error");
+			return;
+		}
+
+		try {
+			// 1. Re-read fees and ownership via tRPC
+			setStatus("preparing");
+			setError(null);
+
+			const trpcResult = await trpcClient.uniswap.collectFees.mutate({
+				chainId,
+				owner,
+				positions,
+			});
+
+			if (!trpcResult.success) {
+				setError(trpcResult.message || "Failed to prepare transaction");
+				setStatus("error");
+				return;
+			}
+
+			// 2. Build one call per protocol version
+			const { contractAddresses } = trpcResult;
+			const deadline = Math.floor(Date.now() / 1000) + 20 * 60; // 20 minutes from now
+
+			const v4Positions = trpcResult.positions.filter(
+				(p) => p.protocolVersion === "PROTOCOL_VERSION_V4",
+			);
+			const v3Positions = trpcResult.positions.filter(
+				(p) => p.protocolVersion === "PROTOCOL_VERSION_V3",
+			);
+
+			const calls: Array<{ to: Address; data: Hex; value: bigint }> = [];
+
+			if (v4Positions.length > 0 && contractAddresses.positionManager) {
+				calls.push({
+					to: contractAddresses.positionManager,
+					data: buildV4CollectCalldata(
+						v4Positions,
+						owner,
+						receiveNative,
+						deadline,
+					),
+					value: 0n,
+				});
+			}
+
+			if (
+				v3Positions.length > 0 &&
+				contractAddresses.nonfungiblePositionManager
+			) {
+				calls.push({
+					to: contractAddresses.nonfungiblePositionManager,
+					data: buildV3CollectCalldata(v3Positions, owner, receiveNative),
+					value: 0n,
+				});
+			}
+
+			if (calls.length === 0) {
+				setError("No fees to collect");
+				setStatus("error");
+				return;
+			}
+
+			// 3. Positions live on a specific chain, make sure the wallet is there
+			if (walletChainId !== chainId) {
+				setStatus("switching-chain");
+				await switchChainAsync({ chainId });
+			}
+
+			// 4. Execute
+			setStatus("executing");
+			const executionResult = await sendCalls({ intent: "collect", calls });
+
+			console.log("Transaction execution result:", executionResult);
+			setStatus("confirming");
+		} catch (err) {
+			console.error("Collect fees error:", err);
+			setError(describeError(err, "Transaction failed"));
+			setStatus("error");
+		}
+	}, [
+		owner,
+		positions,
+		chainId,
+		receiveNative,
+		walletChainId,
+		switchChainAsync,
+		sendCalls,
+	]);
+
+	const reset = useCallback(() => {
+		setStatus("idle");
+		setError(null);
+		resetSendCalls();
+	}, [resetSendCalls]);
+
+	// Monitor transaction status
+	useEffect(() => {
+		if (!callsStatus) return;
+
+		if (callsStatus.status === "success") {
+			setStatus("success");
+		} else if (callsStatus.status === "failure") {
+			setError("Transaction failed");
+			setStatus("error");
+		}
+	}, [callsStatus]);
+
+	const transactionHash = callsStatus?.receipts?.[0]?.transactionHash || null;
+
+	return {
+		execute,
+		status,
+		error,
+		transactionHash,
+		callsId: sendResult?.id,
+		isReady,
+		isExecuting,
+		reset,
+	};
+}
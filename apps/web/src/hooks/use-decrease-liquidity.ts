@@ -0,0 +1,206 @@
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import { Percent } from "@uniswap/sdk-core";
+import { V4PositionManager } from "@uniswap/v4-sdk";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Address, Hex } from "viem";
+import { useAccount, useSwitchChain } from "wagmi";
+import { trpcClient } from "@/utils/trpc";
+import { buildV4Position } from "@/utils/v4-position";
+import { useCallsStatus } from "./use-calls-status";
+import { useSendCalls } from "./use-send-calls";
+
+type Status =
+	| "idle"
+	| "preparing"
+	| "switching-chain"
+	| "executing"
+	| "confirming"
+	| "success"
+	| "error";
+
+interface UseDecreaseLiquidityParams {
+	chainId: number;
+	tokenId: string;
+	liquidityPercentage: number;
+	slippageTolerance: number;
+	owner: Address | undefined;
+}
+
+interface UseDecreaseLiquidityReturn {
+	execute: () => Promise<void>;
+	status: Status;
+	error: string | null;
+	transactionHash: string | null;
+	callsId: string | undefined;
+	isReady: boolean;
+	isExecuting: boolean;
+	reset: () => void;
+}
+
+/**
+ * Hook to remove a percentage of a V4 position's liquidity
+ * Withdrawing 100% also burns the position NFT
+ */
+export function useDecreaseLiquidity({
+	chainId,
+	tokenId,
+	liquidityPercentage,
+	slippageTolerance,
+	owner,
+}: UseDecreaseLiquidityParams): UseDecreaseLiquidityReturn {
+	const [status, setStatus] = useState<Status>("idle");
+	const [error, setError] = useState<string | null>(null);
+
+	const { chainId: walletChainId } = useAccount();
+	const { switchChainAsync } = useSwitchChain();
+
+	const {
+		sendCalls,
+		data: sendResult,
+		reset: resetSendCalls,
+	} = useSendCalls({ chainId });
+
+	const { data: callsStatus } = useCallsStatus({
+		id: sendResult?.id,
+		mode: sendResult?.mode,
+		transactionHashes: sendResult?.transactionHashes,
+		query: {
+			enabled: !!sendResult?.id,
+			refetchInterval: 1000, // Poll every second
+		},
+	});
+
+	const isReady = useMemo(() => {
+		return (
+			!!owner &&
+			liquidityPercentage >= 1 &&
+			liquidityPercentage <= 100 &&
+			status === "idle"
+		);
+	}, [owner, liquidityPercentage, status]);
+
+	const isExecuting = useMemo(() => {
+		return ["preparing", "switching-chain", "executing", "confirming"].includes(
+			status,
+		);
+	}, [status]);
+
+	const execute = useCallback(async () => {
+		if (!owner) {
+			setError("Missing required parameters");
+			setStatus("error");
+			return;
+		}
+
+		try {
+			// 1. Read the position and pool state via tRPC
+			setStatus("preparing");
+			setError(null);
+
+			const trpcResult = await trpcClient.uniswap.decreaseLiquidity.mutate({
+				chainId,
+				tokenId,
+				owner,
+				liquidityPercentage,
+			});
+
+			if (!trpcResult.success) {
+				setError(trpcResult.message || "Failed to prepare transaction");
+				setStatus("error");
+				return;
+			}
+
+			// 2. Build calldata using @uniswap/v4-sdk
+			const { poolState, poolKey, positionParams, contractAddresses } =
+				trpcResult;
+
+			const position = buildV4Position(poolKey, poolState, positionParams);
+
+			const slippagePct = new Percent(
+				Math.floor(slippageTolerance * 100),
+				10_000,
+			);
+			const deadline = Math.floor(Date.now() / 1000) + 20 * 60; // 20 minutes from now
+
+			const { calldata, value } = V4PositionManager.removeCallParameters(
+				position,
+				{
+					slippageTolerance: slippagePct,
+					deadline,
+					tokenId: positionParams.tokenId,
+					liquidityPercentage: new Percent(
+						positionParams.liquidityPercentage,
+						100,
+					),
+					burnToken: positionParams.burnToken,
+				},
+			);
+
+			// 3. The position lives on a specific chain, make sure the wallet is there
+			if (walletChainId !== chainId) {
+				setStatus("switching-chain");
+				await switchChainAsync({ chainId });
+			}
+
+			// 4. Execute
+			setStatus("executing");
+			const executionResult = await sendCalls({
+				intent: "decrease",
+				calls: [
+					{
+						to: contractAddresses.positionManager,
+						data: calldata as Hex,
+						value: BigInt(value),
+					},
+				],
+			});
+
+			console.log("Transaction execution result:", executionResult);
+			setStatus("confirming");
+		} catch (err) {
+			console.error("Decrease liquidity error:", err);
+			setError(describeError(err, "Transaction failed"));
+			setStatus("error");
+		}
+	}, [
+		owner,
+		chainId,
+		tokenId,
+		liquidityPercentage,
+		slippageTolerance,
+		walletChainId,
+		switchChainAsync,
+		sendCalls,
+	]);
+
+	const reset = useCallback(() => {
+		setStatus("idle");
+		setError(null);
+		resetSendCalls();
+	}, [resetSendCalls]);
+
+	// Monitor transaction status
+	useEffect(() => {
+		if (!callsStatus) return;
+
+		if (callsStatus.status === "success") {
+			setStatus("success");
+		} else if (callsStatus.status === "failure") {
+			setError("Transaction failed");
+			setStatus("error");
+		}
+	}, [callsStatus]);
+
+	const transactionHash = callsStatus?.receipts?.[0]?.transactionHash || null;
+
+	return {
+		execute,
+		status,
+		error,
+		transactionHash,
+		callsId: sendResult?.id,
+		isReady,
+		isExecuting,
+		reset,
+	};
+}
@@ -0,0 +1,347 @@
+import { isDecimalString, parseAmount } from "@my-better-t-app/shared/amounts";
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import { Percent } from "@uniswap/sdk-core";
+import { Position, V4PositionManager } from "@uniswap/v4-sdk";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { type Address, formatUnits, type Hex, zeroAddress } from "viem";
+import { useAccount, usePublicClient, useSwitchChain } from "wagmi";
+import { buildPermit2ApprovalCalls } from "@/utils/permit2";
+import { trpcClient } from "@/utils/trpc";
+import { buildV4Pool } from "@/utils/v4-position";
+import { useBalanceChecks } from "./use-balance-checks";
+import { useCallsStatus } from "./use-calls-status";
+import { useSendCalls } from "./use-send-calls";
+
+type Status =
+	| "idle"
+	| "checking-balance"
+	| "preparing"
+	| "checking-allowance"
+	| "switching-chain"
+	| "executing"
+	| "confirming"
+	| "success"
+	| "error";
+
+interface IncreaseToken {
+	address: string;
+	symbol: string;
+	decimals: number;
+}
+
+export interface IncreaseTarget {
+	chainId: number;
+	tokenId: string;
+	token0: IncreaseToken;
+	token1: IncreaseToken;
+}
+
+interface UseIncreaseLiquidityParams {
+	position: IncreaseTarget | null;
+	amount0: string;
+	amount1: string;
+	slippageTolerance: number;
+	owner: Address | undefined;
+}
+
+interface BalanceInfo {
+	address: Address;
+	chainId: number;
+	decimals: number;
+	balance: bigint;
+	requiredAmount: bigint;
+	hasSufficientBalance: boolean;
+}
+
+interface UseIncreaseLiquidityReturn {
+	execute: () => Promise<void>;
+	status: Status;
+	balances: BalanceInfo[];
+	balancesLoading: boolean;
+	error: string | null;
+	balanceError: string | null;
+	transactionHash: string | null;
+	callsId: string | undefined;
+	isReady: boolean;
+	isExecuting: boolean;
+	reset: () => void;
+}
+
+// Empty or partially typed amounts count as zero
+function toBaseUnits(amount: string, decimals: number): bigint {
+	return isDecimalString(amount) ? parseAmount(amount, decimals) : 0n;
+}
+
+/**
+ * Hook to add liquidity to an existing V4 position, keeping its pool key and tick range
+ * Includes balance checks, Permit2 approvals, and transaction execution
+ */
+export function useIncreaseLiquidity({
+	position,
+	amount0,
+	amount1,
+	slippageTolerance,
+	owner,
+}: UseIncreaseLiquidityParams): UseIncreaseLiquidityReturn {
+	const [status, setStatus] = useState<Status>("idle");
+	const [error, setError] = useState<string | null>(null);
+
+	const { chainId: walletChainId } = useAccount();
+	const { switchChainAsync } = useSwitchChain();
+	const publicClient = usePublicClient({ chainId: position?.chainId });
+
+	// Parse amounts to bigint for balance checks, skipping tokens with nothing to deposit
+	const tokensForBalanceCheck = useMemo(() => {
+		if (!position) return [];
+
+		return [
+			{ token: position.token0, amount: amount0 },
+			{ token: position.token1, amount: amount1 },
+		]
+			.map(({ token, amount }) => ({
+				address: token.address as Address,
+				chainId: position.chainId,
+				decimals: token.decimals,
+				requiredAmount: toBaseUnits(amount, token.decimals),
+			}))
+			.filter((token) => token.requiredAmount > 0n);
+	}, [position, amount0, amount1]);
+
+	const {
+		balances,
+		isLoading: balancesLoading,
+		error: balancesError,
+	} = useBalanceChecks({
+		tokens: tokensForBalanceCheck,
+		owner: owner!,
+		enabled: !!owner && tokensForBalanceCheck.length > 0,
+	});
+
+	const {
+		sendCalls,
+		data: sendResult,
+		reset: resetSendCalls,
+	} = useSendCalls({ chainId: position?.chainId });
+
+	const { data: callsStatus } = useCallsStatus({
+		id: sendResult?.id,
+		mode: sendResult?.mode,
+		transactionHashes: sendResult?.transactionHashes,
+		query: {
+			enabled: !!sendResult?.id,
+			refetchInterval: 1000, // Poll every second
+		},
+	});
+
+	// Generate balance error message
+	const balanceError = useMemo(() => {
+		if (balancesLoading || !position || balances.length === 0) return null;
+
+		const insufficient = balances.filter((b) => !b.hasSufficientBalance);
+		if (insufficient.length === 0) return null;
+
+		const getSymbol = (address: Address) =>
+			address.toLowerCase() === position.token0.address.toLowerCase()
+				? position.token0.symbol
+				: position.token1.symbol;
+
+		if (insufficient.length === 1) {
+			const token = insufficient[0];
+			const shortage = token.requiredAmount - token.balance;
+			return `Need ${formatUnits(shortage, token.decimals)} more ${getSymbol(token.address)}`;
+		}
+
+		return `Insufficient ${insufficient.map((b) => getSymbol(b.address)).join(" and ")} balance`;
+	}, [balances, balancesLoading, position]);
+
+	const isReady = useMemo(() => {
+		return (
+			!!position &&
+			!!owner &&
+			tokensForBalanceCheck.length > 0 &&
+			!balanceError &&
+			!balancesLoading &&
+			status === "idle"
+		);
+	}, [
+		position,
+		owner,
+		tokensForBalanceCheck.length,
+		balanceError,
+		balancesLoading,
+		status,
+	]);
+
+	const isExecuting = useMemo(() => {
+		return [
+			"checking-balance",
+			"preparing",
+			"checking-allowance",
+			"switching-chain",
+			"executing",
+			"confirming",
+		].includes(status);
+	}, [status]);
+
+	const execute = useCallback(async () => {
+		if (!position || !owner || !publicClient) {
+			setError("Missing required parameters");
+			setStatus("error");
+			return;
+		}
+
+		try {
+			// 1. Check balances
+			setStatus("checking-balance");
+			setError(null);
+
+			if (balances.some((b) => !b.hasSufficientBalance)) {
+				// Balance error is already computed and shown in button
+				setStatus("idle");
+				return;
+			}
+
+			// 2. Read the position's pool key, range and pool state via tRPC
+			setStatus("preparing");
+
+			const trpcResult = await trpcClient.uniswap.increaseLiquidity.mutate({
+				chainId: position.chainId,
+				tokenId: position.tokenId,
+				owner,
+				amount0: toBaseUnits(amount0, position.token0.decimals).toString(),
+				amount1: toBaseUnits(amount1, position.token1.decimals).toString(),
+			});
+
+			if (!trpcResult.success) {
+				setError(trpcResult.message || "Failed to prepare transaction");
+				setStatus("error");
+				return;
+			}
+
+			// 3. Build transaction using @uniswap/v4-sdk
+			const { poolState, poolKey, positionParams, contractAddresses } =
+				trpcResult;
+
+			const pool = buildV4Pool(poolKey, poolState);
+			const increase = Position.fromAmounts({
+				pool,
+				tickLower: positionParams.tickLower,
+				tickUpper: positionParams.tickUpper,
+				amount0: positionParams.amount0, // BigintIsh accepts string
+				amount1: positionParams.amount1, // BigintIsh accepts string
+				useFullPrecision: true,
+			});
+
+			const slippagePct = new Percent(
+				Math.floor(slippageTolerance * 100),
+				10_000,
+			);
+			const deadline = Math.floor(Date.now() / 1000) + 20 * 60; // 20 minutes from now
+
+			const { calldata, value } = V4PositionManager.addCallParameters(
+				increase,
+				{
+					slippageTolerance: slippagePct,
+					deadline,
+					tokenId: positionParams.tokenId,
+					// Native pools settle ETH from msg.value; native is always currency0 in V4
+					useNative: pool.currency0.isNative ? pool.currency0 : undefined,
+				},
+			);
+
+			// 4. The PositionManager pulls tokens through Permit2
+			setStatus("checking-allowance");
+
+			const { amount0: amount0Max, amount1: amount1Max } =
+				increase.mintAmountsWithSlippage(slippagePct);
+			const approvalCalls = await buildPermit2ApprovalCalls({
+				client: publicClient,
+				owner,
+				permit2: contractAddresses.permit2,
+				spender: contractAddresses.positionManager,
+				tokens: [
+					{
+						address: poolKey.token0.address,
+						amount: BigInt(amount0Max.toString()),
+					},
+					{
+						address: poolKey.token1.address,
+						amount: BigInt(amount1Max.toString()),
+					},
+				].filter((token) => token.address.toLowerCase() !== zeroAddress),
+			});
+
+			// 5. Positions live on a specific chain, make sure the wallet is there
+			if (walletChainId !== position.chainId) {
+				setStatus("switching-chain");
+				await switchChainAsync({ chainId: position.chainId });
+			}
+
+			// 6. Execute approvals followed by the increase
+			setStatus("executing");
+			const executionResult = await sendCalls({
+				intent: "increase",
+				calls: [
+					...approvalCalls,
+					{
+						to: contractAddresses.positionManager,
+						data: calldata as Hex,
+						value: BigInt(value),
+					},
+				],
+			});
+
+			console.log("Transaction execution result:", executionResult);
+			setStatus("confirming");
+		} catch (err) {
+			console.error("Increase liquidity error:", err);
+			setError(describeError(err, "Transaction failed"));
+			setStatus("error");
+		}
+	}, [
+		position,
+		owner,
+		publicClient,
+		balances,
+		amount0,
+		amount1,
+		slippageTolerance,
+		walletChainId,
+		switchChainAsync,
+		sendCalls,
+	]);
+
+	const reset = useCallback(() => {
+		setStatus("idle");
+		setError(null);
+		resetSendCalls();
+	}, [resetSendCalls]);
+
+	// Monitor transaction status
+	useEffect(() => {
+		if (!callsStatus) return;
+
+		if (callsStatus.status === "success") {
+			setStatus("success");
+		} else if (callsStatus.status === "failure") {
+			setError("Transaction failed");
+			setStatus("error");
+		}
+	}, [callsStatus]);
+
+	const transactionHash = callsStatus?.receipts?.[0]?.transactionHash || null;
+
+	return {
+		execute,
+		status,
+		balances,
+		balancesLoading,
+		error: error || (balancesError as Error)?.message || null,
+		balanceError,
+		transactionHash,
+		callsId: sendResult?.id,
+		isReady,
+		isExecuting,
+		reset,
+	};
+}
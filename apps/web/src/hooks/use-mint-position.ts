@@ -1,18 +1,45 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { type Address, type Hex, formatUnits, parseUnits, zeroAddress } from "viem";
-import { Token as SDKToken, Percent } from "@uniswap/sdk-core";
-import { Pool, Position, V4PositionManager } from "@uniswap/v4-sdk";
+import {
+	type Address,
+	BaseError,
+	type Hex,
+	formatUnits,
+	parseEventLogs,
+	type PublicClient,
+	UserRejectedRequestError,
+	zeroAddress,
+} from "viem";
+import { Percent } from "@uniswap/sdk-core";
+import { type BatchPermitOptions, type Pool, Position, V4PositionManager } from "@uniswap/v4-sdk";
+import { useAccount, usePublicClient, useSignTypedData, useSwitchChain } from "wagmi";
+import { parseAmount } from "@my-better-t-app/shared/amounts";
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
 import { useBalanceChecks } from "./use-balance-checks";
 import { useCallsStatus } from "./use-calls-status";
 import { useSendCalls } from "./use-send-calls";
+import { getPermit2Address, getUniversalRouterAddress } from "@/lib/contracts/uniswap-deployments";
 import type { Token } from "@/types/token";
+import {
+	buildPermit2ApprovalCalls,
+	buildPermit2PermitBatch,
+	getPermitBatchTypedData,
+} from "@/utils/permit2";
+import type { PriceRange } from "@/utils/price-range";
+import { type AssetChange, type CallsSimulation, simulateCalls } from "@/utils/simulation";
 import { trpcClient } from "@/utils/trpc";
+import { encodeSwapCall } from "@/utils/universal-router";
+import { buildV4Pool } from "@/utils/v4-position";
+import type { ZapPlan } from "@/utils/zap";
 
 type Status =
 	| "idle"
 	| "checking-balance"
 	| "preparing"
+	| "switching-chain"
 	| "checking-allowance"
+	| "signing-permit"
+	| "simulating"
+	| "review"
 	| "executing"
 	| "confirming"
 	| "success"
@@ -25,10 +52,12 @@ interface UseMintPositionParams {
 	amountB: string;
 	feeTier: number;
 	fullRange: boolean;
-	tickRange: number;
+	priceRange: PriceRange | null; // price of tokenA in tokenB
+	initialPrice: number | null; // starting price of tokenA in tokenB when the pool must be created
 	slippageTolerance: number;
 	owner: Address | undefined;
 	chainId: number;
+	zap?: ZapPlan | null; // deposit a single token through swaps instead of amountA/amountB
 }
 
 interface BalanceInfo {
@@ -40,9 +69,28 @@ interface BalanceInfo {
 	hasSufficientBalance: boolean;
 }
 
+type Call = { to: Address; data: Hex; value: bigint };
+
+/**
+ * Outcome of the simulated batch, shown for review before the wallet prompt
+ */
+export type MintPreview =
+	| {
+			simulated: true;
+			liquidity: bigint | null; // added to the position, null when no mint event was found
+			assetChanges: AssetChange[];
+			refund: bigint; // native currency sent with the mint and swept back
+			gasUsed: bigint;
+			gasCost: bigint;
+	  }
+	| { simulated: false; reason: string };
+
 interface UseMintPositionReturn {
 	execute: () => Promise<void>;
+	// Sends the reviewed batch
+	confirm: () => Promise<void>;
 	status: Status;
+	preview: MintPreview | null;
 	balances: BalanceInfo[];
 	balancesLoading: boolean;
 	error: string | null;
@@ -54,6 +102,117 @@ interface UseMintPositionReturn {
 	reset: () => void;
 }
 
+// PoolManager event for every liquidity change, emitted during the mint
+const MODIFY_LIQUIDITY_EVENT_ABI = [
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, name: "id", type: "bytes32" },
+			{ indexed: true, name: "sender", type: "address" },
+			{ indexed: false, name: "tickLower", type: "int24" },
+			{ indexed: false, name: "tickUpper", type: "int24" },
+			{ indexed: false, name: "liquidityDelta", type: "int256" },
+			{ indexed: false, name: "salt", type: "bytes32" },
+		],
+		name: "ModifyLiquidity",
+		type: "event",
+	},
+] as const;
+
+/**
+ * Read the minted liquidity and the swept back native currency out of a
+ * successful simulation; the mint is the batch's last call
+ */
+function toMintPreview(
+	simulation: Exclude<CallsSimulation, { status: "reverted" }>,
+	mintCall: Call,
+	pool: Pool,
+	tickLower: number,
+	tickUpper: number,
+	positionManager: Address,
+): MintPreview {
+	if (simulation.status === "unsupported") {
+		return { simulated: false, reason: simulation.reason };
+	}
+
+	const events = parseEventLogs({
+		abi: MODIFY_LIQUIDITY_EVENT_ABI,
+		logs: simulation.logs[simulation.logs.length - 1] ?? [],
+		eventName: "ModifyLiquidity",
+	}).filter((event) => event.args.sender.toLowerCase() === positionManager.toLowerCase());
+	const liquidity =
+		events.length > 0 ? events.reduce((total, event) => total + event.args.liquidityDelta, 0n) : null;
+
+	// Native currency is always currency0, the mint settles what the liquidity needs and sweeps the rest
+	let refund = 0n;
+	if (liquidity && pool.currency0.isNative) {
+		const deposited = new Position({
+			pool,
+			tickLower,
+			tickUpper,
+			liquidity: liquidity.toString(),
+		}).mintAmounts.amount0;
+		refund = mintCall.value - BigInt(deposited.toString());
+	}
+
+	return {
+		simulated: true,
+		liquidity,
+		assetChanges: simulation.assetChanges,
+		refund: refund > 0n ? refund : 0n,
+		gasUsed: simulation.gasUsed,
+		gasCost: simulation.gasCost,
+	};
+}
+
+/**
+ * Universal Router swaps of a zap plan, preceded by the Permit2 approvals for its input
+ */
+async function buildZapSwapCalls(
+	zap: ZapPlan,
+	client: PublicClient,
+	owner: Address,
+	chainId: number,
+): Promise<Call[]> {
+	const universalRouter = getUniversalRouterAddress(chainId);
+	const permit2 = getPermit2Address(chainId);
+	if (!universalRouter || !permit2) {
+		throw new Error(`Swaps are not supported on chain ${chainId}`);
+	}
+
+	const deadline = BigInt(Math.floor(Date.now() / 1000) + 20 * 60); // 20 minutes from now
+	const nativeIn = zap.inputToken.address.toLowerCase() === zeroAddress;
+	const swapCalls = zap.swaps.map((swap) => {
+		const { calldata, value } = encodeSwapCall({
+			route: swap.route,
+			tradeType: "EXACT_INPUT",
+			amountIn: swap.amountIn,
+			amountOut: swap.amountOut,
+			amountInMax: swap.amountIn,
+			amountOutMin: swap.amountOutMin,
+			deadline,
+			nativeIn,
+			nativeOut: swap.tokenOut.toLowerCase() === zeroAddress,
+		});
+		return { to: universalRouter, data: calldata, value };
+	});
+
+	const approvalCalls = await buildPermit2ApprovalCalls({
+		client,
+		owner,
+		permit2,
+		spender: universalRouter,
+		tokens: [
+			{
+				address: zap.inputToken.address,
+				amount: zap.swaps.reduce((total, swap) => total + swap.amountIn, 0n),
+			},
+		],
+	});
+
+	return [...approvalCalls, ...swapCalls];
+}
+
 /**
  * Hook to handle the complete mint position transaction flow
  * Includes balance checks, allowance verification, and batched transaction execution
@@ -65,18 +224,42 @@ export function useMintPosition({
 	amountB,
 	feeTier,
 	fullRange,
-	tickRange,
+	priceRange,
+	initialPrice,
 	slippageTolerance,
 	owner,
 	chainId,
+	zap = null,
 }: UseMintPositionParams): UseMintPositionReturn {
 	// Internal state
 	const [status, setStatus] = useState<Status>("idle");
 	const [error, setError] = useState<string | null>(null);
+	const [preview, setPreview] = useState<MintPreview | null>(null);
+	// Batch waiting for the user to confirm its preview
+	const [pendingCalls, setPendingCalls] = useState<Call[] | null>(null);
+
+	const publicClient = usePublicClient({ chainId });
+	const { signTypedDataAsync } = useSignTypedData();
+	const { chainId: walletChainId } = useAccount();
+	const { switchChainAsync } = useSwitchChain();
 
 	// Parse amounts to bigint for balance checks
 	const tokensForBalanceCheck = useMemo(() => {
-		if (!tokenA || !tokenB || !amountA || !amountB) return [];
+		if (!tokenA || !tokenB) return [];
+
+		// A zap spends only its input, the pair's tokens come out of the swaps
+		if (zap) {
+			return [
+				{
+					address: zap.inputToken.address,
+					chainId: Number.parseInt(tokenA.chainId),
+					decimals: zap.inputToken.decimals,
+					requiredAmount: zap.inputAmount,
+				},
+			];
+		}
+
+		if (!amountA || !amountB) return [];
 
 		try {
 			return [
@@ -84,19 +267,19 @@ export function useMintPosition({
 					address: tokenA.address as Address,
 					chainId: Number.parseInt(tokenA.chainId),
 					decimals: tokenA.decimals,
-					requiredAmount: parseUnits(amountA, tokenA.decimals),
+					requiredAmount: parseAmount(amountA, tokenA.decimals),
 				},
 				{
 					address: tokenB.address as Address,
 					chainId: Number.parseInt(tokenB.chainId),
 					decimals: tokenB.decimals,
-					requiredAmount: parseUnits(amountB, tokenB.decimals),
+					requiredAmount: parseAmount(amountB, tokenB.decimals),
 				},
 			];
 		} catch {
 			return [];
 		}
-	}, [tokenA, tokenB, amountA, amountB]);
+	}, [tokenA, tokenB, amountA, amountB, zap]);
 
 	// Balance checks
 	const {
@@ -111,10 +294,8 @@ export function useMintPosition({
 
 	// Allowance checks will be done manually after we have the router address
 
-	// Batch transaction execution with fallback to sequential
-	const { sendCalls, data: sendResult } = useSendCalls({
-		enable5792: false, // Disable EIP-5792 for now, use sequential mode
-	});
+	// Batch transaction execution, sequential when the wallet cannot batch
+	const { sendCalls, data: sendResult } = useSendCalls({ chainId });
 
 	// Status monitoring - unified for both batch and sequential modes
 	const { data: callsStatus } = useCallsStatus({
@@ -139,9 +320,12 @@ export function useMintPosition({
 			if (tokenB?.address.toLowerCase() === address.toLowerCase()) {
 				return tokenB.symbol;
 			}
+			if (zap?.inputToken.address.toLowerCase() === address.toLowerCase()) {
+				return zap.inputToken.symbol;
+			}
 			return "Token";
 		},
-		[tokenA, tokenB],
+		[tokenA, tokenB, zap],
 	);
 
 	// Generate balance error message
@@ -168,18 +352,18 @@ export function useMintPosition({
 		return (
 			!!tokenA &&
 			!!tokenB &&
-			!!amountA &&
-			!!amountB &&
+			(!!zap || (!!amountA && !!amountB)) &&
+			(fullRange || !!priceRange) &&
 			!!owner &&
 			!balanceError &&
 			!balancesLoading &&
 			status === "idle"
 		);
-	}, [tokenA, tokenB, amountA, amountB, owner, balanceError, balancesLoading, status]);
+	}, [tokenA, tokenB, amountA, amountB, zap, fullRange, priceRange, owner, balanceError, balancesLoading, status]);
 
 	// Check if currently executing
 	const isExecuting = useMemo(() => {
-		return ["checking-balance", "preparing", "checking-allowance", "executing", "confirming"].includes(status);
+		return ["checking-balance", "preparing", "switching-chain", "checking-allowance", "signing-permit", "simulating", "executing", "confirming"].includes(status);
 	}, [status]);
 
 	// Execute transaction flow
@@ -204,6 +388,11 @@ export function useMintPosition({
 			// 2. Prepare transaction via tRPC
 			setStatus("preparing");
 
+			// A zap mints with what its swaps are guaranteed to deliver
+			const [rawAmountA, rawAmountB] = zap
+				? [zap.mintAmountA, zap.mintAmountB]
+				: [parseAmount(amountA, tokenA.decimals), parseAmount(amountB, tokenB.decimals)];
+
 			const trpcResult = await trpcClient.uniswap.mintPosition.mutate({
 				tokenA: {
 					address: tokenA.address,
@@ -219,11 +408,12 @@ export function useMintPosition({
 					decimals: tokenB.decimals,
 					chainId: Number.parseInt(tokenB.chainId),
 				},
-				amountA: Number.parseFloat(amountA),
-				amountB: Number.parseFloat(amountB),
+				amountA: rawAmountA.toString(),
+				amountB: rawAmountB.toString(),
 				feeTier,
 				fullRange,
-				tickRange: fullRange ? 0 : tickRange,
+				priceRange: fullRange ? undefined : (priceRange ?? undefined),
+				initialPrice: initialPrice ?? undefined,
 				slippageTolerance,
 				recipient: owner,
 			});
@@ -237,34 +427,8 @@ export function useMintPosition({
 			// 3. Build transaction using @uniswap/v4-sdk
 			const { poolState, poolKey, positionParams, contractAddresses } = trpcResult;
 
-			// Create SDK token instances
-			const sdkToken0 = new SDKToken(
-				poolKey.token0.chainId,
-				poolKey.token0.address,
-				poolKey.token0.decimals,
-				poolKey.token0.symbol,
-				poolKey.token0.name,
-			);
-
-			const sdkToken1 = new SDKToken(
-				poolKey.token1.chainId,
-				poolKey.token1.address,
-				poolKey.token1.decimals,
-				poolKey.token1.symbol,
-				poolKey.token1.name,
-			);
-
 			// Create pool instance from backend state
-			const pool = new Pool(
-				sdkToken0,
-				sdkToken1,
-				poolKey.fee,
-				poolKey.tickSpacing,
-				poolKey.hookAddress as Address,
-				poolState.sqrtPriceX96, // BigintIsh accepts string
-				poolState.currentLiquidity, // BigintIsh accepts string
-				poolState.currentTick,
-			);
+			const pool = buildV4Pool(poolKey, poolState);
 
 			// Create position from amounts
 			const position = Position.fromAmounts({
@@ -284,137 +448,162 @@ export function useMintPosition({
 				slippageTolerance: slippagePct,
 				deadline,
 				recipient: owner,
+				// Native pools settle ETH from msg.value and sweep back what the mint did not use
+				useNative: pool.currency0.isNative ? pool.currency0 : undefined,
+				// Initializes the pool at the starting price in the same multicall as the mint
+				...(!poolState.initialized && {
+					createPool: true,
+					sqrtPriceX96: poolState.sqrtPriceX96,
+				}),
 			};
 
-			// Generate transaction calldata
-			const { calldata, value } = V4PositionManager.addCallParameters(position, mintOptions);
+			const { positionManager, permit2 } = contractAddresses;
+			if (!publicClient) {
+				throw new Error(`No RPC client for chain ${chainId}`);
+			}
 
-			const routerAddr = contractAddresses.positionManager;
+			// The pool lives on a specific chain, make sure the wallet signs and sends there
+			if (walletChainId !== chainId) {
+				setStatus("switching-chain");
+				await switchChainAsync({ chainId });
+			}
 
-			// 4. Check allowances manually now that we have the router address
+			// 4. The PositionManager pulls tokens through Permit2, preferably allowed by a signed PermitBatch
 			setStatus("checking-allowance");
 
-			// We'll use viem directly to check allowances
-			const { createPublicClient, http, erc20Abi, encodeFunctionData, zeroAddress: zero } =
-				await import("viem");
-
-			const client = createPublicClient({
-				chain:
-					chainId === 1
-						? (await import("viem/chains")).mainnet
-						: chainId === 137
-							? (await import("viem/chains")).polygon
-							: chainId === 10
-								? (await import("viem/chains")).optimism
-								: chainId === 8453
-									? (await import("viem/chains")).base
-									: (await import("viem/chains")).arbitrum,
-				transport: http(),
-			});
-
-			// Parse token amounts (safe because we checked tokenA/tokenB at function start)
-			const tokensToCheck = [
-				{
-					address: tokenA!.address as Address,
-					amount: parseUnits(amountA, tokenA!.decimals),
-				},
-				{
-					address: tokenB!.address as Address,
-					amount: parseUnits(amountB, tokenB!.decimals),
-				},
-			];
-
-			// Filter out native tokens and check allowances
-			const erc20Tokens = tokensToCheck.filter(
-				(token) => token.address.toLowerCase() !== zero.toLowerCase(),
-			);
-
-			const approvalStepsTemp: Array<{
-				token: Address;
-				data: { to: Address; data: Hex; value: bigint };
-			}> = [];
+			const { amount0: amount0Max, amount1: amount1Max } = position.mintAmountsWithSlippage(slippagePct);
+			const permit2Params = {
+				client: publicClient,
+				owner,
+				permit2,
+				spender: positionManager,
+				tokens: [
+					{ address: poolKey.token0.address, amount: BigInt(amount0Max.toString()) },
+					{ address: poolKey.token1.address, amount: BigInt(amount1Max.toString()) },
+				],
+			};
+			const permitData = await buildPermit2PermitBatch(permit2Params);
+			const { permitBatch } = permitData;
+			let { approvalCalls } = permitData;
 
-			for (const token of erc20Tokens) {
+			let batchPermit: BatchPermitOptions | undefined;
+			if (permitBatch) {
+				setStatus("signing-permit");
 				try {
-					const currentAllowance = await client.readContract({
-						address: token.address,
-						abi: erc20Abi,
-						functionName: "allowance",
-						args: [owner, routerAddr],
-					});
-
-					if (currentAllowance < token.amount) {
-						// Need approval
-						approvalStepsTemp.push({
-							token: token.address,
-							data: {
-								to: token.address,
-								data: encodeFunctionData({
-									abi: erc20Abi,
-									functionName: "approve",
-									args: [routerAddr, token.amount],
-								}),
-								value: 0n,
-							},
-						});
-					}
-				} catch (error) {
-					console.error(`Error checking allowance for token ${token.address}:`, error);
-					// Assume approval is needed if check fails
-					approvalStepsTemp.push({
-						token: token.address,
-						data: {
-							to: token.address,
-							data: encodeFunctionData({
-								abi: erc20Abi,
-								functionName: "approve",
-								args: [routerAddr, token.amount],
-							}),
-							value: 0n,
+					const signature = await signTypedDataAsync(getPermitBatchTypedData(permitBatch, permit2, chainId));
+					batchPermit = {
+						owner,
+						signature,
+						permitBatch: {
+							details: permitBatch.details.map((detail) => ({
+								token: detail.token,
+								amount: detail.amount.toString(),
+								expiration: detail.expiration.toString(),
+								nonce: detail.nonce.toString(),
+							})),
+							spender: permitBatch.spender,
+							sigDeadline: permitBatch.sigDeadline.toString(),
 						},
-					});
+					};
+				} catch (err) {
+					if (err instanceof BaseError && err.walk((e) => e instanceof UserRejectedRequestError)) {
+						throw err;
+					}
+					// Wallets without typed data signing approve through Permit2 instead
+					console.warn("Permit signature failed, falling back to Permit2 approvals:", err);
+					approvalCalls = await buildPermit2ApprovalCalls(permit2Params);
 				}
 			}
 
+			// Generate transaction calldata, with the signed permit ahead of the mint
+			const { calldata, value } = V4PositionManager.addCallParameters(position, {
+				...mintOptions,
+				batchPermit,
+			});
 
-			// 5. Build batch calls (approvals + mint)
-			const calls: Array<{ to: Address; data: Hex; value: bigint }> = [];
+			// 5. Build batch calls (zap swaps + approvals + mint)
+			const calls: Call[] = zap
+				? await buildZapSwapCalls(zap, publicClient, owner, chainId)
+				: [];
 
-			// Add approval transactions if needed
-			for (const step of approvalStepsTemp) {
-				calls.push({
-					to: step.data.to,
-					data: step.data.data,
-					value: step.data.value,
-				});
+			// A zap may already have approved Permit2 for the same token
+			for (const call of approvalCalls) {
+				if (!calls.some((c) => c.to === call.to && c.data === call.data)) {
+					calls.push(call);
+				}
 			}
 
 			// Add mint transaction
-			calls.push({
-				to: routerAddr,
+			const mintCall: Call = {
+				to: positionManager,
 				data: calldata as Hex,
 				value: BigInt(value),
-			});
+			};
+			calls.push(mintCall);
+
+			// 6. Simulate the batch, a call that would revert blocks submission
+			setStatus("simulating");
+			const simulation = await simulateCalls(publicClient, owner, calls);
+			if (simulation.status === "reverted") {
+				setError(`Simulation failed at call ${simulation.callIndex + 1} of ${calls.length}: ${simulation.reason}`);
+				setStatus("error");
+				return;
+			}
+
+			// 7. Wait for the user to review the outcome and confirm
+			setPreview(
+				toMintPreview(
+					simulation,
+					mintCall,
+					pool,
+					positionParams.tickLower,
+					positionParams.tickUpper,
+					positionManager,
+				),
+			);
+			setPendingCalls(calls);
+			setStatus("review");
+		} catch (err) {
+			console.error("Mint position error:", err);
+			setError(describeError(err, "Transaction failed"));
+			setStatus("error");
+		}
+	}, [tokenA, tokenB, owner, balances, amountA, amountB, zap, publicClient, signTypedDataAsync, feeTier, fullRange, priceRange, initialPrice, slippageTolerance, chainId, walletChainId, switchChainAsync]);
+
+	// Send the reviewed batch
+	const confirm = useCallback(async () => {
+		if (status !== "review" || !pendingCalls) return;
+
+		try {
+			// The wallet may have left the pool's chain while the preview was open
+			if (walletChainId !== chainId) {
+				setStatus("switching-chain");
+				await switchChainAsync({ chainId });
+			}
 
-			// 6. Execute batch transaction (or sequential if EIP-5792 not supported)
+			// Execute batch transaction (or sequential if EIP-5792 not supported)
 			setStatus("executing");
 			const executionResult = await sendCalls({
-				calls,
+				intent: "mint",
+				calls: pendingCalls,
 			});
 
 			console.log("Transaction execution result:", executionResult);
+			setPendingCalls(null);
 			setStatus("confirming");
 		} catch (err) {
 			console.error("Mint position error:", err);
-			setError(err instanceof Error ? err.message : "Transaction failed");
+			setError(describeError(err, "Transaction failed"));
 			setStatus("error");
 		}
-	}, [tokenA, tokenB, owner, balances, amountA, amountB, feeTier, fullRange, tickRange, slippageTolerance, chainId, sendCalls]);
+	}, [status, pendingCalls, sendCalls, walletChainId, chainId, switchChainAsync]);
 
 	// Reset function
 	const reset = useCallback(() => {
 		setStatus("idle");
 		setError(null);
+		setPreview(null);
+		setPendingCalls(null);
 	}, []);
 
 	// Monitor transaction status
@@ -436,7 +625,9 @@ export function useMintPosition({
 
 	return {
 		execute,
+		confirm,
 		status,
+		preview,
 		balances,
 		balancesLoading,
 		error: error || (balancesError as Error)?.message || null,
@@ -0,0 +1,105 @@
+import { useQuery } from "@tanstack/react-query";
+import { useCallback } from "react";
+import type { Address, Hex } from "viem";
+import { createSiweMessage, generateSiweNonce } from "viem/siwe";
+import { useAccount, useSignMessage } from "wagmi";
+import { queryClient } from "@/utils/trpc";
+
+/**
+ * Sign-In with Ethereum message the server checks before acting for an owner
+ */
+export interface OwnerProof {
+	message: string;
+	signature: Hex;
+}
+
+// Proofs are signed for a day, well under the server's limit
+const PROOF_LIFETIME_MS = 24 * 60 * 60 * 1000;
+// Proofs this close to expiry are signed again rather than sent
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+interface StoredProof extends OwnerProof {
+	expiresAt: number;
+}
+
+const storageKey = (address: Address) => `ownerProof_${address.toLowerCase()}`;
+
+const proofQueryKey = (address: Address | undefined) => [
+	"ownerProof",
+	address?.toLowerCase() ?? null,
+];
+
+function readStoredProof(address: Address): OwnerProof | null {
+	try {
+		const stored = localStorage.getItem(storageKey(address));
+		if (!stored) return null;
+		const { message, signature, expiresAt } = JSON.parse(stored) as StoredProof;
+		return expiresAt - EXPIRY_MARGIN_MS > Date.now()
+			? { message, signature }
+			: null;
+	} catch {
+		return null;
+	}
+}
+
+interface UseOwnerProofReturn {
+	// Stored proof of the connected address, null until signed
+	proof: OwnerProof | null;
+	// Stored proof, or a new one once the wallet signs it
+	getProof: () => Promise<OwnerProof>;
+}
+
+/**
+ * Hook to prove control of the connected address to the server. The message
+ * is signed once and kept in localStorage until it expires, shared by every
+ * component through the query cache.
+ */
+export function useOwnerProof(): UseOwnerProofReturn {
+	const { address, chainId } = useAccount();
+	const { signMessageAsync } = useSignMessage();
+
+	const { data: proof = null } = useQuery({
+		queryKey: proofQueryKey(address),
+		queryFn: () => (address ? readStoredProof(address) : null),
+		enabled: !!address,
+		staleTime: EXPIRY_MARGIN_MS,
+	});
+
+	const getProof = useCallback(async () => {
+		if (!address) throw new Error("Connect a wallet first");
+		const stored = readStoredProof(address);
+		if (stored) return stored;
+
+		const issuedAt = new Date();
+		const expirationTime = new Date(issuedAt.getTime() + PROOF_LIFETIME_MS);
+		const message = createSiweMessage({
+			address,
+			chainId: chainId ?? 1,
+			domain: window.location.host,
+			uri: window.location.origin,
+			nonce: generateSiweNonce(),
+			version: "1",
+			issuedAt,
+			expirationTime,
+			statement: "Manage position alerts and rebalancing strategies.",
+		});
+		const signature = await signMessageAsync({ account: address, message });
+
+		const next: OwnerProof = { message, signature };
+		try {
+			localStorage.setItem(
+				storageKey(address),
+				JSON.stringify({
+					...next,
+					expiresAt: expirationTime.getTime(),
+				} satisfies StoredProof),
+			);
+		} catch {
+			// The proof still works for this page, it is signed again on reload
+		}
+		queryClient.setQueryData(proofQueryKey(address), next);
+		return next;
+	}, [address, chainId, signMessageAsync]);
+
+	return { proof, getProof };
+}
@@ -0,0 +1,387 @@
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import { Percent } from "@uniswap/sdk-core";
+import { Position, V4PositionManager } from "@uniswap/v4-sdk";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { type Address, type Hex, type PublicClient, zeroAddress } from "viem";
+import { useAccount, usePublicClient, useSwitchChain } from "wagmi";
+import {
+	getPermit2Address,
+	getUniversalRouterAddress,
+} from "@/lib/contracts/uniswap-deployments";
+import { buildPermit2ApprovalCalls } from "@/utils/permit2";
+import {
+	planRebalance,
+	type RebalancePlan,
+	type StrategyDefinition,
+} from "@/utils/rebalance";
+import { simulateCalls } from "@/utils/simulation";
+import { trpcClient } from "@/utils/trpc";
+import { encodeSwapCall } from "@/utils/universal-router";
+import { buildV4Pool, buildV4Position } from "@/utils/v4-position";
+import { useCallsStatus } from "./use-calls-status";
+import { useSendCalls } from "./use-send-calls";
+
+type Status =
+	| "idle"
+	| "planning"
+	| "simulating"
+	| "review"
+	| "switching-chain"
+	| "executing"
+	| "confirming"
+	| "recording"
+	| "success"
+	| "error";
+
+interface UseRebalancePositionParams {
+	chainId: number;
+	tokenId: string;
+	strategy: StrategyDefinition | null;
+	slippageTolerance: number;
+	owner: Address | undefined;
+}
+
+type Call = { to: Address; data: Hex; value: bigint };
+
+/**
+ * Outcome of the simulated batch, shown with the plan before the wallet prompt
+ */
+export type RebalancePreview =
+	| { simulated: true; gasUsed: bigint; gasCost: bigint }
+	| { simulated: false; reason: string };
+
+interface UseRebalancePositionReturn {
+	// Plans the rebalance and simulates its batch for review
+	prepare: () => Promise<void>;
+	// Sends the reviewed batch
+	confirm: () => Promise<void>;
+	plan: RebalancePlan | null;
+	preview: RebalancePreview | null;
+	status: Status;
+	error: string | null;
+	// Position minted in place of the old one, once recorded
+	newTokenId: string | null;
+	isExecuting: boolean;
+	reset: () => void;
+}
+
+/**
+ * Remove, swap and mint calls of a plan: the old position is burned, the
+ * excess side goes through the Universal Router and the new range is minted
+ * through the PositionManager, each spender approved through Permit2 first
+ */
+async function buildRebalanceCalls(
+	plan: RebalancePlan,
+	client: PublicClient,
+	owner: Address,
+	chainId: number,
+	slippageTolerance: number,
+): Promise<Call[]> {
+	const { poolKey, poolState, positionParams, contractAddresses } =
+		plan.removal;
+	const { positionManager } = contractAddresses;
+	const permit2 = getPermit2Address(chainId);
+	if (!permit2) {
+		throw new Error(`Permit2 is not deployed on chain ${chainId}`);
+	}
+
+	const slippagePct = new Percent(Math.floor(slippageTolerance * 100), 10_000);
+	const deadline = Math.floor(Date.now() / 1000) + 20 * 60; // 20 minutes from now
+
+	// 1. Remove everything and burn the NFT
+	const remove = V4PositionManager.removeCallParameters(
+		buildV4Position(poolKey, poolState, positionParams),
+		{
+			slippageTolerance: slippagePct,
+			deadline,
+			tokenId: positionParams.tokenId,
+			liquidityPercentage: new Percent(100, 100),
+			burnToken: true,
+		},
+	);
+	const calls: Call[] = [
+		{
+			to: positionManager,
+			data: remove.calldata as Hex,
+			value: BigInt(remove.value),
+		},
+	];
+
+	// 2. Swap the excess side
+	const { swap } = plan;
+	if (swap) {
+		const universalRouter = getUniversalRouterAddress(chainId);
+		if (!universalRouter) {
+			throw new Error(`Swaps are not supported on chain ${chainId}`);
+		}
+		const { calldata, value } = encodeSwapCall({
+			route: swap.route,
+			tradeType: "EXACT_INPUT",
+			amountIn: swap.amountIn,
+			amountOut: swap.amountOut,
+			amountInMax: swap.amountIn,
+			amountOutMin: swap.amountOutMin,
+			deadline: BigInt(deadline),
+			nativeIn: swap.tokenIn.toLowerCase() === zeroAddress,
+			nativeOut: swap.tokenOut.toLowerCase() === zeroAddress,
+		});
+		calls.push(
+			...(await buildPermit2ApprovalCalls({
+				client,
+				owner,
+				permit2,
+				spender: universalRouter,
+				tokens: [{ address: swap.tokenIn, amount: swap.amountIn }],
+			})),
+			{ to: universalRouter, data: calldata, value },
+		);
+	}
+
+	// 3. Mint the new range in the same pool
+	const pool = buildV4Pool(poolKey, poolState);
+	const position = Position.fromAmounts({
+		pool,
+		tickLower: plan.tickLower,
+		tickUpper: plan.tickUpper,
+		amount0: plan.mintAmount0.toString(),
+		amount1: plan.mintAmount1.toString(),
+		useFullPrecision: true,
+	});
+	const { amount0: amount0Max, amount1: amount1Max } =
+		position.mintAmountsWithSlippage(slippagePct);
+	const mint = V4PositionManager.addCallParameters(position, {
+		slippageTolerance: slippagePct,
+		deadline,
+		recipient: owner,
+		// Native pools settle ETH from msg.value and sweep back what the mint did not use
+		useNative: pool.currency0.isNative ? pool.currency0 : undefined,
+	});
+	const approvalCalls = await buildPermit2ApprovalCalls({
+		client,
+		owner,
+		permit2,
+		spender: positionManager,
+		tokens: [
+			{
+				address: poolKey.token0.address,
+				amount: BigInt(amount0Max.toString()),
+			},
+			{
+				address: poolKey.token1.address,
+				amount: BigInt(amount1Max.toString()),
+			},
+		],
+	});
+	// The swap may already have approved Permit2 for the same token
+	for (const call of approvalCalls) {
+		if (!calls.some((c) => c.to === call.to && c.data === call.data)) {
+			calls.push(call);
+		}
+	}
+	calls.push({
+		to: positionManager,
+		data: mint.calldata as Hex,
+		value: BigInt(mint.value),
+	});
+
+	return calls;
+}
+
+/**
+ * Hook to re-center a V4 position on a strategy's range in one batch, then
+ * record the lineage from the burned position to the minted one
+ */
+export function useRebalancePosition({
+	chainId,
+	tokenId,
+	strategy,
+	slippageTolerance,
+	owner,
+}: UseRebalancePositionParams): UseRebalancePositionReturn {
+	const [status, setStatus] = useState<Status>("idle");
+	const [error, setError] = useState<string | null>(null);
+	const [plan, setPlan] = useState<RebalancePlan | null>(null);
+	const [preview, setPreview] = useState<RebalancePreview | null>(null);
+	const [pendingCalls, setPendingCalls] = useState<Call[] | null>(null);
+	const [newTokenId, setNewTokenId] = useState<string | null>(null);
+
+	const { chainId: walletChainId } = useAccount();
+	const { switchChainAsync } = useSwitchChain();
+	const publicClient = usePublicClient({ chainId });
+
+	const {
+		sendCalls,
+		data: sendResult,
+		reset: resetSendCalls,
+	} = useSendCalls({ chainId });
+
+	const { data: callsStatus } = useCallsStatus({
+		id: sendResult?.id,
+		mode: sendResult?.mode,
+		transactionHashes: sendResult?.transactionHashes,
+		query: {
+			enabled: !!sendResult?.id,
+			refetchInterval: 1000, // Poll every second
+		},
+	});
+
+	const isExecuting = useMemo(() => {
+		return [
+			"planning",
+			"simulating",
+			"switching-chain",
+			"executing",
+			"confirming",
+			"recording",
+		].includes(status);
+	}, [status]);
+
+	const prepare = useCallback(async () => {
+		if (!owner || !strategy) {
+			setError("Missing required parameters");
+			setStatus("error");
+			return;
+		}
+
+		try {
+			// 1. Plan the removal, swap and mint against the current pool state
+			setStatus("planning");
+			setError(null);
+			const nextPlan = await planRebalance({
+				chainId,
+				tokenId,
+				owner,
+				strategy,
+				slippageTolerance,
+			});
+
+			if (!publicClient) {
+				throw new Error(`No RPC client for chain ${chainId}`);
+			}
+			const calls = await buildRebalanceCalls(
+				nextPlan,
+				publicClient,
+				owner,
+				chainId,
+				slippageTolerance,
+			);
+
+			// 2. Simulate the batch, a call that would revert blocks submission
+			setStatus("simulating");
+			const simulation = await simulateCalls(publicClient, owner, calls);
+			if (simulation.status === "reverted") {
+				setError(
+					`Simulation failed at call ${simulation.callIndex + 1} of ${calls.length}: ${simulation.reason}`,
+				);
+				setStatus("error");
+				return;
+			}
+
+			// 3. Wait for the user to review the plan and confirm
+			setPlan(nextPlan);
+			setPreview(
+				simulation.status === "unsupported"
+					? { simulated: false, reason: simulation.reason }
+					: {
+							simulated: true,
+							gasUsed: simulation.gasUsed,
+							gasCost: simulation.gasCost,
+						},
+			);
+			setPendingCalls(calls);
+			setStatus("review");
+		} catch (err) {
+			console.error("Rebalance planning error:", err);
+			setError(describeError(err, "Failed to plan the rebalance"));
+			setStatus("error");
+		}
+	}, [owner, strategy, chainId, tokenId, slippageTolerance, publicClient]);
+
+	const confirm = useCallback(async () => {
+		if (status !== "review" || !pendingCalls) return;
+
+		try {
+			// The position lives on a specific chain, make sure the wallet is there
+			if (walletChainId !== chainId) {
+				setStatus("switching-chain");
+				await switchChainAsync({ chainId });
+			}
+
+			setStatus("executing");
+			const executionResult = await sendCalls({
+				intent: "rebalance",
+				calls: pendingCalls,
+			});
+
+			console.log("Transaction execution result:", executionResult);
+			setPendingCalls(null);
+			setStatus("confirming");
+		} catch (err) {
+			console.error("Rebalance error:", err);
+			setError(describeError(err, "Transaction failed"));
+			setStatus("error");
+		}
+	}, [
+		status,
+		pendingCalls,
+		walletChainId,
+		chainId,
+		switchChainAsync,
+		sendCalls,
+	]);
+
+	const reset = useCallback(() => {
+		setStatus("idle");
+		setError(null);
+		setPlan(null);
+		setPreview(null);
+		setPendingCalls(null);
+		setNewTokenId(null);
+		resetSendCalls();
+	}, [resetSendCalls]);
+
+	// Once the batch lands, link the burned position to the minted one
+	useEffect(() => {
+		if (!callsStatus || status !== "confirming" || !owner) return;
+
+		if (callsStatus.status === "failure") {
+			setError("Transaction failed");
+			setStatus("error");
+			return;
+		}
+		if (callsStatus.status !== "success") return;
+
+		setStatus("recording");
+		const transactionHashes = [
+			...new Set(
+				(callsStatus.receipts ?? []).map((receipt) => receipt.transactionHash),
+			),
+		];
+		trpcClient.rebalancing.recordRebalance
+			.mutate({ owner, chainId, fromTokenId: tokenId, transactionHashes })
+			.then((result) => {
+				if (!result.success) throw new Error(result.message);
+				setNewTokenId(result.rebalance.toTokenId);
+				setStatus("success");
+			})
+			.catch((err) => {
+				console.error("Rebalance recording error:", err);
+				setError(
+					`Rebalanced, but the lineage was not recorded: ${describeError(err, "unknown error")}`,
+				);
+				setStatus("error");
+			});
+	}, [callsStatus, status, owner, chainId, tokenId]);
+
+	return {
+		prepare,
+		confirm,
+		plan,
+		preview,
+		status,
+		error,
+		newTokenId,
+		isExecuting,
+		reset,
+	};
+}
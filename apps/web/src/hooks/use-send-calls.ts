@@ -1,7 +1,34 @@
 import { useCallback, useMemo, useState } from "react";
-import type { Address, Hex } from "viem";
-import { useAccount, useConfig, useSendTransaction, useWaitForTransactionReceipt } from "wagmi";
-import { useSendCalls as useWagmiSendCalls } from "wagmi/experimental";
+import {
+	type Address,
+	AtomicityNotSupportedError,
+	AtomicReadyWalletRejectedUpgradeError,
+	BaseError,
+	BundleTooLargeError,
+	type Hex,
+	MethodNotFoundRpcError,
+	MethodNotSupportedRpcError,
+	type ReplacementReturnType,
+	UnsupportedNonOptionalCapabilityError,
+	UnsupportedProviderMethodError,
+} from "viem";
+import { useAccount, useConfig, useSendTransaction, useSendCalls as useWagmiSendCalls } from "wagmi";
+import { type WalletCapabilities, useWalletCapabilities } from "./use-wallet-capabilities";
+import {
+	createBatch,
+	deleteBatch,
+	getBatch,
+	getBatchStatus,
+	markSessionBatch,
+	type TrackedBatch,
+	type TransactionIntent,
+	updateBatch,
+	updateStep,
+} from "@/lib/transactions/transaction-store";
+import { getTransactionRevertReason } from "@/utils/revert-reasons";
+
+// ERC-7677 paymaster service sponsoring batches on wallets that support it
+const PAYMASTER_URL: string | undefined = import.meta.env.VITE_PAYMASTER_URL || undefined;
 
 interface Call {
 	to: Address;
@@ -12,21 +39,27 @@ interface Call {
 interface SendCallsParams {
 	calls: Call[];
 	capabilities?: Record<string, any>;
+	intent?: TransactionIntent; // What the batch does, shown when it is resumed
+	paymasterUrl?: string; // Overrides VITE_PAYMASTER_URL, used only if the wallet supports paymasters
 }
 
 interface SendCallsResult {
 	id: string; // Unique ID for tracking (batch ID or first tx hash)
 	mode: "batch" | "sequential"; // Which mode was used
 	transactionHashes?: string[]; // Array of tx hashes (only for sequential mode)
+	batchId?: string; // Record in the transaction store
 }
 
 interface UseSendCallsParams {
 	enable5792?: boolean; // Enable EIP-5792 batch transactions (default: true)
+	chainId?: number; // Chain the calls are sent on (default: the wallet's chain)
 }
 
 interface UseSendCallsReturn {
 	sendCalls: (params: SendCallsParams) => Promise<SendCallsResult>;
+	resume: (batchId: string) => Promise<SendCallsResult>; // Continue an interrupted batch
 	data: SendCallsResult | undefined;
+	capabilities: WalletCapabilities;
 	isPending: boolean;
 	isSuccess: boolean;
 	isError: boolean;
@@ -34,19 +67,42 @@ interface UseSendCallsReturn {
 	reset: () => void;
 }
 
+// Errors of a wallet that advertised batching but cannot send this batch
+function isBatchUnsupported(error: unknown): boolean {
+	return (
+		error instanceof BaseError &&
+		!!error.walk(
+			(e) =>
+				e instanceof MethodNotFoundRpcError ||
+				e instanceof MethodNotSupportedRpcError ||
+				e instanceof UnsupportedProviderMethodError ||
+				e instanceof UnsupportedNonOptionalCapabilityError ||
+				e instanceof AtomicityNotSupportedError ||
+				e instanceof AtomicReadyWalletRejectedUpgradeError ||
+				e instanceof BundleTooLargeError,
+		)
+	);
+}
+
 /**
- * Wrapper hook for useSendCalls that provides fallback to sequential execution
- * when EIP-5792 is not supported or disabled.
+ * Wrapper hook for useSendCalls that sends calls as one EIP-5792 batch when the
+ * wallet supports atomic batches on the chain, and falls back to sequential
+ * execution when it does not.
  *
  * @param enable5792 - Whether to use EIP-5792 batch transactions (default: true)
- * @returns Hook with sendCalls function and status
+ * @param chainId - Chain the calls are sent on (default: the wallet's chain)
+ * @returns Hook with sendCalls function, detected capabilities and status
  */
-export function useSendCalls({ enable5792 = true }: UseSendCallsParams = {}): UseSendCallsReturn {
+export function useSendCalls({ enable5792 = true, chainId }: UseSendCallsParams = {}): UseSendCallsReturn {
 	const config = useConfig();
-	const { address } = useAccount();
+	const { address, chainId: accountChainId } = useAccount();
+	const targetChainId = chainId ?? accountChainId;
+
+	// Wallet support for atomic batches and paymasters on the target chain
+	const capabilities = useWalletCapabilities({ chainId: targetChainId, enabled: enable5792 });
 
 	// Wagmi's batch send calls (EIP-5792)
-	const wagmiSendCalls = useWagmiSendCalls();
+	const { sendCallsAsync } = useWagmiSendCalls();
 
 	// Sequential transaction sending
 	const { sendTransactionAsync } = useSendTransaction();
@@ -58,103 +114,158 @@ export function useSendCalls({ enable5792 = true }: UseSendCallsParams = {}): Us
 	const [isError, setIsError] = useState(false);
 	const [error, setError] = useState<Error | null>(null);
 
-	// Check if we should use batch mode
+	// Batch only when the wallet reports atomic support, or can upgrade to it
 	const useBatchMode = useMemo(() => {
-		return enable5792;
-	}, [enable5792]);
+		return enable5792 && capabilities.atomic !== "unsupported";
+	}, [enable5792, capabilities.atomic]);
 
-	// Execute batch mode using wagmi's useSendCalls
+	// Execute batch mode using wagmi's sendCalls
 	const executeBatchMode = useCallback(
 		async (params: SendCallsParams): Promise<SendCallsResult> => {
-			try {
-				console.log("Executing in batch mode (EIP-5792)");
-
-				wagmiSendCalls.sendCalls({
-					calls: params.calls,
-					capabilities: params.capabilities,
-				});
-
-				// Wait for the data to be available
-				await new Promise((resolve) => setTimeout(resolve, 100));
-
-				if (!wagmiSendCalls.data) {
-					throw new Error("No batch ID returned");
-				}
-
-				return {
-					id: wagmiSendCalls.data.id,
-					mode: "batch",
-				};
-			} catch (err) {
-				console.error("Batch mode execution failed:", err);
-				throw err;
-			}
+			console.log("Executing in batch mode (EIP-5792)");
+
+			const paymasterUrl = params.paymasterUrl ?? PAYMASTER_URL;
+			const { id } = await sendCallsAsync({
+				calls: params.calls,
+				chainId: targetChainId,
+				forceAtomic: true,
+				capabilities: {
+					...params.capabilities,
+					...(paymasterUrl && capabilities.paymaster ? { paymasterService: { url: paymasterUrl } } : {}),
+				},
+			});
+
+			return {
+				id,
+				mode: "batch",
+			};
 		},
-		[wagmiSendCalls],
+		[sendCallsAsync, targetChainId, capabilities.paymaster],
 	);
 
-	// Execute sequential mode (one transaction at a time)
+	// Execute sequential mode (one transaction at a time), skipping steps
+	// of the tracked batch that are already confirmed
 	const executeSequentialMode = useCallback(
-		async (params: SendCallsParams): Promise<SendCallsResult> => {
+		async (batch: TrackedBatch): Promise<SendCallsResult> => {
+			const transactionHashes: string[] = [];
+
 			try {
-				debugger
 				console.log("Executing in sequential mode (fallback)");
 
-				const transactionHashes: string[] = [];
+				const { getAccount, getPublicClient, switchChain, waitForTransactionReceipt } = await import(
+					"wagmi/actions"
+				);
+
+				// Steps are sent and confirmed on the batch's chain, whichever the wallet is on
+				if (getAccount(config).chainId !== batch.chainId) {
+					await switchChain(config, { chainId: batch.chainId });
+				}
 
-				for (let i = 0; i < params.calls.length; i++) {
-					const call = params.calls[i];
+				for (let i = 0; i < batch.steps.length; i++) {
+					const step = batch.steps[i];
+					if (step.status === "confirmed") continue;
 
-					console.log(`Executing transaction ${i + 1}/${params.calls.length}`);
+					console.log(`Executing transaction ${i + 1}/${batch.steps.length}`);
 
 					// Send transaction
 					const hash = await sendTransactionAsync({
-						to: call.to,
-						data: call.data,
-						value: call.value,
+						to: step.to,
+						data: step.data,
+						value: step.value,
+						chainId: batch.chainId,
 					});
 
 					transactionHashes.push(hash);
+					await updateStep(batch.id, i, { status: "submitted", hash });
 					console.log(`Transaction ${i + 1} sent:`, hash);
 
-					// Wait for this transaction to be confirmed before proceeding to next
-					// Use wagmi's waitForTransactionReceipt which handles polling automatically
-					try {
-						const { waitForTransactionReceipt } = await import("wagmi/actions");
+					// Wait for this transaction to be confirmed before proceeding to next.
+					// A sped-up transaction keeps its step, a cancelled or replaced one
+					// interrupts the batch.
+					let replacement = undefined as ReplacementReturnType | undefined;
+					const receipt = await waitForTransactionReceipt(config, {
+						hash,
+						chainId: batch.chainId,
+						confirmations: 1,
+						onReplaced: (response) => {
+							replacement = response;
+						},
+					});
 
-						const receipt = await waitForTransactionReceipt(config, {
-							hash: hash as `0x${string}`,
-							confirmations: 1,
-						});
+					const hashes = replacement ? { hash: receipt.transactionHash, replacedHash: hash } : { hash };
+					transactionHashes[transactionHashes.length - 1] = receipt.transactionHash;
 
-						if (receipt.status === "reverted") {
-							throw new Error(`Transaction ${i + 1} reverted`);
-						}
+					if (replacement && replacement.reason !== "repriced") {
+						await updateStep(batch.id, i, { status: "replaced", ...hashes }, "interrupted");
+						throw new Error(`Transaction ${i + 1} was replaced in the wallet`);
+					}
 
-						console.log(`Transaction ${i + 1} confirmed:`, receipt);
-					} catch (err) {
-						console.error(`Transaction ${i + 1} failed:`, err);
-						throw err;
+					if (receipt.status === "reverted") {
+						await updateStep(batch.id, i, { status: "reverted", ...hashes }, "failure");
+						const client = getPublicClient(config, { chainId: batch.chainId });
+						const reason = client
+							? await getTransactionRevertReason(client, receipt.transactionHash).catch(() => null)
+							: null;
+						throw new Error(
+							reason ? `Transaction ${i + 1} reverted: ${reason}` : `Transaction ${i + 1} reverted`,
+						);
 					}
+
+					await updateStep(batch.id, i, { status: "confirmed", ...hashes });
+					console.log(`Transaction ${i + 1} confirmed:`, receipt);
 				}
 
+				await updateBatch(batch.id, (current) => ({ ...current, status: "success" }));
+
 				return {
 					id: transactionHashes[0], // Use first tx hash as ID
 					mode: "sequential",
 					transactionHashes,
+					batchId: batch.id,
 				};
 			} catch (err) {
 				console.error("Sequential mode execution failed:", err);
+
+				// Nothing was sent (e.g. the first prompt was rejected): forget the batch.
+				// Otherwise keep it so the remaining steps can be continued.
+				const current = await getBatch(batch.id);
+				if (current?.steps.every((step) => step.status === "pending")) {
+					await deleteBatch(batch.id);
+				} else if (current?.status === "pending") {
+					await updateBatch(batch.id, (latest) => ({ ...latest, status: getBatchStatus(latest.steps) }));
+				}
 				throw err;
 			}
 		},
 		[sendTransactionAsync, config],
 	);
 
+	// Shared status handling of sendCalls and resume
+	const run = useCallback(async (execute: () => Promise<SendCallsResult>): Promise<SendCallsResult> => {
+		setIsPending(true);
+		setIsError(false);
+		setIsSuccess(false);
+		setError(null);
+
+		try {
+			const result = await execute();
+			setResult(result);
+			setIsSuccess(true);
+			return result;
+		} catch (err) {
+			const error = err instanceof Error ? err : new Error("Transaction failed");
+			setIsError(true);
+			setError(error);
+			throw error;
+		} finally {
+			setIsPending(false);
+		}
+	}, []);
+
 	// Main sendCalls function
 	const sendCalls = useCallback(
 		async (params: SendCallsParams): Promise<SendCallsResult> => {
-			if (!address) {
+			if (!address || !targetChainId) {
 				throw new Error("Wallet not connected");
 			}
 
@@ -162,30 +273,62 @@ export function useSendCalls({ enable5792 = true }: UseSendCallsParams = {}): Us
 				throw new Error("No calls provided");
 			}
 
-			setIsPending(true);
-			setIsError(false);
-			setIsSuccess(false);
-			setError(null);
-			
-			
-			try {
-				const result = useBatchMode
-					? await executeBatchMode(params)
-					: await executeSequentialMode(params);
+			// Sending before detection finishes would pick the wrong mode
+			if (enable5792 && capabilities.isLoading) {
+				throw new Error("Still detecting wallet capabilities, try again");
+			}
 
-				setResult(result);
-				setIsSuccess(true);
-				return result;
-			} catch (err) {
-				const error = err instanceof Error ? err : new Error("Transaction failed");
-				setIsError(true);
-				setError(error);
-				throw error;
-			} finally {
-				setIsPending(false);
+			const executeTracked = async () => {
+				const batch = await createBatch({
+					intent: params.intent,
+					chainId: targetChainId,
+					account: address,
+					mode: "sequential",
+					steps: params.calls.map((call) => ({ ...call, status: "pending" })),
+				});
+				return executeSequentialMode(batch);
+			};
+
+			return run(async () => {
+				if (!useBatchMode) return executeTracked();
+
+				try {
+					const result = await executeBatchMode(params);
+					const batch = await createBatch({
+						intent: params.intent,
+						chainId: targetChainId,
+						account: address,
+						mode: "batch",
+						callsId: result.id,
+						steps: params.calls.map((call) => ({ ...call, status: "submitted" })),
+					});
+					return { ...result, batchId: batch.id };
+				} catch (err) {
+					if (!isBatchUnsupported(err)) throw err;
+					console.warn("Batch not supported by the wallet, falling back to sequential mode:", err);
+					return executeTracked();
+				}
+			});
+		},
+		[address, targetChainId, enable5792, capabilities.isLoading, useBatchMode, executeBatchMode, executeSequentialMode, run],
+	);
+
+	// Continue the steps of an interrupted batch that were never sent or were replaced
+	const resume = useCallback(
+		async (batchId: string): Promise<SendCallsResult> => {
+			const batch = await getBatch(batchId);
+			if (!batch || batch.status !== "interrupted") {
+				throw new Error("This transaction has no remaining steps");
 			}
+			if (batch.account !== address) {
+				throw new Error("Connect the wallet that sent this transaction");
+			}
+
+			markSessionBatch(batch.id);
+			const pending = await updateBatch(batch.id, (current) => ({ ...current, status: "pending" }));
+			return run(() => executeSequentialMode(pending ?? batch));
 		},
-		[address, useBatchMode, executeBatchMode, executeSequentialMode],
+		[address, executeSequentialMode, run],
 	);
 
 	// Reset function
@@ -199,7 +342,9 @@ export function useSendCalls({ enable5792 = true }: UseSendCallsParams = {}): Us
 
 	return {
 		sendCalls,
+		resume,
 		data: result,
+		capabilities,
 		isPending,
 		isSuccess,
 		isError,
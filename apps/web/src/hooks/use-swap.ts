@@ -0,0 +1,367 @@
+import { isDecimalString, parseAmount } from "@my-better-t-app/shared/amounts";
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import { useQuery } from "@tanstack/react-query";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { type Address, formatUnits, zeroAddress } from "viem";
+import { useAccount, usePublicClient, useSwitchChain } from "wagmi";
+import {
+	getPermit2Address,
+	getUniversalRouterAddress,
+} from "@/lib/contracts/uniswap-deployments";
+import { buildPermit2ApprovalCalls } from "@/utils/permit2";
+import { trpc } from "@/utils/trpc";
+import {
+	encodeSwapCall,
+	getSwapLimits,
+	type SwapLimits,
+	type TradeType,
+} from "@/utils/universal-router";
+import { useBalanceChecks } from "./use-balance-checks";
+import { useCallsStatus } from "./use-calls-status";
+import { useSendCalls } from "./use-send-calls";
+
+type Status =
+	| "idle"
+	| "checking-balance"
+	| "preparing"
+	| "checking-allowance"
+	| "switching-chain"
+	| "executing"
+	| "confirming"
+	| "success"
+	| "error";
+
+export interface SwapToken {
+	address: string;
+	symbol: string;
+	decimals: number;
+}
+
+interface UseSwapParams {
+	chainId: number | undefined;
+	tokenIn: SwapToken | null;
+	tokenOut: SwapToken | null;
+	// Decimal amount of tokenIn for EXACT_INPUT, of tokenOut for EXACT_OUTPUT
+	amount: string;
+	tradeType: TradeType;
+	slippageTolerance: number;
+	owner: Address | undefined;
+}
+
+interface BalanceInfo {
+	address: Address;
+	chainId: number;
+	decimals: number;
+	balance: bigint;
+	requiredAmount: bigint;
+	hasSufficientBalance: boolean;
+}
+
+// Quote fields the swap is built from
+interface SwapQuote {
+	amountIn: string;
+	amountOut: string;
+	bestRoute: {
+		protocolVersion: "PROTOCOL_VERSION_V3" | "PROTOCOL_VERSION_V4";
+		path: Address[];
+		fees: number[];
+		priceImpact: number | null;
+	};
+}
+
+interface UseSwapReturn {
+	execute: () => Promise<void>;
+	status: Status;
+	quote: SwapQuote | null;
+	quoteLoading: boolean;
+	quoteError: string | null;
+	limits: SwapLimits | null;
+	balances: BalanceInfo[];
+	balancesLoading: boolean;
+	error: string | null;
+	balanceError: string | null;
+	transactionHash: string | null;
+	callsId: string | undefined;
+	isReady: boolean;
+	isExecuting: boolean;
+	reset: () => void;
+}
+
+// Quotes move with the pools, refresh them while the form is open
+const QUOTE_REFRESH_MS = 15_000;
+
+// Empty or partially typed amounts count as zero
+function toBaseUnits(amount: string, decimals: number): bigint {
+	return isDecimalString(amount) ? parseAmount(amount, decimals) : 0n;
+}
+
+function isNative(token: SwapToken): boolean {
+	return token.address.toLowerCase() === zeroAddress;
+}
+
+/**
+ * Hook to swap through the Universal Router along the best quoted V3 or V4 route
+ * Includes quoting, balance checks, Permit2 approvals, and transaction execution
+ */
+export function useSwap({
+	chainId,
+	tokenIn,
+	tokenOut,
+	amount,
+	tradeType,
+	slippageTolerance,
+	owner,
+}: UseSwapParams): UseSwapReturn {
+	const [status, setStatus] = useState<Status>("idle");
+	const [error, setError] = useState<string | null>(null);
+
+	const { chainId: walletChainId } = useAccount();
+	const { switchChainAsync } = useSwitchChain();
+	const publicClient = usePublicClient({ chainId });
+
+	const exactToken = tradeType === "EXACT_INPUT" ? tokenIn : tokenOut;
+	const exactAmount = exactToken
+		? toBaseUnits(amount, exactToken.decimals)
+		: 0n;
+	const quoteEnabled =
+		!!chainId &&
+		!!tokenIn &&
+		!!tokenOut &&
+		tokenIn.address.toLowerCase() !== tokenOut.address.toLowerCase() &&
+		exactAmount > 0n;
+
+	const { data: quoteData, isFetching: quoteLoading } = useQuery({
+		...trpc.uniswap.quote.queryOptions({
+			chainId: chainId ?? 0,
+			tokenIn: tokenIn?.address ?? zeroAddress,
+			tokenOut: tokenOut?.address ?? zeroAddress,
+			amount: exactAmount.toString(),
+			tradeType,
+		}),
+		enabled: quoteEnabled,
+		refetchInterval: QUOTE_REFRESH_MS,
+	});
+	const quote = quoteEnabled && quoteData?.success ? quoteData.quote : null;
+	const quoteError =
+		quoteEnabled && quoteData?.success === false ? quoteData.message : null;
+
+	const limits = useMemo(() => {
+		if (!quote) return null;
+		return getSwapLimits(
+			tradeType,
+			BigInt(quote.amountIn),
+			BigInt(quote.amountOut),
+			BigInt(Math.floor(slippageTolerance * 100)),
+		);
+	}, [quote, tradeType, slippageTolerance]);
+
+	// The most the swap can spend has to be in the wallet
+	const tokensForBalanceCheck = useMemo(() => {
+		if (!chainId || !tokenIn || !limits) return [];
+
+		return [
+			{
+				address: tokenIn.address as Address,
+				chainId,
+				decimals: tokenIn.decimals,
+				requiredAmount: limits.amountInMax,
+			},
+		];
+	}, [chainId, tokenIn, limits]);
+
+	const {
+		balances,
+		isLoading: balancesLoading,
+		error: balancesError,
+	} = useBalanceChecks({
+		tokens: tokensForBalanceCheck,
+		owner: owner!,
+		enabled: !!owner && tokensForBalanceCheck.length > 0,
+	});
+
+	const {
+		sendCalls,
+		data: sendResult,
+		reset: resetSendCalls,
+	} = useSendCalls({ chainId });
+
+	const { data: callsStatus } = useCallsStatus({
+		id: sendResult?.id,
+		mode: sendResult?.mode,
+		transactionHashes: sendResult?.transactionHashes,
+		query: {
+			enabled: !!sendResult?.id,
+			refetchInterval: 1000, // Poll every second
+		},
+	});
+
+	// Generate balance error message
+	const balanceError = useMemo(() => {
+		if (balancesLoading || !tokenIn || balances.length === 0) return null;
+
+		const [balance] = balances;
+		if (balance.hasSufficientBalance) return null;
+
+		const shortage = balance.requiredAmount - balance.balance;
+		return `Need ${formatUnits(shortage, balance.decimals)} more ${tokenIn.symbol}`;
+	}, [balances, balancesLoading, tokenIn]);
+
+	const isReady = useMemo(() => {
+		return (
+			!!quote &&
+			!!owner &&
+			!balanceError &&
+			!balancesLoading &&
+			status === "idle"
+		);
+	}, [quote, owner, balanceError, balancesLoading, status]);
+
+	const isExecuting = useMemo(() => {
+		return [
+			"checking-balance",
+			"preparing",
+			"checking-allowance",
+			"switching-chain",
+			"executing",
+			"confirming",
+		].includes(status);
+	}, [status]);
+
+	const execute = useCallback(async () => {
+		if (
+			!chainId ||
+			!tokenIn ||
+			!tokenOut ||
+			!quote ||
+			!limits ||
+			!owner ||
+			!publicClient
+		) {
+			setError("Missing required parameters");
+			setStatus("error");
+			return;
+		}
+
+		const universalRouter = getUniversalRouterAddress(chainId);
+		const permit2 = getPermit2Address(chainId);
+		if (!universalRouter || !permit2) {
+			setError(`Swaps are not supported on chain ${chainId}`);
+			setStatus("error");
+			return;
+		}
+
+		try {
+			// 1. Check balances
+			setStatus("checking-balance");
+			setError(null);
+
+			if (balances.some((b) => !b.hasSufficientBalance)) {
+				// Balance error is already computed and shown in button
+				setStatus("idle");
+				return;
+			}
+
+			// 2. Encode the quoted route as Universal Router commands
+			setStatus("preparing");
+
+			const deadline = BigInt(Math.floor(Date.now() / 1000) + 20 * 60); // 20 minutes from now
+			const { calldata, value } = encodeSwapCall({
+				route: quote.bestRoute,
+				tradeType,
+				amountIn: BigInt(quote.amountIn),
+				amountOut: BigInt(quote.amountOut),
+				...limits,
+				deadline,
+				nativeIn: isNative(tokenIn),
+				nativeOut: isNative(tokenOut),
+			});
+
+			// 3. The router pulls ERC20 input through Permit2
+			setStatus("checking-allowance");
+
+			const approvalCalls = await buildPermit2ApprovalCalls({
+				client: publicClient,
+				owner,
+				permit2,
+				spender: universalRouter,
+				tokens: [
+					{ address: tokenIn.address as Address, amount: limits.amountInMax },
+				],
+			});
+
+			// 4. Quotes are per chain, make sure the wallet is there
+			if (walletChainId !== chainId) {
+				setStatus("switching-chain");
+				await switchChainAsync({ chainId });
+			}
+
+			// 5. Execute approvals followed by the swap
+			setStatus("executing");
+			const executionResult = await sendCalls({
+				intent: "swap",
+				calls: [
+					...approvalCalls,
+					{ to: universalRouter, data: calldata, value },
+				],
+			});
+
+			console.log("Transaction execution result:", executionResult);
+			setStatus("confirming");
+		} catch (err) {
+			console.error("Swap error:", err);
+			setError(describeError(err, "Transaction failed"));
+			setStatus("error");
+		}
+	}, [
+		chainId,
+		tokenIn,
+		tokenOut,
+		quote,
+		limits,
+		tradeType,
+		owner,
+		publicClient,
+		balances,
+		walletChainId,
+		switchChainAsync,
+		sendCalls,
+	]);
+
+	const reset = useCallback(() => {
+		setStatus("idle");
+		setError(null);
+		resetSendCalls();
+	}, [resetSendCalls]);
+
+	// Monitor transaction status
+	useEffect(() => {
+		if (!callsStatus) return;
+
+		if (callsStatus.status === "success") {
+			setStatus("success");
+		} else if (callsStatus.status === "failure") {
+			setError("Transaction failed");
+			setStatus("error");
+		}
+	}, [callsStatus]);
+
+	const transactionHash = callsStatus?.receipts?.[0]?.transactionHash || null;
+
+	return {
+		execute,
+		status,
+		quote,
+		quoteLoading,
+		quoteError,
+		limits,
+		balances,
+		balancesLoading,
+		error: error || (balancesError as Error)?.message || null,
+		balanceError,
+		transactionHash,
+		callsId: sendResult?.id,
+		isReady,
+		isExecuting,
+		reset,
+	};
+}
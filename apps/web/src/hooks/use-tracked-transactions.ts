@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { useAccount } from "wagmi";
+import {
+	listBatches,
+	subscribe,
+	type TrackedBatch,
+} from "@/lib/transactions/transaction-store";
+
+/**
+ * Hook to read the connected account's batches from the transaction store.
+ * Refreshes whenever a batch is created or updated.
+ *
+ * @returns Batches of the account, newest first, and loading state
+ */
+export function useTrackedTransactions() {
+	const { address } = useAccount();
+
+	const { data, isLoading, refetch } = useQuery({
+		queryKey: ["trackedTransactions", address],
+		queryFn: (): Promise<TrackedBatch[]> =>
+			address ? listBatches(address) : Promise.resolve([]),
+		enabled: !!address,
+	});
+
+	useEffect(() => subscribe(() => refetch()), [refetch]);
+
+	return {
+		batches: data ?? [],
+		isLoading,
+	};
+}
@@ -0,0 +1,74 @@
+import { useMemo } from "react";
+import { useAccount, useCapabilities } from "wagmi";
+
+/**
+ * Atomic batch support of the wallet on a chain (EIP-5792):
+ * - "supported": calls in a batch run atomically
+ * - "ready": the wallet can upgrade the account to run them atomically
+ * - "unsupported": the wallet has no wallet_sendCalls for the chain
+ */
+export type AtomicStatus = "supported" | "ready" | "unsupported";
+
+export interface WalletCapabilities {
+	atomic: AtomicStatus;
+	paymaster: boolean; // ERC-7677 paymaster service
+	isLoading: boolean;
+}
+
+interface UseWalletCapabilitiesParams {
+	chainId: number | undefined;
+	enabled?: boolean;
+}
+
+interface ChainCapabilities {
+	atomic?: { status?: string };
+	atomicBatch?: { supported?: boolean }; // Pre-release name of atomic
+	paymasterService?: { supported?: boolean };
+}
+
+function toAtomicStatus(
+	capabilities: ChainCapabilities | undefined,
+): AtomicStatus {
+	const status = capabilities?.atomic?.status;
+	if (status === "supported" || status === "ready") return status;
+	if (capabilities?.atomicBatch?.supported) return "supported";
+	return "unsupported";
+}
+
+/**
+ * Hook to detect the connected wallet's EIP-5792 capabilities on a chain via
+ * wallet_getCapabilities. Results are cached per connector, so switching from
+ * Porto to an injected or WalletConnect wallet detects again. A wallet without
+ * wallet_getCapabilities is treated as unsupported.
+ *
+ * @param chainId - Chain the calls will be sent on
+ * @param enabled - Whether to query the wallet (default: true)
+ * @returns Atomic batch status, paymaster support and loading state
+ */
+export function useWalletCapabilities({
+	chainId,
+	enabled = true,
+}: UseWalletCapabilitiesParams): WalletCapabilities {
+	const { address, connector } = useAccount();
+
+	const { data, isLoading } = useCapabilities({
+		account: address,
+		chainId,
+		connector,
+		scopeKey: connector?.uid,
+		query: {
+			enabled: enabled && !!address && !!connector && !!chainId,
+			retry: false,
+			staleTime: Number.POSITIVE_INFINITY,
+		},
+	});
+
+	return useMemo(() => {
+		const capabilities = data as ChainCapabilities | undefined;
+		return {
+			atomic: toAtomicStatus(capabilities),
+			paymaster: capabilities?.paymasterService?.supported === true,
+			isLoading,
+		};
+	}, [data, isLoading]);
+}
@@ -164,6 +164,20 @@ export function getQuoterAddress(chainId: number): Address | undefined {
 	return deployment?.quoterV2 || deployment?.quoter;
 }
 
+/**
+ * Get Universal Router address for a specific chain
+ */
+export function getUniversalRouterAddress(chainId: number): Address | undefined {
+	return UNISWAP_V3_DEPLOYMENTS[chainId]?.universalRouter;
+}
+
+/**
+ * Get Permit2 address for a specific chain
+ */
+export function getPermit2Address(chainId: number): Address | undefined {
+	return UNISWAP_V3_DEPLOYMENTS[chainId]?.permit2;
+}
+
 /**
  * Get wrapped native token address for a specific chain
  */
@@ -0,0 +1,196 @@
+/**
+ * Persistent transaction store
+ *
+ * Records every call batch sent through useSendCalls in IndexedDB, so its
+ * progress survives a reload: which steps were submitted, under which hash,
+ * and whether they were mined, reverted or replaced in the wallet.
+ */
+import type { Address, Hash, Hex } from "viem";
+
+const DB_NAME = "uniswap-transactions";
+const DB_VERSION = 1;
+const STORE_NAME = "batches";
+
+export type TransactionIntent =
+	| "mint"
+	| "increase"
+	| "decrease"
+	| "collect"
+	| "swap"
+	| "rebalance";
+
+/**
+ * - "pending": not sent yet
+ * - "submitted": sent, waiting to be mined
+ * - "confirmed" / "reverted": mined
+ * - "replaced": the wallet replaced it with a different transaction
+ */
+export type StepStatus =
+	| "pending"
+	| "submitted"
+	| "confirmed"
+	| "reverted"
+	| "replaced";
+
+/**
+ * - "pending": steps are being sent or mined
+ * - "interrupted": some steps were never sent, they can be continued
+ */
+export type BatchStatus = "pending" | "success" | "failure" | "interrupted";
+
+export interface TrackedStep {
+	to: Address;
+	data: Hex;
+	value: bigint;
+	status: StepStatus;
+	hash?: Hash;
+	replacedHash?: Hash; // Hash before the wallet sped up or replaced the transaction
+}
+
+export interface TrackedBatch {
+	id: string;
+	intent: TransactionIntent | undefined;
+	chainId: number;
+	account: Address;
+	mode: "batch" | "sequential";
+	callsId?: string; // EIP-5792 batch ID (batch mode)
+	steps: TrackedStep[];
+	status: BatchStatus;
+	createdAt: number;
+	updatedAt: number;
+}
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+// Batches sent in this page session are monitored by the code sending them
+const sessionBatchIds = new Set<string>();
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+function openDatabase(): Promise<IDBDatabase> {
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const store = request.result.createObjectStore(STORE_NAME, {
+					keyPath: "id",
+				});
+				store.createIndex("account", "account");
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	}
+	return dbPromise;
+}
+
+async function runRequest<T>(
+	mode: IDBTransactionMode,
+	operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+	const db = await openDatabase();
+	return new Promise((resolve, reject) => {
+		const request = operation(
+			db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+		);
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function notify() {
+	for (const listener of listeners) listener();
+}
+
+/**
+ * Status of a batch from its steps. A batch whose remaining steps were never
+ * sent is interrupted once nothing is in flight.
+ */
+export function getBatchStatus(steps: TrackedStep[]): BatchStatus {
+	if (steps.some((step) => step.status === "reverted")) return "failure";
+	if (steps.every((step) => step.status === "confirmed")) return "success";
+	if (steps.some((step) => step.status === "submitted")) return "pending";
+	return "interrupted";
+}
+
+export async function createBatch(
+	batch: Omit<TrackedBatch, "id" | "status" | "createdAt" | "updatedAt">,
+): Promise<TrackedBatch> {
+	const now = Date.now();
+	const record: TrackedBatch = {
+		...batch,
+		id: crypto.randomUUID(),
+		status: "pending",
+		createdAt: now,
+		updatedAt: now,
+	};
+	sessionBatchIds.add(record.id);
+	await runRequest("readwrite", (store) => store.put(record));
+	notify();
+	return record;
+}
+
+export function getBatch(id: string): Promise<TrackedBatch | undefined> {
+	return runRequest("readonly", (store) => store.get(id));
+}
+
+/**
+ * Apply an update to the latest stored version of a batch
+ */
+export async function updateBatch(
+	id: string,
+	update: (batch: TrackedBatch) => TrackedBatch,
+): Promise<TrackedBatch | undefined> {
+	const batch = await getBatch(id);
+	if (!batch) return undefined;
+
+	const updated = { ...update(batch), updatedAt: Date.now() };
+	await runRequest("readwrite", (store) => store.put(updated));
+	notify();
+	return updated;
+}
+
+export function updateStep(
+	id: string,
+	index: number,
+	step: Partial<TrackedStep>,
+	status?: BatchStatus,
+): Promise<TrackedBatch | undefined> {
+	return updateBatch(id, (batch) => {
+		const steps = batch.steps.map((current, i) =>
+			i === index ? { ...current, ...step } : current,
+		);
+		return { ...batch, steps, status: status ?? batch.status };
+	});
+}
+
+export async function deleteBatch(id: string): Promise<void> {
+	sessionBatchIds.delete(id);
+	await runRequest("readwrite", (store) => store.delete(id));
+	notify();
+}
+
+/**
+ * Batches of an account, newest first
+ */
+export async function listBatches(account: Address): Promise<TrackedBatch[]> {
+	const batches = await runRequest("readonly", (store) =>
+		store.index("account").getAll(account),
+	);
+	return batches.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function markSessionBatch(id: string) {
+	sessionBatchIds.add(id);
+}
+
+export function isSessionBatch(id: string): boolean {
+	return sessionBatchIds.has(id);
+}
+
+export function subscribe(listener: Listener): () => void {
+	listeners.add(listener);
+	return () => listeners.delete(listener);
+}
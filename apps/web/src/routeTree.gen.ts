@@ -10,15 +10,24 @@
 
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as TokenSelectorDemoRouteImport } from './routes/token-selector-demo'
+import { Route as SwapRouteImport } from './routes/swap'
 import { Route as PositionsRouteImport } from './routes/positions'
 import { Route as MintPositionRouteImport } from './routes/mint-position'
+import { Route as AlertsRouteImport } from './routes/alerts'
+import { Route as ActivityRouteImport } from './routes/activity'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as PositionsChainIdTokenIdRouteImport } from './routes/positions_.$chainId.$tokenId'
 
 const TokenSelectorDemoRoute = TokenSelectorDemoRouteImport.update({
   id: '/token-selector-demo',
   path: '/token-selector-demo',
   getParentRoute: () => rootRouteImport,
 } as any)
+const SwapRoute = SwapRouteImport.update({
+  id: '/swap',
+  path: '/swap',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const PositionsRoute = PositionsRouteImport.update({
   id: '/positions',
   path: '/positions',
@@ -29,49 +38,100 @@ const MintPositionRoute = MintPositionRouteImport.update({
   path: '/mint-position',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AlertsRoute = AlertsRouteImport.update({
+  id: '/alerts',
+  path: '/alerts',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ActivityRoute = ActivityRouteImport.update({
+  id: '/activity',
+  path: '/activity',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const PositionsChainIdTokenIdRoute = PositionsChainIdTokenIdRouteImport.update({
+  id: '/positions_/$chainId/$tokenId',
+  path: '/positions/$chainId/$tokenId',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/activity': typeof ActivityRoute
+  '/alerts': typeof AlertsRoute
   '/mint-position': typeof MintPositionRoute
   '/positions': typeof PositionsRoute
+  '/swap': typeof SwapRoute
   '/token-selector-demo': typeof TokenSelectorDemoRoute
+  '/positions/$chainId/$tokenId': typeof PositionsChainIdTokenIdRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/activity': typeof ActivityRoute
+  '/alerts': typeof AlertsRoute
   '/mint-position': typeof MintPositionRoute
   '/positions': typeof PositionsRoute
+  '/swap': typeof SwapRoute
   '/token-selector-demo': typeof TokenSelectorDemoRoute
+  '/positions/$chainId/$tokenId': typeof PositionsChainIdTokenIdRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/activity': typeof ActivityRoute
+  '/alerts': typeof AlertsRoute
   '/mint-position': typeof MintPositionRoute
   '/positions': typeof PositionsRoute
+  '/swap': typeof SwapRoute
   '/token-selector-demo': typeof TokenSelectorDemoRoute
+  '/positions_/$chainId/$tokenId': typeof PositionsChainIdTokenIdRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/mint-position' | '/positions' | '/token-selector-demo'
+  fullPaths:
+    | '/'
+    | '/activity'
+    | '/alerts'
+    | '/mint-position'
+    | '/positions'
+    | '/swap'
+    | '/token-selector-demo'
+    | '/positions/$chainId/$tokenId'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/mint-position' | '/positions' | '/token-selector-demo'
+  to:
+    | '/'
+    | '/activity'
+    | '/alerts'
+    | '/mint-position'
+    | '/positions'
+    | '/swap'
+    | '/token-selector-demo'
+    | '/positions/$chainId/$tokenId'
   id:
     | '__root__'
     | '/'
+    | '/activity'
+    | '/alerts'
     | '/mint-position'
     | '/positions'
+    | '/swap'
     | '/token-selector-demo'
+    | '/positions_/$chainId/$tokenId'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  ActivityRoute: typeof ActivityRoute
+  AlertsRoute: typeof AlertsRoute
   MintPositionRoute: typeof MintPositionRoute
   PositionsRoute: typeof PositionsRoute
+  SwapRoute: typeof SwapRoute
   TokenSelectorDemoRoute: typeof TokenSelectorDemoRoute
+  PositionsChainIdTokenIdRoute: typeof PositionsChainIdTokenIdRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -83,6 +143,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof TokenSelectorDemoRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/swap': {
+      id: '/swap'
+      path: '/swap'
+      fullPath: '/swap'
+      preLoaderRoute: typeof SwapRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/positions': {
       id: '/positions'
       path: '/positions'
@@ -97,6 +164,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof MintPositionRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/alerts': {
+      id: '/alerts'
+      path: '/alerts'
+      fullPath: '/alerts'
+      preLoaderRoute: typeof AlertsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/activity': {
+      id: '/activity'
+      path: '/activity'
+      fullPath: '/activity'
+      preLoaderRoute: typeof ActivityRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -104,14 +185,25 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/positions_/$chainId/$tokenId': {
+      id: '/positions_/$chainId/$tokenId'
+      path: '/positions/$chainId/$tokenId'
+      fullPath: '/positions/$chainId/$tokenId'
+      preLoaderRoute: typeof PositionsChainIdTokenIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  ActivityRoute: ActivityRoute,
+  AlertsRoute: AlertsRoute,
   MintPositionRoute: MintPositionRoute,
   PositionsRoute: PositionsRoute,
+  SwapRoute: SwapRoute,
   TokenSelectorDemoRoute: TokenSelectorDemoRoute,
+  PositionsChainIdTokenIdRoute: PositionsChainIdTokenIdRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -10,6 +10,7 @@ import { TanStackRouterDevtools } from "@tanstack/react-router-devtools";
 import Header from "@/components/header";
 import Loader from "@/components/loader";
 import { ThemeProvider } from "@/components/theme-provider";
+import { TransactionTracker } from "@/components/transaction-tracker";
 import { Toaster } from "@/components/ui/sonner";
 import type { trpc } from "@/utils/trpc";
 import "../index.css";
@@ -58,6 +59,7 @@ function RootComponent() {
 					<Header />
 					{isFetching ? <Loader /> : <Outlet />}
 				</div>
+				<TransactionTracker />
 				<Toaster richColors />
 			</ThemeProvider>
 			<TanStackRouterDevtools position="bottom-left" />
@@ -0,0 +1,255 @@
+import { formatAmount } from "@my-better-t-app/shared/amounts";
+import { createFileRoute } from "@tanstack/react-router";
+import { ExternalLink, History } from "lucide-react";
+import { useMemo, useState } from "react";
+import { EmptyState } from "@/components/empty-state";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WalletGuard } from "@/components/wallet-guard";
+import { type ActivityEntry, useActivity } from "@/hooks/use-activity";
+import { useTrackedTransactions } from "@/hooks/use-tracked-transactions";
+import { CHAIN_INFO, isSupportedChain } from "@/lib/tokens/multichain-tokens";
+import type {
+	BatchStatus,
+	StepStatus,
+} from "@/lib/transactions/transaction-store";
+import type { Chain } from "@/types/token";
+import {
+	getExplorerTxUrl,
+	getIntentLabel,
+	type StepActivity,
+} from "@/utils/activity";
+
+// Fraction digits shown for an amount
+const DISPLAY_DECIMALS = 6;
+
+const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+	pending: "Pending",
+	success: "Confirmed",
+	failure: "Failed",
+	interrupted: "Interrupted",
+};
+
+const STEP_STATUS_LABELS: Record<StepStatus, string> = {
+	pending: "Not sent",
+	submitted: "Pending",
+	confirmed: "Confirmed",
+	reverted: "Reverted",
+	replaced: "Replaced",
+};
+
+export const Route = createFileRoute("/activity")({
+	component: ActivityComponent,
+});
+
+function getChain(chainId: number): Chain {
+	return isSupportedChain(chainId)
+		? { chainId: String(chainId), ...CHAIN_INFO[chainId] }
+		: { chainId: String(chainId), name: `Chain ${chainId}`, icon: "" };
+}
+
+function formatSigned(amount: bigint, decimals: number): string {
+	const formatted = formatAmount(amount < 0n ? -amount : amount, decimals, {
+		maxDecimals: DISPLAY_DECIMALS,
+	});
+	return `${amount < 0n ? "-" : "+"}${formatted}`;
+}
+
+function ActivityComponent() {
+	return (
+		<WalletGuard>
+			<ActivityContent />
+		</WalletGuard>
+	);
+}
+
+function ActivityContent() {
+	const [chainId, setChainId] = useState<number | undefined>();
+	const { batches } = useTrackedTransactions();
+	const { entries, isLoading } = useActivity({ chainId });
+
+	// Chains the account has activity on, for the filter
+	const chainIds = useMemo(
+		() => [...new Set(batches.map((batch) => batch.chainId))],
+		[batches],
+	);
+
+	if (isLoading) {
+		return (
+			<div className="container mx-auto max-w-4xl px-4 py-8">
+				<div className="space-y-4">
+					<Skeleton className="h-8 w-48" />
+					<Skeleton className="h-32 w-full" />
+					<Skeleton className="h-32 w-full" />
+					<Skeleton className="h-32 w-full" />
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="container mx-auto max-w-4xl px-4 py-8">
+			<div className="space-y-6">
+				<div className="space-y-1">
+					<h1 className="font-bold text-2xl">Activity</h1>
+					<p className="text-muted-foreground">
+						Transactions sent from this browser, checked against their receipts
+					</p>
+				</div>
+
+				{chainIds.length > 1 && (
+					<div className="flex flex-wrap gap-2">
+						<Button
+							size="sm"
+							variant={chainId === undefined ? "default" : "outline"}
+							onClick={() => setChainId(undefined)}
+						>
+							All Chains
+						</Button>
+						{chainIds.map((id) => {
+							const chain = getChain(id);
+							return (
+								<Button
+									key={id}
+									size="sm"
+									variant={chainId === id ? "default" : "outline"}
+									onClick={() => setChainId(id)}
+								>
+									{chain.icon} {chain.displayName ?? chain.name}
+								</Button>
+							);
+						})}
+					</div>
+				)}
+
+				{entries.length === 0 ? (
+					<EmptyState
+						icon={<History className="h-12 w-12" />}
+						title="No Activity Yet"
+						description="Mints, swaps, fee collections and liquidity removals you send will appear here."
+					/>
+				) : (
+					<div className="space-y-4">
+						{entries.map((entry) => (
+							<ActivityCard key={entry.batch.id} entry={entry} />
+						))}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
+function ActivityCard({ entry }: { entry: ActivityEntry }) {
+	const { batch, steps, isLoading } = entry;
+	const chain = getChain(batch.chainId);
+
+	return (
+		<Card>
+			<CardHeader>
+				<div className="flex items-center justify-between">
+					<CardTitle>{getIntentLabel(batch)}</CardTitle>
+					<Badge
+						variant={
+							batch.status === "success"
+								? "default"
+								: batch.status === "failure"
+									? "destructive"
+									: "secondary"
+						}
+					>
+						{BATCH_STATUS_LABELS[batch.status]}
+					</Badge>
+				</div>
+				<p className="text-muted-foreground text-sm">
+					{chain.displayName ?? chain.name} ·{" "}
+					{new Date(batch.createdAt).toLocaleString()}
+				</p>
+			</CardHeader>
+			<CardContent className="space-y-3">
+				{isLoading || !steps ? (
+					<Skeleton className="h-12 w-full" />
+				) : (
+					steps.map((step, i) => (
+						<StepRow
+							key={step.hash ?? `${batch.id}-${i}`}
+							step={step}
+							label={
+								step.kind === "approval" ? "Approve" : getIntentLabel(batch)
+							}
+							chain={chain}
+						/>
+					))
+				)}
+			</CardContent>
+		</Card>
+	);
+}
+
+function StepRow({
+	step,
+	label,
+	chain,
+}: {
+	step: StepActivity;
+	label: string;
+	chain: Chain;
+}) {
+	const native = chain.nativeCurrency ?? { symbol: "ETH", decimals: 18 };
+	const explorerUrl = step.hash
+		? getExplorerTxUrl(chain, step.hash)
+		: undefined;
+
+	return (
+		<div className="space-y-1 rounded-lg border p-3 text-sm">
+			<div className="flex items-center justify-between">
+				<span className="font-medium">{label}</span>
+				<div className="flex items-center gap-2">
+					<span className="text-muted-foreground">
+						{STEP_STATUS_LABELS[step.status]}
+					</span>
+					{explorerUrl && (
+						<a
+							href={explorerUrl}
+							target="_blank"
+							rel="noopener noreferrer"
+							className="text-muted-foreground hover:text-foreground"
+						>
+							<ExternalLink className="h-4 w-4" />
+						</a>
+					)}
+				</div>
+			</div>
+			{step.transfers.map((transfer) => (
+				<div key={transfer.token} className="flex justify-between">
+					<span className="text-muted-foreground">
+						{transfer.symbol ??
+							`${transfer.token.slice(0, 6)}…${transfer.token.slice(-4)}`}
+					</span>
+					<span className={transfer.amount < 0n ? "" : "text-green-600"}>
+						{formatSigned(transfer.amount, transfer.decimals ?? 18)}
+					</span>
+				</div>
+			))}
+			{step.nativeSent > 0n && (
+				<div className="flex justify-between">
+					<span className="text-muted-foreground">{native.symbol} sent</span>
+					<span>{formatSigned(-step.nativeSent, native.decimals)}</span>
+				</div>
+			)}
+			{step.gasPaid !== undefined && (
+				<div className="flex justify-between">
+					<span className="text-muted-foreground">Gas Paid</span>
+					<span>
+						{formatAmount(step.gasPaid, native.decimals, {
+							maxDecimals: DISPLAY_DECIMALS,
+						})}{" "}
+						{native.symbol}
+					</span>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,162 @@
+import { useQuery } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { Bell } from "lucide-react";
+import { toast } from "sonner";
+import { useAccount } from "wagmi";
+import { EmptyState } from "@/components/empty-state";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WalletGuard } from "@/components/wallet-guard";
+import { useOwnerProof } from "@/hooks/use-owner-proof";
+import { CHAIN_INFO, isSupportedChain } from "@/lib/tokens/multichain-tokens";
+import { queryClient, trpc, trpcClient } from "@/utils/trpc";
+
+const KIND_LABELS = {
+	out_of_range: "Out of Range",
+	near_edge: "Near Range Bound",
+	fees: "Fees",
+	test: "Test",
+} as const;
+
+export const Route = createFileRoute("/alerts")({
+	component: AlertsComponent,
+});
+
+function AlertsComponent() {
+	return (
+		<WalletGuard>
+			<AlertsContent />
+		</WalletGuard>
+	);
+}
+
+function AlertsContent() {
+	const { address } = useAccount();
+	const { getProof } = useOwnerProof();
+	const alertsQuery = trpc.monitoring.getAlerts.queryOptions({
+		owner: address ?? "",
+	});
+	const { data, isLoading } = useQuery({
+		...alertsQuery,
+		enabled: !!address,
+		refetchInterval: 60 * 1000, // 1 minute
+	});
+	const alerts = data?.success ? data.alerts : [];
+	const unreadCount = data?.success ? data.unreadCount : 0;
+
+	const markRead = async (ids?: number[]) => {
+		if (!address) return;
+		try {
+			const result = await trpcClient.monitoring.markAlertsRead.mutate({
+				owner: address,
+				ids,
+				proof: await getProof(),
+			});
+			if (!result.success) toast.error(result.message);
+			await queryClient.invalidateQueries({ queryKey: alertsQuery.queryKey });
+		} catch (error) {
+			toast.error(
+				error instanceof Error ? error.message : "Failed to mark alerts read",
+			);
+		}
+	};
+
+	if (isLoading) {
+		return (
+			<div className="container mx-auto max-w-4xl px-4 py-8">
+				<div className="space-y-4">
+					<Skeleton className="h-8 w-48" />
+					<Skeleton className="h-20 w-full" />
+					<Skeleton className="h-20 w-full" />
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="container mx-auto max-w-4xl px-4 py-8">
+			<div className="space-y-6">
+				<div className="flex items-center justify-between">
+					<div className="space-y-1">
+						<h1 className="font-bold text-2xl">Alerts</h1>
+						<p className="text-muted-foreground">
+							Alerts from the positions you watch, checked every five minutes
+						</p>
+					</div>
+					{unreadCount > 0 && (
+						<Button variant="outline" onClick={() => markRead()}>
+							Mark all read ({unreadCount})
+						</Button>
+					)}
+				</div>
+
+				{alerts.length === 0 ? (
+					<EmptyState
+						icon={<Bell className="h-12 w-12" />}
+						title="No Alerts Yet"
+						description="Add an alert from a position's page to hear when it goes out of range, nears a bound or builds up fees."
+					/>
+				) : (
+					<div className="space-y-3">
+						{alerts.map((alert) => {
+							const chainName = isSupportedChain(alert.chainId)
+								? CHAIN_INFO[alert.chainId].name
+								: `Chain ${alert.chainId}`;
+							return (
+								<Card
+									key={alert.id}
+									className={alert.readAt ? "opacity-70" : undefined}
+								>
+									<CardContent className="flex items-center justify-between gap-4 py-4 text-sm">
+										<div className="space-y-1">
+											<div className="flex items-center gap-2">
+												<Badge variant={alert.readAt ? "secondary" : "default"}>
+													{KIND_LABELS[alert.kind]}
+												</Badge>
+												<span className="text-muted-foreground text-xs">
+													{chainName} ·{" "}
+													{new Date(alert.createdAt).toLocaleString()}
+												</span>
+											</div>
+											<p>{alert.message}</p>
+										</div>
+										<div className="flex shrink-0 gap-2">
+											<Button asChild size="sm" variant="outline">
+												<Link
+													to="/positions/$chainId/$tokenId"
+													params={{
+														chainId: String(alert.chainId),
+														tokenId: alert.tokenId,
+													}}
+													search={{
+														version:
+															alert.protocolVersion === "PROTOCOL_VERSION_V3"
+																? "v3"
+																: undefined,
+													}}
+												>
+													View
+												</Link>
+											</Button>
+											{!alert.readAt && (
+												<Button
+													size="sm"
+													variant="ghost"
+													onClick={() => markRead([alert.id])}
+												>
+													Mark read
+												</Button>
+											)}
+										</div>
+									</CardContent>
+								</Card>
+							);
+						})}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -1,11 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
 import { createFileRoute, useRouter } from "@tanstack/react-router";
 import { ArrowLeft } from "lucide-react";
+import { useAccount } from "wagmi";
 import { MintPositionForm } from "@/components/mint-position-form";
 import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
 import { WalletGuard } from "@/components/wallet-guard";
+import { trpc } from "@/utils/trpc";
+
+// Passing chainId and tokenId opens the form in increase mode for that V4 position
+interface MintPositionSearch {
+	chainId?: number;
+	tokenId?: string;
+}
 
 export const Route = createFileRoute("/mint-position")({
 	component: MintPositionComponent,
+	validateSearch: (search: Record<string, unknown>): MintPositionSearch => ({
+		chainId: search.chainId !== undefined ? Number(search.chainId) : undefined,
+		tokenId: search.tokenId !== undefined ? String(search.tokenId) : undefined,
+	}),
 });
 
 function MintPositionComponent() {
@@ -18,6 +32,21 @@ function MintPositionComponent() {
 
 function MintPositionContent() {
 	const router = useRouter();
+	const { address } = useAccount();
+	const { chainId, tokenId } = Route.useSearch();
+	const isIncrease = chainId !== undefined && tokenId !== undefined;
+
+	const { data: positionData, isLoading } = useQuery({
+		...trpc.uniswap.getPositionDetails.queryOptions({
+			owner: address!,
+			tokenId: tokenId ?? "0",
+			chainId,
+			protocolVersion: "PROTOCOL_VERSION_V4",
+		}),
+		enabled: isIncrease && !!address,
+	});
+	const increasePosition =
+		isIncrease && positionData?.success ? positionData.position : undefined;
 
 	const handleSuccess = () => {
 		// Navigate back to positions page after successful mint
@@ -42,15 +71,37 @@ function MintPositionContent() {
 					Back to Positions
 				</Button>
 				<div>
-					<h1 className="font-bold text-3xl">Create Liquidity Position</h1>
+					<h1 className="font-bold text-3xl">
+						{isIncrease
+							? `Add Liquidity to Position #${tokenId}`
+							: "Create Liquidity Position"}
+					</h1>
 					<p className="text-muted-foreground">
-						Add liquidity to Uniswap v4 and earn fees from trades
+						{isIncrease
+							? "Deposit more tokens into the same pool and price range"
+							: "Add liquidity to Uniswap v4 and earn fees from trades"}
 					</p>
 				</div>
 			</div>
 
 			{/* Form */}
-			<MintPositionForm onSuccess={handleSuccess} />
+			{!isIncrease ? (
+				<MintPositionForm onSuccess={handleSuccess} />
+			) : isLoading ? (
+				<Skeleton className="h-96 w-full" />
+			) : increasePosition ? (
+				<MintPositionForm
+					key={`${increasePosition.chainId}-${increasePosition.tokenId}`}
+					increasePosition={increasePosition}
+					onSuccess={handleSuccess}
+				/>
+			) : (
+				<p className="text-center text-muted-foreground">
+					{positionData?.success === false
+						? positionData.message
+						: `Position #${tokenId} could not be loaded`}
+				</p>
+			)}
 
 			{/* Info Section */}
 			<div className="mt-8 space-y-4 text-center text-muted-foreground text-sm">
@@ -59,8 +110,9 @@ function MintPositionContent() {
 					proportional to your share of the pool.
 				</p>
 				<p>
-					Make sure to have enough tokens in your wallet and approve the
-					position manager contract to spend your tokens.
+					Make sure to have enough tokens in your wallet. Tokens are approved
+					for Permit2 once, then a signed permit lets the position manager spend
+					them.
 				</p>
 			</div>
 		</div>
@@ -2,18 +2,20 @@ import { useQuery } from "@tanstack/react-query";
 import { createFileRoute } from "@tanstack/react-router";
 import { Plus, RefreshCw, Wallet } from "lucide-react";
 import { useAccount } from "wagmi";
+import { CollectFeesButton } from "@/components/collect-fees-button";
 import { EmptyState } from "@/components/empty-state";
 import { PositionCard } from "@/components/position-card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { WalletGuard } from "@/components/wallet-guard";
+import { CHAIN_INFO, isSupportedChain } from "@/lib/tokens/multichain-tokens";
 import { trpc } from "@/utils/trpc";
 
 // Explicitly define the enhanced position type to match the API response
 interface EnhancedPositionData {
 	tokenId: string;
 	chainId: number;
-	protocolVersion: string;
+	protocolVersion: "PROTOCOL_VERSION_V3" | "PROTOCOL_VERSION_V4";
 	status: string;
 	timestamp: number;
 	tickLower: number;
@@ -26,6 +28,7 @@ interface EnhancedPositionData {
 		decimals: number;
 		name: string;
 		isNative?: boolean;
+		isWrappedNative?: boolean;
 	};
 	token1: {
 		chainId: number;
@@ -34,20 +37,22 @@ interface EnhancedPositionData {
 		decimals: number;
 		name: string;
 		isNative?: boolean;
+		isWrappedNative?: boolean;
 	};
 	feeTier: number;
 	currentTick: number;
 	currentPrice: string;
+	sqrtPriceX96: string;
 	tickSpacing: number;
 	token0UncollectedFees: string;
 	token1UncollectedFees: string;
 	amount0: string;
 	amount1: string;
 	poolId: string;
-	totalLiquidityUsd: string;
+	totalLiquidityUsd: string | null;
 	currentLiquidity: string;
-	apr: number;
-	totalApr: number;
+	apr: number | null;
+	totalApr: number | null;
 	hooks: string[];
 }
 
@@ -129,6 +134,25 @@ function PositionsContent() {
 		[]) as unknown as EnhancedPositionData[];
 	const hasPositions = positions.length > 0;
 
+	// Group positions with claimable fees by chain for the "collect all" actions
+	const collectableByChain = Object.values(
+		positions.reduce<Record<number, EnhancedPositionData[]>>(
+			(groups, position) => {
+				if (
+					BigInt(position.token0UncollectedFees) > 0n ||
+					BigInt(position.token1UncollectedFees) > 0n
+				) {
+					groups[position.chainId] = [
+						...(groups[position.chainId] ?? []),
+						position,
+					];
+				}
+				return groups;
+			},
+			{},
+		),
+	);
+
 	return (
 		<div className="container mx-auto max-w-4xl px-4 py-8">
 			<div className="space-y-6">
@@ -163,6 +187,38 @@ function PositionsContent() {
 					</div>
 				</div>
 
+				{/* Collect all fees, one batch per chain */}
+				{collectableByChain.length > 0 && (
+					<div className="flex flex-wrap gap-4">
+						{collectableByChain.map((group) => {
+							const chainId = group[0].chainId;
+							const chainInfo = isSupportedChain(chainId)
+								? CHAIN_INFO[chainId]
+								: undefined;
+							const hasWrappedNative = group.some(
+								(p) => p.token0.isWrappedNative || p.token1.isWrappedNative,
+							);
+							return (
+								<CollectFeesButton
+									key={chainId}
+									chainId={chainId}
+									positions={group.map((p) => ({
+										tokenId: p.tokenId,
+										protocolVersion: p.protocolVersion,
+									}))}
+									label={`Collect all fees on ${chainInfo?.displayName ?? `Chain ${chainId}`} (${group.length})`}
+									nativeSymbol={
+										hasWrappedNative
+											? chainInfo?.nativeCurrency.symbol
+											: undefined
+									}
+									onSuccess={handleRefresh}
+								/>
+							);
+						})}
+					</div>
+				)}
+
 				{/* Content */}
 				{!hasPositions ? (
 					<EmptyState
@@ -183,7 +239,11 @@ function PositionsContent() {
 				) : (
 					<div className="grid gap-6 md:grid-cols-2">
 						{positions.map((position) => (
-							<PositionCard key={position.tokenId} position={position} />
+							<PositionCard
+								key={`${position.chainId}-${position.protocolVersion}-${position.tokenId}`}
+								position={position}
+								onPositionChange={handleRefresh}
+							/>
 						))}
 					</div>
 				)}
@@ -192,8 +252,8 @@ function PositionsContent() {
 				{hasPositions && (
 					<div className="border-t pt-6 text-center text-muted-foreground text-sm">
 						<p>
-							Positions are fetched from Unichain. Data may take a few minutes
-							to update after transactions.
+							Positions are read directly from the V4 PositionManager and V3
+							NonfungiblePositionManager contracts on each supported chain.
 						</p>
 					</div>
 				)}
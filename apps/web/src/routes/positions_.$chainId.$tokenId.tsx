@@ -0,0 +1,451 @@
+import { formatAmount } from "@my-better-t-app/shared/amounts";
+import { useQuery } from "@tanstack/react-query";
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
+import { ArrowLeft, ExternalLink, Link2, Wallet } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { zeroAddress } from "viem";
+import { useAccount } from "wagmi";
+import { CollectFeesButton } from "@/components/collect-fees-button";
+import { DecreaseLiquidityPanel } from "@/components/decrease-liquidity-panel";
+import { EmptyState } from "@/components/empty-state";
+import { PositionAlerts } from "@/components/position-alerts";
+import { PositionPnlDetails } from "@/components/position-pnl";
+import { PositionRangeChart } from "@/components/position-range-chart";
+import { PositionRebalancing } from "@/components/position-rebalancing";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CHAIN_INFO, isSupportedChain } from "@/lib/tokens/multichain-tokens";
+import { tickToPrice } from "@/utils/price-range";
+import { trpc } from "@/utils/trpc";
+
+// Fraction digits shown for an amount
+const DISPLAY_DECIMALS = 6;
+
+// V4 unless the link says otherwise, so shared V4 links stay short
+interface PositionSearch {
+	version?: "v3" | "v4";
+}
+
+export const Route = createFileRoute("/positions_/$chainId/$tokenId")({
+	component: PositionDetailComponent,
+	validateSearch: (search: Record<string, unknown>): PositionSearch => ({
+		version: search.version === "v3" ? "v3" : undefined,
+	}),
+});
+
+function formatAddress(address: string) {
+	return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function formatUSD(value: string) {
+	const num = Number.parseFloat(value);
+	if (num >= 1000000) {
+		return `$${(num / 1000000).toFixed(2)}M`;
+	}
+	if (num >= 1000) {
+		return `$${(num / 1000).toFixed(2)}K`;
+	}
+	return `$${num.toFixed(2)}`;
+}
+
+// Positions are public on-chain, so the page is readable without a wallet
+function PositionDetailComponent() {
+	const params = Route.useParams();
+	const { version } = Route.useSearch();
+	const { address } = useAccount();
+	const navigate = useNavigate();
+	const [showRemove, setShowRemove] = useState(false);
+
+	const chainId = Number(params.chainId);
+	const tokenId = params.tokenId;
+	const isValid = Number.isInteger(chainId) && /^\d+$/.test(tokenId);
+
+	const { data, isLoading, error, refetch } = useQuery({
+		...trpc.uniswap.getPosition.queryOptions({
+			chainId,
+			tokenId,
+			protocolVersion:
+				version === "v3" ? "PROTOCOL_VERSION_V3" : "PROTOCOL_VERSION_V4",
+		}),
+		enabled: isValid,
+	});
+
+	const handleShare = async () => {
+		try {
+			await navigator.clipboard.writeText(window.location.href);
+			toast.success("Position link copied");
+		} catch {
+			toast.error("Failed to copy the link");
+		}
+	};
+
+	const backLink = (
+		<Button variant="ghost" size="sm" asChild>
+			<Link to="/positions">
+				<ArrowLeft className="mr-1 h-4 w-4" />
+				Positions
+			</Link>
+		</Button>
+	);
+
+	if (isValid && isLoading) {
+		return (
+			<div className="container mx-auto max-w-4xl px-4 py-8">
+				<div className="space-y-6">
+					<Skeleton className="h-8 w-64" />
+					<Skeleton className="h-48 w-full" />
+					<div className="grid gap-6 md:grid-cols-2">
+						<Skeleton className="h-40 w-full" />
+						<Skeleton className="h-40 w-full" />
+					</div>
+				</div>
+			</div>
+		);
+	}
+
+	if (!isValid || error || !data?.success) {
+		return (
+			<div className="container mx-auto max-w-4xl px-4 py-8">
+				<div className="space-y-6">
+					{backLink}
+					<EmptyState
+						icon={<Wallet className="h-12 w-12" />}
+						title="Position Not Found"
+						description={
+							!isValid
+								? "This link does not point to a position."
+								: (error?.message ??
+									(data && !data.success ? data.message : undefined) ??
+									"Failed to load the position.")
+						}
+						action={
+							isValid
+								? { label: "Try Again", onClick: () => refetch() }
+								: undefined
+						}
+					/>
+				</div>
+			</div>
+		);
+	}
+
+	const { position, owner } = data;
+	const {
+		protocolVersion,
+		status,
+		tickLower,
+		tickUpper,
+		liquidity,
+		token0,
+		token1,
+		feeTier,
+		currentTick,
+		totalLiquidityUsd,
+		apr,
+		totalApr,
+		token0UncollectedFees,
+		token1UncollectedFees,
+		amount0,
+		amount1,
+		hooks,
+	} = position;
+
+	const chainInfo = isSupportedChain(chainId) ? CHAIN_INFO[chainId] : undefined;
+	const nativeSymbol =
+		token0.isWrappedNative || token1.isWrappedNative
+			? chainInfo?.nativeCurrency.symbol
+			: undefined;
+	const isOwner = !!address && address.toLowerCase() === owner.toLowerCase();
+	// Liquidity management is only wired up for V4 positions
+	const canManage =
+		isOwner &&
+		protocolVersion === "PROTOCOL_VERSION_V4" &&
+		BigInt(liquidity) > 0n;
+	const hasFees =
+		BigInt(token0UncollectedFees) > 0n || BigInt(token1UncollectedFees) > 0n;
+	const hookAddresses = hooks.filter((hook) => hook !== zeroAddress);
+	const inRange = status === "POSITION_STATUS_IN_RANGE";
+
+	// Share of the position's value held in each token, priced in token1
+	const value0 =
+		Number(formatAmount(BigInt(amount0), token0.decimals)) *
+		tickToPrice(currentTick, token0.decimals, token1.decimals);
+	const value1 = Number(formatAmount(BigInt(amount1), token1.decimals));
+	const share0 =
+		value0 + value1 > 0 ? (value0 / (value0 + value1)) * 100 : undefined;
+
+	const formatTokenAmount = (amount: string, decimals: number) =>
+		formatAmount(BigInt(amount), decimals, { maxDecimals: DISPLAY_DECIMALS });
+
+	return (
+		<div className="container mx-auto max-w-4xl px-4 py-8">
+			<div className="space-y-6">
+				{backLink}
+
+				{/* Header */}
+				<div className="flex items-start justify-between">
+					<div className="space-y-1">
+						<div className="flex items-center gap-2">
+							<h1 className="font-bold text-2xl">
+								{token0.symbol} / {token1.symbol}
+							</h1>
+							<Badge
+								variant={
+									protocolVersion === "PROTOCOL_VERSION_V4"
+										? "default"
+										: "secondary"
+								}
+							>
+								{protocolVersion.replace("PROTOCOL_VERSION_", "")}
+							</Badge>
+							<Badge variant={inRange ? "default" : "outline"}>
+								{inRange ? "In Range" : "Out of Range"}
+							</Badge>
+						</div>
+						<p className="text-muted-foreground text-sm">
+							#{tokenId} • {chainInfo?.displayName ?? `Chain ${chainId}`} •{" "}
+							{(feeTier / 10000).toFixed(2)}% Fee
+						</p>
+					</div>
+					<Button variant="outline" size="sm" onClick={handleShare}>
+						<Link2 className="mr-1 h-4 w-4" />
+						Share
+					</Button>
+				</div>
+
+				{/* Price Range */}
+				<Card>
+					<CardHeader>
+						<CardTitle>Price Range</CardTitle>
+					</CardHeader>
+					<CardContent>
+						<PositionRangeChart
+							token0={token0}
+							token1={token1}
+							tickLower={tickLower}
+							tickUpper={tickUpper}
+							currentTick={currentTick}
+						/>
+					</CardContent>
+				</Card>
+
+				<div className="grid gap-6 md:grid-cols-2">
+					{/* Liquidity */}
+					<Card>
+						<CardHeader>
+							<CardTitle>Liquidity</CardTitle>
+						</CardHeader>
+						<CardContent className="space-y-3 text-sm">
+							<div className="flex justify-between">
+								<span className="text-muted-foreground">Value</span>
+								<span className="font-semibold">
+									{totalLiquidityUsd !== null
+										? formatUSD(totalLiquidityUsd)
+										: "—"}
+								</span>
+							</div>
+							{[
+								{ token: token0, amount: amount0, share: share0 },
+								{
+									token: token1,
+									amount: amount1,
+									share: share0 !== undefined ? 100 - share0 : undefined,
+								},
+							].map(({ token, amount, share }) => (
+								<div key={token.address} className="flex justify-between">
+									<span className="text-muted-foreground">{token.symbol}</span>
+									<span className="font-mono">
+										{formatTokenAmount(amount, token.decimals)}
+										{share !== undefined && (
+											<span className="ml-2 text-muted-foreground">
+												{share.toFixed(1)}%
+											</span>
+										)}
+									</span>
+								</div>
+							))}
+							<div className="flex justify-between">
+								<span className="text-muted-foreground">Fee APR</span>
+								<span>{apr !== null ? `${apr.toFixed(2)}%` : "—"}</span>
+							</div>
+							<div className="flex justify-between">
+								<span className="text-muted-foreground">Total APR</span>
+								<span className="font-medium text-green-600">
+									{totalApr !== null ? `${totalApr.toFixed(2)}%` : "—"}
+								</span>
+							</div>
+						</CardContent>
+					</Card>
+
+					{/* Uncollected Fees */}
+					<Card>
+						<CardHeader>
+							<div className="flex items-center justify-between">
+								<CardTitle>Uncollected Fees</CardTitle>
+								{isOwner && hasFees && (
+									<CollectFeesButton
+										chainId={chainId}
+										positions={[{ tokenId, protocolVersion }]}
+										label="Collect"
+										nativeSymbol={nativeSymbol}
+										onSuccess={() => refetch()}
+									/>
+								)}
+							</div>
+						</CardHeader>
+						<CardContent className="space-y-3 text-sm">
+							<div className="flex justify-between">
+								<span className="text-muted-foreground">{token0.symbol}</span>
+								<span className="font-mono">
+									{formatTokenAmount(token0UncollectedFees, token0.decimals)}
+								</span>
+							</div>
+							<div className="flex justify-between">
+								<span className="text-muted-foreground">{token1.symbol}</span>
+								<span className="font-mono">
+									{formatTokenAmount(token1UncollectedFees, token1.decimals)}
+								</span>
+							</div>
+						</CardContent>
+					</Card>
+				</div>
+
+				<PositionPnlDetails
+					chainId={chainId}
+					tokenId={tokenId}
+					protocolVersion={protocolVersion}
+					token0={token0}
+					token1={token1}
+				/>
+
+				<PositionAlerts
+					chainId={chainId}
+					tokenId={tokenId}
+					protocolVersion={protocolVersion}
+				/>
+
+				{protocolVersion === "PROTOCOL_VERSION_V4" && (
+					<PositionRebalancing
+						chainId={chainId}
+						tokenId={tokenId}
+						token0={token0}
+						token1={token1}
+						currentTick={currentTick}
+						tickSpacing={position.tickSpacing}
+						canManage={canManage}
+						onRebalanced={(newTokenId) =>
+							navigate({
+								to: "/positions/$chainId/$tokenId",
+								params: { chainId: String(chainId), tokenId: newTokenId },
+								search: { version: undefined },
+							})
+						}
+					/>
+				)}
+
+				{/* Pool */}
+				<Card>
+					<CardHeader>
+						<CardTitle>Pool</CardTitle>
+					</CardHeader>
+					<CardContent className="space-y-3 text-sm">
+						<div className="flex justify-between">
+							<span className="text-muted-foreground">Owner</span>
+							<AddressLink
+								address={owner}
+								explorerUrl={chainInfo?.explorerUrl}
+							/>
+						</div>
+						<div className="flex justify-between">
+							<span className="text-muted-foreground">Hooks</span>
+							{hookAddresses.length > 0 ? (
+								<div className="space-y-1 text-right">
+									{hookAddresses.map((hook) => (
+										<AddressLink
+											key={hook}
+											address={hook}
+											explorerUrl={chainInfo?.explorerUrl}
+										/>
+									))}
+								</div>
+							) : (
+								<span>None</span>
+							)}
+						</div>
+						<div className="flex justify-between">
+							<span className="text-muted-foreground">Pool ID</span>
+							<span className="font-mono text-xs">
+								{formatAddress(position.poolId)}
+							</span>
+						</div>
+						<div className="flex justify-between">
+							<span className="text-muted-foreground">Tick Range</span>
+							<span className="font-mono">
+								{tickLower.toLocaleString()} → {tickUpper.toLocaleString()}
+							</span>
+						</div>
+					</CardContent>
+				</Card>
+
+				{/* Actions */}
+				{canManage && (
+					<div className="space-y-3">
+						<div className="grid grid-cols-2 gap-2">
+							<Button variant="outline" asChild>
+								<Link to="/mint-position" search={{ chainId, tokenId }}>
+									Add Liquidity
+								</Link>
+							</Button>
+							<Button
+								variant="outline"
+								onClick={() => setShowRemove((open) => !open)}
+							>
+								{showRemove ? "Cancel" : "Remove Liquidity"}
+							</Button>
+						</div>
+						{showRemove && (
+							<DecreaseLiquidityPanel
+								chainId={chainId}
+								tokenId={tokenId}
+								token0={token0}
+								token1={token1}
+								amount0={amount0}
+								amount1={amount1}
+								onSuccess={() => {
+									setShowRemove(false);
+									refetch();
+								}}
+							/>
+						)}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
+function AddressLink({
+	address,
+	explorerUrl,
+}: {
+	address: string;
+	explorerUrl: string | undefined;
+}) {
+	if (!explorerUrl) {
+		return <span className="font-mono text-xs">{formatAddress(address)}</span>;
+	}
+	return (
+		<a
+			href={`${explorerUrl}/address/${address}`}
+			target="_blank"
+			rel="noopener noreferrer"
+			className="flex items-center gap-1 font-mono text-xs hover:underline"
+		>
+			{formatAddress(address)}
+			<ExternalLink className="h-3 w-3" />
+		</a>
+	);
+}
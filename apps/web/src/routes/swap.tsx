@@ -0,0 +1,400 @@
+import { formatAmount } from "@my-better-t-app/shared/amounts";
+import { createFileRoute } from "@tanstack/react-router";
+import { AlertCircle, ArrowDownUp, ChevronDown } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAccount, useChainId } from "wagmi";
+import { TokenSelectorV2 } from "@/components/token-selector-v2";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { WalletGuard } from "@/components/wallet-guard";
+import { useSwap } from "@/hooks/use-swap";
+import { useTokenManagement } from "@/hooks/use-token-management";
+import { isSupportedChain } from "@/lib/tokens/multichain-tokens";
+import type { Token } from "@/types/token";
+import type { TradeType } from "@/utils/universal-router";
+
+// Fraction digits shown for a quoted amount
+const DISPLAY_DECIMALS = 6;
+
+export const Route = createFileRoute("/swap")({
+	component: SwapComponent,
+});
+
+function SwapComponent() {
+	return (
+		<WalletGuard>
+			<SwapContent />
+		</WalletGuard>
+	);
+}
+
+function TokenButton({
+	token,
+	placeholder,
+	onClick,
+}: {
+	token: Token | null;
+	placeholder: string;
+	onClick: () => void;
+}) {
+	return (
+		<Button
+			variant="outline"
+			onClick={onClick}
+			className="flex h-auto shrink-0 items-center gap-2 px-3 py-2"
+		>
+			{token ? (
+				<>
+					{token.icon && (
+						<img
+							src={token.icon}
+							alt={token.symbol}
+							className="h-5 w-5 rounded-full"
+						/>
+					)}
+					<span className="font-medium">{token.symbol}</span>
+				</>
+			) : (
+				<span className="text-muted-foreground">{placeholder}</span>
+			)}
+			<ChevronDown className="h-4 w-4" />
+		</Button>
+	);
+}
+
+function SwapContent() {
+	const wagmiChainId = useChainId();
+	const chainId = isSupportedChain(wagmiChainId) ? wagmiChainId : undefined;
+
+	// Tokens belong to a chain, start over when the wallet moves
+	return <SwapForm key={chainId ?? "unsupported"} chainId={chainId} />;
+}
+
+function SwapForm({ chainId }: { chainId: number | undefined }) {
+	const { address } = useAccount();
+
+	const {
+		tokens,
+		loading: tokensLoading,
+		error: tokensError,
+		currentChainId,
+		supportedChains,
+		refreshTokens,
+	} = useTokenManagement();
+
+	const [tokenIn, setTokenIn] = useState<Token | null>(null);
+	const [tokenOut, setTokenOut] = useState<Token | null>(null);
+	// The side the user typed is exact, the other one is quoted
+	const [amount, setAmount] = useState("");
+	const [tradeType, setTradeType] = useState<TradeType>("EXACT_INPUT");
+	const [slippageTolerance, setSlippageTolerance] = useState("0.5");
+	const [showTokenInSelector, setShowTokenInSelector] = useState(false);
+	const [showTokenOutSelector, setShowTokenOutSelector] = useState(false);
+
+	const {
+		execute,
+		status,
+		quote,
+		quoteLoading,
+		quoteError,
+		limits,
+		error: swapError,
+		balanceError,
+		isReady,
+		isExecuting,
+		reset,
+	} = useSwap({
+		chainId,
+		tokenIn,
+		tokenOut,
+		amount,
+		tradeType,
+		slippageTolerance: Number.parseFloat(slippageTolerance) || 0.5,
+		owner: address,
+	});
+
+	// Handle swap success and errors
+	useEffect(() => {
+		if (status === "success") {
+			toast.success("Swap completed successfully!");
+			setAmount("");
+			reset();
+		} else if (status === "error") {
+			toast.error(swapError || "Transaction failed. Please try again.");
+			// Reset status to idle after showing error so user can retry
+			setTimeout(() => reset(), 3000);
+		}
+	}, [status, swapError, reset]);
+
+	const handleTokenSelect = (side: "in" | "out") => (token: Token) => {
+		const other = side === "in" ? tokenOut : tokenIn;
+		if (other && token.address === other.address) {
+			toast.error("Cannot swap a token for itself");
+			return;
+		}
+		if (side === "in") {
+			setTokenIn(token);
+			setShowTokenInSelector(false);
+		} else {
+			setTokenOut(token);
+			setShowTokenOutSelector(false);
+		}
+	};
+
+	const handleFlip = () => {
+		setTokenIn(tokenOut);
+		setTokenOut(tokenIn);
+		setTradeType(tradeType === "EXACT_INPUT" ? "EXACT_OUTPUT" : "EXACT_INPUT");
+	};
+
+	const formatQuoted = (value: string | undefined, token: Token | null) =>
+		value && token
+			? formatAmount(BigInt(value), token.decimals, {
+					maxDecimals: DISPLAY_DECIMALS,
+				})
+			: "";
+
+	const amountIn =
+		tradeType === "EXACT_INPUT"
+			? amount
+			: formatQuoted(quote?.amountIn, tokenIn);
+	const amountOut =
+		tradeType === "EXACT_OUTPUT"
+			? amount
+			: formatQuoted(quote?.amountOut, tokenOut);
+
+	const getSymbol = (currency: string) =>
+		tokens.find((t) => t.address.toLowerCase() === currency.toLowerCase())
+			?.symbol ?? `${currency.slice(0, 6)}…${currency.slice(-4)}`;
+
+	// Get button text based on status
+	const getButtonText = () => {
+		if (balanceError) return balanceError;
+
+		switch (status) {
+			case "checking-balance":
+				return "Checking balances...";
+			case "preparing":
+				return "Preparing transaction...";
+			case "checking-allowance":
+				return "Checking allowances...";
+			case "switching-chain":
+				return "Switching network...";
+			case "executing":
+				return "Executing transaction...";
+			case "confirming":
+				return "Confirming...";
+			default:
+				if (!tokenIn || !tokenOut) return "Select tokens";
+				if (!amount) return "Enter an amount";
+				if (quoteLoading && !quote) return "Fetching quote...";
+				return quote ? "Swap" : "No route available";
+		}
+	};
+
+	return (
+		<div className="container mx-auto max-w-lg px-4 py-8">
+			<div className="mb-8">
+				<h1 className="font-bold text-3xl">Swap</h1>
+				<p className="text-muted-foreground">
+					Trade tokens through the Uniswap Universal Router
+				</p>
+			</div>
+
+			<div className="space-y-6">
+				<Card>
+					<CardContent className="space-y-2 pt-6">
+						{/* Input side */}
+						<div className="space-y-2">
+							<Label htmlFor="amount-in">You pay</Label>
+							<div className="flex gap-2">
+								<Input
+									id="amount-in"
+									type="text"
+									inputMode="decimal"
+									placeholder="0.0"
+									value={amountIn}
+									onChange={(e) => {
+										setTradeType("EXACT_INPUT");
+										setAmount(e.target.value);
+									}}
+								/>
+								<TokenButton
+									token={tokenIn}
+									placeholder="Select"
+									onClick={() => setShowTokenInSelector(true)}
+								/>
+							</div>
+						</div>
+
+						<div className="flex justify-center">
+							<Button variant="ghost" size="sm" onClick={handleFlip}>
+								<ArrowDownUp className="h-4 w-4" />
+							</Button>
+						</div>
+
+						{/* Output side */}
+						<div className="space-y-2">
+							<Label htmlFor="amount-out">You receive</Label>
+							<div className="flex gap-2">
+								<Input
+									id="amount-out"
+									type="text"
+									inputMode="decimal"
+									placeholder="0.0"
+									value={amountOut}
+									onChange={(e) => {
+										setTradeType("EXACT_OUTPUT");
+										setAmount(e.target.value);
+									}}
+								/>
+								<TokenButton
+									token={tokenOut}
+									placeholder="Select"
+									onClick={() => setShowTokenOutSelector(true)}
+								/>
+							</div>
+						</div>
+
+						{quoteError && <p className="text-red-600 text-sm">{quoteError}</p>}
+					</CardContent>
+				</Card>
+
+				{/* Quote Details */}
+				{quote && limits && tokenIn && tokenOut && (
+					<Card>
+						<CardHeader>
+							<CardTitle>Quote</CardTitle>
+						</CardHeader>
+						<CardContent>
+							<div className="space-y-2 text-sm">
+								<div className="flex justify-between">
+									<span className="text-muted-foreground">Route:</span>
+									<span className="flex items-center gap-2">
+										<Badge variant="secondary">
+											{quote.bestRoute.protocolVersion === "PROTOCOL_VERSION_V4"
+												? "V4"
+												: "V3"}
+										</Badge>
+										{quote.bestRoute.path.map(getSymbol).join(" → ")}
+									</span>
+								</div>
+								<div className="flex justify-between">
+									<span className="text-muted-foreground">Fee Tiers:</span>
+									<span>
+										{quote.bestRoute.fees
+											.map((fee) => `${(fee / 10000).toFixed(2)}%`)
+											.join(", ")}
+									</span>
+								</div>
+								<div className="flex justify-between">
+									<span className="text-muted-foreground">Price Impact:</span>
+									<span>
+										{quote.bestRoute.priceImpact !== null
+											? `${(quote.bestRoute.priceImpact * 100).toFixed(2)}%`
+											: "—"}
+									</span>
+								</div>
+								<div className="flex justify-between">
+									<span className="text-muted-foreground">
+										{tradeType === "EXACT_INPUT"
+											? "Minimum Received:"
+											: "Maximum Sold:"}
+									</span>
+									<span>
+										{tradeType === "EXACT_INPUT"
+											? `${formatQuoted(limits.amountOutMin.toString(), tokenOut)} ${tokenOut.symbol}`
+											: `${formatQuoted(limits.amountInMax.toString(), tokenIn)} ${tokenIn.symbol}`}
+									</span>
+								</div>
+							</div>
+						</CardContent>
+					</Card>
+				)}
+
+				{/* Slippage Tolerance */}
+				<div className="space-y-2">
+					<Label htmlFor="slippage">Slippage Tolerance (%)</Label>
+					<Input
+						id="slippage"
+						type="number"
+						step="0.1"
+						min="0.1"
+						max="50"
+						placeholder="0.5"
+						value={slippageTolerance}
+						onChange={(e) => setSlippageTolerance(e.target.value)}
+					/>
+				</div>
+
+				{/* Error Display */}
+				{swapError && status === "error" && (
+					<Card className="border-red-500 bg-red-50 dark:bg-red-900/20">
+						<CardContent className="pt-6">
+							<div className="flex items-start gap-2">
+								<AlertCircle className="mt-0.5 h-5 w-5 text-red-600 dark:text-red-500" />
+								<div className="flex-1">
+									<p className="font-medium text-red-800 dark:text-red-200">
+										Transaction Failed
+									</p>
+									<p className="text-red-700 text-sm dark:text-red-300">
+										{swapError}
+									</p>
+								</div>
+							</div>
+						</CardContent>
+					</Card>
+				)}
+
+				{/* Swap Button */}
+				<Button
+					onClick={execute}
+					disabled={!isReady || isExecuting}
+					variant={balanceError ? "destructive" : "default"}
+					className="w-full"
+					size="lg"
+				>
+					{getButtonText()}
+				</Button>
+			</div>
+
+			<TokenSelectorV2
+				isOpen={showTokenInSelector}
+				onClose={() => setShowTokenInSelector(false)}
+				onTokenSelect={handleTokenSelect("in")}
+				selectedToken={tokenIn || undefined}
+				tokens={tokens}
+				loading={tokensLoading}
+				error={tokensError ? new Error(tokensError) : undefined}
+				title="Select Token to Sell"
+				supportedChains={supportedChains}
+				currentChainId={currentChainId?.toString()}
+				onRefresh={() => currentChainId && refreshTokens(currentChainId)}
+				showBalances={false}
+				enableFilters={true}
+				enableHistory={true}
+			/>
+
+			<TokenSelectorV2
+				isOpen={showTokenOutSelector}
+				onClose={() => setShowTokenOutSelector(false)}
+				onTokenSelect={handleTokenSelect("out")}
+				selectedToken={tokenOut || undefined}
+				tokens={tokens}
+				loading={tokensLoading}
+				error={tokensError ? new Error(tokensError) : undefined}
+				title="Select Token to Buy"
+				supportedChains={supportedChains}
+				currentChainId={currentChainId?.toString()}
+				onRefresh={() => currentChainId && refreshTokens(currentChainId)}
+				showBalances={false}
+				enableFilters={true}
+				enableHistory={true}
+			/>
+		</div>
+	);
+}
@@ -4,6 +4,7 @@
  * Demonstration page showcasing the enhanced TokenSelectorV2 component
  */
 
+import { formatAmount } from "@my-better-t-app/shared/amounts";
 import { createFileRoute } from "@tanstack/react-router";
 import { Code, Loader2, Play, Settings, Sparkles, Wallet } from "lucide-react";
 import { useState } from "react";
@@ -203,8 +204,10 @@ function TokenSelectorDemo() {
 										{"amount" in selectedToken && (
 											<p className="text-muted-foreground text-sm">
 												Balance:{" "}
-												{Number.parseFloat(selectedToken.amount) /
-													10 ** selectedToken.decimals}{" "}
+												{formatAmount(
+													BigInt(selectedToken.amount),
+													selectedToken.decimals,
+												)}{" "}
 												{selectedToken.symbol}
 											</p>
 										)}
@@ -0,0 +1,189 @@
+import {
+	type Address,
+	erc20Abi,
+	type Hash,
+	isAddressEqual,
+	type PublicClient,
+	parseEventLogs,
+	type TransactionReceipt,
+	TransactionReceiptNotFoundError,
+	toFunctionSelector,
+} from "viem";
+import { findToken, isSupportedChain } from "@/lib/tokens/multichain-tokens";
+import type {
+	StepStatus,
+	TrackedBatch,
+	TrackedStep,
+	TransactionIntent,
+} from "@/lib/transactions/transaction-store";
+import type { Chain } from "@/types/token";
+
+const APPROVE_SELECTORS = [
+	toFunctionSelector("approve(address,uint256)"), // ERC20
+	toFunctionSelector("approve(address,address,uint160,uint48)"), // Permit2
+];
+
+const INTENT_LABELS: Record<TransactionIntent, string> = {
+	mint: "Mint position",
+	increase: "Increase liquidity",
+	decrease: "Remove liquidity",
+	collect: "Collect fees",
+	swap: "Swap",
+	rebalance: "Rebalance position",
+};
+
+export interface TokenTransfer {
+	token: Address;
+	symbol: string | undefined;
+	decimals: number | undefined;
+	amount: bigint; // signed change of the account's balance
+}
+
+export interface StepActivity {
+	kind: "approval" | "action";
+	status: StepStatus;
+	hash: Hash | undefined;
+	gasPaid: bigint | undefined; // native currency, once mined
+	nativeSent: bigint;
+	transfers: TokenTransfer[];
+}
+
+export function getIntentLabel(batch: Pick<TrackedBatch, "intent">): string {
+	return batch.intent ? INTENT_LABELS[batch.intent] : "Transaction";
+}
+
+export function isApprovalStep(step: Pick<TrackedStep, "data">): boolean {
+	return APPROVE_SELECTORS.includes(step.data.slice(0, 10) as `0x${string}`);
+}
+
+export function getExplorerTxUrl(
+	chain: Pick<Chain, "explorerUrl">,
+	hash: Hash,
+): string | undefined {
+	return chain.explorerUrl ? `${chain.explorerUrl}/tx/${hash}` : undefined;
+}
+
+async function getReceipt(
+	client: PublicClient,
+	hash: Hash,
+): Promise<TransactionReceipt | undefined> {
+	try {
+		return await client.getTransactionReceipt({ hash });
+	} catch (error) {
+		if (error instanceof TransactionReceiptNotFoundError) return undefined;
+		throw error;
+	}
+}
+
+// ERC20 transfers to and from the account, summed per token
+function getTransfers(
+	receipt: TransactionReceipt,
+	account: Address,
+): Map<Address, bigint> {
+	const totals = new Map<Address, bigint>();
+	const logs = parseEventLogs({
+		abi: erc20Abi,
+		eventName: "Transfer",
+		logs: receipt.logs,
+	});
+	for (const { address, args } of logs) {
+		const sign = isAddressEqual(args.to, account)
+			? 1n
+			: isAddressEqual(args.from, account)
+				? -1n
+				: 0n;
+		if (sign === 0n) continue;
+		totals.set(address, (totals.get(address) ?? 0n) + sign * args.value);
+	}
+	return totals;
+}
+
+async function getTokenMetadata(
+	client: PublicClient,
+	chainId: number,
+	tokens: Address[],
+): Promise<Map<Address, { symbol?: string; decimals?: number }>> {
+	const metadata = new Map<Address, { symbol?: string; decimals?: number }>();
+	const unknown: Address[] = [];
+	for (const address of tokens) {
+		const token = isSupportedChain(chainId)
+			? findToken(address, chainId)
+			: undefined;
+		if (token) {
+			metadata.set(address, { symbol: token.symbol, decimals: token.decimals });
+		} else {
+			unknown.push(address);
+		}
+	}
+	if (unknown.length === 0) return metadata;
+
+	const results = await client.multicall({
+		contracts: unknown.flatMap((address) => [
+			{ address, abi: erc20Abi, functionName: "symbol" } as const,
+			{ address, abi: erc20Abi, functionName: "decimals" } as const,
+		]),
+	});
+	unknown.forEach((address, i) => {
+		const [symbol, decimals] = [results[2 * i], results[2 * i + 1]];
+		metadata.set(address, {
+			symbol:
+				symbol.status === "success" ? (symbol.result as string) : undefined,
+			decimals:
+				decimals.status === "success" ? (decimals.result as number) : undefined,
+		});
+	});
+	return metadata;
+}
+
+/**
+ * Check each step of a tracked batch against its on-chain receipt: the mined
+ * status, gas paid and token amounts moved for the account. Steps that are
+ * not mined keep their tracked status.
+ */
+export async function reconcileBatch(
+	client: PublicClient,
+	batch: TrackedBatch,
+): Promise<StepActivity[]> {
+	const receipts = await Promise.all(
+		batch.steps.map((step) =>
+			step.hash ? getReceipt(client, step.hash) : undefined,
+		),
+	);
+
+	const transfers = receipts.map((receipt) =>
+		receipt ? getTransfers(receipt, batch.account) : new Map(),
+	);
+	const tokens = [
+		...new Set(transfers.flatMap((totals) => [...totals.keys()])),
+	] as Address[];
+	const metadata = await getTokenMetadata(client, batch.chainId, tokens);
+
+	return batch.steps.map((step, i) => {
+		// Calls of an EIP-5792 batch can share one transaction, count it once
+		const shared =
+			!!step.hash &&
+			batch.steps.findIndex((other) => other.hash === step.hash) < i;
+		const receipt = receipts[i];
+		return {
+			kind: isApprovalStep(step) ? "approval" : "action",
+			status: receipt
+				? receipt.status === "success"
+					? "confirmed"
+					: "reverted"
+				: step.status,
+			hash: receipt?.transactionHash ?? step.hash,
+			gasPaid:
+				receipt && !shared
+					? receipt.gasUsed * receipt.effectiveGasPrice
+					: undefined,
+			nativeSent: step.value,
+			transfers: [...(shared ? [] : transfers[i].entries())].map(
+				([token, amount]) => ({
+					token,
+					amount,
+					...metadata.get(token),
+				}),
+			) as TokenTransfer[],
+		};
+	});
+}
@@ -1,20 +1,49 @@
-import { CurrencyAmount, type Token } from "@uniswap/sdk-core";
-import { nearestUsableTick, Position } from "@uniswap/v3-sdk";
-import { fetchPoolData, fromReadableAmount, type PoolData } from "./pool";
+import {
+	formatAmount,
+	isDecimalString,
+	parseAmount,
+} from "@my-better-t-app/shared/amounts";
+import type { Token } from "@uniswap/sdk-core";
+import { nearestUsableTick, Position as V3Position } from "@uniswap/v3-sdk";
+import { type Pool as V4Pool, Position as V4Position } from "@uniswap/v4-sdk";
+import type { Address } from "viem";
+import {
+	createPoolAtPrice,
+	fetchPoolData,
+	getPoolPrice,
+	type PoolData,
+	type PoolSpec,
+	type ProtocolVersion,
+} from "./pool";
+import {
+	invertPriceRange,
+	type PriceRange,
+	priceRangeToTicks,
+} from "./price-range";
+
+// Fraction digits shown for a calculated amount
+const DISPLAY_DECIMALS = 6;
 
 export interface CalculateAmountParams {
 	tokenA: Token;
 	tokenB: Token;
 	feeTier: number;
-	inputAmount: number;
+	// Pool the position goes into, V4 without a hook unless set
+	protocolVersion?: ProtocolVersion;
+	hookAddress?: Address;
+	inputAmount: string; // decimal string as entered
 	isTokenAInput: boolean; // true if tokenA amount is provided, false if tokenB
 	fullRange: boolean;
 	tickRange?: number;
+	// Price of tokenA in tokenB, takes precedence over tickRange
+	priceRange?: PriceRange;
+	// Starting price of tokenA in tokenB for a pool that does not exist yet
+	initialPrice?: number;
 }
 
 export interface CalculatedAmounts {
-	amountA: number;
-	amountB: number;
+	amountA: string;
+	amountB: string;
 	isValid: boolean;
 	error?: string;
 }
@@ -30,108 +59,82 @@ export async function calculateDependentAmount(
 			tokenA,
 			tokenB,
 			feeTier,
+			protocolVersion = "PROTOCOL_VERSION_V4",
+			hookAddress,
 			inputAmount,
 			isTokenAInput,
 			fullRange,
 			tickRange = 500,
+			priceRange,
+			initialPrice,
 		} = params;
+		const spec: PoolSpec = {
+			protocolVersion,
+			tokenA,
+			tokenB,
+			feeTier,
+			hookAddress,
+		};
 
-		if (inputAmount <= 0) {
+		const [inputToken, outputToken] = isTokenAInput
+			? [tokenA, tokenB]
+			: [tokenB, tokenA];
+		const rawInput = isDecimalString(inputAmount)
+			? parseAmount(inputAmount, inputToken.decimals)
+			: 0n;
+		if (rawInput <= 0n) {
 			return {
-				amountA: 0,
-				amountB: 0,
+				amountA: "0",
+				amountB: "0",
 				isValid: false,
 				error: "Input amount must be greater than 0",
 			};
 		}
 
-		// Fetch pool data
+		// Fetch pool data, or price a new pool at its starting price
 		console.log(
 			`Fetching pool data for ${tokenA.symbol}/${tokenB.symbol} with fee tier ${feeTier}`,
 		);
-		const poolData = await fetchPoolData(tokenA, tokenB, feeTier);
+		const poolData = initialPrice
+			? createPoolAtPrice(spec, initialPrice)
+			: await fetchPoolData(spec);
 		if (!poolData) {
 			console.warn(
 				`No pool found for ${tokenA.symbol}/${tokenB.symbol} with fee tier ${feeTier}`,
 			);
 			return {
-				amountA: isTokenAInput ? inputAmount : 0,
-				amountB: isTokenAInput ? 0 : inputAmount,
+				amountA: isTokenAInput ? inputAmount : "0",
+				amountB: isTokenAInput ? "0" : inputAmount,
 				isValid: false,
 				error: "Pool not found for this token pair and fee tier",
 			};
 		}
 		console.log("Pool data fetched successfully:", poolData);
 
-		const { pool } = poolData;
+		const { token0IsA } = poolData;
 
-		// Calculate tick boundaries
+		// Calculate tick boundaries, with the price range re-expressed as token0 in token1
 		const { tickLower, tickUpper } = calculateTickBoundaries(
-			pool,
+			poolData,
 			fullRange,
 			tickRange,
+			priceRange && (token0IsA ? priceRange : invertPriceRange(priceRange)),
 		);
 
-		// Determine which token is token0 and token1 in the pool
-		const token0IsA =
-			pool.token0.address.toLowerCase() === tokenA.address.toLowerCase();
-
-		let calculatedAmountA: number;
-		let calculatedAmountB: number;
-
-		if (isTokenAInput) {
-			// TokenA amount is provided, calculate TokenB amount
-			const inputAmountRaw = fromReadableAmount(inputAmount, tokenA.decimals);
-
-			let position: Position;
-			if (token0IsA) {
-				// TokenA is token0, use fromAmount0
-				position = Position.fromAmount0({
-					pool,
-					tickLower,
-					tickUpper,
-					amount0: inputAmountRaw.toString(),
-					useFullPrecision: true,
-				});
-				calculatedAmountB = Number(position.amount1.toSignificant(6));
-			} else {
-				// TokenA is token1, use fromAmount1
-				position = Position.fromAmount1({
-					pool,
-					tickLower,
-					tickUpper,
-					amount1: inputAmountRaw.toString(),
-				});
-				calculatedAmountB = Number(position.amount0.toSignificant(6));
-			}
-			calculatedAmountA = inputAmount;
-		} else {
-			// TokenB amount is provided, calculate TokenA amount
-			const inputAmountRaw = fromReadableAmount(inputAmount, tokenB.decimals);
-
-			let position: Position;
-			if (token0IsA) {
-				// TokenB is token1, use fromAmount1
-				position = Position.fromAmount1({
-					pool,
-					tickLower,
-					tickUpper,
-					amount1: inputAmountRaw.toString(),
-				});
-				calculatedAmountA = Number(position.amount0.toSignificant(6));
-			} else {
-				// TokenB is token0, use fromAmount0
-				position = Position.fromAmount0({
-					pool,
-					tickLower,
-					tickUpper,
-					amount0: inputAmountRaw.toString(),
-					useFullPrecision: true,
-				});
-				calculatedAmountA = Number(position.amount1.toSignificant(6));
-			}
-			calculatedAmountB = inputAmount;
-		}
+		const otherAmount = formatAmount(
+			getCounterpartAmount(
+				poolData,
+				tickLower,
+				tickUpper,
+				rawInput,
+				isTokenAInput === token0IsA,
+			),
+			outputToken.decimals,
+			{ maxDecimals: DISPLAY_DECIMALS },
+		);
+		const [calculatedAmountA, calculatedAmountB] = isTokenAInput
+			? [inputAmount, otherAmount]
+			: [otherAmount, inputAmount];
 
 		return {
 			amountA: calculatedAmountA,
@@ -141,21 +144,183 @@ export async function calculateDependentAmount(
 	} catch (error) {
 		console.error("Error calculating dependent amount:", error);
 		return {
-			amountA: params.isTokenAInput ? params.inputAmount : 0,
-			amountB: params.isTokenAInput ? 0 : params.inputAmount,
+			amountA: params.isTokenAInput ? params.inputAmount : "0",
+			amountB: params.isTokenAInput ? "0" : params.inputAmount,
+			isValid: false,
+			error: `Calculation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+		};
+	}
+}
+
+export interface CalculateRangeAmountParams {
+	pool: V4Pool;
+	tickLower: number;
+	tickUpper: number;
+	inputAmount: string; // decimal string as entered
+	isToken0Input: boolean; // true if token0 amount is provided, false if token1
+}
+
+export interface CalculatedRangeAmounts {
+	amount0: string;
+	amount1: string;
+	isValid: boolean;
+	error?: string;
+}
+
+/**
+ * Which tokens a deposit into a fixed tick range needs at the pool's current tick
+ */
+export function getRangeDepositTokens(
+	tickCurrent: number,
+	tickLower: number,
+	tickUpper: number,
+): { needsToken0: boolean; needsToken1: boolean } {
+	return {
+		needsToken0: tickCurrent < tickUpper,
+		needsToken1: tickCurrent >= tickLower,
+	};
+}
+
+/**
+ * Calculate the corresponding amount for an existing position's fixed tick range,
+ * used when adding liquidity to a position instead of minting a new one
+ */
+export function calculateDependentAmountForRange(
+	params: CalculateRangeAmountParams,
+): CalculatedRangeAmounts {
+	const { pool, tickLower, tickUpper, inputAmount, isToken0Input } = params;
+
+	try {
+		const inputDecimals = isToken0Input
+			? pool.currency0.decimals
+			: pool.currency1.decimals;
+		const rawInput = isDecimalString(inputAmount)
+			? parseAmount(inputAmount, inputDecimals)
+			: 0n;
+		if (rawInput <= 0n) {
+			return {
+				amount0: "0",
+				amount1: "0",
+				isValid: false,
+				error: "Input amount must be greater than 0",
+			};
+		}
+
+		// Out of range positions are single sided, the other amount is always zero
+		const { needsToken0, needsToken1 } = getRangeDepositTokens(
+			pool.tickCurrent,
+			tickLower,
+			tickUpper,
+		);
+		if (!needsToken0 || !needsToken1) {
+			const inputAllowed = isToken0Input ? needsToken0 : needsToken1;
+			return {
+				amount0: isToken0Input && inputAllowed ? inputAmount : "0",
+				amount1: !isToken0Input && inputAllowed ? inputAmount : "0",
+				isValid: inputAllowed,
+				error: inputAllowed
+					? undefined
+					: `Position is out of range, only ${needsToken0 ? pool.currency0.symbol : pool.currency1.symbol} can be added`,
+			};
+		}
+
+		if (isToken0Input) {
+			const position = V4Position.fromAmount0({
+				pool,
+				tickLower,
+				tickUpper,
+				amount0: rawInput.toString(),
+				useFullPrecision: true,
+			});
+			return {
+				amount0: inputAmount,
+				amount1: formatAmount(
+					BigInt(position.amount1.quotient.toString()),
+					pool.currency1.decimals,
+					{ maxDecimals: DISPLAY_DECIMALS },
+				),
+				isValid: true,
+			};
+		}
+
+		const position = V4Position.fromAmount1({
+			pool,
+			tickLower,
+			tickUpper,
+			amount1: rawInput.toString(),
+		});
+		return {
+			amount0: formatAmount(
+				BigInt(position.amount0.quotient.toString()),
+				pool.currency0.decimals,
+				{ maxDecimals: DISPLAY_DECIMALS },
+			),
+			amount1: inputAmount,
+			isValid: true,
+		};
+	} catch (error) {
+		console.error("Error calculating dependent amount for range:", error);
+		return {
+			amount0: isToken0Input ? inputAmount : "0",
+			amount1: isToken0Input ? "0" : inputAmount,
 			isValid: false,
 			error: `Calculation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
 		};
 	}
 }
 
+/**
+ * Amount of the other token, in base units, a position needs alongside
+ * rawAmount of one token, using the position math of the pool's protocol
+ */
+function getCounterpartAmount(
+	poolData: PoolData,
+	tickLower: number,
+	tickUpper: number,
+	rawAmount: bigint,
+	isToken0Input: boolean,
+): bigint {
+	const range = { tickLower, tickUpper };
+	const position =
+		poolData.protocolVersion === "PROTOCOL_VERSION_V4"
+			? isToken0Input
+				? V4Position.fromAmount0({
+						...range,
+						pool: poolData.pool,
+						amount0: rawAmount.toString(),
+						useFullPrecision: true,
+					})
+				: V4Position.fromAmount1({
+						...range,
+						pool: poolData.pool,
+						amount1: rawAmount.toString(),
+					})
+			: isToken0Input
+				? V3Position.fromAmount0({
+						...range,
+						pool: poolData.pool,
+						amount0: rawAmount.toString(),
+						useFullPrecision: true,
+					})
+				: V3Position.fromAmount1({
+						...range,
+						pool: poolData.pool,
+						amount1: rawAmount.toString(),
+					});
+
+	return BigInt(
+		(isToken0Input ? position.amount1 : position.amount0).quotient.toString(),
+	);
+}
+
 /**
  * Calculate tick boundaries based on range settings
  */
-function calculateTickBoundaries(
-	pool: any,
+export function calculateTickBoundaries(
+	{ pool }: PoolData,
 	fullRange: boolean,
 	tickRange: number,
+	priceRange0?: PriceRange,
 ): { tickLower: number; tickUpper: number } {
 	if (fullRange) {
 		const MIN_TICK = -887272;
@@ -166,6 +331,16 @@ function calculateTickBoundaries(
 		};
 	}
 
+	if (priceRange0) {
+		const { tickLower, tickUpper } = priceRangeToTicks(
+			priceRange0,
+			pool.token0.wrapped,
+			pool.token1.wrapped,
+			pool.tickSpacing,
+		);
+		return { tickLower, tickUpper };
+	}
+
 	const currentTick = pool.tickCurrent;
 	return {
 		tickLower: nearestUsableTick(currentTick - tickRange, pool.tickSpacing),
@@ -180,21 +355,21 @@ export async function getCurrentPriceRatio(
 	tokenA: Token,
 	tokenB: Token,
 	feeTier: number,
+	protocolVersion: ProtocolVersion = "PROTOCOL_VERSION_V4",
+	hookAddress?: Address,
 ): Promise<number | null> {
 	try {
-		const poolData = await fetchPoolData(tokenA, tokenB, feeTier);
+		const poolData = await fetchPoolData({
+			protocolVersion,
+			tokenA,
+			tokenB,
+			feeTier,
+			hookAddress,
+		});
 		if (!poolData) return null;
 
-		const { pool } = poolData;
-		const token0IsA =
-			pool.token0.address.toLowerCase() === tokenA.address.toLowerCase();
-
-		if (token0IsA) {
-			// Price of tokenA (token0) in terms of tokenB (token1)
-			return Number(pool.token0Price.toSignificant(6));
-		}
-		// Price of tokenA (token1) in terms of tokenB (token0)
-		return Number(pool.token1Price.toSignificant(6));
+		// Price of tokenA in terms of tokenB, whichever of them is token0
+		return getPoolPrice(poolData);
 	} catch (error) {
 		console.error("Error getting current price ratio:", error);
 		return null;
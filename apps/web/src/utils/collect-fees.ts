@@ -0,0 +1,199 @@
+import { Actions, V4PositionManager, V4PositionPlanner } from "@uniswap/v4-sdk";
+import {
+	type Address,
+	encodeFunctionData,
+	type Hex,
+	maxUint128,
+	zeroAddress,
+} from "viem";
+
+// v4-periphery ActionConstants
+const ADDRESS_THIS = "0x0000000000000000000000000000000000000002";
+const OPEN_DELTA = "0";
+const CONTRACT_BALANCE = (1n << 255n).toString();
+
+// Uniswap V3 NonfungiblePositionManager ABI for collecting and unwrapping
+const NONFUNGIBLE_POSITION_MANAGER_ABI = [
+	{
+		inputs: [
+			{
+				name: "params",
+				type: "tuple",
+				components: [
+					{ name: "tokenId", type: "uint256" },
+					{ name: "recipient", type: "address" },
+					{ name: "amount0Max", type: "uint128" },
+					{ name: "amount1Max", type: "uint128" },
+				],
+			},
+		],
+		name: "collect",
+		outputs: [
+			{ name: "amount0", type: "uint256" },
+			{ name: "amount1", type: "uint256" },
+		],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{ name: "amountMinimum", type: "uint256" },
+			{ name: "recipient", type: "address" },
+		],
+		name: "unwrapWETH9",
+		outputs: [],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{ name: "token", type: "address" },
+			{ name: "amountMinimum", type: "uint256" },
+			{ name: "recipient", type: "address" },
+		],
+		name: "sweepToken",
+		outputs: [],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [{ name: "data", type: "bytes[]" }],
+		name: "multicall",
+		outputs: [{ name: "results", type: "bytes[]" }],
+		stateMutability: "payable",
+		type: "function",
+	},
+] as const;
+
+interface CollectToken {
+	address: string;
+	isWrappedNative?: boolean;
+}
+
+export interface CollectablePosition {
+	tokenId: string;
+	token0: CollectToken;
+	token1: CollectToken;
+	fees: {
+		amount0: string;
+		amount1: string;
+	};
+}
+
+function hasWrappedNative(position: CollectablePosition): boolean {
+	return !!(position.token0.isWrappedNative || position.token1.isWrappedNative);
+}
+
+/**
+ * Build a single V4 modifyLiquidities call collecting fees from every position.
+ * Fees are realised by decreasing each position by zero liquidity, then each
+ * currency is taken once; with receiveNative the wrapped native token is
+ * unwrapped inside the PositionManager and swept to the recipient.
+ */
+export function buildV4CollectCalldata(
+	positions: CollectablePosition[],
+	recipient: Address,
+	receiveNative: boolean,
+	deadline: number,
+): Hex {
+	const planner = new V4PositionPlanner();
+
+	for (const position of positions) {
+		planner.addDecrease(position.tokenId, "0", "0", "0");
+	}
+
+	const currencies = new Map<string, CollectToken>();
+	for (const position of positions) {
+		currencies.set(position.token0.address.toLowerCase(), position.token0);
+		currencies.set(position.token1.address.toLowerCase(), position.token1);
+	}
+
+	let unwrap = false;
+	for (const [address, token] of currencies) {
+		if (receiveNative && token.isWrappedNative) {
+			planner.addAction(Actions.TAKE, [address, ADDRESS_THIS, OPEN_DELTA]);
+			unwrap = true;
+		} else {
+			planner.addAction(Actions.TAKE, [address, recipient, OPEN_DELTA]);
+		}
+	}
+
+	if (unwrap) {
+		planner.addAction(Actions.UNWRAP, [CONTRACT_BALANCE]);
+		planner.addAction(Actions.SWEEP, [zeroAddress, recipient]);
+	}
+
+	return V4PositionManager.encodeModifyLiquidities(
+		planner.finalize(),
+		deadline,
+	) as Hex;
+}
+
+/**
+ * Build a single V3 NonfungiblePositionManager multicall collecting fees from every position.
+ * With receiveNative, positions holding the wrapped native token collect into the
+ * manager itself, which then unwraps it and sweeps the paired tokens to the recipient.
+ */
+export function buildV3CollectCalldata(
+	positions: CollectablePosition[],
+	recipient: Address,
+	receiveNative: boolean,
+): Hex {
+	const calls: Hex[] = [];
+	// Minimum amounts left in the manager per token, to be unwrapped or swept afterwards
+	const held = new Map<string, { token: CollectToken; amount: bigint }>();
+
+	for (const position of positions) {
+		const unwrap = receiveNative && hasWrappedNative(position);
+
+		calls.push(
+			encodeFunctionData({
+				abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
+				functionName: "collect",
+				args: [
+					{
+						tokenId: BigInt(position.tokenId),
+						// The zero address makes the manager hold the collected tokens
+						recipient: unwrap ? zeroAddress : recipient,
+						amount0Max: maxUint128,
+						amount1Max: maxUint128,
+					},
+				],
+			}),
+		);
+
+		if (!unwrap) continue;
+
+		for (const [token, amount] of [
+			[position.token0, position.fees.amount0],
+			[position.token1, position.fees.amount1],
+		] as const) {
+			const key = token.address.toLowerCase();
+			const entry = held.get(key) ?? { token, amount: 0n };
+			entry.amount += BigInt(amount);
+			held.set(key, entry);
+		}
+	}
+
+	for (const { token, amount } of held.values()) {
+		calls.push(
+			token.isWrappedNative
+				? encodeFunctionData({
+						abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
+						functionName: "unwrapWETH9",
+						args: [amount, recipient],
+					})
+				: encodeFunctionData({
+						abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
+						functionName: "sweepToken",
+						args: [token.address as Address, amount, recipient],
+					}),
+		);
+	}
+
+	return encodeFunctionData({
+		abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
+		functionName: "multicall",
+		args: [calls],
+	});
+}
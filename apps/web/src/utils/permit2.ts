@@ -0,0 +1,244 @@
+import {
+	type Address,
+	encodeFunctionData,
+	erc20Abi,
+	type Hex,
+	maxUint160,
+	maxUint256,
+	type PublicClient,
+	zeroAddress,
+} from "viem";
+
+// Permit2 AllowanceTransfer ABI
+const PERMIT2_ABI = [
+	{
+		inputs: [
+			{ name: "owner", type: "address" },
+			{ name: "token", type: "address" },
+			{ name: "spender", type: "address" },
+		],
+		name: "allowance",
+		outputs: [
+			{ name: "amount", type: "uint160" },
+			{ name: "expiration", type: "uint48" },
+			{ name: "nonce", type: "uint48" },
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{ name: "token", type: "address" },
+			{ name: "spender", type: "address" },
+			{ name: "amount", type: "uint160" },
+			{ name: "expiration", type: "uint48" },
+		],
+		name: "approve",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+] as const;
+
+// How long a Permit2 allowance granted to a spender stays valid
+const PERMIT2_APPROVAL_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// How long a signed permit can be submitted for
+const PERMIT_SIGNATURE_TTL_SECONDS = 30 * 60;
+
+// EIP-712 types of Permit2's AllowanceTransfer.permit for several tokens
+const PERMIT_BATCH_TYPES = {
+	PermitDetails: [
+		{ name: "token", type: "address" },
+		{ name: "amount", type: "uint160" },
+		{ name: "expiration", type: "uint48" },
+		{ name: "nonce", type: "uint48" },
+	],
+	PermitBatch: [
+		{ name: "details", type: "PermitDetails[]" },
+		{ name: "spender", type: "address" },
+		{ name: "sigDeadline", type: "uint256" },
+	],
+} as const;
+
+interface Call {
+	to: Address;
+	data: Hex;
+	value: bigint;
+}
+
+interface Permit2ApprovalParams {
+	client: PublicClient;
+	owner: Address;
+	permit2: Address;
+	spender: Address;
+	tokens: Array<{ address: Address; amount: bigint }>;
+}
+
+export interface PermitBatch {
+	details: Array<{
+		token: Address;
+		amount: bigint;
+		expiration: number;
+		nonce: number;
+	}>;
+	spender: Address;
+	sigDeadline: bigint;
+}
+
+interface Permit2TokenState {
+	address: Address;
+	needsErc20Approval: boolean;
+	needsPermit2Allowance: boolean;
+	nonce: number;
+}
+
+/**
+ * Where each token stands with Permit2: whether Permit2 may move it, and
+ * whether the spender holds a live Permit2 allowance covering the amount.
+ * Native currency needs neither and is skipped.
+ */
+async function readPermit2State({
+	client,
+	owner,
+	permit2,
+	spender,
+	tokens,
+}: Permit2ApprovalParams): Promise<Permit2TokenState[]> {
+	const now = Math.floor(Date.now() / 1000);
+
+	return Promise.all(
+		tokens
+			.filter(
+				(token) =>
+					token.address.toLowerCase() !== zeroAddress && token.amount > 0n,
+			)
+			.map(async (token) => {
+				const [erc20Allowance, [permit2Amount, permit2Expiration, nonce]] =
+					await Promise.all([
+						client.readContract({
+							address: token.address,
+							abi: erc20Abi,
+							functionName: "allowance",
+							args: [owner, permit2],
+						}),
+						client.readContract({
+							address: permit2,
+							abi: PERMIT2_ABI,
+							functionName: "allowance",
+							args: [owner, token.address, spender],
+						}),
+					]);
+
+				return {
+					address: token.address,
+					needsErc20Approval: erc20Allowance < token.amount,
+					needsPermit2Allowance:
+						permit2Amount < token.amount || permit2Expiration <= now,
+					nonce,
+				};
+			}),
+	);
+}
+
+function buildErc20ApprovalCall(token: Address, permit2: Address): Call {
+	return {
+		to: token,
+		data: encodeFunctionData({
+			abi: erc20Abi,
+			functionName: "approve",
+			args: [permit2, maxUint256],
+		}),
+		value: 0n,
+	};
+}
+
+/**
+ * Build the approval calls needed for a spender (the V4 PositionManager or the
+ * Universal Router) to pull tokens through Permit2: an ERC20 approval of
+ * Permit2, then a Permit2 allowance for the spender
+ */
+export async function buildPermit2ApprovalCalls(
+	params: Permit2ApprovalParams,
+): Promise<Call[]> {
+	const { permit2, spender } = params;
+	const now = Math.floor(Date.now() / 1000);
+	const calls: Call[] = [];
+
+	for (const token of await readPermit2State(params)) {
+		if (token.needsErc20Approval) {
+			calls.push(buildErc20ApprovalCall(token.address, permit2));
+		}
+
+		if (token.needsPermit2Allowance) {
+			calls.push({
+				to: permit2,
+				data: encodeFunctionData({
+					abi: PERMIT2_ABI,
+					functionName: "approve",
+					args: [
+						token.address,
+						spender,
+						maxUint160,
+						now + PERMIT2_APPROVAL_TTL_SECONDS,
+					],
+				}),
+				value: 0n,
+			});
+		}
+	}
+
+	return calls;
+}
+
+/**
+ * Like buildPermit2ApprovalCalls, but the spender's Permit2 allowances are
+ * granted by a signed PermitBatch instead of approve calls. ERC20 approvals of
+ * Permit2 still need a call. The permit is null when every allowance is live.
+ */
+export async function buildPermit2PermitBatch(
+	params: Permit2ApprovalParams,
+): Promise<{ approvalCalls: Call[]; permitBatch: PermitBatch | null }> {
+	const { permit2, spender } = params;
+	const now = Math.floor(Date.now() / 1000);
+	const state = await readPermit2State(params);
+
+	const details = state
+		.filter((token) => token.needsPermit2Allowance)
+		.map((token) => ({
+			token: token.address,
+			amount: maxUint160,
+			expiration: now + PERMIT2_APPROVAL_TTL_SECONDS,
+			nonce: token.nonce,
+		}));
+
+	return {
+		approvalCalls: state
+			.filter((token) => token.needsErc20Approval)
+			.map((token) => buildErc20ApprovalCall(token.address, permit2)),
+		permitBatch:
+			details.length > 0
+				? {
+						details,
+						spender,
+						sigDeadline: BigInt(now + PERMIT_SIGNATURE_TTL_SECONDS),
+					}
+				: null,
+	};
+}
+
+/**
+ * EIP-712 typed data the owner signs to grant a PermitBatch
+ */
+export function getPermitBatchTypedData(
+	permitBatch: PermitBatch,
+	permit2: Address,
+	chainId: number,
+) {
+	return {
+		domain: { name: "Permit2", chainId, verifyingContract: permit2 },
+		types: PERMIT_BATCH_TYPES,
+		primaryType: "PermitBatch",
+		message: permitBatch,
+	} as const;
+}
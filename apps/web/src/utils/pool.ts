@@ -1,8 +1,19 @@
-import type { Token } from "@uniswap/sdk-core";
-import { type FeeAmount, Pool } from "@uniswap/v3-sdk";
-import { createPublicClient, http } from "viem";
+import { Token } from "@uniswap/sdk-core";
+import { Pool as V3Pool } from "@uniswap/v3-sdk";
+import { Pool as V4Pool } from "@uniswap/v4-sdk";
+import { type Address, createPublicClient, http, zeroAddress } from "viem";
 import { arbitrum, base, mainnet, optimism, polygon } from "viem/chains";
 import { getFactoryAddress } from "@/lib/contracts/uniswap-deployments";
+import {
+	getWrappedToken,
+	isSupportedChain,
+} from "@/lib/tokens/multichain-tokens";
+import {
+	getTickAtSqrtPrice,
+	getTickSpacing,
+	priceToSqrtPriceX96,
+} from "./price-range";
+import { trpcClient } from "./trpc";
 
 // Pool contract ABI for the slot0 function
 const POOL_ABI = [
@@ -85,127 +96,271 @@ const CHAIN_CONFIGS = {
 	},
 } as const;
 
-export interface PoolData {
-	pool: Pool;
+export type ProtocolVersion = "PROTOCOL_VERSION_V3" | "PROTOCOL_VERSION_V4";
+
+/**
+ * Identifies a pool: V3 pools by token pair and fee tier, V4 pools also by hook
+ */
+export interface PoolSpec {
+	protocolVersion: ProtocolVersion;
+	tokenA: Token;
+	tokenB: Token;
+	feeTier: number;
+	hookAddress?: Address; // V4 only, defaults to no hook
+}
+
+interface PoolDataBase {
+	token0IsA: boolean; // whether the spec's tokenA is the pool's token0
 	sqrtPriceX96: bigint;
 	tick: number;
 	liquidity: bigint;
 }
 
+export type PoolData =
+	| (PoolDataBase & { protocolVersion: "PROTOCOL_VERSION_V3"; pool: V3Pool })
+	| (PoolDataBase & { protocolVersion: "PROTOCOL_VERSION_V4"; pool: V4Pool });
+
 /**
- * Fetches pool data for a given token pair
+ * Currency a pool holds for token: V4 pools hold native currency as address(0),
+ * V3 pools only know the wrapped native token
  */
-export async function fetchPoolData(
-	tokenA: Token,
-	tokenB: Token,
-	feeTier: number,
-): Promise<PoolData | null> {
+function toPoolToken(token: Token, protocolVersion: ProtocolVersion): Token {
+	if (
+		protocolVersion === "PROTOCOL_VERSION_V4" ||
+		token.address !== zeroAddress ||
+		!isSupportedChain(token.chainId)
+	) {
+		return token;
+	}
+	const wrapped = getWrappedToken(token.chainId);
+	if (!wrapped) return token;
+	return new Token(
+		token.chainId,
+		wrapped.address,
+		wrapped.decimals,
+		wrapped.symbol,
+		wrapped.name,
+	);
+}
+
+/**
+ * The spec's tokens in pool order (token0 < token1)
+ */
+function getPoolTokens(spec: PoolSpec): {
+	token0: Token;
+	token1: Token;
+	token0IsA: boolean;
+} {
+	const tokenA = toPoolToken(spec.tokenA, spec.protocolVersion);
+	const tokenB = toPoolToken(spec.tokenB, spec.protocolVersion);
+	const token0IsA = tokenA.sortsBefore(tokenB);
+	return token0IsA
+		? { token0: tokenA, token1: tokenB, token0IsA }
+		: { token0: tokenB, token1: tokenA, token0IsA };
+}
+
+/**
+ * Fetches pool data for the pool identified by spec, from the V3 factory or
+ * the server's V4 pool state
+ */
+export async function fetchPoolData(spec: PoolSpec): Promise<PoolData | null> {
 	try {
-		console.log("fetchPoolData called with:", {
-			tokenA: tokenA.symbol,
-			tokenB: tokenB.symbol,
+		return spec.protocolVersion === "PROTOCOL_VERSION_V4"
+			? await fetchV4PoolData(spec)
+			: await fetchV3PoolData(spec);
+	} catch (error) {
+		console.error("Error fetching pool data:", error);
+		return null;
+	}
+}
+
+async function fetchV3PoolData(spec: PoolSpec): Promise<PoolData | null> {
+	const { feeTier } = spec;
+	const { token0, token1, token0IsA } = getPoolTokens(spec);
+	console.log("fetchPoolData called with:", {
+		token0: token0.symbol,
+		token1: token1.symbol,
+		feeTier,
+		chainId: token0.chainId,
+	});
+	const chainConfig =
+		CHAIN_CONFIGS[token0.chainId as keyof typeof CHAIN_CONFIGS];
+	if (!chainConfig) {
+		console.error(`Unsupported chain ID: ${token0.chainId}`);
+		throw new Error(`Unsupported chain ID: ${token0.chainId}`);
+	}
+	console.log(`Using RPC URL: ${chainConfig.rpcUrl}`);
+
+	const publicClient = createPublicClient({
+		chain: chainConfig.chain,
+		transport: http(chainConfig.rpcUrl),
+	});
+
+	// Get factory address for this chain
+	const factoryAddress = getFactoryAddress(token0.chainId);
+	if (!factoryAddress) {
+		throw new Error(
+			`No Uniswap V3 factory deployed on chain ${token0.chainId}`,
+		);
+	}
+
+	console.log(`Using factory address: ${factoryAddress}`);
+
+	// Get pool address from factory
+	const poolAddress = await publicClient.readContract({
+		address: factoryAddress,
+		abi: FACTORY_ABI,
+		functionName: "getPool",
+		args: [
+			token0.address as `0x${string}`,
+			token1.address as `0x${string}`,
 			feeTier,
-			chainId: tokenA.chainId,
-		});
-		const chainConfig =
-			CHAIN_CONFIGS[tokenA.chainId as keyof typeof CHAIN_CONFIGS];
-		if (!chainConfig) {
-			console.error(`Unsupported chain ID: ${tokenA.chainId}`);
-			throw new Error(`Unsupported chain ID: ${tokenA.chainId}`);
-		}
-		console.log(`Using RPC URL: ${chainConfig.rpcUrl}`);
-
-		const publicClient = createPublicClient({
-			chain: chainConfig.chain,
-			transport: http(chainConfig.rpcUrl),
-		});
-
-		// Ensure token ordering (token0 < token1)
-		const [token0, token1] =
-			tokenA.address.toLowerCase() < tokenB.address.toLowerCase()
-				? [tokenA, tokenB]
-				: [tokenB, tokenA];
-
-		// Get factory address for this chain
-		const factoryAddress = getFactoryAddress(tokenA.chainId);
-		if (!factoryAddress) {
-			throw new Error(
-				`No Uniswap V3 factory deployed on chain ${tokenA.chainId}`,
-			);
-		}
-
-		console.log(`Using factory address: ${factoryAddress}`);
-
-		// Get pool address from factory
-		const poolAddress = await publicClient.readContract({
-			address: factoryAddress,
-			abi: FACTORY_ABI,
-			functionName: "getPool",
-			args: [
-				token0.address as `0x${string}`,
-				token1.address as `0x${string}`,
-				feeTier,
-			],
-		});
-
-		if (
-			!poolAddress ||
-			poolAddress === "0x0000000000000000000000000000000000000000"
-		) {
-			console.warn(
-				`No pool found for ${token0.symbol}/${token1.symbol} with fee tier ${feeTier}`,
-			);
-			return null;
-		}
-
-		// Fetch pool data
-		const [slot0Data, liquidityData] = await Promise.all([
-			publicClient.readContract({
-				address: poolAddress,
-				abi: POOL_ABI,
-				functionName: "slot0",
-			}),
-			publicClient.readContract({
-				address: poolAddress,
-				abi: POOL_ABI,
-				functionName: "liquidity",
-			}),
-		]);
-
-		const [sqrtPriceX96, tick] = slot0Data;
-
-		// Create Pool instance
-		const pool = new Pool(
+		],
+	});
+
+	if (!poolAddress || poolAddress === zeroAddress) {
+		console.warn(
+			`No pool found for ${token0.symbol}/${token1.symbol} with fee tier ${feeTier}`,
+		);
+		return null;
+	}
+
+	// Fetch pool data
+	const [slot0Data, liquidityData] = await Promise.all([
+		publicClient.readContract({
+			address: poolAddress,
+			abi: POOL_ABI,
+			functionName: "slot0",
+		}),
+		publicClient.readContract({
+			address: poolAddress,
+			abi: POOL_ABI,
+			functionName: "liquidity",
+		}),
+	]);
+
+	const [sqrtPriceX96, tick] = slot0Data;
+
+	// A deployed but never initialized pool has no price to quote from
+	if (sqrtPriceX96 === 0n) {
+		console.warn(
+			`Pool ${token0.symbol}/${token1.symbol} with fee tier ${feeTier} is not initialized`,
+		);
+		return null;
+	}
+
+	return {
+		protocolVersion: "PROTOCOL_VERSION_V3",
+		pool: new V3Pool(
 			token0,
 			token1,
 			feeTier,
 			sqrtPriceX96.toString(),
 			liquidityData.toString(),
 			tick,
-		);
+		),
+		token0IsA,
+		sqrtPriceX96,
+		tick,
+		liquidity: liquidityData,
+	};
+}
 
-		return {
-			pool,
-			sqrtPriceX96,
-			tick,
-			liquidity: liquidityData,
-		};
-	} catch (error) {
-		console.error("Error fetching pool data:", error);
+async function fetchV4PoolData(spec: PoolSpec): Promise<PoolData | null> {
+	const { feeTier, hookAddress } = spec;
+	const { token0, token1, token0IsA } = getPoolTokens(spec);
+
+	// The server computes the pool id and reads StateView, the same state mints are built from
+	const result = await trpcClient.uniswap.getPoolState.query({
+		chainId: token0.chainId,
+		tokenA: token0.address,
+		tokenB: token1.address,
+		feeTier,
+		hookAddress,
+	});
+	if (!result.success) {
+		throw new Error(result.message);
+	}
+
+	const { pool: state } = result;
+	if (!state.initialized) {
+		console.warn(
+			`V4 pool ${token0.symbol}/${token1.symbol} with fee tier ${feeTier} is not initialized`,
+		);
 		return null;
 	}
+
+	return {
+		protocolVersion: "PROTOCOL_VERSION_V4",
+		pool: new V4Pool(
+			token0,
+			token1,
+			state.fee,
+			state.tickSpacing,
+			state.hookAddress,
+			state.sqrtPriceX96,
+			state.liquidity,
+			state.currentTick,
+		),
+		token0IsA,
+		sqrtPriceX96: BigInt(state.sqrtPriceX96),
+		tick: state.currentTick,
+		liquidity: BigInt(state.liquidity),
+	};
 }
 
 /**
- * Convert readable amount to raw amount with decimals
+ * An empty pool at a starting price of tokenA in tokenB, for previewing a mint
+ * into a pool that does not exist yet
  */
-export function fromReadableAmount(amount: number, decimals: number): bigint {
-	return BigInt(Math.floor(amount * 10 ** decimals));
+export function createPoolAtPrice(spec: PoolSpec, price: number): PoolData {
+	const { feeTier } = spec;
+	const { token0, token1, token0IsA } = getPoolTokens(spec);
+	const sqrtPriceX96 = priceToSqrtPriceX96(
+		token0IsA ? price : 1 / price,
+		token0.decimals,
+		token1.decimals,
+	);
+	const tick = getTickAtSqrtPrice(sqrtPriceX96);
+	const state = { token0IsA, sqrtPriceX96, tick, liquidity: 0n };
+
+	if (spec.protocolVersion === "PROTOCOL_VERSION_V4") {
+		return {
+			...state,
+			protocolVersion: "PROTOCOL_VERSION_V4",
+			pool: new V4Pool(
+				token0,
+				token1,
+				feeTier,
+				getTickSpacing(feeTier),
+				spec.hookAddress ?? zeroAddress,
+				sqrtPriceX96.toString(),
+				"0",
+				tick,
+			),
+		};
+	}
+
+	return {
+		...state,
+		protocolVersion: "PROTOCOL_VERSION_V3",
+		pool: new V3Pool(
+			token0,
+			token1,
+			feeTier,
+			sqrtPriceX96.toString(),
+			"0",
+			tick,
+		),
+	};
 }
 
 /**
- * Convert raw amount to readable amount
+ * Current price of the spec's tokenA in tokenB
  */
-export function toReadableAmount(rawAmount: bigint, decimals: number): number {
-	return Number(rawAmount) / 10 ** decimals;
+export function getPoolPrice(poolData: PoolData): number {
+	const { pool, token0IsA } = poolData;
+	return Number(
+		(token0IsA ? pool.token0Price : pool.token1Price).toSignificant(6),
+	);
 }
@@ -0,0 +1,186 @@
+import { nearestUsableTick, TickMath } from "@uniswap/v3-sdk";
+
+/**
+ * Price range of tokenA denominated in tokenB, as entered in the mint form
+ */
+export interface PriceRange {
+	minPrice: number;
+	maxPrice: number;
+}
+
+export interface RangePreset {
+	label: string;
+	// Half width of the range around the current price in percent, null for full range
+	percent: number | null;
+}
+
+export const RANGE_PRESETS: RangePreset[] = [
+	{ label: "Stable", percent: 0.1 },
+	{ label: "±1%", percent: 1 },
+	{ label: "±5%", percent: 5 },
+	{ label: "±10%", percent: 10 },
+	{ label: "Full Range", percent: null },
+];
+
+interface RangeToken {
+	address: string;
+	decimals: number;
+}
+
+// Mirrors getTickSpacing on the server
+export function getTickSpacing(feeTier: number): number {
+	switch (feeTier) {
+		case 100:
+			return 1; // 0.01%
+		case 500:
+			return 10; // 0.05%
+		case 3000:
+			return 60; // 0.3%
+		case 10000:
+			return 200; // 1%
+		default:
+			return 60; // Default to 0.3% fee tier
+	}
+}
+
+/**
+ * Largest tick whose price does not exceed the given human readable price of token0 in token1
+ */
+export function priceToTick(
+	price: number,
+	decimals0: number,
+	decimals1: number,
+): number {
+	const rawPrice = price * 10 ** (decimals1 - decimals0);
+	const tick = Math.floor(Math.log(rawPrice) / Math.log(1.0001));
+	return Math.min(Math.max(tick, TickMath.MIN_TICK), TickMath.MAX_TICK);
+}
+
+/**
+ * Human readable price of token0 in token1 at a tick
+ */
+export function tickToPrice(
+	tick: number,
+	decimals0: number,
+	decimals1: number,
+): number {
+	return 1.0001 ** tick * 10 ** (decimals0 - decimals1);
+}
+
+/**
+ * sqrt(price) * 2^96 for a human readable price of token0 in token1, used as the
+ * starting price of a new pool
+ */
+export function priceToSqrtPriceX96(
+	price: number,
+	decimals0: number,
+	decimals1: number,
+): bigint {
+	const sqrtPrice = Math.sqrt(price * 10 ** (decimals1 - decimals0));
+	return BigInt(Math.floor(sqrtPrice * 2 ** 96));
+}
+
+/**
+ * Greatest tick whose sqrt ratio does not exceed sqrtPriceX96, matching TickMath.getTickAtSqrtRatio
+ */
+export function getTickAtSqrtPrice(sqrtPriceX96: bigint): number {
+	const sqrtRatioAt = (tick: number) =>
+		BigInt(TickMath.getSqrtRatioAtTick(tick).toString());
+	const ratio = Number(sqrtPriceX96) / 2 ** 96;
+	let tick = Math.floor((2 * Math.log(ratio)) / Math.log(1.0001));
+	tick = Math.min(Math.max(tick, TickMath.MIN_TICK), TickMath.MAX_TICK - 1);
+
+	// The float estimate can be off by one either way near a tick boundary
+	while (tick > TickMath.MIN_TICK && sqrtRatioAt(tick) > sqrtPriceX96) tick--;
+	while (
+		tick < TickMath.MAX_TICK - 1 &&
+		sqrtRatioAt(tick + 1) <= sqrtPriceX96
+	) {
+		tick++;
+	}
+	return tick;
+}
+
+/**
+ * Compact display of a price, six significant digits without trailing zeros
+ */
+export function formatPrice(price: number): string {
+	if (!Number.isFinite(price)) return "∞";
+	return Number(price.toPrecision(6)).toString();
+}
+
+/**
+ * Symmetric range around the current price, e.g. ±5% for a percent of 5
+ */
+export function getPresetRange(
+	currentPrice: number,
+	percent: number,
+): PriceRange {
+	return {
+		minPrice: currentPrice * (1 - percent / 100),
+		maxPrice: currentPrice * (1 + percent / 100),
+	};
+}
+
+/**
+ * The same range expressed as the price of tokenB in tokenA
+ */
+export function invertPriceRange(range: PriceRange): PriceRange {
+	return { minPrice: 1 / range.maxPrice, maxPrice: 1 / range.minPrice };
+}
+
+export function isValidPriceRange(
+	range: Partial<PriceRange> | null,
+): range is PriceRange {
+	return (
+		!!range &&
+		Number.isFinite(range.minPrice) &&
+		Number.isFinite(range.maxPrice) &&
+		(range.minPrice ?? 0) > 0 &&
+		(range.maxPrice ?? 0) > (range.minPrice ?? 0)
+	);
+}
+
+/**
+ * Convert a tokenA/tokenB price range to usable ticks, matching the server's
+ * conversion in mintPosition. Also returns the range the ticks actually cover,
+ * which differs from the input by up to one tick spacing.
+ */
+export function priceRangeToTicks(
+	range: PriceRange,
+	tokenA: RangeToken,
+	tokenB: RangeToken,
+	tickSpacing: number,
+): { tickLower: number; tickUpper: number; snapped: PriceRange } {
+	// Pools order their tokens by address, prices are quoted as token0 in token1
+	const token0IsA = tokenA.address.toLowerCase() < tokenB.address.toLowerCase();
+	const [token0, token1] = token0IsA ? [tokenA, tokenB] : [tokenB, tokenA];
+	const range0 = token0IsA ? range : invertPriceRange(range);
+
+	let tickLower = nearestUsableTick(
+		priceToTick(range0.minPrice, token0.decimals, token1.decimals),
+		tickSpacing,
+	);
+	let tickUpper = nearestUsableTick(
+		priceToTick(range0.maxPrice, token0.decimals, token1.decimals),
+		tickSpacing,
+	);
+	if (tickUpper <= tickLower) {
+		tickUpper = tickLower + tickSpacing;
+	}
+	if (tickUpper > TickMath.MAX_TICK) {
+		tickUpper = tickLower;
+		tickLower -= tickSpacing;
+	}
+
+	const snapped0 = {
+		minPrice: tickToPrice(tickLower, token0.decimals, token1.decimals),
+		maxPrice: tickToPrice(tickUpper, token0.decimals, token1.decimals),
+	};
+
+	return {
+		tickLower,
+		tickUpper,
+		snapped: token0IsA ? snapped0 : invertPriceRange(snapped0),
+	};
+}
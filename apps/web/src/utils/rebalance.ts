@@ -0,0 +1,231 @@
+import { nearestUsableTick, TickMath } from "@uniswap/v3-sdk";
+import { Position } from "@uniswap/v4-sdk";
+import type { Address } from "viem";
+import { trpcClient } from "./trpc";
+import { getSwapLimits } from "./universal-router";
+import { buildV4Pool } from "./v4-position";
+import { quoteExactInput, REFERENCE_LIQUIDITY, type ZapSwap } from "./zap";
+
+export type RangeStrategy = "fixed_width" | "percent_band";
+
+export interface StrategyDefinition {
+	range: RangeStrategy;
+	// Tick spacings on each side for fixed_width, percent of the price on each side for percent_band
+	width: number;
+}
+
+// Full removal of the position, as prepared by the server
+export type RebalanceRemoval = Extract<
+	Awaited<ReturnType<typeof trpcClient.uniswap.decreaseLiquidity.mutate>>,
+	{ success: true }
+>;
+
+export interface RebalancePlan {
+	removal: RebalanceRemoval;
+	tickLower: number;
+	tickUpper: number;
+	// Least the removal returns: principal after slippage plus the settled fees
+	available0: bigint;
+	available1: bigint;
+	swap: ZapSwap | null;
+	// Amounts handed to the mint: what is kept plus the least the swap delivers
+	mintAmount0: bigint;
+	mintAmount1: bigint;
+	// What the new position is expected to take, and what stays in the wallet
+	deposit0: bigint;
+	deposit1: bigint;
+	leftover0: bigint;
+	leftover1: bigint;
+	// Value the swap gives up against the pool's mid price, in token1
+	swapCost: bigint;
+}
+
+const Q192 = 2n ** 192n;
+
+// Swaps worth less than this share of the position (in bps) are not worth their gas
+const DUST_BPS = 10n;
+
+/**
+ * Range of a strategy around the current tick, snapped to the tick spacing so
+ * it always contains the current price
+ */
+export function getTargetRange(
+	currentTick: number,
+	tickSpacing: number,
+	{ range, width }: StrategyDefinition,
+): { tickLower: number; tickUpper: number } {
+	let tickLower: number;
+	let tickUpper: number;
+	if (range === "fixed_width") {
+		const halfWidth = Math.max(1, Math.round(width)) * tickSpacing;
+		tickLower = nearestUsableTick(currentTick - halfWidth, tickSpacing);
+		tickUpper = tickLower + 2 * halfWidth;
+	} else {
+		const below = Math.log(1 - width / 100) / Math.log(1.0001);
+		const above = Math.log(1 + width / 100) / Math.log(1.0001);
+		tickLower = Math.floor((currentTick + below) / tickSpacing) * tickSpacing;
+		tickUpper = Math.ceil((currentTick + above) / tickSpacing) * tickSpacing;
+		if (tickUpper <= currentTick) tickUpper += tickSpacing;
+	}
+
+	return {
+		tickLower: Math.max(
+			tickLower,
+			Math.ceil(TickMath.MIN_TICK / tickSpacing) * tickSpacing,
+		),
+		tickUpper: Math.min(
+			tickUpper,
+			Math.floor(TickMath.MAX_TICK / tickSpacing) * tickSpacing,
+		),
+	};
+}
+
+/**
+ * Plan re-centering a V4 position: remove all of it and burn the NFT, swap the
+ * excess side so the tokens match the new range's ratio, then mint into the
+ * same pool (hooks included).
+ *
+ * The swap only sells what the removal is guaranteed to return, and the mint
+ * only counts on what the swap is guaranteed to deliver; anything the new
+ * position does not take stays in the wallet.
+ */
+export async function planRebalance({
+	chainId,
+	tokenId,
+	owner,
+	strategy,
+	slippageTolerance,
+}: {
+	chainId: number;
+	tokenId: string;
+	owner: Address;
+	strategy: StrategyDefinition;
+	slippageTolerance: number;
+}): Promise<RebalancePlan> {
+	const removal = await trpcClient.uniswap.decreaseLiquidity.mutate({
+		chainId,
+		tokenId,
+		owner,
+		liquidityPercentage: 100,
+	});
+	if (!removal.success) {
+		throw new Error(removal.message);
+	}
+
+	const { poolKey, poolState, positionParams } = removal;
+	const pool = buildV4Pool(poolKey, poolState);
+	const { tickLower, tickUpper } = getTargetRange(
+		poolState.currentTick,
+		poolKey.tickSpacing,
+		strategy,
+	);
+
+	const slippageBps = BigInt(Math.floor(slippageTolerance * 100));
+	const fees0 = BigInt(positionParams.feesAmount0);
+	const fees1 = BigInt(positionParams.feesAmount1);
+	const expected0 = BigInt(positionParams.expectedAmount0) + fees0;
+	const expected1 = BigInt(positionParams.expectedAmount1) + fees1;
+	const available0 =
+		(BigInt(positionParams.expectedAmount0) * (10_000n - slippageBps)) /
+			10_000n +
+		fees0;
+	const available1 =
+		(BigInt(positionParams.expectedAmount1) * (10_000n - slippageBps)) /
+			10_000n +
+		fees1;
+
+	// Token1 per token0 at the pool's price, scaled by 2^192
+	const sqrtPriceX96 = BigInt(poolState.sqrtPriceX96);
+	const priceX192 = sqrtPriceX96 * sqrtPriceX96;
+	const toToken1 = (amount0: bigint) => (amount0 * priceX192) / Q192;
+
+	// Share of the value the new range holds in token1
+	const ratio = new Position({
+		pool,
+		tickLower,
+		tickUpper,
+		liquidity: REFERENCE_LIQUIDITY.toString(),
+	}).mintAmounts;
+	const need0 = toToken1(BigInt(ratio.amount0.toString()));
+	const need1 = BigInt(ratio.amount1.toString());
+	const total = toToken1(available0) + available1;
+	const target1 = need0 + need1 > 0n ? (total * need1) / (need0 + need1) : 0n;
+
+	// Sell token0 when token1 falls short of the target, token1 otherwise
+	const zeroForOne = available1 < target1;
+	const [tokenIn, tokenOut] = (
+		zeroForOne
+			? [poolKey.token0.address, poolKey.token1.address]
+			: [poolKey.token1.address, poolKey.token0.address]
+	) as [Address, Address];
+	const amountIn = zeroForOne
+		? ((target1 - available1) * Q192) / priceX192
+		: available1 - target1;
+	const amountInValue = zeroForOne ? toToken1(amountIn) : amountIn;
+
+	let swap: ZapSwap | null = null;
+	if (amountIn > 0n && amountInValue * 10_000n > total * DUST_BPS) {
+		const { amountOut, route } = await quoteExactInput(
+			chainId,
+			tokenIn,
+			tokenOut,
+			amountIn,
+		);
+		const { amountOutMin } = getSwapLimits(
+			"EXACT_INPUT",
+			amountIn,
+			amountOut,
+			slippageBps,
+		);
+		swap = {
+			tokenIn,
+			tokenOut,
+			amountIn,
+			amountOut,
+			amountOutMin,
+			route,
+		};
+	}
+
+	const sold0 = swap && zeroForOne ? swap.amountIn : 0n;
+	const sold1 = swap && !zeroForOne ? swap.amountIn : 0n;
+	const mintAmount0 =
+		available0 - sold0 + (swap && !zeroForOne ? swap.amountOutMin : 0n);
+	const mintAmount1 =
+		available1 - sold1 + (swap && zeroForOne ? swap.amountOutMin : 0n);
+
+	const { mintAmounts } = Position.fromAmounts({
+		pool,
+		tickLower,
+		tickUpper,
+		amount0: mintAmount0.toString(),
+		amount1: mintAmount1.toString(),
+		useFullPrecision: true,
+	});
+	const deposit0 = BigInt(mintAmounts.amount0.toString());
+	const deposit1 = BigInt(mintAmounts.amount1.toString());
+
+	const bought0 = swap && !zeroForOne ? swap.amountOut : 0n;
+	const bought1 = swap && zeroForOne ? swap.amountOut : 0n;
+	const swapCost = swap
+		? zeroForOne
+			? toToken1(swap.amountIn) - swap.amountOut
+			: swap.amountIn - toToken1(swap.amountOut)
+		: 0n;
+
+	return {
+		removal,
+		tickLower,
+		tickUpper,
+		available0,
+		available1,
+		swap,
+		mintAmount0,
+		mintAmount1,
+		deposit0,
+		deposit1,
+		leftover0: expected0 - sold0 + bought0 - deposit0,
+		leftover1: expected1 - sold1 + bought1 - deposit1,
+		swapCost,
+	};
+}
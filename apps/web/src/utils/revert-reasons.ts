@@ -0,0 +1,30 @@
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import type { Hash, PublicClient } from "viem";
+
+/**
+ * Recover why a mined transaction reverted by replaying it on the state of the
+ * block before it. Receipts carry no revert data, so this is the only source.
+ * Transactions earlier in the same block are not replayed, which can change
+ * the outcome; returns null when the replay succeeds.
+ */
+export async function getTransactionRevertReason(
+	client: PublicClient,
+	hash: Hash,
+): Promise<string | null> {
+	const tx = await client.getTransaction({ hash });
+	if (tx.blockNumber === null) return null;
+
+	try {
+		await client.call({
+			account: tx.from,
+			to: tx.to,
+			data: tx.input,
+			value: tx.value,
+			gas: tx.gas,
+			blockNumber: tx.blockNumber - 1n,
+		});
+		return null;
+	} catch (error) {
+		return describeError(error, "Execution reverted");
+	}
+}
@@ -0,0 +1,123 @@
+import { describeError } from "@my-better-t-app/shared/revert-reasons";
+import {
+	type Address,
+	BaseError,
+	ethAddress,
+	type Hex,
+	type Log,
+	MethodNotFoundRpcError,
+	MethodNotSupportedRpcError,
+	type PublicClient,
+	zeroAddress,
+} from "viem";
+
+interface Call {
+	to: Address;
+	data: Hex;
+	value: bigint;
+}
+
+export interface AssetChange {
+	address: Address; // zero address for native currency
+	symbol: string | undefined;
+	decimals: number | undefined;
+	diff: bigint; // signed change of the sender's balance
+}
+
+interface SimulationSuccess {
+	status: "success";
+	// Net changes to the sender's balances over the whole batch
+	assetChanges: AssetChange[];
+	// Logs emitted by each call, in call order
+	logs: Log[][];
+	gasUsed: bigint;
+	// Gas cost in native currency at the current gas price
+	gasCost: bigint;
+}
+
+interface SimulationReverted {
+	status: "reverted";
+	callIndex: number;
+	reason: string;
+}
+
+// The RPC cannot simulate a batch, nothing is known about the outcome
+interface SimulationUnsupported {
+	status: "unsupported";
+	reason: string;
+}
+
+export type CallsSimulation =
+	| SimulationSuccess
+	| SimulationReverted
+	| SimulationUnsupported;
+
+function isUnsupportedMethod(error: unknown): boolean {
+	return (
+		error instanceof BaseError &&
+		!!error.walk(
+			(e) =>
+				e instanceof MethodNotFoundRpcError ||
+				e instanceof MethodNotSupportedRpcError,
+		)
+	);
+}
+
+/**
+ * Simulate a batch of calls from account against the latest block. The calls
+ * run in order on shared state (eth_simulateV1), so approvals earlier in the
+ * batch are in effect for the calls after them.
+ */
+export async function simulateCalls(
+	client: PublicClient,
+	account: Address,
+	calls: Call[],
+): Promise<CallsSimulation> {
+	try {
+		const [{ results, assetChanges }, gasPrice] = await Promise.all([
+			client.simulateCalls({
+				account,
+				calls,
+				traceAssetChanges: true,
+			}),
+			client.getGasPrice(),
+		]);
+
+		const failed = results.findIndex((result) => result.status === "failure");
+		if (failed !== -1) {
+			const { error } = results[failed];
+			return {
+				status: "reverted",
+				callIndex: failed,
+				reason: describeError(error, "Execution reverted"),
+			};
+		}
+
+		const gasUsed = results.reduce(
+			(total, result) => total + result.gasUsed,
+			0n,
+		);
+		return {
+			status: "success",
+			assetChanges: assetChanges
+				.filter(({ value }) => value.diff !== 0n)
+				.map(({ token, value }) => ({
+					address: token.address === ethAddress ? zeroAddress : token.address,
+					symbol: token.symbol,
+					decimals: token.decimals,
+					diff: value.diff,
+				})),
+			logs: results.map((result) => result.logs ?? []),
+			gasUsed,
+			gasCost: gasUsed * gasPrice,
+		};
+	} catch (error) {
+		if (isUnsupportedMethod(error)) {
+			return {
+				status: "unsupported",
+				reason: "The network's RPC does not support transaction simulation",
+			};
+		}
+		throw error;
+	}
+}
@@ -0,0 +1,321 @@
+import {
+	type Address,
+	concat,
+	encodeAbiParameters,
+	encodeFunctionData,
+	type Hex,
+	numberToHex,
+	toHex,
+	zeroAddress,
+} from "viem";
+import type { ProtocolVersion } from "./pool";
+import { getTickSpacing } from "./price-range";
+
+export type TradeType = "EXACT_INPUT" | "EXACT_OUTPUT";
+
+/**
+ * Route to swap along, as returned by the quote procedure
+ */
+export interface SwapRoute {
+	protocolVersion: ProtocolVersion;
+	// Currencies from input to output, with the fee tier of the pool between each pair
+	path: Address[];
+	fees: number[];
+}
+
+export interface SwapLimits {
+	amountInMax: bigint;
+	amountOutMin: bigint;
+}
+
+interface EncodeSwapParams extends SwapLimits {
+	route: SwapRoute;
+	tradeType: TradeType;
+	amountIn: bigint;
+	amountOut: bigint;
+	deadline: bigint;
+	// Native currency on either side; V3 routes carry it as the wrapped token
+	nativeIn: boolean;
+	nativeOut: boolean;
+}
+
+const UNIVERSAL_ROUTER_ABI = [
+	{
+		inputs: [
+			{ name: "commands", type: "bytes" },
+			{ name: "inputs", type: "bytes[]" },
+			{ name: "deadline", type: "uint256" },
+		],
+		name: "execute",
+		outputs: [],
+		stateMutability: "payable",
+		type: "function",
+	},
+] as const;
+
+// Universal Router commands
+const Commands = {
+	V3_SWAP_EXACT_IN: 0x00,
+	V3_SWAP_EXACT_OUT: 0x01,
+	SWEEP: 0x04,
+	WRAP_ETH: 0x0b,
+	UNWRAP_WETH: 0x0c,
+	V4_SWAP: 0x10,
+} as const;
+
+// V4Router actions run inside a V4_SWAP command
+const Actions = {
+	SWAP_EXACT_IN: 0x07,
+	SWAP_EXACT_OUT: 0x09,
+	SETTLE_ALL: 0x0c,
+	TAKE_ALL: 0x0f,
+} as const;
+
+// Recipient placeholders the router resolves to the caller and to itself
+const MSG_SENDER: Address = "0x0000000000000000000000000000000000000001";
+const ADDRESS_THIS: Address = "0x0000000000000000000000000000000000000002";
+
+const PATH_KEY_COMPONENTS = [
+	{ name: "intermediateCurrency", type: "address" },
+	{ name: "fee", type: "uint24" },
+	{ name: "tickSpacing", type: "int24" },
+	{ name: "hooks", type: "address" },
+	{ name: "hookData", type: "bytes" },
+] as const;
+
+const V4_EXACT_INPUT_PARAMS = [
+	{
+		type: "tuple",
+		components: [
+			{ name: "currencyIn", type: "address" },
+			{ name: "path", type: "tuple[]", components: PATH_KEY_COMPONENTS },
+			{ name: "amountIn", type: "uint128" },
+			{ name: "amountOutMinimum", type: "uint128" },
+		],
+	},
+] as const;
+
+const V4_EXACT_OUTPUT_PARAMS = [
+	{
+		type: "tuple",
+		components: [
+			{ name: "currencyOut", type: "address" },
+			{ name: "path", type: "tuple[]", components: PATH_KEY_COMPONENTS },
+			{ name: "amountOut", type: "uint128" },
+			{ name: "amountInMaximum", type: "uint128" },
+		],
+	},
+] as const;
+
+const BPS = 10_000n;
+
+interface Command {
+	type: number;
+	input: Hex;
+}
+
+/**
+ * Amounts a swap may spend and must deliver for a slippage tolerance in basis
+ * points. Only the side the quote left open moves, the exact side is kept.
+ */
+export function getSwapLimits(
+	tradeType: TradeType,
+	amountIn: bigint,
+	amountOut: bigint,
+	slippageBps: bigint,
+): SwapLimits {
+	return tradeType === "EXACT_INPUT"
+		? {
+				amountInMax: amountIn,
+				amountOutMin: (amountOut * (BPS - slippageBps)) / BPS,
+			}
+		: {
+				amountInMax: (amountIn * (BPS + slippageBps) + BPS - 1n) / BPS,
+				amountOutMin: amountOut,
+			};
+}
+
+/**
+ * V3 path encoding: token, fee, token, ... in swap order
+ */
+function encodeV3Path(path: Address[], fees: number[]): Hex {
+	return concat(
+		path.flatMap((token, i) =>
+			i < fees.length ? [token, numberToHex(fees[i], { size: 3 })] : [token],
+		),
+	);
+}
+
+function encodeV3Commands({
+	route,
+	tradeType,
+	amountIn,
+	amountOut,
+	amountInMax,
+	amountOutMin,
+	nativeIn,
+	nativeOut,
+}: EncodeSwapParams): Command[] {
+	const exactInput = tradeType === "EXACT_INPUT";
+	const commands: Command[] = [];
+
+	// Native input is wrapped inside the router, which then pays the pool itself
+	if (nativeIn) {
+		commands.push({
+			type: Commands.WRAP_ETH,
+			input: encodeAbiParameters(
+				[{ type: "address" }, { type: "uint256" }],
+				[ADDRESS_THIS, amountInMax],
+			),
+		});
+	}
+
+	commands.push({
+		type: exactInput ? Commands.V3_SWAP_EXACT_IN : Commands.V3_SWAP_EXACT_OUT,
+		input: encodeAbiParameters(
+			[
+				{ type: "address" },
+				{ type: "uint256" },
+				{ type: "uint256" },
+				{ type: "bytes" },
+				{ type: "bool" },
+			],
+			[
+				nativeOut ? ADDRESS_THIS : MSG_SENDER,
+				exactInput ? amountIn : amountOut,
+				exactInput ? amountOutMin : amountInMax,
+				// Exact output paths are encoded from the output backwards
+				exactInput
+					? encodeV3Path(route.path, route.fees)
+					: encodeV3Path([...route.path].reverse(), [...route.fees].reverse()),
+				!nativeIn,
+			],
+		),
+	});
+
+	// Unwrap the output for native currency, or the unspent input of an exact output swap
+	if (nativeOut || (nativeIn && !exactInput)) {
+		commands.push({
+			type: Commands.UNWRAP_WETH,
+			input: encodeAbiParameters(
+				[{ type: "address" }, { type: "uint256" }],
+				[MSG_SENDER, nativeOut ? amountOutMin : 0n],
+			),
+		});
+	}
+
+	return commands;
+}
+
+function encodeV4Commands({
+	route: { path, fees },
+	tradeType,
+	amountIn,
+	amountOut,
+	amountInMax,
+	amountOutMin,
+	nativeIn,
+}: EncodeSwapParams): Command[] {
+	const pathKey = (intermediateCurrency: Address, fee: number) => ({
+		intermediateCurrency,
+		fee,
+		tickSpacing: getTickSpacing(fee),
+		hooks: zeroAddress,
+		hookData: "0x" as Hex,
+	});
+	const currencyIn = path[0];
+	const currencyOut = path[path.length - 1];
+
+	const swap =
+		tradeType === "EXACT_INPUT"
+			? {
+					action: Actions.SWAP_EXACT_IN,
+					// Each path key names the currency a hop swaps into
+					params: encodeAbiParameters(V4_EXACT_INPUT_PARAMS, [
+						{
+							currencyIn,
+							path: fees.map((fee, i) => pathKey(path[i + 1], fee)),
+							amountIn,
+							amountOutMinimum: amountOutMin,
+						},
+					]),
+				}
+			: {
+					action: Actions.SWAP_EXACT_OUT,
+					// Walked from the output backwards, each key names the currency a hop swaps from
+					params: encodeAbiParameters(V4_EXACT_OUTPUT_PARAMS, [
+						{
+							currencyOut,
+							path: fees.map((fee, i) => pathKey(path[i], fee)),
+							amountOut,
+							amountInMaximum: amountInMax,
+						},
+					]),
+				};
+
+	const currencyAmount = [{ type: "address" }, { type: "uint256" }] as const;
+	const actions = [
+		swap,
+		{
+			action: Actions.SETTLE_ALL,
+			params: encodeAbiParameters(currencyAmount, [currencyIn, amountInMax]),
+		},
+		{
+			action: Actions.TAKE_ALL,
+			params: encodeAbiParameters(currencyAmount, [currencyOut, amountOutMin]),
+		},
+	];
+
+	const commands: Command[] = [
+		{
+			type: Commands.V4_SWAP,
+			input: encodeAbiParameters(
+				[{ type: "bytes" }, { type: "bytes[]" }],
+				[
+					concat(actions.map(({ action }) => toHex(action, { size: 1 }))),
+					actions.map(({ params }) => params),
+				],
+			),
+		},
+	];
+
+	// ETH sent above what an exact output swap settled stays in the router
+	if (nativeIn && tradeType === "EXACT_OUTPUT") {
+		commands.push({
+			type: Commands.SWEEP,
+			input: encodeAbiParameters(
+				[{ type: "address" }, { type: "address" }, { type: "uint160" }],
+				[zeroAddress, MSG_SENDER, 0n],
+			),
+		});
+	}
+
+	return commands;
+}
+
+/**
+ * Encode a Universal Router execute call for a quoted route. ERC20 input is
+ * pulled from the caller through Permit2, native input is sent as value.
+ */
+export function encodeSwapCall(params: EncodeSwapParams): {
+	calldata: Hex;
+	value: bigint;
+} {
+	const commands =
+		params.route.protocolVersion === "PROTOCOL_VERSION_V4"
+			? encodeV4Commands(params)
+			: encodeV3Commands(params);
+
+	return {
+		calldata: encodeFunctionData({
+			abi: UNIVERSAL_ROUTER_ABI,
+			functionName: "execute",
+			args: [
+				concat(commands.map(({ type }) => toHex(type, { size: 1 }))),
+				commands.map(({ input }) => input),
+				params.deadline,
+			],
+		}),
+		value: params.nativeIn ? params.amountInMax : 0n,
+	};
+}
@@ -0,0 +1,79 @@
+import { type Currency, Ether, Token as SDKToken } from "@uniswap/sdk-core";
+import { Pool, Position } from "@uniswap/v4-sdk";
+import { type Address, zeroAddress } from "viem";
+
+interface PoolTokenInfo {
+	chainId: number;
+	address: string;
+	decimals: number;
+	symbol: string;
+	name: string;
+}
+
+interface PoolState {
+	sqrtPriceX96: string;
+	currentTick: number;
+	currentLiquidity: string;
+}
+
+interface PoolKeyInfo {
+	token0: PoolTokenInfo;
+	token1: PoolTokenInfo;
+	fee: number;
+	tickSpacing: number;
+	hookAddress: string;
+}
+
+interface ExistingPositionParams {
+	tickLower: number;
+	tickUpper: number;
+	liquidity: string;
+}
+
+/**
+ * Convert a server token into an SDK currency; V4 represents native ETH as the zero address
+ */
+export function toSdkCurrency(token: PoolTokenInfo): Currency {
+	if (token.address.toLowerCase() === zeroAddress) {
+		return Ether.onChain(token.chainId);
+	}
+	return new SDKToken(
+		token.chainId,
+		token.address,
+		token.decimals,
+		token.symbol,
+		token.name,
+	);
+}
+
+/**
+ * Build a V4 pool instance from the pool key and state returned by the server
+ */
+export function buildV4Pool(poolKey: PoolKeyInfo, poolState: PoolState): Pool {
+	return new Pool(
+		toSdkCurrency(poolKey.token0),
+		toSdkCurrency(poolKey.token1),
+		poolKey.fee,
+		poolKey.tickSpacing,
+		poolKey.hookAddress as Address,
+		poolState.sqrtPriceX96, // BigintIsh accepts string
+		poolState.currentLiquidity, // BigintIsh accepts string
+		poolState.currentTick,
+	);
+}
+
+/**
+ * Rebuild an existing V4 position from on-chain state returned by the server
+ */
+export function buildV4Position(
+	poolKey: PoolKeyInfo,
+	poolState: PoolState,
+	positionParams: ExistingPositionParams,
+): Position {
+	return new Position({
+		pool: buildV4Pool(poolKey, poolState),
+		liquidity: positionParams.liquidity,
+		tickLower: positionParams.tickLower,
+		tickUpper: positionParams.tickUpper,
+	});
+}
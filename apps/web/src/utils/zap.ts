@@ -0,0 +1,305 @@
+import { isDecimalString, parseAmount } from "@my-better-t-app/shared/amounts";
+import type { Token } from "@uniswap/sdk-core";
+import { Position as V3Position } from "@uniswap/v3-sdk";
+import { Position as V4Position } from "@uniswap/v4-sdk";
+import type { Address } from "viem";
+import { calculateTickBoundaries } from "./amount-calculator";
+import {
+	createPoolAtPrice,
+	fetchPoolData,
+	type PoolData,
+	type PoolSpec,
+} from "./pool";
+import { invertPriceRange, type PriceRange } from "./price-range";
+import { trpcClient } from "./trpc";
+import { getSwapLimits, type SwapRoute } from "./universal-router";
+
+export interface ZapToken {
+	address: Address;
+	symbol: string;
+	decimals: number;
+}
+
+export interface PlanZapParams {
+	tokenA: Token;
+	tokenB: Token;
+	feeTier: number;
+	// Token the user supplies: tokenA, tokenB or any other token on the chain
+	inputToken: ZapToken;
+	inputAmount: string; // decimal string as entered
+	fullRange: boolean;
+	// Price of tokenA in tokenB
+	priceRange?: PriceRange;
+	// Starting price of tokenA in tokenB for a pool that does not exist yet
+	initialPrice?: number;
+	slippageTolerance: number;
+}
+
+export interface ZapSwap {
+	tokenIn: Address;
+	tokenOut: Address;
+	amountIn: bigint;
+	amountOut: bigint; // quoted, before slippage
+	amountOutMin: bigint;
+	route: SwapRoute;
+}
+
+export interface ZapPlan {
+	inputToken: ZapToken;
+	inputAmount: bigint;
+	swaps: ZapSwap[];
+	// Amounts handed to the mint: the kept input plus the least each swap delivers
+	mintAmountA: bigint;
+	mintAmountB: bigint;
+	// What the position is expected to take, and what stays in the wallet
+	depositA: bigint;
+	depositB: bigint;
+	leftoverA: bigint;
+	leftoverB: bigint;
+}
+
+// Any liquidity works to read the range's token ratio, large enough to keep rounding out of it
+export const REFERENCE_LIQUIDITY = 10n ** 24n;
+
+interface Rate {
+	amountIn: bigint;
+	amountOut: bigint;
+}
+
+// Exchanging a token for itself
+const IDENTITY_RATE: Rate = { amountIn: 1n, amountOut: 1n };
+
+function sameAddress(a: string, b: string): boolean {
+	return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Amounts of token0 and token1 the range takes for the same liquidity at the
+ * pool's current price
+ */
+function getDepositRatio(
+	poolData: PoolData,
+	tickLower: number,
+	tickUpper: number,
+): { amount0: bigint; amount1: bigint } {
+	const range = {
+		tickLower,
+		tickUpper,
+		liquidity: REFERENCE_LIQUIDITY.toString(),
+	};
+	const { amount0, amount1 } =
+		poolData.protocolVersion === "PROTOCOL_VERSION_V4"
+			? new V4Position({ ...range, pool: poolData.pool }).mintAmounts
+			: new V3Position({ ...range, pool: poolData.pool }).mintAmounts;
+	return {
+		amount0: BigInt(amount0.toString()),
+		amount1: BigInt(amount1.toString()),
+	};
+}
+
+/**
+ * Amounts of token0 and token1 a position takes out of what is available
+ */
+function getDepositAmounts(
+	poolData: PoolData,
+	tickLower: number,
+	tickUpper: number,
+	amount0: bigint,
+	amount1: bigint,
+): { amount0: bigint; amount1: bigint } {
+	const params = {
+		tickLower,
+		tickUpper,
+		amount0: amount0.toString(),
+		amount1: amount1.toString(),
+		useFullPrecision: true,
+	};
+	const { mintAmounts } =
+		poolData.protocolVersion === "PROTOCOL_VERSION_V4"
+			? V4Position.fromAmounts({ ...params, pool: poolData.pool })
+			: V3Position.fromAmounts({ ...params, pool: poolData.pool });
+	return {
+		amount0: BigInt(mintAmounts.amount0.toString()),
+		amount1: BigInt(mintAmounts.amount1.toString()),
+	};
+}
+
+export async function quoteExactInput(
+	chainId: number,
+	tokenIn: Address,
+	tokenOut: Address,
+	amountIn: bigint,
+): Promise<{ amountOut: bigint; route: SwapRoute }> {
+	const result = await trpcClient.uniswap.quote.query({
+		chainId,
+		tokenIn,
+		tokenOut,
+		amount: amountIn.toString(),
+	});
+	if (!result.success) {
+		throw new Error(result.message);
+	}
+	return {
+		amountOut: BigInt(result.quote.amountOut),
+		route: result.quote.bestRoute,
+	};
+}
+
+/**
+ * Split of amount into the parts to turn into tokenA and tokenB so that, at
+ * the given exchange rates from the input token, they match the range's ratio
+ */
+function splitForRatio(
+	amount: bigint,
+	needA: bigint,
+	needB: bigint,
+	rateA: Rate,
+	rateB: Rate,
+): { partA: bigint; partB: bigint } {
+	// partA * outA / inA : partB * outB / inB = needA : needB
+	const weightA = rateB.amountOut * rateA.amountIn * needA;
+	const weightB = rateA.amountOut * rateB.amountIn * needB;
+	const partA = (amount * weightA) / (weightA + weightB);
+	return { partA, partB: amount - partA };
+}
+
+/**
+ * Plan a single sided deposit: how much of the input to swap into each of the
+ * pair's tokens so the position takes as much of it as possible.
+ *
+ * Exchange rates are first probed with half the input, then the swaps are
+ * quoted at their final sizes. The pool's price is read before the swaps, so a
+ * swap through the same pool shifts the ratio slightly; the mint's slippage
+ * tolerance absorbs that and the difference is left over.
+ */
+export async function planZap(params: PlanZapParams): Promise<ZapPlan> {
+	const {
+		tokenA,
+		tokenB,
+		feeTier,
+		inputToken,
+		inputAmount,
+		fullRange,
+		priceRange,
+		initialPrice,
+		slippageTolerance,
+	} = params;
+	const chainId = tokenA.chainId;
+	const spec: PoolSpec = {
+		protocolVersion: "PROTOCOL_VERSION_V4",
+		tokenA,
+		tokenB,
+		feeTier,
+	};
+
+	const amount = isDecimalString(inputAmount)
+		? parseAmount(inputAmount, inputToken.decimals)
+		: 0n;
+	if (amount <= 0n) {
+		throw new Error("Input amount must be greater than 0");
+	}
+
+	const poolData = initialPrice
+		? createPoolAtPrice(spec, initialPrice)
+		: await fetchPoolData(spec);
+	if (!poolData) {
+		throw new Error("Pool not found for this token pair and fee tier");
+	}
+
+	const { token0IsA } = poolData;
+	const { tickLower, tickUpper } = calculateTickBoundaries(
+		poolData,
+		fullRange,
+		500, // the mint's default, only used without a price range
+		priceRange && (token0IsA ? priceRange : invertPriceRange(priceRange)),
+	);
+
+	const ratio = getDepositRatio(poolData, tickLower, tickUpper);
+	const [needA, needB] = token0IsA
+		? [ratio.amount0, ratio.amount1]
+		: [ratio.amount1, ratio.amount0];
+	if (needA === 0n || needB === 0n) {
+		throw new Error(
+			"Zapping needs a price range that contains the current price",
+		);
+	}
+
+	const sides = [tokenA, tokenB].map((token) => ({
+		token: token.address as Address,
+		isInput: sameAddress(token.address, inputToken.address),
+	}));
+
+	// 1. Probe the exchange rate into each side the input is not already on
+	const probeAmount = amount / 2n > 0n ? amount / 2n : amount;
+	const [rateA, rateB] = await Promise.all(
+		sides.map(async ({ token, isInput }): Promise<Rate> => {
+			if (isInput) return IDENTITY_RATE;
+			const { amountOut } = await quoteExactInput(
+				chainId,
+				inputToken.address,
+				token,
+				probeAmount,
+			);
+			return { amountIn: probeAmount, amountOut };
+		}),
+	);
+	const { partA, partB } = splitForRatio(amount, needA, needB, rateA, rateB);
+
+	// 2. Quote the swaps at their final sizes
+	const slippageBps = BigInt(Math.floor(slippageTolerance * 100));
+	const legs = await Promise.all(
+		sides.map(async ({ token, isInput }, i) => {
+			const part = i === 0 ? partA : partB;
+			if (isInput || part === 0n) {
+				return { expected: part, minimum: part, swap: null };
+			}
+
+			const { amountOut, route } = await quoteExactInput(
+				chainId,
+				inputToken.address,
+				token,
+				part,
+			);
+			const { amountOutMin } = getSwapLimits(
+				"EXACT_INPUT",
+				part,
+				amountOut,
+				slippageBps,
+			);
+			const swap: ZapSwap = {
+				tokenIn: inputToken.address,
+				tokenOut: token,
+				amountIn: part,
+				amountOut,
+				amountOutMin,
+				route,
+			};
+			return { expected: amountOut, minimum: amountOutMin, swap };
+		}),
+	);
+	const [legA, legB] = legs;
+
+	// 3. The mint only counts on what the swaps are guaranteed to deliver
+	const deposit = getDepositAmounts(
+		poolData,
+		tickLower,
+		tickUpper,
+		token0IsA ? legA.minimum : legB.minimum,
+		token0IsA ? legB.minimum : legA.minimum,
+	);
+	const [depositA, depositB] = token0IsA
+		? [deposit.amount0, deposit.amount1]
+		: [deposit.amount1, deposit.amount0];
+
+	return {
+		inputToken,
+		inputAmount: amount,
+		swaps: legs.flatMap(({ swap }) => (swap ? [swap] : [])),
+		mintAmountA: legA.minimum,
+		mintAmountB: legB.minimum,
+		depositA,
+		depositB,
+		leftoverA: legA.expected - depositA,
+		leftoverB: legB.expected - depositB,
+	};
+}
@@ -0,0 +1,84 @@
+/**
+ * Token amount arithmetic
+ *
+ * Exact conversions between decimal strings and bigint base units, shared by
+ * the web app and the server so amounts never pass through floats on either
+ * side.
+ */
+
+// How digits beyond the target precision are dropped; "down" rounds towards zero
+export type Rounding = "down" | "up" | "half-up";
+
+export interface FormatAmountOptions {
+	// Fraction digits to keep, defaults to all of the token's decimals
+	maxDecimals?: number;
+	rounding?: Rounding;
+}
+
+// Integer amount in base units, as accepted by the tRPC procedures
+export const BASE_UNIT_PATTERN = /^\d+$/;
+
+const DECIMAL_PATTERN = /^(\d*)(?:\.(\d*))?$/;
+
+function divideRounded(
+	value: bigint,
+	divisor: bigint,
+	rounding: Rounding,
+): bigint {
+	const quotient = value / divisor;
+	const remainder = value % divisor;
+	if (remainder === 0n || rounding === "down") return quotient;
+	if (rounding === "up" || remainder * 2n >= divisor) return quotient + 1n;
+	return quotient;
+}
+
+/**
+ * Whether a string is a non-negative decimal number such as "1", "0.5" or ".5"
+ */
+export function isDecimalString(value: string): boolean {
+	const match = DECIMAL_PATTERN.exec(value.trim());
+	return !!match && !!(match[1] || match[2]);
+}
+
+/**
+ * Parse a decimal string such as "1.5" into base units of a token with the
+ * given decimals. Digits beyond the token's precision are dropped per rounding.
+ */
+export function parseAmount(
+	value: string,
+	decimals: number,
+	rounding: Rounding = "down",
+): bigint {
+	const match = DECIMAL_PATTERN.exec(value.trim());
+	if (!match || !(match[1] || match[2])) {
+		throw new Error(`Invalid amount: ${value}`);
+	}
+
+	const [, whole = "", fraction = ""] = match;
+	const digits = BigInt(`${whole}${fraction}` || "0");
+	const scale = decimals - fraction.length;
+	if (scale >= 0) return digits * 10n ** BigInt(scale);
+	return divideRounded(digits, 10n ** BigInt(-scale), rounding);
+}
+
+/**
+ * Format base units as a decimal string, without trailing fraction zeros
+ */
+export function formatAmount(
+	amount: bigint,
+	decimals: number,
+	{ maxDecimals = decimals, rounding = "down" }: FormatAmountOptions = {},
+): string {
+	const sign = amount < 0n ? "-" : "";
+	const shown = Math.max(Math.min(maxDecimals, decimals), 0);
+	const value = divideRounded(
+		amount < 0n ? -amount : amount,
+		10n ** BigInt(decimals - shown),
+		rounding,
+	);
+
+	const digits = value.toString().padStart(shown + 1, "0");
+	const whole = digits.slice(0, digits.length - shown);
+	const fraction = digits.slice(digits.length - shown).replace(/0+$/, "");
+	return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+}
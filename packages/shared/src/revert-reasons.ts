@@ -0,0 +1,411 @@
+/**
+ * Revert reasons of the Uniswap contracts
+ *
+ * Maps custom errors of the V4 PoolManager and PositionManager, Permit2, the
+ * Universal Router and hooks to messages a user can act on. The server reports
+ * failed reads with it, the web app failed simulations and transactions.
+ */
+import {
+	BaseError,
+	ContractFunctionRevertedError,
+	decodeErrorResult,
+	type Hex,
+	parseAbi,
+	RawContractError,
+} from "viem";
+
+export interface DecodedRevert {
+	// Custom error name, "Error" for a reason string, "Panic" for a failed assertion
+	errorName: string;
+	message: string;
+	suggestion?: string;
+}
+
+interface CatalogEntry {
+	signature: string;
+	message: string;
+	suggestion?: string;
+}
+
+const SLIPPAGE = {
+	message: "The price moved beyond your slippage tolerance",
+	suggestion: "Increase the slippage tolerance or try again.",
+};
+
+const EXPIRED = {
+	message: "The transaction deadline passed before it was mined",
+	suggestion: "Submit it again.",
+};
+
+const ERROR_CATALOG: CatalogEntry[] = [
+	// PositionManager
+	{ signature: "DeadlinePassed(uint256 deadline)", ...EXPIRED },
+	{
+		signature:
+			"MaximumAmountExceeded(uint128 maximumAmount, uint128 amountRequested)",
+		...SLIPPAGE,
+	},
+	{
+		signature:
+			"MinimumAmountInsufficient(uint128 minimumAmount, uint128 amountReceived)",
+		...SLIPPAGE,
+	},
+	{
+		signature: "NotApproved(address caller)",
+		message: "The position is not owned by or approved for this wallet",
+		suggestion: "Switch to the wallet that holds the position.",
+	},
+	{
+		signature: "PoolManagerMustBeLocked()",
+		message: "The position manager was called in the wrong state",
+	},
+	{
+		signature: "InputLengthMismatch()",
+		message: "The transaction's actions and parameters do not match",
+	},
+	{
+		signature: "UnsupportedAction(uint256 action)",
+		message: "The transaction contains an action the contract does not support",
+	},
+	{
+		signature: "DeltaNotPositive(address currency)",
+		message: "A currency was taken that the pool does not owe",
+	},
+	{
+		signature: "DeltaNotNegative(address currency)",
+		message: "A currency was settled that the pool is not owed",
+	},
+	{
+		signature: "ContractLocked()",
+		message: "The contract is in the middle of another operation",
+		suggestion: "Try again.",
+	},
+
+	// PoolManager and pool state
+	{
+		signature: "CurrencyNotSettled()",
+		message: "The transaction did not pay everything the pool is owed",
+		suggestion: "Check that the amounts and native value cover the deposit.",
+	},
+	{
+		signature: "PoolNotInitialized()",
+		message: "The pool does not exist yet",
+		suggestion: "Enter a starting price to create it.",
+	},
+	{
+		signature: "PoolAlreadyInitialized()",
+		message: "The pool was created in the meantime",
+		suggestion: "Reload the pool and mint at its current price.",
+	},
+	{
+		signature: "AlreadyUnlocked()",
+		message: "The pool manager is already in use by this transaction",
+	},
+	{
+		signature: "ManagerLocked()",
+		message: "The pool manager was called outside of an unlock",
+	},
+	{
+		signature:
+			"CurrenciesOutOfOrderOrEqual(address currency0, address currency1)",
+		message: "The pool's currencies are in the wrong order or the same",
+	},
+	{
+		signature: "TickSpacingTooLarge(int24 tickSpacing)",
+		message: "The fee tier's tick spacing is too large",
+	},
+	{
+		signature: "TickSpacingTooSmall(int24 tickSpacing)",
+		message: "The fee tier's tick spacing is too small",
+	},
+	{
+		signature: "TicksMisordered(int24 tickLower, int24 tickUpper)",
+		message: "The range's lower price is not below its upper price",
+		suggestion: "Adjust the price range.",
+	},
+	{
+		signature: "TickLowerOutOfBounds(int24 tickLower)",
+		message: "The range's lower price is below the lowest allowed price",
+		suggestion: "Raise the minimum price or use the full range.",
+	},
+	{
+		signature: "TickUpperOutOfBounds(int24 tickUpper)",
+		message: "The range's upper price is above the highest allowed price",
+		suggestion: "Lower the maximum price or use the full range.",
+	},
+	{
+		signature: "TickMisaligned(int24 tick, int24 tickSpacing)",
+		message: "The range does not line up with the pool's tick spacing",
+		suggestion: "Adjust the price range.",
+	},
+	{
+		signature: "TickLiquidityOverflow(int24 tick)",
+		message: "The range holds the most liquidity a tick can take",
+		suggestion: "Choose a different price range.",
+	},
+	{
+		signature:
+			"PriceLimitAlreadyExceeded(uint160 sqrtPriceCurrentX96, uint160 sqrtPriceLimitX96)",
+		...SLIPPAGE,
+	},
+	{
+		signature: "PriceLimitOutOfBounds(uint160 sqrtPriceLimitX96)",
+		message: "The swap's price limit is out of bounds",
+	},
+	{
+		signature: "NoLiquidityToReceiveFees()",
+		message: "The pool has no liquidity to donate fees to",
+	},
+	{
+		signature: "SwapAmountCannotBeZero()",
+		message: "The swap amount is zero",
+		suggestion: "Enter a larger amount.",
+	},
+	{
+		signature: "NonzeroNativeValue()",
+		message: "Native currency was sent to settle a token",
+	},
+	{
+		signature: "MustClearExactPositiveDelta()",
+		message: "The transaction cleared a different amount than the pool owes",
+	},
+	{
+		signature: "InvalidFeeForExactOut()",
+		message: "The pool's fee does not allow exact output swaps",
+	},
+	{
+		signature: "LPFeeTooLarge(uint24 fee)",
+		message: "The pool fee is too large",
+	},
+	{
+		signature: "UnauthorizedDynamicLPFeeUpdate()",
+		message: "Only the pool's hook can update its fee",
+	},
+	{
+		signature: "NativeTransferFailed()",
+		message: "Sending native currency failed",
+		suggestion: "Make sure the recipient can receive native currency.",
+	},
+	{
+		signature: "ERC20TransferFailed()",
+		message: "A token transfer failed",
+		suggestion: "Check the token balance and approvals.",
+	},
+	{
+		signature: "SafeCastOverflow()",
+		message: "An amount is too large for the pool",
+		suggestion: "Enter a smaller amount.",
+	},
+
+	// Hooks
+	{
+		signature: "HookAddressNotValid(address hooks)",
+		message: "The pool's hook address is not a valid hook",
+	},
+	{
+		signature: "HookCallFailed()",
+		message: "The pool's hook rejected the transaction",
+	},
+	{
+		signature: "InvalidHookResponse()",
+		message: "The pool's hook returned an invalid response",
+	},
+	{
+		signature: "SlippageCheckFailed()",
+		...SLIPPAGE,
+	},
+	{
+		signature: "HookDeltaExceedsSwapAmount()",
+		message: "The pool's hook took more than the swap amount",
+	},
+	{
+		signature:
+			"WrappedError(address target, bytes4 selector, bytes reason, bytes details)",
+		message: "A call made by the pool reverted",
+	},
+
+	// Permit2
+	{
+		signature: "AllowanceExpired(uint256 deadline)",
+		message: "The Permit2 allowance has expired",
+		suggestion: "Approve the tokens again.",
+	},
+	{
+		signature: "InsufficientAllowance(uint256 amount)",
+		message: "The Permit2 allowance does not cover the amount",
+		suggestion: "Approve a larger amount and try again.",
+	},
+	{
+		signature: "SignatureExpired(uint256 signatureDeadline)",
+		message: "The signed permit has expired",
+		suggestion: "Sign a new permit.",
+	},
+	{
+		signature: "InvalidNonce()",
+		message: "The signed permit was already used or replaced",
+		suggestion: "Sign a new permit.",
+	},
+	{
+		signature: "InvalidSignature()",
+		message: "The permit signature is invalid",
+		suggestion: "Sign a new permit.",
+	},
+	{
+		signature: "InvalidSigner()",
+		message: "The permit was signed by a different wallet",
+		suggestion: "Sign the permit with the wallet sending the transaction.",
+	},
+	{
+		signature: "InvalidSignatureLength()",
+		message: "The permit signature is malformed",
+		suggestion: "Sign a new permit.",
+	},
+	{
+		signature: "InvalidContractSignature()",
+		message: "The smart wallet rejected the permit signature",
+	},
+	{
+		signature: "ExcessiveInvalidation()",
+		message: "Too many permit nonces were invalidated at once",
+	},
+	{
+		signature: "LengthMismatch()",
+		message: "The permit's tokens and amounts do not match",
+	},
+
+	// Universal Router
+	{
+		signature: "ExecutionFailed(uint256 commandIndex, bytes message)",
+		message: "A step of the swap failed",
+	},
+	{ signature: "TransactionDeadlinePassed()", ...EXPIRED },
+	{
+		signature:
+			"V4TooLittleReceived(uint256 minAmountOutReceived, uint256 amountReceived)",
+		...SLIPPAGE,
+	},
+	{
+		signature:
+			"V4TooMuchRequested(uint256 maxAmountInRequested, uint256 amountRequested)",
+		...SLIPPAGE,
+	},
+	{ signature: "V3TooLittleReceived()", ...SLIPPAGE },
+	{ signature: "V3TooMuchRequested()", ...SLIPPAGE },
+	{
+		signature: "V3InvalidSwap()",
+		message: "The swap route is not valid for the pool",
+	},
+	{
+		signature: "InsufficientETH()",
+		message: "Not enough native currency was sent",
+		suggestion: "Check your balance and try again.",
+	},
+	{
+		signature: "InsufficientToken()",
+		...SLIPPAGE,
+	},
+];
+
+// Reason strings of contracts without custom errors
+const REASON_CATALOG: Record<string, Omit<CatalogEntry, "signature">> = {
+	TRANSFER_FROM_FAILED: {
+		message: "A token transfer failed",
+		suggestion: "Check the token balance and its approval for Permit2.",
+	},
+	STF: {
+		message: "A token transfer failed",
+		suggestion: "Check the token balance and its approval for Permit2.",
+	},
+	"Too little received": SLIPPAGE,
+	"Too much requested": SLIPPAGE,
+	"Transaction too old": EXPIRED,
+};
+
+const ERRORS_ABI = parseAbi(
+	ERROR_CATALOG.map(({ signature }) => `error ${signature}`),
+);
+
+const CATALOG_BY_NAME = new Map(
+	ERROR_CATALOG.map((entry) => [entry.signature.split("(")[0], entry]),
+);
+
+/**
+ * Decode revert data against the catalog. Errors that wrap another contract's
+ * revert (hook calls, Universal Router commands) are unwrapped to the inner one.
+ */
+export function decodeRevertData(data: Hex): DecodedRevert | null {
+	let errorName: string;
+	let args: readonly unknown[];
+	try {
+		const decoded = decodeErrorResult({ abi: ERRORS_ABI, data });
+		errorName = decoded.errorName;
+		args = decoded.args ?? [];
+	} catch {
+		return null;
+	}
+
+	if (errorName === "WrappedError" || errorName === "ExecutionFailed") {
+		const inner = decodeRevertData(
+			args[errorName === "WrappedError" ? 2 : 1] as Hex,
+		);
+		if (inner) return inner;
+	}
+
+	if (errorName === "Error") {
+		const reason = args[0] as string;
+		const known = REASON_CATALOG[reason];
+		return known ? { errorName, ...known } : { errorName, message: reason };
+	}
+
+	if (errorName === "Panic") {
+		return {
+			errorName,
+			message: `The contract hit an internal error (panic code ${args[0]})`,
+		};
+	}
+
+	const entry = CATALOG_BY_NAME.get(errorName);
+	return entry
+		? { errorName, message: entry.message, suggestion: entry.suggestion }
+		: { errorName, message: errorName };
+}
+
+/**
+ * Revert data carried by a viem error from a call, simulation or estimate
+ */
+function findRevertData(error: unknown): Hex | undefined {
+	if (!(error instanceof BaseError)) return undefined;
+
+	const reverted = error.walk(
+		(e) =>
+			e instanceof ContractFunctionRevertedError ||
+			e instanceof RawContractError,
+	);
+	if (reverted instanceof ContractFunctionRevertedError) return reverted.raw;
+	if (reverted instanceof RawContractError) {
+		return typeof reverted.data === "object"
+			? reverted.data.data
+			: reverted.data;
+	}
+	return undefined;
+}
+
+export function formatRevert({ message, suggestion }: DecodedRevert): string {
+	return suggestion ? `${message}. ${suggestion}` : message;
+}
+
+/**
+ * User-facing message for an error: a decoded revert with its suggested fix
+ * when the error carries one, otherwise viem's short message
+ */
+export function describeError(
+	error: unknown,
+	fallback = "Unknown error",
+): string {
+	const data = findRevertData(error);
+	const decoded = data ? decodeRevertData(data) : null;
+	if (decoded) return formatRevert(decoded);
+	if (error instanceof BaseError) return error.shortMessage;
+	if (error instanceof Error) return error.message;
+	return fallback;
+}